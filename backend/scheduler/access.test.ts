@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { hasPermission, hashPassword, verifyPassword } from './access';
+
+describe('Access Control', () => {
+  it('should grant each role only its own permissions', () => {
+    expect(hasPermission("admin", "users.manage")).toBe(true);
+    expect(hasPermission("company_manager", "users.manage")).toBe(false);
+    expect(hasPermission("company_manager", "schedules.publish")).toBe(true);
+    expect(hasPermission("stage_manager", "schedules.edit")).toBe(true);
+    expect(hasPermission("stage_manager", "schedules.publish")).toBe(false);
+    expect(hasPermission("cast_member", "portal.view")).toBe(true);
+    expect(hasPermission("cast_member", "schedules.view")).toBe(false);
+    expect(hasPermission("cast_member", "schedules.edit")).toBe(false);
+  });
+
+  it('should verify a password against its salted hash only', () => {
+    const stored = hashPassword("correct horse");
+
+    expect(stored).not.toContain("correct horse");
+    expect(hashPassword("correct horse")).not.toBe(stored);
+    expect(verifyPassword("correct horse", stored)).toBe(true);
+    expect(verifyPassword("correct horsf", stored)).toBe(false);
+    expect(verifyPassword("correct horse", "plain")).toBe(false);
+  });
+});
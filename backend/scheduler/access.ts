@@ -0,0 +1,69 @@
+import { randomBytes, scryptSync, timingSafeEqual, createHash } from "node:crypto";
+
+// Who may do what. Each user has one role; each endpoint asks for one permission.
+
+export type UserRole = "admin" | "company_manager" | "stage_manager" | "cast_member";
+
+export type Permission =
+  | "portal.view" // Your own calls, time off, inbox and calendar link
+  | "schedules.view" // Read schedules, reports and company data, including everyone's time off
+  | "schedules.edit" // Create, generate and change schedules, record and approve absences
+  | "schedules.publish" // Publish, lock and delete schedules
+  | "company.manage" // Cast, roles, rule sets and calendar links
+  | "users.manage" // Accounts and their roles
+  | "integrations.manage"; // Webhooks to outside tools
+
+export const USER_ROLES: UserRole[] = ["admin", "company_manager", "stage_manager", "cast_member"];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Admin",
+  company_manager: "Company manager",
+  stage_manager: "Stage manager",
+  cast_member: "Cast member"
+};
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ["portal.view", "schedules.view", "schedules.edit", "schedules.publish", "company.manage", "users.manage", "integrations.manage"],
+  company_manager: ["portal.view", "schedules.view", "schedules.edit", "schedules.publish", "company.manage"],
+  stage_manager: ["portal.view", "schedules.view", "schedules.edit"],
+  // Drafts, versions, reports and other performers' time off stay with the managers
+  cast_member: ["portal.view"]
+};
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const SESSION_DAYS = 30;
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+export function isUserRole(value: string): value is UserRole {
+  return (USER_ROLES as string[]).includes(value);
+}
+
+// Passwords are stored as "scrypt$<salt>$<hash>", both hex
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, 64);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, saltHex, hashHex] = stored.split("$");
+  if (scheme !== "scrypt" || !saltHex || !hashHex) {
+    return false;
+  }
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = scryptSync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Session tokens are only ever stored hashed, so a database leak does not hand out live sessions
+export function newSessionToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("hex");
+  return { token, tokenHash: hashSessionToken(token) };
+}
+
+export function hashSessionToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { SchedulingAlgorithm } from './algorithm';
-import { Show, CastMember, Role } from './types';
+import { Show, CastMember, Role, RoleHistory, DEFAULT_ROLE_CATALOG, DEFAULT_RULES } from './types';
 
 describe('SchedulingAlgorithm - Critical Bug Fixes', () => {
   const defaultCastMembers: CastMember[] = [
@@ -83,29 +83,25 @@ describe('SchedulingAlgorithm - Critical Bug Fixes', () => {
       }
     });
 
-    it('should prevent consecutive show violations during assignment, not just validate after', () => {
-      const algorithm = new SchedulingAlgorithm(weekShows, defaultCastMembers);
-      
-      // Test the core prevention logic by simulating assignments
+    it('should never fill a 4th consecutive show, even with a single performer available', async () => {
       const testShows = [
         { id: "show1", date: "2024-01-01", time: "19:00", callTime: "18:00", status: "show" as const },
         { id: "show2", date: "2024-01-02", time: "19:00", callTime: "18:00", status: "show" as const },
         { id: "show3", date: "2024-01-03", time: "19:00", callTime: "18:00", status: "show" as const },
         { id: "show4", date: "2024-01-04", time: "19:00", callTime: "18:00", status: "show" as const }
       ];
-      
-      const testAlgorithm = new SchedulingAlgorithm(testShows, defaultCastMembers);
-      
-      // Manually assign to test prevention logic
-      (testAlgorithm as any).assignments = new Map([
-        ["show1", { "Sarge": "PHIL" }],
-        ["show2", { "Sarge": "PHIL" }],
-        ["show3", { "Sarge": "PHIL" }]
-      ]);
-      
-      // This should return false - cannot assign PHIL to show4 as it would create 4 consecutive
-      const canAssign = (testAlgorithm as any).canAssignPerformerToShow("PHIL", "show4");
-      expect(canAssign).toBe(false, "Algorithm should prevent 4th consecutive show assignment");
+      const roles = DEFAULT_ROLE_CATALOG.filter(role => role.name === "Sarge");
+      const phil = defaultCastMembers.filter(member => member.name === "PHIL");
+
+      const testAlgorithm = new SchedulingAlgorithm(testShows, phil, { roles });
+      const result = await testAlgorithm.autoGenerate();
+
+      // PHIL can only take three of the four shows; the fourth is left open rather than breaking the rule
+      expect(result.assignments.filter(a => a.role === "Sarge")).toHaveLength(3);
+      expect(testAlgorithm.validateSchedule(result.assignments).errors.some(error => error.includes("consecutive shows"))).toBe(false);
+
+      const fourInARow = testShows.map(show => ({ showId: show.id, role: "Sarge" as const, performer: "PHIL", isRedDay: false }));
+      expect(testAlgorithm.validateSchedule(fourInARow).errors.some(error => error.includes("PHIL has 4 consecutive shows"))).toBe(true);
     });
   });
 
@@ -144,26 +140,20 @@ describe('SchedulingAlgorithm - Critical Bug Fixes', () => {
       }
     });
 
-    it('should prevent weekend rule violations during assignment', () => {
+    it('should report a 4-show weekend as a rule violation', () => {
       const weekendShows = [
         { id: "fri", date: "2024-01-05", time: "21:00", callTime: "18:00", status: "show" as const },
         { id: "sat_mat", date: "2024-01-06", time: "16:00", callTime: "14:00", status: "show" as const },
         { id: "sat_eve", date: "2024-01-06", time: "21:00", callTime: "18:00", status: "show" as const },
         { id: "sun", date: "2024-01-07", time: "16:00", callTime: "14:30", status: "show" as const }
       ];
-      
       const algorithm = new SchedulingAlgorithm(weekendShows, defaultCastMembers);
-      
-      // Manually assign performer to first 3 shows
-      (algorithm as any).assignments = new Map([
-        ["fri", { "Sarge": "PHIL" }],
-        ["sat_mat", { "Sarge": "PHIL" }], 
-        ["sat_eve", { "Sarge": "PHIL" }]
-      ]);
-      
-      // Should prevent assignment to Sunday (would create 4-show weekend)
-      const wouldViolate = (algorithm as any).wouldViolateWeekendRule("PHIL", "sun");
-      expect(wouldViolate).toBe(true, "Algorithm should detect weekend rule violation");
+
+      const threeShows = weekendShows.slice(0, 3).map(show => ({ showId: show.id, role: "Sarge" as const, performer: "PHIL", isRedDay: false }));
+      const fourShows = weekendShows.map(show => ({ showId: show.id, role: "Sarge" as const, performer: "PHIL", isRedDay: false }));
+
+      expect(algorithm.validateSchedule(threeShows).errors.some(error => error.includes("over a weekend"))).toBe(false);
+      expect(algorithm.validateSchedule(fourShows).errors.some(error => error.includes("PHIL has 4 shows over a weekend"))).toBe(true);
     });
   });
 
@@ -244,6 +234,319 @@ describe('SchedulingAlgorithm - Critical Bug Fixes', () => {
     });
   });
 
+  describe('Performer Availability', () => {
+    it('should never schedule a performer during approved leave', async () => {
+      const unavailability = [
+        { id: "leave_1", memberId: "", performer: "MOLLY", type: "vacation" as const, status: "approved" as const, startDate: "2024-01-05", endDate: "2024-01-07", createdAt: new Date() },
+        { id: "leave_2", memberId: "", performer: "CADE", type: "sick" as const, status: "pending" as const, startDate: "2024-01-02", endDate: "2024-01-02", createdAt: new Date() }
+      ];
+      const algorithm = new SchedulingAlgorithm(weekShows, defaultCastMembers, { unavailability });
+      const result = await algorithm.autoGenerate();
+
+      const leaveShowIds = new Set(["fri", "sat_mat", "sat_eve", "sun_mat", "sun_eve"]);
+      const mollyOnStage = result.assignments.filter(a =>
+        a.performer === "MOLLY" && a.role !== "OFF" && leaveShowIds.has(a.showId)
+      );
+      expect(mollyOnStage).toHaveLength(0);
+      expect(algorithm.getAvailabilityConflicts(result.assignments)).toHaveLength(0);
+    });
+
+    it('should report assignments that clash with approved leave', () => {
+      const unavailability = [
+        { id: "leave_1", memberId: "", performer: "PHIL", type: "personal" as const, status: "approved" as const, startDate: "2024-01-02", endDate: "2024-01-02", startTime: "20:00", createdAt: new Date() }
+      ];
+      const algorithm = new SchedulingAlgorithm(weekShows, defaultCastMembers, { unavailability });
+      const validation = algorithm.validateSchedule([
+        { showId: "tue", role: "Sarge", performer: "PHIL", isRedDay: false },
+        { showId: "wed", role: "Sarge", performer: "PHIL", isRedDay: false }
+      ]);
+
+      const leaveErrors = validation.errors.filter(error => error.includes("approved personal leave"));
+      expect(leaveErrors).toHaveLength(1);
+    });
+  });
+
+  describe('Role Catalog', () => {
+    it('should fill only catalog roles and leave optional tracks empty when nobody can cover them', async () => {
+      const roles = [
+        ...DEFAULT_ROLE_CATALOG.filter(role => role.name !== "Who"),
+        { name: "Swing", description: "", color: "#6b7280", isRequired: false, femaleOnly: false, order: 8 }
+      ];
+      const cast = defaultCastMembers.filter(member => member.name !== "JOSH");
+      const algorithm = new SchedulingAlgorithm(weekShows, cast, { roles });
+      const result = await algorithm.autoGenerate();
+
+      const stageRoles = new Set(result.assignments.filter(a => a.role !== "OFF").map(a => a.role));
+      expect(stageRoles.has("Who")).toBe(false);
+      expect(stageRoles.has("Swing")).toBe(false);
+      expect(result.errors ?? []).not.toContainEqual(expect.stringContaining("Swing"));
+    });
+  });
+
+  describe('Configurable Rules', () => {
+    const consecutiveRun = ["tue", "wed", "thu", "fri"].map(showId => (
+      { showId, role: "Sarge" as const, performer: "PHIL", isRedDay: false }
+    ));
+
+    it('should report hard rule violations as errors and soft ones as warnings', () => {
+      const hard = new SchedulingAlgorithm(weekShows, defaultCastMembers).validateSchedule(consecutiveRun);
+      expect(hard.errors.some(error => error.includes("PHIL has 4 consecutive shows"))).toBe(true);
+
+      const rules = { ...DEFAULT_RULES, maxConsecutiveShows: { value: 3, enforcement: "soft" as const } };
+      const soft = new SchedulingAlgorithm(weekShows, defaultCastMembers, { rules }).validateSchedule(consecutiveRun);
+      expect(soft.errors.some(error => error.includes("consecutive shows"))).toBe(false);
+      expect(soft.warnings.some(warning => warning.includes("PHIL has 4 consecutive shows"))).toBe(true);
+    });
+
+    it('should respect a lower weekly limit during generation', async () => {
+      const rules = { ...DEFAULT_RULES, maxShowsPerWeek: { value: 5, enforcement: "hard" as const } };
+      const algorithm = new SchedulingAlgorithm(weekShows, defaultCastMembers, { rules });
+      const result = await algorithm.autoGenerate();
+
+      for (const member of defaultCastMembers) {
+        const showIds = new Set(result.assignments
+          .filter(a => a.performer === member.name && a.role !== "OFF")
+          .map(a => a.showId));
+        expect(showIds.size).toBeLessThanOrEqual(5);
+      }
+    });
+  });
+
+  describe('Week Boundary Continuity', () => {
+    const previousTail = {
+      shows: [
+        { id: "prev_sat_mat", date: "2023-12-30", time: "16:00", callTime: "14:00", status: "show" as const },
+        { id: "prev_sat_eve", date: "2023-12-30", time: "21:00", callTime: "18:00", status: "show" as const },
+        { id: "prev_sun", date: "2023-12-31", time: "19:00", callTime: "18:00", status: "show" as const }
+      ],
+      assignments: ["prev_sat_mat", "prev_sat_eve", "prev_sun"].map(showId => (
+        { showId, role: "Sarge" as const, performer: "PHIL", isRedDay: false }
+      ))
+    };
+
+    it('should not extend a consecutive run carried over from the previous week', async () => {
+      const roles = DEFAULT_ROLE_CATALOG.filter(role => role.name === "Sarge");
+      const sarges = defaultCastMembers.filter(member => member.eligibleRoles.includes("Sarge"));
+      const algorithm = new SchedulingAlgorithm(weekShows.slice(0, 1), sarges, { roles, previousTail });
+      const result = await algorithm.autoGenerate();
+
+      expect(result.success).toBe(true);
+      const tuesdaySarge = result.assignments.find(a => a.showId === "tue" && a.role === "Sarge");
+      expect(tuesdaySarge?.performer).toBe("SEAN");
+      expect(result.assignments.some(a => a.showId.startsWith("prev_"))).toBe(false);
+    });
+
+    it('should report runs that cross the week boundary', () => {
+      const algorithm = new SchedulingAlgorithm(weekShows, defaultCastMembers, { previousTail });
+      const validation = algorithm.validateSchedule([
+        { showId: "tue", role: "Sarge", performer: "PHIL", isRedDay: false }
+      ]);
+
+      expect(validation.errors.some(error => error.includes("PHIL has 4 consecutive shows"))).toBe(true);
+    });
+  });
+
+  describe('Deterministic Generation', () => {
+    it('should replay a generation exactly from its seed', async () => {
+      const first = new SchedulingAlgorithm(weekShows, defaultCastMembers, { seed: 20240102 });
+      const replay = new SchedulingAlgorithm(weekShows, defaultCastMembers, { seed: 20240102 });
+
+      expect(await replay.autoGenerate()).toEqual(await first.autoGenerate());
+      expect(replay.getSeed()).toBe(20240102);
+    });
+
+    it('should report the seed it picked so an unseeded run can be replayed', async () => {
+      const original = new SchedulingAlgorithm(weekShows, defaultCastMembers);
+      const result = await original.autoGenerate();
+
+      const replay = new SchedulingAlgorithm(weekShows, defaultCastMembers, { seed: original.getSeed() });
+      expect(await replay.autoGenerate()).toEqual(result);
+    });
+  });
+
+  describe('Constraint Solver', () => {
+    it('should find a schedule for a tight roster that random restarts miss', async () => {
+      const roles = DEFAULT_ROLE_CATALOG.filter(role => role.name === "Sarge");
+      const sarges = defaultCastMembers.filter(member => member.eligibleRoles.includes("Sarge"));
+
+      for (let seed = 1; seed <= 5; seed++) {
+        const algorithm = new SchedulingAlgorithm(weekShows, sarges, { roles, seed });
+        const result = await algorithm.autoGenerate();
+
+        expect(result.status).toBe("solved");
+        expect(result.assignments.filter(a => a.role === "Sarge")).toHaveLength(weekShows.length);
+        expect(algorithm.validateSchedule(result.assignments).errors).toEqual([]);
+      }
+    });
+
+    it('should prove when no schedule exists and return a legal partial one', async () => {
+      // Three performers cannot cover Bin and Cornish across five weekend shows at three shows each
+      const roles = DEFAULT_ROLE_CATALOG.filter(role => role.name === "Bin" || role.name === "Cornish");
+      const cast = defaultCastMembers.filter(member => member.eligibleRoles.includes("Bin"));
+      const algorithm = new SchedulingAlgorithm(weekShows, cast, { roles });
+      const result = await algorithm.autoGenerate();
+
+      expect(result.status).toBe("infeasible");
+      expect(result.errors?.[0]).toContain("No schedule satisfies the hard rules");
+      const violations = algorithm.validateSchedule(result.assignments).errors
+        .filter(error => !error.includes("RED day"));
+      expect(violations).toEqual([]);
+    });
+  });
+
+  describe('Locked Assignments', () => {
+    const roles = DEFAULT_ROLE_CATALOG.filter(role => role.name === "Sarge");
+    const lock = (showId: string, performer: string) => ({ showId, role: "Sarge" as const, performer, isLocked: true });
+
+    it('should keep locked cells and schedule the rest around them', async () => {
+      const sarges = defaultCastMembers.filter(member => member.eligibleRoles.includes("Sarge"));
+      const algorithm = new SchedulingAlgorithm(weekShows, sarges, { roles, lockedAssignments: [lock("tue", "SEAN")] });
+      const result = await algorithm.autoGenerate();
+
+      expect(result.status).toBe("solved");
+      expect(result.assignments).toContainEqual(expect.objectContaining({ showId: "tue", role: "Sarge", performer: "SEAN", isLocked: true }));
+      expect(result.assignments.filter(a => a.role === "Sarge" && a.isLocked)).toHaveLength(1);
+      expect(algorithm.validateSchedule(result.assignments).errors).toEqual([]);
+    });
+
+    it('should reject locks that break a hard rule on their own', async () => {
+      const sarges = defaultCastMembers.filter(member => member.eligibleRoles.includes("Sarge"));
+      const locks = ["tue", "wed", "thu", "fri"].map(showId => lock(showId, "PHIL"));
+      const result = await new SchedulingAlgorithm(weekShows, sarges, { roles, lockedAssignments: locks }).autoGenerate();
+
+      expect(result.success).toBe(false);
+      expect(result.locksInfeasible).toBe(true);
+      expect(result.errors?.some(error => error.includes("4 consecutive shows"))).toBe(true);
+    });
+
+    it('should say when the locks are what makes the week infeasible', async () => {
+      // With only two Sarges, splitting Tuesday and Wednesday leaves no legal way to cover the rest of the week
+      const sarges = defaultCastMembers.filter(member => member.eligibleRoles.includes("Sarge"));
+      const locks = [lock("tue", "PHIL"), lock("wed", "SEAN")];
+      const result = await new SchedulingAlgorithm(weekShows, sarges, { roles, lockedAssignments: locks }).autoGenerate();
+
+      expect(result.status).toBe("infeasible");
+      expect(result.locksInfeasible).toBe(true);
+      expect(result.errors?.[0]).toContain("locked cells make the week infeasible");
+    });
+  });
+
+  describe('Role Preferences', () => {
+    const roles = DEFAULT_ROLE_CATALOG.filter(role => role.name === "Sarge");
+    const rankedSarges: CastMember[] = [
+      { name: "PHIL", eligibleRoles: ["Sarge"] },
+      { name: "SEAN", eligibleRoles: ["Sarge", "Potato"], rolePreferences: { Sarge: "emergency", Potato: "primary" } }
+    ];
+
+    it('should keep emergency-only cover off stage while the primary performer is free', async () => {
+      const shows = weekShows.slice(0, 3);
+      for (let seed = 1; seed <= 5; seed++) {
+        const result = await new SchedulingAlgorithm(shows, rankedSarges, { roles, seed }).autoGenerate();
+
+        expect(result.status).toBe("solved");
+        expect(result.assignments.filter(a => a.role === "Sarge").map(a => a.performer)).toEqual(["PHIL", "PHIL", "PHIL"]);
+      }
+    });
+
+    it('should use emergency-only roles when nothing else works and report them', async () => {
+      const algorithm = new SchedulingAlgorithm(weekShows, rankedSarges, { roles, seed: 1 });
+      const result = await algorithm.autoGenerate();
+      const seanShows = result.assignments.filter(a => a.role === "Sarge" && a.performer === "SEAN").length;
+
+      expect(result.status).toBe("solved");
+      expect(seanShows).toBeGreaterThan(0);
+      expect(algorithm.validateSchedule(result.assignments).offPrimaryShows).toEqual({ SEAN: seanShows });
+    });
+  });
+
+  describe('Role Rotation', () => {
+    const roles = DEFAULT_ROLE_CATALOG.filter(role => role.name === "Ringo" || role.name === "Who");
+    const cast: CastMember[] = [
+      { name: "JOSH", eligibleRoles: ["Who"] },
+      { name: "CADE", eligibleRoles: ["Who", "Ringo"] },
+      { name: "ADAM", eligibleRoles: ["Ringo"] }
+    ];
+
+    it('should move performers off the role they have played most in recent weeks', async () => {
+      const shows = weekShows.slice(0, 4);
+      const cadeOnWho = async (roleHistory?: RoleHistory) => {
+        let count = 0;
+        for (let seed = 1; seed <= 10; seed++) {
+          const result = await new SchedulingAlgorithm(shows, cast, { roles, seed, roleHistory }).autoGenerate();
+          expect(result.status).toBe("solved");
+          count += result.assignments.filter(a => a.performer === "CADE" && a.role === "Who").length;
+        }
+        return count;
+      };
+
+      expect(await cadeOnWho({ CADE: { Who: 12 } })).toBeLessThan(await cadeOnWho());
+    });
+  });
+
+  describe('Understudy Covers', () => {
+    it('should name an eligible, on-call cover from the OFF list for each stage role', async () => {
+      const algorithm = new SchedulingAlgorithm(weekShows, defaultCastMembers, { seed: 1 });
+      const result = await algorithm.autoGenerate();
+      expect(result.success).toBe(true);
+
+      const gaps = algorithm.getCoverGaps(result.assignments);
+      for (const show of weekShows) {
+        const stageRoles = result.assignments.filter(a => a.showId === show.id && a.role !== "OFF").map(a => a.role);
+        const covers = result.assignments.filter(a => a.showId === show.id && a.role === "OFF" && a.covers);
+
+        for (const entry of covers) {
+          expect(entry.isRedDay).toBe(false);
+          const member = defaultCastMembers.find(m => m.name === entry.performer)!;
+          entry.covers!.forEach(role => expect(member.eligibleRoles).toContain(role));
+        }
+        for (const role of stageRoles) {
+          const named = covers.some(entry => entry.covers!.includes(role as Role));
+          const hasGap = gaps.some(gap => gap.show.id === show.id && gap.role === role);
+          expect(named).toBe(!hasGap);
+        }
+      }
+    });
+
+    it('should warn when nobody off that night can cover a role', () => {
+      const roles = DEFAULT_ROLE_CATALOG.filter(role => role.name === "Who");
+      const cast = defaultCastMembers.filter(member => member.name === "JOSH" || member.name === "CADE");
+      const shows = weekShows.slice(0, 1);
+      const algorithm = new SchedulingAlgorithm(shows, cast, { roles });
+
+      const covered = algorithm.validateSchedule([
+        { showId: "tue", role: "Who", performer: "JOSH" },
+        { showId: "tue", role: "OFF", performer: "CADE", isRedDay: false }
+      ]);
+      const uncovered = algorithm.validateSchedule([
+        { showId: "tue", role: "Who", performer: "JOSH" },
+        { showId: "tue", role: "OFF", performer: "CADE", isRedDay: true }
+      ]);
+
+      expect(covered.warnings.some(warning => warning.includes("No cover for Who"))).toBe(false);
+      expect(uncovered.warnings.some(warning => warning.includes("No cover for Who"))).toBe(true);
+    });
+  });
+
+  describe('Preferred RED Days', () => {
+    it('should give RED days on the weekday a performer asked for when they are off that day', async () => {
+      const cast = defaultCastMembers.map(member => ({ ...member, preferredRedDays: [5] })); // Fridays
+      const algorithm = new SchedulingAlgorithm(weekShows, cast);
+
+      const result = await algorithm.autoGenerate();
+
+      expect(result.success).toBe(true);
+      for (const member of cast) {
+        const onStageFriday = result.assignments.some(a => a.performer === member.name && a.showId === "fri" && a.role !== "OFF");
+        const redDates = result.assignments
+          .filter(a => a.performer === member.name && a.isRedDay)
+          .map(a => weekShows.find(show => show.id === a.showId)!.date);
+        if (!onStageFriday && redDates.length > 0) {
+          expect(redDates).toEqual(["2024-01-05"]);
+        }
+      }
+    });
+  });
+
   describe('Load Balancing', () => {
     it('should distribute workload evenly among cast members', async () => {
       const algorithm = new SchedulingAlgorithm(weekShows, defaultCastMembers);
@@ -1,15 +1,48 @@
-import { Role, Show, Assignment, CastMember } from "./types";
+import { Role, RoleDefinition, RoleHistory, Show, Assignment, CastMember, Unavailability, SchedulingRules, DEFAULT_ROLE_CATALOG, DEFAULT_RULES, ROLE_PREFERENCES } from "./types";
+import { resolvePerformerNames } from "./performers";
+import { createRandom, createSeed } from "./random";
+import { ConstraintSolver, DEFAULT_TIME_BUDGET_MS, SolverResult, SolverStatus, getWeekKey } from "./solver";
 
 export interface AutoGenerateResult {
   success: boolean;
   assignments: Assignment[];
   errors?: string[];
+  // Whether the search found a schedule, proved there is none, or ran out of time
+  status?: SolverStatus;
+  // Set when the locked cells are what stands in the way of a complete schedule
+  locksInfeasible?: boolean;
+}
+
+export interface SchedulingOptions {
+  // Approved leave; performers are never scheduled on stage inside these windows
+  unavailability?: Unavailability[];
+  // Role catalog to fill; defaults to the built-in roles
+  roles?: RoleDefinition[];
+  // Limits for the production; defaults to the built-in rules
+  rules?: SchedulingRules;
+  // End of the preceding schedule; held fixed so limits carry across the week boundary
+  previousTail?: ScheduleTail;
+  // Cells pinned by the manager; only those marked isLocked are kept
+  lockedAssignments?: Assignment[];
+  // Roles each performer played in recent weeks; used to rotate them through their tracks
+  roleHistory?: RoleHistory;
+  // Seeds every shuffle, so the same input and seed give the same schedule
+  seed?: number;
+  // Upper bound on search time before giving up with the best partial schedule
+  timeBudgetMs?: number;
+}
+
+export interface ScheduleTail {
+  shows: Show[];
+  assignments: Assignment[];
 }
 
 export interface ConstraintResult {
   isValid: boolean;
   errors: string[];
   warnings: string[];
+  // Shows each performer played in a role they do not rank as primary
+  offPrimaryShows: Record<string, number>;
 }
 
 interface ShowAssignment {
@@ -35,29 +68,83 @@ export class SchedulingAlgorithm {
   private shows: Show[];
   private assignments: Map<string, ShowAssignment>;
   private castMembers: CastMember[];
+  private unavailability: Unavailability[];
+  private roleCatalog: RoleDefinition[];
+  private rules: SchedulingRules;
+  // Shows and assignments from the preceding schedule, never reassigned
+  private tailShows: Show[];
+  private tailAssignments: Assignment[];
+  private fixedShowIds: Set<string>;
+  // Stage cells of this schedule the manager pinned
+  private lockedAssignments: Assignment[];
+  private lockedSlots: Set<string>;
+  private seed: number;
+  private random: () => number;
+  private roleHistory: RoleHistory;
+  private timeBudgetMs: number;
+  // Set once a strict search fails, so soft rules stop blocking assignments
+  private relaxSoftRules = false;
+  // Set once a search without emergency-only roles fails
+  private allowEmergencyRoles = false;
   
   // Cached data structures for performance
   private _sortedActiveShows: Show[] | null = null;
   private _showIndexMap: Map<string, number> | null = null;
   private _performerShowCache: Map<string, PerformerShowData> | null = null;
 
-  constructor(shows: Show[], castMembers?: CastMember[]) {
+  constructor(shows: Show[], castMembers?: CastMember[], options: SchedulingOptions = {}) {
     this.shows = shows;
     this.assignments = new Map();
     
     this.castMembers = castMembers || [];
+    this.unavailability = (options.unavailability || []).filter(entry => entry.status === "approved");
+    this.roleCatalog = [...(options.roles || DEFAULT_ROLE_CATALOG)].sort((a, b) => a.order - b.order);
+    this.rules = options.rules || DEFAULT_RULES;
+    this.seed = options.seed ?? createSeed();
+    this.random = createRandom(this.seed);
+    this.roleHistory = options.roleHistory || {};
+    this.timeBudgetMs = options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS;
+    this.tailShows = (options.previousTail?.shows || []).filter(show => show.status === "show");
+    this.fixedShowIds = new Set(this.tailShows.map(show => show.id));
+    this.tailAssignments = resolvePerformerNames(
+      (options.previousTail?.assignments || []).filter(assignment => this.fixedShowIds.has(assignment.showId)),
+      this.castMembers
+    );
+    const activeShowIds = new Set(shows.filter(show => show.status === "show").map(show => show.id));
+    this.lockedAssignments = resolvePerformerNames(
+      (options.lockedAssignments || []).filter(assignment =>
+        assignment.isLocked && assignment.role !== "OFF" && assignment.performer && activeShowIds.has(assignment.showId)
+      ),
+      this.castMembers
+    );
+    this.lockedSlots = new Set(this.lockedAssignments.map(assignment => `${assignment.showId}|${assignment.role}`));
     
+    // Seed the tail's stage assignments so consecutive, weekend and weekly checks see them
+    this.tailShows.forEach(show => {
+      const showAssignment: ShowAssignment = {};
+      this.tailAssignments
+        .filter(assignment => assignment.showId === show.id && assignment.role !== "OFF")
+        .forEach(assignment => {
+          showAssignment[assignment.role] = assignment.performer;
+        });
+      this.assignments.set(show.id, showAssignment);
+    });
+
     // Initialize empty assignments for all shows
     shows.forEach(show => {
       const showAssignment: ShowAssignment = {};
-      const roles: Role[] = ["Sarge", "Potato", "Mozzie", "Ringo", "Particle", "Bin", "Cornish", "Who"];
-      roles.forEach(role => {
+      this.getRoles().forEach(role => {
         showAssignment[role] = "";
       });
       this.assignments.set(show.id, showAssignment);
     });
   }
 
+  // Seed used for generation; pass it back in to replay a run
+  public getSeed(): number {
+    return this.seed;
+  }
+
   // Clear caches when data changes
   private clearCaches(): void {
     this._sortedActiveShows = null;
@@ -68,7 +155,7 @@ export class SchedulingAlgorithm {
   // Get sorted active shows with caching
   private getSortedActiveShows(): Show[] {
     if (this._sortedActiveShows === null) {
-      this._sortedActiveShows = this.shows
+      this._sortedActiveShows = [...this.tailShows, ...this.shows]
         .filter(show => show.status === "show")
         .sort((a, b) => {
           const dateTimeA = new Date(`${a.date}T${a.time}`);
@@ -91,138 +178,6 @@ export class SchedulingAlgorithm {
     return this._showIndexMap;
   }
 
-  // CRITICAL FIX: Check if assigning performer to show would violate consecutive show rule
-  private canAssignPerformerToShow(performer: string, showId: string): boolean {
-    const sortedShows = this.getSortedActiveShows();
-    const showIndexMap = this.getShowIndexMap();
-    
-    const targetIndex = showIndexMap.get(showId);
-    if (targetIndex === undefined) return true; // If show not found, allow assignment
-
-    // Get performer's current assignments (only show roles, not OFF)
-    const performerShows = new Set<string>();
-    for (const [currentShowId, showAssignment] of this.assignments) {
-      for (const [role, assignedPerformer] of Object.entries(showAssignment)) {
-        if (assignedPerformer === performer && role !== "OFF") {
-          performerShows.add(currentShowId);
-          break; // Only count once per show
-        }
-      }
-    }
-
-    // Convert to sorted indices
-    const performerShowIndices = Array.from(performerShows)
-      .map(showId => showIndexMap.get(showId))
-      .filter(index => index !== undefined)
-      .sort((a, b) => a! - b!);
-
-    // Check consecutive shows with the new assignment
-    const newIndices = [...performerShowIndices, targetIndex].sort((a, b) => a - b);
-    
-    // Find the longest consecutive sequence
-    let maxConsecutive = 1;
-    let currentConsecutive = 1;
-    
-    for (let i = 1; i < newIndices.length; i++) {
-      const prevShow = sortedShows[newIndices[i - 1]];
-      const currentShow = sortedShows[newIndices[i]];
-      
-      if (this.areShowsConsecutive(prevShow, currentShow)) {
-        currentConsecutive++;
-        maxConsecutive = Math.max(maxConsecutive, currentConsecutive);
-      } else {
-        currentConsecutive = 1;
-      }
-      
-      // HARD STOP: Never allow more than 3 consecutive shows
-      if (maxConsecutive > 3) {
-        return false;
-      }
-    }
-    
-    return true;
-  }
-
-  // CRITICAL FIX: Check weekend 4-show rule (Friday-Sunday pattern)
-  private wouldViolateWeekendRule(performer: string, showId: string): boolean {
-    const allShows = this.getSortedActiveShows();
-    const targetShow = allShows.find(s => s.id === showId);
-    if (!targetShow) return false;
-
-    const performerShows: Show[] = [targetShow];
-    for (const [currentShowId, showAssignment] of this.assignments) {
-        if (Object.values(showAssignment).includes(performer)) {
-            const show = allShows.find(s => s.id === currentShowId);
-            if (show && show.id !== showId) {
-                performerShows.push(show);
-            }
-        }
-    }
-
-    const showsByWeekend: Record<string, Show[]> = {};
-
-    for (const show of performerShows) {
-        const showDate = new Date(show.date + 'T12:00:00Z');
-        const dayOfWeek = showDate.getUTCDay(); // Sunday = 0, ..., Saturday = 6
-
-        if (dayOfWeek >= 5 || dayOfWeek === 0) { // Friday, Saturday, or Sunday
-            const mondayDate = new Date(showDate);
-            const offset = dayOfWeek === 0 ? -6 : 1 - dayOfWeek;
-            mondayDate.setUTCDate(mondayDate.getUTCDate() + offset);
-            const weekKey = mondayDate.toISOString().split('T')[0];
-
-            if (!showsByWeekend[weekKey]) {
-                showsByWeekend[weekKey] = [];
-            }
-            showsByWeekend[weekKey].push(show);
-        }
-    }
-
-    for (const weekKey in showsByWeekend) {
-        if (showsByWeekend[weekKey].length >= 4) {
-            return true;
-        }
-    }
-
-    return false;
-  }
-
-  // Check if performer has exceeded weekly show limit
-  private hasExceededWeeklyLimit(performer: string): boolean {
-    const performerShows = new Set<string>();
-    for (const [showId, showAssignment] of this.assignments) {
-      for (const [role, assignedPerformer] of Object.entries(showAssignment)) {
-        if (assignedPerformer === performer && role !== "OFF") {
-          performerShows.add(showId);
-          break; // Only count once per show
-        }
-      }
-    }
-    return performerShows.size >= 6; // Maximum 6 shows per week
-  }
-
-  // Check if performer is already assigned to this show
-  private isPerformerAssignedToShow(performer: string, showId: string): boolean {
-    const showAssignment = this.assignments.get(showId);
-    if (!showAssignment) return false;
-    
-    return Object.values(showAssignment).includes(performer);
-  }
-
-  // Get current show count for load balancing
-  private getCurrentShowCount(performer: string): number {
-    const performerShows = new Set<string>();
-    for (const [showId, showAssignment] of this.assignments) {
-      for (const [role, assignedPerformer] of Object.entries(showAssignment)) {
-        if (assignedPerformer === performer && role !== "OFF") {
-          performerShows.add(showId);
-          break; // Only count once per show
-        }
-      }
-    }
-    return performerShows.size;
-  }
-
   public async autoGenerate(): Promise<AutoGenerateResult> {
     try {
       this.clearCaches();
@@ -242,47 +197,72 @@ export class SchedulingAlgorithm {
         }
       }
 
-      // Clear existing assignments
-      this.clearAllAssignments();
+      // Locks that break a hard rule by themselves can never be part of a schedule
+      const lockErrors = this.checkLocks();
+      if (lockErrors.length > 0) {
+        return {
+          success: false,
+          assignments: [],
+          errors: ["The locked cells break the rules on their own - unlock or change them and generate again", ...lockErrors],
+          status: "infeasible",
+          locksInfeasible: true
+        };
+      }
 
-      // Try multiple attempts to find a valid assignment with relaxed constraints
-      for (let attempt = 0; attempt < 100; attempt++) {
-        this.clearAllAssignments();
-        
-        if (this.generateScheduleAttempt()) {
-          const assignments = this.convertToAssignments();
-          const validation = this.validateSchedule(assignments);
-          
-          // Be more lenient on consecutive shows - allow warnings but not critical errors
-          const hasCriticalErrors = validation.errors.some(error => 
-            error.includes("CRITICAL") || error.includes("multiple roles") || error.includes("not eligible")
-          );
-          
-          if (!hasCriticalErrors) {
-            // Add RED day assignments
-            const finalAssignments = this.assignRedDays(assignments);
-            return {
-              success: true,
-              assignments: finalAssignments
-            };
-          }
+      // Search with every rule enforced and emergency-only roles held back first.
+      // Each later attempt gives up a little more, and only runs when the one
+      // before it proves impossible or runs out of its share of time.
+      const deadline = Date.now() + this.timeBudgetMs;
+      const hasSoftRules = Object.values(this.rules).some(rule => rule.enforcement === "soft");
+      const hasEmergencyRoles = this.castMembers.some(member =>
+        Object.values(member.rolePreferences || {}).includes("emergency")
+      );
+      const attempts = [{ relaxSoftRules: false, allowEmergencyRoles: !hasEmergencyRoles }];
+      if (hasEmergencyRoles) attempts.push({ relaxSoftRules: false, allowEmergencyRoles: true });
+      if (hasSoftRules) attempts.push({ relaxSoftRules: true, allowEmergencyRoles: true });
+
+      let solution!: SolverResult;
+      for (const [index, attempt] of attempts.entries()) {
+        this.relaxSoftRules = attempt.relaxSoftRules;
+        this.allowEmergencyRoles = attempt.allowEmergencyRoles;
+        const result = this.runSolver(Math.max(0, deadline - Date.now()) / (attempts.length - index));
+        if (index === 0 || result.status === "solved" || result.unfilled.length < solution.unfilled.length) {
+          solution = result;
         }
+        if (solution.status === "solved") break;
       }
 
-      // If we couldn't find a complete solution, try a partial one with very relaxed constraints
+      // Only blame the locks when the same search without them finds a schedule
+      const locksInfeasible = solution.status === "infeasible" && this.lockedAssignments.length > 0 &&
+        this.runSolver(Math.max(0, deadline - Date.now()), false).status === "solved";
+
       this.clearAllAssignments();
-      const partialResult = this.generatePartialSchedule();
-      
-      if (partialResult.success || partialResult.assignments.length > 0) {
-        const finalAssignments = this.assignRedDays(partialResult.assignments);
+      for (const lock of this.lockedAssignments) {
+        this.assignments.get(lock.showId)![lock.role] = lock.performer;
+      }
+      for (const [showId, roles] of solution.assignments) {
+        Object.assign(this.assignments.get(showId)!, roles);
+      }
+      const assignments = this.assignCovers(this.assignRedDays(this.convertToAssignments()));
+
+      if (solution.status === "solved") {
         return {
           success: true,
-          assignments: finalAssignments,
-          errors: partialResult.errors
+          assignments,
+          status: solution.status
         };
       }
 
-      return partialResult;
+      // Otherwise hand back the fullest legal partial schedule so the gaps can be filled by hand
+      return {
+        success: assignments.some(assignment => assignment.role !== "OFF"),
+        assignments,
+        errors: locksInfeasible
+          ? ["The locked cells make the week infeasible - unlocking some of them would let every required slot be filled", ...this.describeUnsolved(solution)]
+          : this.describeUnsolved(solution),
+        status: solution.status,
+        locksInfeasible
+      };
 
     } catch (error) {
       return {
@@ -293,135 +273,69 @@ export class SchedulingAlgorithm {
     }
   }
 
-  private generateScheduleAttempt(): boolean {
-    const sortedShows = this.getSortedActiveShows();
-    
-    // Randomize order of shows and roles to avoid getting stuck in patterns
-    const shuffledShows = [...sortedShows].sort(() => Math.random() - 0.5);
-    
-    for (const show of shuffledShows) {
-      if (!this.assignRolesForShow(show.id)) {
-        return false;
-      }
-    }
-    return true;
-  }
-
-  private assignRolesForShow(showId: string): boolean {
-    const showAssignment = this.assignments.get(showId)!;
-    const roles: Role[] = ["Sarge", "Potato", "Mozzie", "Ringo", "Particle", "Bin", "Cornish", "Who"];
-    
-    // Randomize role order to avoid patterns
-    const shuffledRoles = [...roles].sort(() => Math.random() - 0.5);
-
-    // Get roles sorted by difficulty (fewest eligible performers first)
-    const rolesByDifficulty = shuffledRoles.sort((a, b) => {
-      const aEligible = this.castMembers.filter(member => member.eligibleRoles.includes(a)).length;
-      const bEligible = this.castMembers.filter(member => member.eligibleRoles.includes(b)).length;
-      return aEligible - bEligible;
+  private runSolver(timeBudgetMs: number, keepLocks = true): SolverResult {
+    const limit = (rule: "maxConsecutiveShows" | "maxShowsPerWeek" | "maxWeekendShows") =>
+      this.isRuleEnforced(rule) ? this.rules[rule].value : undefined;
+
+    const solver = new ConstraintSolver({
+      shows: this.getSortedActiveShows(),
+      schedulableShowIds: new Set(this.getSchedulableShows().map(show => show.id)),
+      fixed: [...this.tailAssignments, ...(keepLocks ? this.lockedAssignments : [])]
+        .filter(assignment => assignment.role !== "OFF")
+        .map(({ showId, role, performer }) => ({ showId, role, performer })),
+      roles: this.roleCatalog.map(role => ({ name: role.name, required: role.isRequired })),
+      performers: this.allowEmergencyRoles ? this.castMembers : this.castMembers.map(member => ({
+        ...member,
+        eligibleRoles: member.eligibleRoles.filter(role => member.rolePreferences?.[role] !== "emergency")
+      })),
+      limits: {
+        maxConsecutiveShows: limit("maxConsecutiveShows"),
+        maxShowsPerWeek: limit("maxShowsPerWeek"),
+        maxWeekendShows: limit("maxWeekendShows"),
+        consecutiveGapDays: this.rules.consecutiveGapDays.value
+      },
+      isUnavailable: (performer, showId) => this.isPerformerUnavailable(performer, showId),
+      random: this.random,
+      roleHistory: this.roleHistory
     });
 
-    for (const role of rolesByDifficulty) {
-      const eligiblePerformers = this.castMembers
-        .filter(member => member.eligibleRoles.includes(role))
-        .filter(member => {
-          // CHECK 1: Not already assigned to this show
-          if (this.isPerformerAssignedToShow(member.name, showId)) {
-            return false;
-          }
-          
-          // CHECK 2: Won't create consecutive show violation (max 3)
-          if (!this.canAssignPerformerToShow(member.name, showId)) {
-            return false;
-          }
-          
-          // CHECK 3: Won't create weekend 4-show violation
-          if (this.wouldViolateWeekendRule(member.name, showId)) {
-            return false;
-          }
-          
-          // CHECK 4: Haven't exceeded weekly limit (max 6 shows)
-          if (this.hasExceededWeeklyLimit(member.name)) {
-            return false;
-          }
-          
-          return true;
-        })
-        .sort((a, b) => {
-          // Prioritize by show count (balance workload) with randomization
-          const aCount = this.getCurrentShowCount(a.name);
-          const bCount = this.getCurrentShowCount(b.name);
-          const countDiff = aCount - bCount;
-          
-          // If counts are close, add randomization
-          if (Math.abs(countDiff) <= 1) {
-            return Math.random() - 0.5;
-          }
-          
-          return countDiff;
-        });
+    return solver.solve(timeBudgetMs);
+  }
 
-      if (eligiblePerformers.length === 0) {
-        return false; // No eligible performers for this role
+  // Hard rule breaks among the locked cells alone, before anything else is scheduled
+  private checkLocks(): string[] {
+    const errors: string[] = [];
+    const performerBySlot = new Map<string, string>();
+
+    for (const lock of this.lockedAssignments) {
+      const slot = `${lock.showId}|${lock.role}`;
+      const other = performerBySlot.get(slot);
+      if (other !== undefined && other !== lock.performer) {
+        const show = this.shows.find(s => s.id === lock.showId)!;
+        errors.push(`Show ${this.formatDateForValidation(show.date, show.time)}: ${lock.role} is locked to both ${other} and ${lock.performer}`);
       }
-
-      // Assign the best performer
-      showAssignment[role] = eligiblePerformers[0].name;
+      performerBySlot.set(slot, lock.performer);
     }
 
-    return true;
+    if (this.lockedAssignments.length > 0) {
+      errors.push(...this.validateSchedule(this.lockedAssignments).errors);
+    }
+    return errors;
   }
 
-  private generatePartialSchedule(): AutoGenerateResult {
-    const errors: string[] = [];
-    
-    const rolesByDifficulty = this.getRolesByDifficulty();
-    const sortedActiveShows = this.getSortedActiveShows();
+  private describeUnsolved(solution: SolverResult): string[] {
+    const count = solution.unfilled.length;
+    const slots = `${count} required slot${count === 1 ? '' : 's'}`;
+    const summary = solution.status === "timeout"
+      ? `Search stopped after ${this.timeBudgetMs}ms without a complete schedule - ${slots} left open; allow more time or relax a rule`
+      : `No schedule satisfies the hard rules with the current cast - ${slots} cannot be filled`;
 
-    for (const role of rolesByDifficulty) {
-      const eligibleCast = this.castMembers.filter(member => member.eligibleRoles.includes(role));
-      
-      for (const show of sortedActiveShows) {
-        const showAssignment = this.assignments.get(show.id)!;
-        
-        if (showAssignment[role] === "") {
-          const availableCast = eligibleCast.filter(member => {
-            // Be more lenient in partial schedule generation
-            if (this.isPerformerAssignedToShow(member.name, show.id)) {
-              return false;
-            }
-            
-            // Only check critical constraints in partial generation
-            if (this.hasExceededWeeklyLimit(member.name)) {
-              return false;
-            }
-            
-            return true;
-          });
-          
-          if (availableCast.length > 0) {
-            const sortedCast = availableCast.sort((a, b) => {
-              const aCount = this.getCurrentShowCount(a.name);
-              const bCount = this.getCurrentShowCount(b.name);
-              return aCount - bCount;
-            });
-            
-            showAssignment[role] = sortedCast[0].name;
-          } else {
-            errors.push(`Could not assign ${role} for show on ${this.formatDateForValidation(show.date, show.time)} - no available performers`);
-          }
-        }
-      }
-    }
-
-    const assignments = this.convertToAssignments();
-    const hasAnyAssignments = assignments.length > 0;
+    const details = solution.unfilled.map(({ showId, role }) => {
+      const show = this.shows.find(s => s.id === showId)!;
+      return `Could not assign ${role} for show on ${this.formatDateForValidation(show.date, show.time)} - no available performers`;
+    });
 
-    return {
-      success: hasAnyAssignments,
-      assignments,
-      errors: errors.length > 0 ? errors : undefined
-    };
+    return [summary, ...details];
   }
 
   // Assign RED days to OFF performers
@@ -454,18 +368,36 @@ export class SchedulingAlgorithm {
         }
     }
 
-    // Step 3: Assign one RED day per performer
-    const performerRedDays: Record<string, string> = {};
+    // Step 3: Assign the configured number of RED days per performer per week
+    const performerRedDays: Record<string, Set<string>> = {};
     for (const performer of allPerformers) {
         const fullDaysOff = performerFullDaysOff[performer];
+        performerRedDays[performer] = new Set();
         if (fullDaysOff.length > 0) {
-            // Prioritize single-show days (weekdays)
+            // Prioritize days the performer is present for, then the weekdays they asked for,
+            // then single-show days (weekdays)
+            const preferredWeekdays = this.castMembers.find(m => m.name === performer)?.preferredRedDays ?? [];
             const sortedDaysOff = fullDaysOff.sort((a, b) => {
+                const leaveA = this.isPerformerUnavailableOnDate(performer, a) ? 1 : 0;
+                const leaveB = this.isPerformerUnavailableOnDate(performer, b) ? 1 : 0;
+                if (leaveA !== leaveB) return leaveA - leaveB;
+
+                const preferredA = preferredWeekdays.includes(new Date(a + 'T12:00:00Z').getUTCDay()) ? 0 : 1;
+                const preferredB = preferredWeekdays.includes(new Date(b + 'T12:00:00Z').getUTCDay()) ? 0 : 1;
+                if (preferredA !== preferredB) return preferredA - preferredB;
+
                 const showsOnA = showsByDate[a]?.length || 99;
                 const showsOnB = showsByDate[b]?.length || 99;
                 return showsOnA - showsOnB;
             });
-            performerRedDays[performer] = sortedDaysOff[0];
+            const redDaysPerWeek = this.getTailRedDaysPerWeek(performer);
+            for (const date of sortedDaysOff) {
+                const weekKey = this.getWeekKey(date);
+                if ((redDaysPerWeek[weekKey] || 0) < this.rules.redDaysPerWeek.value) {
+                    performerRedDays[performer].add(date);
+                    redDaysPerWeek[weekKey] = (redDaysPerWeek[weekKey] || 0) + 1;
+                }
+            }
         }
     }
 
@@ -485,11 +417,12 @@ export class SchedulingAlgorithm {
         const offPerformers = allPerformers.filter(p => !performersOnShow.has(p));
 
         offPerformers.forEach(performer => {
-            const isRedDay = performerRedDays[performer] === show.date;
+            const isRedDay = performerRedDays[performer].has(show.date);
             finalAssignments.push({
                 showId: show.id,
                 role: 'OFF',
                 performer: performer,
+                performerId: this.getPerformerId(performer),
                 isRedDay: isRedDay
             });
         });
@@ -498,39 +431,187 @@ export class SchedulingAlgorithm {
     return finalAssignments;
   }
 
+  // Names a first cover for every stage role from the performers who are off but on call.
+  // Performers who rank the role highest go first, then whoever covers least so far.
+  private assignCovers(assignments: Assignment[]): Assignment[] {
+    const coversInWeek: Record<string, number> = {};
+    const result = assignments.map(assignment => ({ ...assignment }));
+
+    for (const show of this.getSchedulableShows()) {
+      const stageRoles = result
+        .filter(a => a.showId === show.id && a.role !== "OFF")
+        .map(a => a.role as Role);
+      const onCall = result.filter(a =>
+        a.showId === show.id && a.role === "OFF" && !a.isRedDay && !this.isPerformerUnavailable(a.performer, show.id)
+      );
+      const coversInShow: Record<string, number> = {};
+
+      for (const role of stageRoles) {
+        const candidates = onCall
+          .map(entry => ({ entry, member: this.castMembers.find(m => m.name === entry.performer) }))
+          .filter(({ member }) => member?.eligibleRoles.includes(role))
+          .sort((a, b) =>
+            this.getPreferenceRank(a.member!, role) - this.getPreferenceRank(b.member!, role) ||
+            (coversInShow[a.entry.performer] || 0) - (coversInShow[b.entry.performer] || 0) ||
+            (coversInWeek[a.entry.performer] || 0) - (coversInWeek[b.entry.performer] || 0) ||
+            a.entry.performer.localeCompare(b.entry.performer)
+          );
+        const cover = candidates[0]?.entry;
+        if (!cover) continue;
+
+        cover.covers = [...(cover.covers || []), role];
+        coversInShow[cover.performer] = (coversInShow[cover.performer] || 0) + 1;
+        coversInWeek[cover.performer] = (coversInWeek[cover.performer] || 0) + 1;
+      }
+    }
+
+    return result;
+  }
+
+  private getPreferenceRank(member: CastMember, role: Role): number {
+    return ROLE_PREFERENCES.indexOf(member.rolePreferences?.[role] ?? "primary");
+  }
+
+  // RED days already given in the preceding schedule, counted per week
+  private getTailRedDaysPerWeek(performer: string): Record<string, number> {
+    const redDates = new Set(
+      this.tailAssignments
+        .filter(a => a.performer === performer && a.role === 'OFF' && a.isRedDay)
+        .map(a => this.tailShows.find(s => s.id === a.showId)?.date)
+        .filter((date): date is string => date !== undefined)
+    );
+    const redDaysPerWeek: Record<string, number> = {};
+    redDates.forEach(date => {
+      const weekKey = this.getWeekKey(date);
+      redDaysPerWeek[weekKey] = (redDaysPerWeek[weekKey] || 0) + 1;
+    });
+    return redDaysPerWeek;
+  }
+
+  // Active shows of this schedule, excluding the fixed tail
+  private getSchedulableShows(): Show[] {
+    return this.getSortedActiveShows().filter(show => !this.fixedShowIds.has(show.id));
+  }
+
   private clearAllAssignments(): void {
     this.clearCaches();
     
-    const roles: Role[] = ["Sarge", "Potato", "Mozzie", "Ringo", "Particle", "Bin", "Cornish", "Who"];
     this.shows.forEach(show => {
       const showAssignment: ShowAssignment = {};
-      roles.forEach(role => {
+      this.getRoles().forEach(role => {
         showAssignment[role] = "";
       });
       this.assignments.set(show.id, showAssignment);
     });
   }
 
-  private getRolesByDifficulty(): Role[] {
-    const roles: Role[] = ["Sarge", "Potato", "Mozzie", "Ringo", "Particle", "Bin", "Cornish", "Who"];
-    return [...roles].sort((a, b) => {
-      const aEligible = this.castMembers.filter(member => member.eligibleRoles.includes(a)).length;
-      const bEligible = this.castMembers.filter(member => member.eligibleRoles.includes(b)).length;
-      return aEligible - bEligible;
-    });
+  private isRuleEnforced(rule: keyof SchedulingRules): boolean {
+    return this.rules[rule].enforcement === "hard" || !this.relaxSoftRules;
+  }
+
+  // Monday of the week containing the date, as YYYY-MM-DD
+  private getWeekKey(date: string): string {
+    return getWeekKey(date);
+  }
+
+  private getRoles(): Role[] {
+    return this.roleCatalog.map(role => role.name);
+  }
+
+  private isRoleRequired(role: Role): boolean {
+    return this.roleCatalog.find(definition => definition.name === role)?.isRequired ?? true;
+  }
+
+  // Approved leave entries belonging to a performer, matched by member ID when known
+  private getLeaveFor(performer: string): Unavailability[] {
+    const memberId = this.getPerformerId(performer);
+    return this.unavailability.filter(entry =>
+      memberId ? entry.memberId === memberId : entry.performer === performer
+    );
+  }
+
+  private findLeaveForShow(performer: string, showId: string): Unavailability | undefined {
+    const show = this.shows.find(s => s.id === showId);
+    if (!show) return undefined;
+
+    const showTime = `${show.date}T${show.time}`;
+    return this.getLeaveFor(performer).find(entry =>
+      showTime >= `${entry.startDate}T${entry.startTime ?? "00:00"}` &&
+      showTime <= `${entry.endDate}T${entry.endTime ?? "23:59"}`
+    );
+  }
+
+  private isPerformerUnavailable(performer: string, showId: string): boolean {
+    return this.findLeaveForShow(performer, showId) !== undefined;
+  }
+
+  private isPerformerUnavailableOnDate(performer: string, date: string): boolean {
+    return this.getLeaveFor(performer).some(entry => date >= entry.startDate && date <= entry.endDate);
+  }
+
+  // Stage assignments that clash with approved leave
+  public getAvailabilityConflicts(assignments: Assignment[]): Array<{ assignment: Assignment; leave: Unavailability }> {
+    const conflicts: Array<{ assignment: Assignment; leave: Unavailability }> = [];
+
+    for (const assignment of resolvePerformerNames(assignments, this.castMembers)) {
+      if (assignment.role === "OFF") continue;
+      const leave = this.findLeaveForShow(assignment.performer, assignment.showId);
+      if (leave) {
+        conflicts.push({ assignment, leave });
+      }
+    }
+
+    return conflicts;
+  }
+
+  // Stage roles with nobody off that night who could cover them; RED days and leave rule performers out
+  public getCoverGaps(assignments: Assignment[]): Array<{ show: Show; role: Role }> {
+    assignments = resolvePerformerNames(assignments, this.castMembers);
+    const gaps: Array<{ show: Show; role: Role }> = [];
+
+    for (const show of this.shows.filter(s => s.status === "show")) {
+      const stage = assignments.filter(a => a.showId === show.id && a.role !== "OFF");
+      if (stage.length === 0) continue;
+
+      const onStage = new Set(stage.map(a => a.performer));
+      const showIdsOnDate = new Set(this.shows.filter(s => s.date === show.date).map(s => s.id));
+      const redToday = new Set(assignments
+        .filter(a => a.role === "OFF" && a.isRedDay && showIdsOnDate.has(a.showId))
+        .map(a => a.performer));
+      const onCall = this.castMembers.filter(member =>
+        !onStage.has(member.name) && !redToday.has(member.name) && !this.isPerformerUnavailable(member.name, show.id)
+      );
+
+      for (const assignment of stage) {
+        const role = assignment.role as Role;
+        if (!onCall.some(member => member.eligibleRoles.includes(role))) {
+          gaps.push({ show, role });
+        }
+      }
+    }
+
+    return gaps;
+  }
+
+  // Stable member ID for a performer name, when the cast came from the company roster
+  private getPerformerId(performer: string): string | undefined {
+    return this.castMembers.find(member => member.name === performer)?.id;
   }
 
   private convertToAssignments(): Assignment[] {
     const assignments: Assignment[] = [];
     
     for (const [showId, showAssignment] of this.assignments) {
+      if (this.fixedShowIds.has(showId)) continue;
       for (const [role, performer] of Object.entries(showAssignment)) {
         if (performer !== "") {
           assignments.push({
             showId,
             role: role as Role,
             performer,
-            isRedDay: false
+            performerId: this.getPerformerId(performer),
+            isRedDay: false,
+            isLocked: this.lockedSlots.has(`${showId}|${role}`)
           });
         }
       }
@@ -616,7 +697,7 @@ export class SchedulingAlgorithm {
       if (!isConsecutive) {
         // End current sequence if it's significant
         const sequenceLength = i - currentSequenceStart;
-        if (sequenceLength > 3) {
+        if (sequenceLength > this.rules.maxConsecutiveShows.value) {
           const startIndex = sortedIndexes[currentSequenceStart];
           const endIndex = sortedIndexes[i - 1];
           sequences.push({
@@ -634,7 +715,7 @@ export class SchedulingAlgorithm {
 
     // Handle final sequence
     const finalSequenceLength = sortedIndexes.length - currentSequenceStart;
-    if (finalSequenceLength > 3) {
+    if (finalSequenceLength > this.rules.maxConsecutiveShows.value) {
       const startIndex = sortedIndexes[currentSequenceStart];
       const endIndex = sortedIndexes[sortedIndexes.length - 1];
       sequences.push({
@@ -657,18 +738,29 @@ export class SchedulingAlgorithm {
       const date1 = new Date(`${show1.date}T${show1.time}`);
       const date2 = new Date(`${show2.date}T${show2.time}`);
       const daysDiff = Math.floor((date2.getTime() - date1.getTime()) / (1000 * 60 * 60 * 24));
-      return daysDiff <= 2; // Allow up to 2 days gap
+      return daysDiff <= this.rules.consecutiveGapDays.value;
     } catch (error) {
       return false;
     }
   }
 
   public validateSchedule(assignments: Assignment[]): ConstraintResult {
+    // Assignments carrying a member ID are matched on the member's current name
+    assignments = resolvePerformerNames(assignments, this.castMembers);
+
     const errors: string[] = [];
     const warnings: string[] = [];
 
+    // Consecutive runs are cached per assignment list; each validation brings its own
+    this._performerShowCache = null;
+
     // Filter active shows for validation
     const activeShows = this.shows.filter(show => show.status === "show");
+    const scheduleWeeks = new Set(activeShows.map(show => this.getWeekKey(show.date)));
+
+    // Rules spanning several shows also look at the preceding schedule's tail
+    const contextShows = [...this.tailShows, ...activeShows];
+    const contextAssignments = [...this.tailAssignments, ...assignments];
 
     // Group assignments by show
     const showAssignments = new Map<string, Assignment[]>();
@@ -687,23 +779,25 @@ export class SchedulingAlgorithm {
       // Filter only stage assignments (not OFF)
       const stageAssignments = showAssignmentList.filter(a => a.role !== "OFF");
       
-      // Check if exactly 8 performers per show
+      // Check the show has one performer per required role and no more than one per catalog role
+      const requiredCount = this.roleCatalog.filter(role => role.isRequired).length;
+      const capacity = this.roleCatalog.length;
       const uniquePerformers = new Set(stageAssignments.map(a => a.performer));
-      if (uniquePerformers.size !== 8 && stageAssignments.length > 0) {
-        if (uniquePerformers.size < 8) {
-          const missingCount = 8 - uniquePerformers.size;
+      if (stageAssignments.length > 0) {
+        if (uniquePerformers.size < requiredCount) {
+          const missingCount = requiredCount - uniquePerformers.size;
           warnings.push(`Show ${showDate}: Missing ${missingCount} performer${missingCount > 1 ? 's' : ''} - assign additional cast members to reach full capacity`);
-        } else {
-          errors.push(`Show ${showDate}: Has ${uniquePerformers.size} performers but can only have 8 - remove duplicate assignments`);
+        } else if (uniquePerformers.size > capacity) {
+          errors.push(`Show ${showDate}: Has ${uniquePerformers.size} performers but can only have ${capacity} - remove duplicate assignments`);
         }
       }
 
-      // Check if all roles are filled
+      // Check if all required roles are filled
       const filledRoles = new Set(stageAssignments.map(a => a.role));
-      if (filledRoles.size !== 8 && stageAssignments.length > 0) {
-        if (filledRoles.size < 8) {
-          const missingRoles = ["Sarge", "Potato", "Mozzie", "Ringo", "Particle", "Bin", "Cornish", "Who"]
-            .filter(role => !filledRoles.has(role as Role));
+      if (stageAssignments.length > 0) {
+        const missingRoles = this.getRoles()
+          .filter(role => this.isRoleRequired(role) && !filledRoles.has(role));
+        if (missingRoles.length > 0) {
           warnings.push(`Show ${showDate}: Missing roles: ${missingRoles.join(", ")} - assign performers to these roles`);
         }
       }
@@ -751,21 +845,27 @@ export class SchedulingAlgorithm {
     }
 
     // CRITICAL: Use optimized consecutive shows analysis
-    const performerData = this.analyzeConsecutiveShows(assignments);
+    const performerData = this.analyzeConsecutiveShows(contextAssignments);
+    const sortedShows = this.getSortedActiveShows();
     for (const [memberName, data] of performerData) {
       for (const sequence of data.sequences) {
-        if (sequence.count > 3) {
+        if (this.fixedShowIds.has(sortedShows[sequence.endIndex].id)) continue; // Entirely within the previous schedule
+        if (sequence.count > this.rules.maxConsecutiveShows.value) {
           const suggestions = this.getConsecutiveShowSuggestions(memberName, sequence, assignments, activeShows);
-          errors.push(`${memberName} has ${sequence.count} consecutive shows (${sequence.startDate} to ${sequence.endDate}) - CRITICAL VIOLATION. ${suggestions}`);
+          if (this.rules.maxConsecutiveShows.enforcement === "hard") {
+            errors.push(`${memberName} has ${sequence.count} consecutive shows (${sequence.startDate} to ${sequence.endDate}) - CRITICAL VIOLATION. ${suggestions}`);
+          } else {
+            warnings.push(`${memberName} has ${sequence.count} consecutive shows (${sequence.startDate} to ${sequence.endDate}) - above the preferred maximum of ${this.rules.maxConsecutiveShows.value}. ${suggestions}`);
+          }
         }
       }
     }
 
     // Weekend Rule Validation
     for (const member of this.castMembers) {
-        const performerShows = assignments
+        const performerShows = contextAssignments
             .filter(a => a.performer === member.name && a.role !== 'OFF')
-            .map(a => activeShows.find(s => s.id === a.showId))
+            .map(a => contextShows.find(s => s.id === a.showId))
             .filter((s): s is Show => s !== undefined);
 
         const showsByWeekend: Record<string, Show[]> = {};
@@ -783,32 +883,73 @@ export class SchedulingAlgorithm {
         }
 
         for (const weekKey in showsByWeekend) {
-            if (showsByWeekend[weekKey].length >= 4) {
-                errors.push(`${member.name} has ${showsByWeekend[weekKey].length} shows over a weekend (Fri-Sun) - exceeds maximum of 3.`);
+            if (!scheduleWeeks.has(weekKey)) continue;
+            if (showsByWeekend[weekKey].length > this.rules.maxWeekendShows.value) {
+                const message = `${member.name} has ${showsByWeekend[weekKey].length} shows over a weekend (Fri-Sun) - exceeds maximum of ${this.rules.maxWeekendShows.value}.`;
+                (this.rules.maxWeekendShows.enforcement === "hard" ? errors : warnings).push(message);
+            }
+        }
+
+        // Weekly Limit Validation
+        const showsByWeek: Record<string, Set<string>> = {};
+        contextAssignments
+            .filter(a => a.performer === member.name && a.role !== 'OFF')
+            .forEach(a => {
+                const show = contextShows.find(s => s.id === a.showId);
+                if (!show) return;
+                const weekKey = this.getWeekKey(show.date);
+                if (!showsByWeek[weekKey]) showsByWeek[weekKey] = new Set();
+                showsByWeek[weekKey].add(show.id);
+            });
+
+        for (const weekKey in showsByWeek) {
+            if (!scheduleWeeks.has(weekKey)) continue;
+            if (showsByWeek[weekKey].size > this.rules.maxShowsPerWeek.value) {
+                const message = `${member.name} has ${showsByWeek[weekKey].size} shows in the week of ${weekKey} - exceeds maximum of ${this.rules.maxShowsPerWeek.value}.`;
+                (this.rules.maxShowsPerWeek.enforcement === "hard" ? errors : warnings).push(message);
             }
         }
     }
 
+    // Availability Validation
+    for (const { assignment, leave } of this.getAvailabilityConflicts(assignments)) {
+      const show = activeShows.find(s => s.id === assignment.showId);
+      if (show) {
+        errors.push(`Show ${this.formatDateForValidation(show.date, show.time)}: ${assignment.performer} is on approved ${leave.type} leave (${leave.startDate} to ${leave.endDate}) - reassign ${assignment.role} to an available performer`);
+      }
+    }
+
     // RED Day Validation
     const performerRedDays: Record<string, string[]> = {};
     this.castMembers.forEach(m => performerRedDays[m.name] = []);
 
-    const offAssignments = assignments.filter(a => a.role === 'OFF' && a.isRedDay);
+    const offAssignments = contextAssignments.filter(a => a.role === 'OFF' && a.isRedDay);
     offAssignments.forEach(a => {
-        const show = activeShows.find(s => s.id === a.showId);
-        if (show) {
+        const show = contextShows.find(s => s.id === a.showId);
+        if (show && performerRedDays[a.performer]) {
             if (!performerRedDays[a.performer].includes(show.date)) {
                 performerRedDays[a.performer].push(show.date);
             }
         }
     });
 
+    const redDayLimit = this.rules.redDaysPerWeek.value;
     for (const performer in performerRedDays) {
-        if (performerRedDays[performer].length > 1) {
-            errors.push(`${performer} has more than one RED day assigned.`);
-        }
-        if (this.castMembers.some(m => m.name === performer) && performerRedDays[performer].length === 0) {
-            warnings.push(`${performer} does not have a RED day assigned.`);
+        const redDaysByWeek: Record<string, number> = {};
+        performerRedDays[performer].forEach(date => {
+            const weekKey = this.getWeekKey(date);
+            redDaysByWeek[weekKey] = (redDaysByWeek[weekKey] || 0) + 1;
+        });
+
+        for (const weekKey of scheduleWeeks) {
+            const count = redDaysByWeek[weekKey] || 0;
+            if (count > redDayLimit) {
+                const message = `${performer} has ${count} RED days in the week of ${weekKey} - more than ${redDayLimit} assigned.`;
+                (this.rules.redDaysPerWeek.enforcement === "hard" ? errors : warnings).push(message);
+            }
+            if (this.castMembers.some(m => m.name === performer) && count === 0 && redDayLimit > 0) {
+                warnings.push(`${performer} does not have a RED day assigned.`);
+            }
         }
 
         for (const redDate of performerRedDays[performer]) {
@@ -822,6 +963,22 @@ export class SchedulingAlgorithm {
     }
 
 
+    // Every role should have someone off that night who can step in
+    for (const { show, role } of this.getCoverGaps(assignments)) {
+      warnings.push(`Show ${this.formatDateForValidation(show.date, show.time)}: No cover for ${role} - nobody off that night can play it`);
+    }
+
+    // Named covers must still be off and on call
+    for (const assignment of assignments) {
+      if (assignment.role !== "OFF" || !assignment.covers?.length) continue;
+      const show = activeShows.find(s => s.id === assignment.showId);
+      if (!show) continue;
+      const isOnStage = assignments.some(a => a.showId === show.id && a.role !== "OFF" && a.performer === assignment.performer);
+      if (isOnStage || assignment.isRedDay) {
+        warnings.push(`Show ${this.formatDateForValidation(show.date, show.time)}: ${assignment.performer} is named cover for ${assignment.covers.join(", ")} but is ${isOnStage ? "on stage" : "on a RED day"}`);
+      }
+    }
+
     // Check show distribution with specific suggestions
     const showCounts = this.getShowCounts(assignments, activeShows);
     const averageShows = activeShows.length > 0 ? activeShows.length / this.castMembers.length : 0;
@@ -839,10 +996,28 @@ export class SchedulingAlgorithm {
     return {
       isValid: errors.length === 0,
       errors,
-      warnings
+      warnings,
+      offPrimaryShows: this.getOffPrimaryShows(assignments, activeShows)
     };
   }
 
+  // Shows per performer in roles they rank secondary or emergency-only
+  private getOffPrimaryShows(assignments: Assignment[], activeShows: Show[]): Record<string, number> {
+    const activeShowIds = new Set(activeShows.map(show => show.id));
+    const counts: Record<string, number> = {};
+
+    for (const assignment of assignments) {
+      if (assignment.role === "OFF" || !activeShowIds.has(assignment.showId)) continue;
+      const member = this.castMembers.find(m => m.name === assignment.performer);
+      if (!member) continue;
+      if ((member.rolePreferences?.[assignment.role] ?? "primary") !== "primary") {
+        counts[member.name] = (counts[member.name] || 0) + 1;
+      }
+    }
+
+    return counts;
+  }
+
   private formatDateForValidation(date: string, time: string): string {
     try {
       const dateObj = new Date(date);
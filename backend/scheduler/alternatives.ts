@@ -0,0 +1,110 @@
+import { api, APIError } from "encore.dev/api";
+import { Show, Assignment } from "./types";
+import { SchedulingAlgorithm } from "./algorithm";
+import { DEFAULT_TIME_BUDGET_MS, isValidTimeBudget } from "./solver";
+import { ScheduleScore, scoreSchedule } from "./scoring";
+import { loadApprovedUnavailability } from "./availability";
+import { loadRulesForLocation } from "./rule_sets";
+import { loadPreviousSchedule } from "./season";
+import { loadRoleHistory } from "./role_history";
+import { MAX_SEED, createSeed, isValidSeed } from "./random";
+import { requirePermission } from "./auth";
+
+const DEFAULT_OPTION_COUNT = 3;
+const MAX_OPTION_COUNT = 10;
+// Candidates generated per option asked for, so duplicates and weak runs can be dropped
+const CANDIDATES_PER_OPTION = 3;
+
+export interface GenerateAlternativesRequest {
+  shows: Show[];
+  location?: string; // Selects the production's rule set
+  assignments?: Assignment[]; // Current grid; cells marked isLocked are kept as they are
+  count?: number; // Number of options to return, 1 to 10
+  seed?: number; // Replays an earlier set of options
+  timeBudgetMs?: number; // Search time limit shared by all candidates
+}
+
+export interface ScheduleOption {
+  assignments: Assignment[];
+  score: ScheduleScore;
+  seed: number; // Replays this option through auto-generate
+}
+
+export interface GenerateAlternativesResponse {
+  options: ScheduleOption[];
+}
+
+// Generates several distinct schedules for the same shows, best scoring first.
+// Only complete schedules that keep every hard rule are offered, so there may be fewer than asked for.
+export const generateAlternatives = api<GenerateAlternativesRequest, GenerateAlternativesResponse>(
+  { expose: true, auth: true, method: "POST", path: "/schedules/alternatives" },
+  async (req) => {
+    requirePermission("schedules.edit");
+    const count = req.count ?? DEFAULT_OPTION_COUNT;
+    if (!Number.isInteger(count) || count < 1 || count > MAX_OPTION_COUNT) {
+      throw APIError.invalidArgument(`count must be between 1 and ${MAX_OPTION_COUNT}`);
+    }
+    if (req.seed !== undefined && !isValidSeed(req.seed)) {
+      throw APIError.invalidArgument("seed must be a non-negative 32-bit integer");
+    }
+    if (req.timeBudgetMs !== undefined && !isValidTimeBudget(req.timeBudgetMs)) {
+      throw APIError.invalidArgument("timeBudgetMs must be between 100 and 60000");
+    }
+
+    const { getCastMembers } = await import("./cast_members");
+    const castData = await getCastMembers();
+    const unavailability = await loadApprovedUnavailability(req.shows);
+    const rules = await loadRulesForLocation(req.location);
+    const previous = req.location ? await loadPreviousSchedule(req.location, req.shows) : null;
+    const roleHistory = req.location ? await loadRoleHistory(req.location, req.shows) : undefined;
+
+    const candidates = count * CANDIDATES_PER_OPTION;
+    const timeBudgetMs = Math.max(100, Math.floor((req.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS) / candidates));
+    const baseSeed = req.seed ?? createSeed();
+
+    const options: ScheduleOption[] = [];
+    const seen = new Set<string>();
+    let rejection: string | undefined;
+
+    for (let i = 0; i < candidates; i++) {
+      const seed = (baseSeed + i) % (MAX_SEED + 1);
+      const algorithm = new SchedulingAlgorithm(req.shows, castData.castMembers, {
+        unavailability,
+        roles: castData.roleCatalog,
+        rules,
+        previousTail: previous?.tail,
+        lockedAssignments: req.assignments,
+        roleHistory,
+        seed,
+        timeBudgetMs
+      });
+      const result = await algorithm.autoGenerate();
+      if (result.status !== "solved") {
+        rejection ??= result.errors?.[0];
+        continue;
+      }
+
+      const signature = result.assignments
+        .filter(a => a.role !== "OFF")
+        .map(a => `${a.showId}:${a.role}:${a.performer}`)
+        .sort()
+        .join("|");
+      if (seen.has(signature)) continue;
+      seen.add(signature);
+
+      options.push({
+        assignments: result.assignments,
+        score: scoreSchedule(req.shows, result.assignments, castData.castMembers),
+        seed
+      });
+    }
+
+    if (options.length === 0) {
+      throw APIError.failedPrecondition(rejection ?? "no valid schedule found for these shows - try a longer time budget");
+    }
+
+    options.sort((a, b) => b.score.total - a.score.total);
+
+    return { options: options.slice(0, count) };
+  }
+);
@@ -0,0 +1,248 @@
+import { api, APIError, Gateway, Header } from "encore.dev/api";
+import { authHandler } from "encore.dev/auth";
+import { getAuthData } from "~encore/auth";
+import { scheduleDB } from "./db";
+import {
+  Permission,
+  UserRole,
+  ROLE_LABELS,
+  MIN_PASSWORD_LENGTH,
+  SESSION_DAYS,
+  hasPermission,
+  hashPassword,
+  verifyPassword,
+  newSessionToken,
+  hashSessionToken
+} from "./access";
+
+export interface User {
+  id: string;
+  username: string;
+  displayName: string;
+  role: UserRole;
+  memberId?: string; // CompanyMember this account belongs to, for cast members
+  email?: string; // Where schedule change notifications are emailed
+  isActive: boolean;
+  createdAt: Date;
+  lastLoginAt?: Date;
+}
+
+interface AuthParams {
+  authorization: Header<"Authorization">; // "Bearer <session token>"
+}
+
+export interface AuthData {
+  userID: string;
+  username: string;
+  displayName: string;
+  role: UserRole;
+  memberId?: string;
+  sessionHash: string;
+}
+
+export interface AuthStatusResponse {
+  needsSetup: boolean; // No accounts exist yet; the first one is created through setup
+}
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface SetupRequest {
+  username: string;
+  password: string;
+  displayName: string;
+}
+
+export interface LoginResponse {
+  token: string; // Sent back as "Authorization: Bearer <token>"
+  expiresAt: Date;
+  user: User;
+}
+
+export interface CurrentUserResponse {
+  user: User;
+}
+
+// Resolves the bearer token on a request to the signed-in user.
+export const auth = authHandler<AuthParams, AuthData>(async (params) => {
+  const token = params.authorization?.replace(/^Bearer\s+/i, "").trim();
+  if (!token) {
+    throw APIError.unauthenticated("sign in required");
+  }
+
+  const tokenHash = hashSessionToken(token);
+  const row = await scheduleDB.queryRow`
+    SELECT u.id, u.username, u.display_name, u.role, u.member_id
+    FROM user_sessions s
+    JOIN users u ON u.id = s.user_id
+    WHERE s.token_hash = ${tokenHash} AND s.expires_at > ${new Date()} AND u.is_active
+  `;
+  if (!row) {
+    throw APIError.unauthenticated("session expired - sign in again");
+  }
+
+  return {
+    userID: row.id,
+    username: row.username,
+    displayName: row.display_name,
+    role: row.role as UserRole,
+    memberId: row.member_id ?? undefined,
+    sessionHash: tokenHash
+  };
+});
+
+export const gateway = new Gateway({ authHandler: auth });
+
+// Tells the login page whether to offer first-time setup instead.
+export const authStatus = api<void, AuthStatusResponse>(
+  { expose: true, method: "GET", path: "/auth/status" },
+  async () => {
+    const row = await scheduleDB.queryRow`SELECT COUNT(*)::int AS count FROM users`;
+    return { needsSetup: (row?.count ?? 0) === 0 };
+  }
+);
+
+// Creates the first admin account. Only works while no accounts exist.
+export const setupAdmin = api<SetupRequest, LoginResponse>(
+  { expose: true, method: "POST", path: "/auth/setup" },
+  async (req) => {
+    validateCredentials(req.username, req.password);
+    if (!req.displayName?.trim()) {
+      throw APIError.invalidArgument("display name is required");
+    }
+
+    const id = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const now = new Date();
+    // The NOT EXISTS guard makes two simultaneous setups create a single admin
+    const created = await scheduleDB.queryRow`
+      INSERT INTO users (id, username, display_name, password_hash, role, created_at, updated_at)
+      SELECT ${id}, ${normalizeUsername(req.username)}, ${req.displayName.trim()}, ${hashPassword(req.password)}, 'admin', ${now}, ${now}
+      WHERE NOT EXISTS (SELECT 1 FROM users)
+      RETURNING id
+    `;
+    if (!created) {
+      throw APIError.failedPrecondition("setup has already been completed - sign in instead");
+    }
+
+    return startSession(id);
+  }
+);
+
+// Signs in with a username and password.
+export const login = api<LoginRequest, LoginResponse>(
+  { expose: true, method: "POST", path: "/auth/login" },
+  async (req) => {
+    const row = await scheduleDB.queryRow`
+      SELECT id, password_hash, is_active
+      FROM users
+      WHERE username = ${normalizeUsername(req.username ?? "")}
+    `;
+    // Same answer for unknown users, wrong passwords and disabled accounts
+    if (!row || !row.is_active || !verifyPassword(req.password ?? "", row.password_hash)) {
+      throw APIError.unauthenticated("invalid username or password");
+    }
+
+    return startSession(row.id);
+  }
+);
+
+// Signs out, ending the current session.
+export const logout = api<void, void>(
+  { expose: true, auth: true, method: "POST", path: "/auth/logout" },
+  async () => {
+    const user = getAuthData()!;
+    await scheduleDB.exec`
+      DELETE FROM user_sessions WHERE token_hash = ${user.sessionHash}
+    `;
+  }
+);
+
+// Gets the signed-in user.
+export const currentUser = api<void, CurrentUserResponse>(
+  { expose: true, auth: true, method: "GET", path: "/auth/me" },
+  async () => {
+    return { user: await getUserById(getAuthData()!.userID) };
+  }
+);
+
+// Returns the signed-in user if their role grants the permission, and rejects the request otherwise.
+export function requirePermission(permission: Permission): AuthData {
+  const user = getAuthData();
+  if (!user) {
+    throw APIError.unauthenticated("sign in required");
+  }
+  if (!hasPermission(user.role, permission)) {
+    throw APIError.permissionDenied(`${ROLE_LABELS[user.role]} accounts cannot do this (needs ${permission})`);
+  }
+  return user;
+}
+
+// Lets cast members act on their own company entry, and managers on anyone's.
+export function requireMemberAccess(memberId: string): AuthData {
+  const user = requirePermission("portal.view");
+  if (user.memberId === memberId) {
+    return user;
+  }
+  return requirePermission("company.manage");
+}
+
+export async function getUserById(id: string): Promise<User> {
+  const row = await scheduleDB.queryRow`
+    SELECT id, username, display_name, role, member_id, email, is_active, created_at, last_login_at
+    FROM users
+    WHERE id = ${id}
+  `;
+  if (!row) {
+    throw APIError.notFound("user not found");
+  }
+  return toUser(row);
+}
+
+export function toUser(row: Record<string, any>): User {
+  return {
+    id: row.id,
+    username: row.username,
+    displayName: row.display_name,
+    role: row.role as UserRole,
+    memberId: row.member_id ?? undefined,
+    email: row.email ?? undefined,
+    isActive: row.is_active,
+    createdAt: new Date(row.created_at),
+    lastLoginAt: row.last_login_at ? new Date(row.last_login_at) : undefined
+  };
+}
+
+export function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+export function validateCredentials(username: string, password: string): void {
+  if (!/^[a-z0-9._-]{3,40}$/.test(normalizeUsername(username ?? ""))) {
+    throw APIError.invalidArgument("username must be 3-40 letters, digits, dots, dashes or underscores");
+  }
+  if ((password ?? "").length < MIN_PASSWORD_LENGTH) {
+    throw APIError.invalidArgument(`password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+async function startSession(userId: string): Promise<LoginResponse> {
+  const { token, tokenHash } = newSessionToken();
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+
+  await scheduleDB.exec`
+    INSERT INTO user_sessions (token_hash, user_id, created_at, expires_at)
+    VALUES (${tokenHash}, ${userId}, ${now}, ${expiresAt})
+  `;
+  await scheduleDB.exec`
+    UPDATE users SET last_login_at = ${now} WHERE id = ${userId}
+  `;
+  // Expired sessions are dropped as new ones start
+  await scheduleDB.exec`
+    DELETE FROM user_sessions WHERE expires_at <= ${now}
+  `;
+
+  return { token, expiresAt, user: await getUserById(userId) };
+}
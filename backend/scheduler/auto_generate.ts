@@ -1,32 +1,72 @@
-import { api } from "encore.dev/api";
+import { api, APIError } from "encore.dev/api";
 import { Show, Assignment } from "./types";
 import { SchedulingAlgorithm, AutoGenerateResult } from "./algorithm";
+import { SolverStatus, isValidTimeBudget } from "./solver";
+import { loadApprovedUnavailability } from "./availability";
+import { loadRulesForLocation } from "./rule_sets";
+import { loadPreviousSchedule } from "./season";
+import { loadRoleHistory } from "./role_history";
+import { isValidSeed } from "./random";
+import { requirePermission } from "./auth";
 
 export interface AutoGenerateRequest {
   shows: Show[];
+  location?: string; // Selects the production's rule set
+  assignments?: Assignment[]; // Current grid; cells marked isLocked are kept as they are
+  seed?: number; // Replays an earlier generation; a random seed is used when omitted
+  timeBudgetMs?: number; // Search time limit, 100 to 60000 ms
 }
 
 export interface AutoGenerateResponse {
   success: boolean;
   assignments: Assignment[];
   errors?: string[];
+  seed: number; // Pass back in to reproduce this result
+  status?: SolverStatus;
+  locksInfeasible?: boolean; // The locked cells are why the week cannot be filled
 }
 
 // Generates optimal cast assignments for the given shows using constraint satisfaction.
 export const autoGenerate = api<AutoGenerateRequest, AutoGenerateResponse>(
-  { expose: true, method: "POST", path: "/schedules/auto-generate" },
+  { expose: true, auth: true, method: "POST", path: "/schedules/auto-generate" },
   async (req) => {
+    requirePermission("schedules.edit");
+    if (req.seed !== undefined && !isValidSeed(req.seed)) {
+      throw APIError.invalidArgument("seed must be a non-negative 32-bit integer");
+    }
+    if (req.timeBudgetMs !== undefined && !isValidTimeBudget(req.timeBudgetMs)) {
+      throw APIError.invalidArgument("timeBudgetMs must be between 100 and 60000");
+    }
+
     // Get current cast members from company system
     const { getCastMembers } = await import("./cast_members");
     const castData = await getCastMembers();
+    const unavailability = await loadApprovedUnavailability(req.shows);
+    const rules = await loadRulesForLocation(req.location);
+    // Continue from the production's previous week so limits hold across the boundary
+    const previous = req.location ? await loadPreviousSchedule(req.location, req.shows) : null;
+    // Roles played in recent weeks, so performers rotate through their tracks
+    const roleHistory = req.location ? await loadRoleHistory(req.location, req.shows) : undefined;
     
-    const algorithm = new SchedulingAlgorithm(req.shows, castData.castMembers);
+    const algorithm = new SchedulingAlgorithm(req.shows, castData.castMembers, {
+      unavailability,
+      roles: castData.roleCatalog,
+      rules,
+      previousTail: previous?.tail,
+      lockedAssignments: req.assignments,
+      roleHistory,
+      seed: req.seed,
+      timeBudgetMs: req.timeBudgetMs
+    });
     const result = await algorithm.autoGenerate();
     
     return {
       success: result.success,
       assignments: result.assignments,
-      errors: result.errors
+      errors: result.errors,
+      seed: algorithm.getSeed(),
+      status: result.status,
+      locksInfeasible: result.locksInfeasible
     };
   }
 );
@@ -0,0 +1,212 @@
+import { api, APIError } from "encore.dev/api";
+import { scheduleDB } from "./db";
+import { Show, Unavailability, UnavailabilityStatus, UnavailabilityType } from "./types";
+import { requirePermission } from "./auth";
+
+export interface ListAvailabilityRequest {
+  memberId?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  status?: UnavailabilityStatus;
+}
+
+export interface ListAvailabilityResponse {
+  entries: Unavailability[];
+}
+
+export interface AddAvailabilityRequest {
+  memberId: string;
+  type: UnavailabilityType;
+  status?: UnavailabilityStatus;
+  startDate: string;
+  endDate: string;
+  startTime?: string;
+  endTime?: string;
+  note?: string;
+}
+
+export interface UpdateAvailabilityRequest {
+  id: string;
+  type?: UnavailabilityType;
+  status?: UnavailabilityStatus;
+  startDate?: string;
+  endDate?: string;
+  startTime?: string;
+  endTime?: string;
+  note?: string;
+}
+
+export interface AvailabilityResponse {
+  entry: Unavailability;
+}
+
+export interface DeleteAvailabilityRequest {
+  id: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+
+// Lists recorded unavailability, optionally filtered by member, date range and status.
+export const listAvailability = api<ListAvailabilityRequest, ListAvailabilityResponse>(
+  { expose: true, auth: true, method: "GET", path: "/company/availability" },
+  async (req) => {
+    requirePermission("schedules.view");
+    return { entries: await queryAvailability(req) };
+  }
+);
+
+// The entries behind listAvailability, for callers that scope access themselves
+export async function queryAvailability(req: ListAvailabilityRequest): Promise<Unavailability[]> {
+  const rows = await scheduleDB.queryAll`
+    SELECT u.id, u.member_id, m.name, u.type, u.status, u.start_date, u.end_date,
+           u.start_time, u.end_time, u.note, u.created_at
+    FROM performer_unavailability u
+    JOIN company_members m ON m.id = u.member_id
+    WHERE (${req.memberId ?? null}::text IS NULL OR u.member_id = ${req.memberId ?? null})
+      AND (${req.status ?? null}::text IS NULL OR u.status = ${req.status ?? null})
+      AND (${req.from ?? null}::text IS NULL OR u.end_date >= ${req.from ?? null})
+      AND (${req.to ?? null}::text IS NULL OR u.start_date <= ${req.to ?? null})
+    ORDER BY u.start_date ASC, m.name ASC
+  `;
+
+  return rows.map(toUnavailability);
+}
+
+// Records a period in which a performer cannot be scheduled.
+export const addAvailability = api<AddAvailabilityRequest, AvailabilityResponse>(
+  { expose: true, auth: true, method: "POST", path: "/company/availability" },
+  async (req) => {
+    requirePermission("schedules.edit");
+    return { entry: await insertAvailability(req) };
+  }
+);
+
+// Updates a recorded unavailability period, e.g. to approve or decline a request.
+export const updateAvailability = api<UpdateAvailabilityRequest, AvailabilityResponse>(
+  { expose: true, auth: true, method: "PUT", path: "/company/availability/:id" },
+  async (req) => {
+    requirePermission("schedules.edit");
+    const entry = await getEntryById(req.id);
+
+    const updated = {
+      type: req.type ?? entry.type,
+      status: req.status ?? entry.status,
+      startDate: req.startDate ?? entry.startDate,
+      endDate: req.endDate ?? entry.endDate,
+      startTime: req.startTime !== undefined ? req.startTime || undefined : entry.startTime,
+      endTime: req.endTime !== undefined ? req.endTime || undefined : entry.endTime,
+      note: req.note ?? entry.note
+    };
+    validateWindow(updated.startDate, updated.endDate, updated.startTime, updated.endTime);
+
+    await scheduleDB.exec`
+      UPDATE performer_unavailability
+      SET type = ${updated.type},
+          status = ${updated.status},
+          start_date = ${updated.startDate},
+          end_date = ${updated.endDate},
+          start_time = ${updated.startTime ?? null},
+          end_time = ${updated.endTime ?? null},
+          note = ${updated.note ?? null}
+      WHERE id = ${req.id}
+    `;
+
+    return { entry: await getEntryById(req.id) };
+  }
+);
+
+// Deletes a recorded unavailability period.
+export const deleteAvailability = api<DeleteAvailabilityRequest, void>(
+  { expose: true, auth: true, method: "DELETE", path: "/company/availability/:id" },
+  async (req) => {
+    requirePermission("schedules.edit");
+    await getEntryById(req.id);
+
+    await scheduleDB.exec`
+      DELETE FROM performer_unavailability WHERE id = ${req.id}
+    `;
+  }
+);
+
+// Loads the approved unavailability overlapping the date range of the given shows.
+export async function loadApprovedUnavailability(shows: Show[]): Promise<Unavailability[]> {
+  const dates = shows.map(show => show.date).sort();
+  if (dates.length === 0) {
+    return [];
+  }
+
+  const { entries } = await listAvailability({
+    from: dates[0],
+    to: dates[dates.length - 1],
+    status: "approved"
+  });
+  return entries;
+}
+
+// Records an unavailability period; entries are approved unless a status is given.
+export async function insertAvailability(entry: AddAvailabilityRequest): Promise<Unavailability> {
+  validateWindow(entry.startDate, entry.endDate, entry.startTime, entry.endTime);
+
+  const member = await scheduleDB.queryRow`
+    SELECT id FROM company_members WHERE id = ${entry.memberId}
+  `;
+  if (!member) {
+    throw APIError.notFound("member not found");
+  }
+
+  const id = `leave_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const now = new Date();
+
+  await scheduleDB.exec`
+    INSERT INTO performer_unavailability (id, member_id, type, status, start_date, end_date, start_time, end_time, note, created_at)
+    VALUES (${id}, ${entry.memberId}, ${entry.type}, ${entry.status ?? "approved"}, ${entry.startDate}, ${entry.endDate},
+            ${entry.startTime ?? null}, ${entry.endTime ?? null}, ${entry.note ?? null}, ${now})
+  `;
+
+  return getEntryById(id);
+}
+
+export async function getEntryById(id: string): Promise<Unavailability> {
+  const row = await scheduleDB.queryRow`
+    SELECT u.id, u.member_id, m.name, u.type, u.status, u.start_date, u.end_date,
+           u.start_time, u.end_time, u.note, u.created_at
+    FROM performer_unavailability u
+    JOIN company_members m ON m.id = u.member_id
+    WHERE u.id = ${id}
+  `;
+
+  if (!row) {
+    throw APIError.notFound("availability entry not found");
+  }
+
+  return toUnavailability(row);
+}
+
+function validateWindow(startDate: string, endDate: string, startTime?: string, endTime?: string): void {
+  if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) {
+    throw APIError.invalidArgument("dates must be in YYYY-MM-DD format");
+  }
+  if ((startTime && !TIME_PATTERN.test(startTime)) || (endTime && !TIME_PATTERN.test(endTime))) {
+    throw APIError.invalidArgument("times must be in HH:MM format");
+  }
+  if (`${endDate}T${endTime ?? "23:59"}` < `${startDate}T${startTime ?? "00:00"}`) {
+    throw APIError.invalidArgument("unavailability must end after it starts");
+  }
+}
+
+function toUnavailability(row: Record<string, any>): Unavailability {
+  return {
+    id: row.id,
+    memberId: row.member_id,
+    performer: row.name,
+    type: row.type,
+    status: row.status,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    startTime: row.start_time ?? undefined,
+    endTime: row.end_time ?? undefined,
+    note: row.note ?? undefined,
+    createdAt: new Date(row.created_at)
+  };
+}
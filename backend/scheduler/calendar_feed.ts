@@ -0,0 +1,160 @@
+import { api, APIError } from "encore.dev/api";
+import { appMeta, currentRequest, APICallMeta } from "encore.dev";
+import { randomBytes } from "node:crypto";
+import { scheduleDB } from "./db";
+import { getMemberById } from "./company";
+import { loadScheduleContents } from "./schedule_store";
+import { buildPerformerCalendar, FeedSchedule } from "./ical";
+import { requirePermission, requireMemberAccess } from "./auth";
+
+export interface CalendarFeed {
+  memberId: string;
+  url: string;
+  webcalUrl: string; // Same feed, for phones that subscribe to webcal:// links
+  createdAt: Date;
+  lastFetchedAt?: Date; // Last time a calendar polled the feed
+}
+
+export interface CalendarFeedRequest {
+  id: string; // memberId
+}
+
+export interface GetCalendarFeedResponse {
+  feed?: CalendarFeed; // Absent until a feed has been issued
+}
+
+export interface IssueCalendarFeedResponse {
+  feed: CalendarFeed;
+}
+
+// Gets a member's calendar feed, if one has been issued. Members can see their own.
+export const getCalendarFeed = api<CalendarFeedRequest, GetCalendarFeedResponse>(
+  { expose: true, auth: true, method: "GET", path: "/company/members/:id/calendar-feed" },
+  async (req) => {
+    requireMemberAccess(req.id);
+    await getMemberById(req.id);
+
+    const row = await scheduleDB.queryRow`
+      SELECT token, member_id, created_at, last_fetched_at
+      FROM calendar_feeds
+      WHERE member_id = ${req.id}
+    `;
+
+    return { feed: row ? toCalendarFeed(row) : undefined };
+  }
+);
+
+// Issues a new calendar feed URL for a member; any earlier URL stops working. Members can issue their own.
+export const issueCalendarFeed = api<CalendarFeedRequest, IssueCalendarFeedResponse>(
+  { expose: true, auth: true, method: "POST", path: "/company/members/:id/calendar-feed" },
+  async (req) => {
+    requireMemberAccess(req.id);
+    await getMemberById(req.id);
+
+    const token = randomBytes(24).toString("hex");
+    const now = new Date();
+    const row = await scheduleDB.queryRow`
+      INSERT INTO calendar_feeds (token, member_id, created_at)
+      VALUES (${token}, ${req.id}, ${now})
+      ON CONFLICT (member_id) DO UPDATE
+      SET token = EXCLUDED.token, created_at = EXCLUDED.created_at, last_fetched_at = NULL
+      RETURNING token, member_id, created_at, last_fetched_at
+    `;
+
+    return { feed: toCalendarFeed(row!) };
+  }
+);
+
+// Revokes a member's calendar feed.
+export const revokeCalendarFeed = api<CalendarFeedRequest, void>(
+  { expose: true, auth: true, method: "DELETE", path: "/company/members/:id/calendar-feed" },
+  async (req) => {
+    requirePermission("company.manage");
+    const row = await scheduleDB.queryRow`
+      DELETE FROM calendar_feeds WHERE member_id = ${req.id} RETURNING token
+    `;
+    if (!row) {
+      throw APIError.notFound("calendar feed not found");
+    }
+  }
+);
+
+// Serves a performer's upcoming calls as an iCalendar feed. The token in the URL is the only credential.
+export const calendarFeed = api.raw(
+  { expose: true, method: "GET", path: "/calendar/:token" },
+  async (req, resp) => {
+    const token = String((currentRequest() as APICallMeta).pathParams.token ?? "");
+    const feedRow = await scheduleDB.queryRow`
+      UPDATE calendar_feeds SET last_fetched_at = ${new Date()}
+      WHERE token = ${token}
+      RETURNING member_id
+    `;
+
+    if (!feedRow) {
+      resp.writeHead(404, { "Content-Type": "text/plain; charset=utf-8" });
+      resp.end("calendar feed not found");
+      return;
+    }
+
+    const member = await getMemberById(feedRow.member_id);
+    const today = new Date().toISOString().split("T")[0];
+    const schedules = await loadFeedSchedules(today);
+
+    resp.writeHead(200, {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `inline; filename="${member.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.ics"`,
+      "Cache-Control": "no-cache"
+    });
+    resp.end(buildPerformerCalendar({ id: member.id, name: member.name }, schedules, today));
+  }
+);
+
+// Published schedules with shows from today on, each with its earlier versions so removed shows can be cancelled.
+// Drafts stay off the cast's calendars until they are published.
+async function loadFeedSchedules(today: string): Promise<FeedSchedule[]> {
+  const rows = await scheduleDB.queryAll`
+    SELECT s.id, s.location, s.week, s.revision, s.updated_at
+    FROM schedules s
+    WHERE s.status IN ('published', 'locked')
+      AND EXISTS (
+        SELECT 1 FROM shows show
+        WHERE show.schedule_id = s.id AND show.date >= ${today}
+      )
+  `;
+
+  const schedules: FeedSchedule[] = [];
+  for (const row of rows) {
+    const contents = await loadScheduleContents(scheduleDB, row.id);
+    const versionRows = await scheduleDB.queryAll`
+      SELECT shows_data, assignments_data
+      FROM schedule_versions
+      WHERE schedule_id = ${row.id} AND version < ${row.revision}
+      ORDER BY version
+    `;
+    schedules.push({
+      id: row.id,
+      location: row.location,
+      week: row.week,
+      revision: row.revision,
+      updatedAt: new Date(row.updated_at),
+      shows: contents.shows,
+      assignments: contents.assignments,
+      earlier: versionRows.map(version => ({
+        shows: JSON.parse(version.shows_data),
+        assignments: JSON.parse(version.assignments_data)
+      }))
+    });
+  }
+  return schedules;
+}
+
+function toCalendarFeed(row: Record<string, any>): CalendarFeed {
+  const url = `${appMeta().apiBaseUrl.replace(/\/$/, "")}/calendar/${row.token}`;
+  return {
+    memberId: row.member_id,
+    url,
+    webcalUrl: url.replace(/^https?:\/\//, "webcal://"),
+    createdAt: new Date(row.created_at),
+    lastFetchedAt: row.last_fetched_at ? new Date(row.last_fetched_at) : undefined
+  };
+}
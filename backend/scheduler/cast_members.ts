@@ -1,38 +1,44 @@
 import { api } from "encore.dev/api";
-import { CAST_MEMBERS, ROLES, CastMember, Role } from "./types";
+import { CAST_MEMBERS, CastMember, Role, RoleDefinition } from "./types";
+import { loadCompanyMembers } from "./company";
+import { loadRoleCatalog } from "./roles";
+import { requirePermission } from "./auth";
 
 export interface GetCastMembersResponse {
   castMembers: CastMember[];
   roles: Role[];
+  roleCatalog: RoleDefinition[];
 }
 
 // Retrieves all cast members and their role eligibility from the company management system.
 export const getCastMembers = api<void, GetCastMembersResponse>(
-  { expose: true, method: "GET", path: "/cast-members" },
+  { expose: true, auth: true, method: "GET", path: "/cast-members" },
   async () => {
-    // Import the company module dynamically to avoid circular dependencies
-    try {
-      const { getCompany } = await import("./company");
-      
-      // Get active company members
-      const companyData = await getCompany();
-      
-      // Convert company members to legacy CastMember format
-      const castMembers: CastMember[] = companyData.currentCompany.map(member => ({
-        name: member.name,
-        eligibleRoles: member.eligibleRoles
-      }));
-      
-      return {
-        castMembers: castMembers.length > 0 ? castMembers : CAST_MEMBERS,
-        roles: ROLES
-      };
-    } catch (error) {
-      // Fallback to default cast members if company system fails
-      return {
-        castMembers: CAST_MEMBERS,
-        roles: ROLES
-      };
-    }
+    requirePermission("schedules.view");
+    return loadCastData();
   }
 );
+
+// The roster and role catalog behind getCastMembers, for callers that check access themselves
+export async function loadCastData(): Promise<GetCastMembersResponse> {
+  // Read the active roster from the same store the company endpoints use
+  const [members, roleCatalog] = await Promise.all([loadCompanyMembers(), loadRoleCatalog()]);
+  
+  // Convert company members to legacy CastMember format
+  const castMembers: CastMember[] = members
+    .filter(member => member.status === "active")
+    .sort((a, b) => a.order - b.order)
+    .map(member => ({
+      id: member.id,
+      name: member.name,
+      eligibleRoles: member.eligibleRoles,
+      rolePreferences: member.rolePreferences,
+      preferredRedDays: member.preferredRedDays
+    }));
+  
+  return {
+    castMembers: castMembers.length > 0 ? castMembers : CAST_MEMBERS,
+    roles: roleCatalog.map(role => role.name),
+    roleCatalog
+  };
+}
@@ -1,10 +1,16 @@
-import { api } from "encore.dev/api";
-import { CAST_MEMBERS, ROLES, CastMember, Role } from "./types";
+import { api, APIError } from "encore.dev/api";
+import { scheduleDB } from "./db";
+import { Role, RoleDefinition, RolePreferences, ROLE_PREFERENCES } from "./types";
+import { loadRoleCatalog } from "./roles";
+import { requirePermission } from "./auth";
+import { emitWebhookEvent, sendQueuedWebhooks } from "./webhooks";
 
 export interface CompanyMember {
   id: string;
   name: string;
   eligibleRoles: Role[];
+  rolePreferences: RolePreferences;
+  preferredRedDays: number[]; // Weekdays (0 = Sunday) the performer would like as RED days
   status: "active" | "archived";
   dateAdded: Date;
   dateArchived?: Date;
@@ -15,11 +21,13 @@ export interface GetCompanyResponse {
   currentCompany: CompanyMember[];
   archive: CompanyMember[];
   roles: Role[];
+  roleCatalog: RoleDefinition[];
 }
 
 export interface AddMemberRequest {
   name: string;
   eligibleRoles: Role[];
+  rolePreferences?: RolePreferences;
   status?: "active" | "archived";
 }
 
@@ -31,6 +39,8 @@ export interface UpdateMemberRequest {
   id: string;
   name?: string;
   eligibleRoles?: Role[];
+  rolePreferences?: RolePreferences;
+  preferredRedDays?: number[];
   status?: "active" | "archived";
   order?: number;
 }
@@ -47,69 +57,78 @@ export interface ReorderMembersRequest {
   memberIds: string[];
 }
 
-// In-memory storage for company data (in a real app, this would be in a database)
-let companyMembers: CompanyMember[] = [];
-
-// Initialize with default cast members
-const initializeDefaultCompany = () => {
-  if (companyMembers.length === 0) {
-    companyMembers = CAST_MEMBERS.map((member, index) => ({
-      id: `member_${Date.now()}_${index}`,
-      name: member.name,
-      eligibleRoles: member.eligibleRoles,
-      status: "active" as const,
-      dateAdded: new Date(),
-      order: index
-    }));
-  }
-};
+// Loads every company member (active and archived) from the database.
+export async function loadCompanyMembers(): Promise<CompanyMember[]> {
+  const rows = await scheduleDB.queryAll`
+    SELECT id, name, eligible_roles, role_preferences, red_day_preferences, status, date_added, date_archived, sort_order
+    FROM company_members
+    ORDER BY (status = 'active') DESC, sort_order ASC, date_added ASC
+  `;
+
+  return rows.map(toCompanyMember);
+}
 
 // Retrieves the current company and archive.
 export const getCompany = api<void, GetCompanyResponse>(
-  { expose: true, method: "GET", path: "/company" },
+  { expose: true, auth: true, method: "GET", path: "/company" },
   async () => {
-    initializeDefaultCompany();
+    requirePermission("schedules.view");
+    const [members, roleCatalog] = await Promise.all([loadCompanyMembers(), loadRoleCatalog()]);
     
-    const currentCompany = companyMembers
+    const currentCompany = members
       .filter(member => member.status === "active")
       .sort((a, b) => a.order - b.order);
     
-    const archive = companyMembers
+    const archive = members
       .filter(member => member.status === "archived")
       .sort((a, b) => (b.dateArchived?.getTime() || 0) - (a.dateArchived?.getTime() || 0));
     
     return {
       currentCompany,
       archive,
-      roles: ROLES
+      roles: roleCatalog.map(role => role.name),
+      roleCatalog
     };
   }
 );
 
 // Adds a new cast member to the company.
 export const addMember = api<AddMemberRequest, AddMemberResponse>(
-  { expose: true, method: "POST", path: "/company/members" },
+  { expose: true, auth: true, method: "POST", path: "/company/members" },
   async (req) => {
-    initializeDefaultCompany();
-    
+    requirePermission("company.manage");
     const id = `member_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const now = new Date();
+    const status = req.status || "active";
+    const name = req.name.toUpperCase();
+    
+    // Names must stay unique so they can be mapped back to member IDs
+    await assertNameAvailable(name);
+    await assertRolesKnown(req.eligibleRoles);
+    assertPreferencesValid(req.rolePreferences ?? {}, req.eligibleRoles);
     
-    // Get the highest order number for active members
-    const activeMembers = companyMembers.filter(m => m.status === "active");
-    const maxOrder = Math.max(...activeMembers.map(m => m.order), -1);
+    // New active members go to the end of the current company
+    const order = status === "active" ? (await getMaxActiveOrder()) + 1 : 0;
     
     const member: CompanyMember = {
       id,
-      name: req.name.toUpperCase(),
+      name,
       eligibleRoles: req.eligibleRoles,
-      status: req.status || "active",
+      rolePreferences: req.rolePreferences ?? {},
+      preferredRedDays: [],
+      status,
       dateAdded: now,
-      dateArchived: req.status === "archived" ? now : undefined,
-      order: req.status === "active" ? maxOrder + 1 : 0
+      dateArchived: status === "archived" ? now : undefined,
+      order
     };
     
-    companyMembers.push(member);
+    await scheduleDB.exec`
+      INSERT INTO company_members (id, name, eligible_roles, role_preferences, status, date_added, date_archived, sort_order)
+      VALUES (${member.id}, ${member.name}, ${JSON.stringify(member.eligibleRoles)}, ${JSON.stringify(member.rolePreferences)}, ${member.status}, ${member.dateAdded}, ${member.dateArchived ?? null}, ${member.order})
+    `;
+    if (await emitWebhookEvent(scheduleDB, "member.added", { member }) > 0) {
+      sendQueuedWebhooks();
+    }
     
     return { member };
   }
@@ -117,21 +136,36 @@ export const addMember = api<AddMemberRequest, AddMemberResponse>(
 
 // Updates an existing cast member.
 export const updateMember = api<UpdateMemberRequest, UpdateMemberResponse>(
-  { expose: true, method: "PUT", path: "/company/members/:id" },
+  { expose: true, auth: true, method: "PUT", path: "/company/members/:id" },
   async (req) => {
-    initializeDefaultCompany();
-    
-    const memberIndex = companyMembers.findIndex(m => m.id === req.id);
-    if (memberIndex === -1) {
-      throw new Error("Member not found");
-    }
-    
-    const member = companyMembers[memberIndex];
+    requirePermission("company.manage");
+    const member = await getMemberById(req.id);
+    const wasArchived = member.status === "archived";
     const now = new Date();
     
-    // Update fields
-    if (req.name !== undefined) member.name = req.name.toUpperCase();
-    if (req.eligibleRoles !== undefined) member.eligibleRoles = req.eligibleRoles;
+    // Update fields. Assignments reference members by ID, so a rename
+    // propagates to every schedule without touching stored assignments.
+    if (req.name !== undefined) {
+      const name = req.name.toUpperCase();
+      await assertNameAvailable(name, member.id);
+      member.name = name;
+    }
+    if (req.eligibleRoles !== undefined) {
+      await assertRolesKnown(req.eligibleRoles);
+      member.eligibleRoles = req.eligibleRoles;
+    }
+    if (req.rolePreferences !== undefined) {
+      assertPreferencesValid(req.rolePreferences, member.eligibleRoles);
+      member.rolePreferences = req.rolePreferences;
+    } else {
+      // Rankings only apply to roles the member can still play
+      member.rolePreferences = Object.fromEntries(
+        Object.entries(member.rolePreferences).filter(([role]) => member.eligibleRoles.includes(role))
+      );
+    }
+    if (req.preferredRedDays !== undefined) {
+      member.preferredRedDays = normalizeRedDayPreferences(req.preferredRedDays);
+    }
     if (req.order !== undefined) member.order = req.order;
     
     // Handle status changes
@@ -146,13 +180,24 @@ export const updateMember = api<UpdateMemberRequest, UpdateMemberResponse>(
         member.dateArchived = undefined;
         
         // Assign new order at the end of active members
-        const activeMembers = companyMembers.filter(m => m.status === "active" && m.id !== req.id);
-        const maxOrder = Math.max(...activeMembers.map(m => m.order), -1);
-        member.order = maxOrder + 1;
+        member.order = (await getMaxActiveOrder()) + 1;
       }
     }
     
-    companyMembers[memberIndex] = member;
+    await scheduleDB.exec`
+      UPDATE company_members
+      SET name = ${member.name},
+          eligible_roles = ${JSON.stringify(member.eligibleRoles)},
+          role_preferences = ${JSON.stringify(member.rolePreferences)},
+          red_day_preferences = ${JSON.stringify(member.preferredRedDays)},
+          status = ${member.status},
+          date_archived = ${member.dateArchived ?? null},
+          sort_order = ${member.order}
+      WHERE id = ${member.id}
+    `;
+    if (!wasArchived && member.status === "archived" && await emitWebhookEvent(scheduleDB, "member.archived", { member }) > 0) {
+      sendQueuedWebhooks();
+    }
     
     return { member };
   }
@@ -160,31 +205,112 @@ export const updateMember = api<UpdateMemberRequest, UpdateMemberResponse>(
 
 // Deletes a cast member permanently.
 export const deleteMember = api<DeleteMemberRequest, void>(
-  { expose: true, method: "DELETE", path: "/company/members/:id" },
+  { expose: true, auth: true, method: "DELETE", path: "/company/members/:id" },
   async (req) => {
-    initializeDefaultCompany();
+    requirePermission("company.manage");
+    await getMemberById(req.id);
     
-    const memberIndex = companyMembers.findIndex(m => m.id === req.id);
-    if (memberIndex === -1) {
-      throw new Error("Member not found");
-    }
-    
-    companyMembers.splice(memberIndex, 1);
+    await scheduleDB.exec`
+      DELETE FROM company_members WHERE id = ${req.id}
+    `;
   }
 );
 
 // Reorders the current company members.
 export const reorderMembers = api<ReorderMembersRequest, void>(
-  { expose: true, method: "PUT", path: "/company/reorder" },
+  { expose: true, auth: true, method: "PUT", path: "/company/reorder" },
   async (req) => {
-    initializeDefaultCompany();
-    
-    // Update order based on the provided array
-    req.memberIds.forEach((id, index) => {
-      const member = companyMembers.find(m => m.id === id);
-      if (member && member.status === "active") {
-        member.order = index;
+    requirePermission("company.manage");
+    const tx = await scheduleDB.begin();
+    try {
+      // Update order based on the provided array; archived members keep their slot
+      for (const [index, id] of req.memberIds.entries()) {
+        await tx.exec`
+          UPDATE company_members
+          SET sort_order = ${index}
+          WHERE id = ${id} AND status = 'active'
+        `;
       }
-    });
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+  }
+);
+
+export async function getMemberById(id: string): Promise<CompanyMember> {
+  const row = await scheduleDB.queryRow`
+    SELECT id, name, eligible_roles, role_preferences, red_day_preferences, status, date_added, date_archived, sort_order
+    FROM company_members
+    WHERE id = ${id}
+  `;
+
+  if (!row) {
+    throw APIError.notFound("member not found");
   }
-);
\ No newline at end of file
+
+  return toCompanyMember(row);
+}
+
+async function assertNameAvailable(name: string, excludeId?: string): Promise<void> {
+  const row = await scheduleDB.queryRow`
+    SELECT id FROM company_members
+    WHERE name = ${name} AND id <> ${excludeId ?? ""}
+  `;
+
+  if (row) {
+    throw APIError.alreadyExists(`a member named ${name} already exists`);
+  }
+}
+
+async function assertRolesKnown(roles: Role[]): Promise<void> {
+  const catalog = new Set((await loadRoleCatalog()).map(role => role.name));
+  const unknown = roles.filter(role => !catalog.has(role));
+
+  if (unknown.length > 0) {
+    throw APIError.invalidArgument(`unknown roles: ${unknown.join(", ")}`);
+  }
+}
+
+function assertPreferencesValid(preferences: RolePreferences, eligibleRoles: Role[]): void {
+  for (const [role, preference] of Object.entries(preferences)) {
+    if (!eligibleRoles.includes(role)) {
+      throw APIError.invalidArgument(`${role} is ranked but is not one of the member's eligible roles`);
+    }
+    if (!ROLE_PREFERENCES.includes(preference)) {
+      throw APIError.invalidArgument(`unknown role preference: ${preference}`);
+    }
+  }
+}
+
+// Sorted, de-duplicated weekdays; anything outside 0-6 is rejected
+export function normalizeRedDayPreferences(weekdays: number[]): number[] {
+  if (weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw APIError.invalidArgument("RED day preferences must be weekdays from 0 (Sunday) to 6 (Saturday)");
+  }
+  return [...new Set(weekdays)].sort((a, b) => a - b);
+}
+
+async function getMaxActiveOrder(): Promise<number> {
+  const row = await scheduleDB.queryRow`
+    SELECT COALESCE(MAX(sort_order), -1) AS max_order
+    FROM company_members
+    WHERE status = 'active'
+  `;
+  return Number(row?.max_order ?? -1);
+}
+
+function toCompanyMember(row: Record<string, any>): CompanyMember {
+  return {
+    id: row.id,
+    name: row.name,
+    eligibleRoles: JSON.parse(row.eligible_roles) as Role[],
+    rolePreferences: JSON.parse(row.role_preferences) as RolePreferences,
+    preferredRedDays: JSON.parse(row.red_day_preferences) as number[],
+    status: row.status,
+    dateAdded: new Date(row.date_added),
+    dateArchived: row.date_archived ? new Date(row.date_archived) : undefined,
+    order: row.sort_order
+  };
+}
@@ -1,6 +1,10 @@
 import { api } from "encore.dev/api";
 import { scheduleDB } from "./db";
-import { Schedule, Show, Assignment } from "./types";
+import { Schedule, Show } from "./types";
+import { recordVersion } from "./versions";
+import { saveScheduleContents } from "./schedule_store";
+import { requirePermission } from "./auth";
+import { emitWebhookEvent, scheduleEventData, sendQueuedWebhooks } from "./webhooks";
 
 export interface CreateScheduleRequest {
   location: string;
@@ -14,8 +18,9 @@ export interface CreateScheduleResponse {
 
 // Creates a new schedule.
 export const create = api<CreateScheduleRequest, CreateScheduleResponse>(
-  { expose: true, method: "POST", path: "/schedules" },
+  { expose: true, auth: true, method: "POST", path: "/schedules" },
   async (req) => {
+    requirePermission("schedules.edit");
     const id = generateId();
     const now = new Date();
     
@@ -25,19 +30,35 @@ export const create = api<CreateScheduleRequest, CreateScheduleResponse>(
       week: req.week,
       shows: req.shows,
       assignments: [],
+      revision: 1,
+      status: "draft",
       createdAt: now,
       updatedAt: now
     };
 
-    await scheduleDB.exec`
-      INSERT INTO schedules (id, location, week, shows_data, assignments_data, created_at, updated_at)
-      VALUES (${id}, ${req.location}, ${req.week}, ${JSON.stringify(req.shows)}, ${JSON.stringify([])}, ${now}, ${now})
-    `;
+    let queuedWebhooks = 0;
+    const tx = await scheduleDB.begin();
+    try {
+      await tx.exec`
+        INSERT INTO schedules (id, location, week, created_at, updated_at)
+        VALUES (${id}, ${req.location}, ${req.week}, ${now}, ${now})
+      `;
+      await saveScheduleContents(tx, id, req.shows, []);
+      await recordVersion(tx, id, schedule, "create");
+      queuedWebhooks = await emitWebhookEvent(tx, "schedule.created", { schedule: scheduleEventData(schedule) });
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+    if (queuedWebhooks > 0) {
+      sendQueuedWebhooks();
+    }
 
     return { schedule };
   }
 );
 
-function generateId(): string {
+export function generateId(): string {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
 }
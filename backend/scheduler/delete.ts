@@ -1,5 +1,7 @@
 import { api, APIError } from "encore.dev/api";
 import { scheduleDB } from "./db";
+import { requirePermission } from "./auth";
+import { emitWebhookEvent, scheduleEventData, sendQueuedWebhooks } from "./webhooks";
 
 export interface DeleteScheduleRequest {
   id: string;
@@ -7,18 +9,37 @@ export interface DeleteScheduleRequest {
 
 // Deletes a schedule.
 export const deleteSchedule = api<DeleteScheduleRequest, void>(
-  { expose: true, method: "DELETE", path: "/schedules/:id" },
+  { expose: true, auth: true, method: "DELETE", path: "/schedules/:id" },
   async (req) => {
+    requirePermission("schedules.publish");
     const result = await scheduleDB.queryRow`
-      SELECT id FROM schedules WHERE id = ${req.id}
+      SELECT id, location, week, status, revision FROM schedules WHERE id = ${req.id}
     `;
 
     if (!result) {
       throw APIError.notFound("schedule not found");
     }
+    // The cast may be working from a published schedule; take it back to draft first
+    if (result.status !== "draft") {
+      throw APIError.failedPrecondition(`schedule is ${result.status} - move it back to draft before deleting it`);
+    }
 
-    await scheduleDB.exec`
-      DELETE FROM schedules WHERE id = ${req.id}
-    `;
+    let queuedWebhooks = 0;
+    const tx = await scheduleDB.begin();
+    try {
+      await tx.exec`
+        DELETE FROM schedules WHERE id = ${req.id}
+      `;
+      queuedWebhooks = await emitWebhookEvent(tx, "schedule.deleted", {
+        schedule: scheduleEventData({ id: result.id, location: result.location, week: result.week, status: result.status, revision: result.revision })
+      });
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+    if (queuedWebhooks > 0) {
+      sendQueuedWebhooks();
+    }
   }
 );
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SchedulingAlgorithm } from './algorithm';
+import { findReplacementPlans, applyCellChanges, MAX_COMBINATIONS_CHECKED } from './emergency';
+import { Show, CastMember, DEFAULT_ROLE_CATALOG } from './types';
+
+describe('Emergency Replacements', () => {
+  const weekShows: Show[] = [
+    { id: "tue", date: "2024-01-02", time: "21:00", callTime: "19:00", status: "show" },
+    { id: "wed", date: "2024-01-03", time: "21:00", callTime: "19:00", status: "show" },
+    { id: "thu", date: "2024-01-04", time: "21:00", callTime: "19:00", status: "show" },
+    { id: "fri", date: "2024-01-05", time: "21:00", callTime: "18:00", status: "show" }
+  ];
+
+  it('should move a performer across roles when nobody OFF can cover', () => {
+    const roles = DEFAULT_ROLE_CATALOG.filter(role => role.name === "Ringo" || role.name === "Who");
+    const cast: CastMember[] = [
+      { name: "JOE", eligibleRoles: ["Ringo", "Mozzie"] },
+      { name: "JOSH", eligibleRoles: ["Who"] },
+      { name: "CADE", eligibleRoles: ["Who", "Ringo", "Potato"] }
+    ];
+    const shows = weekShows.slice(0, 1);
+    const assignments = [
+      { showId: "tue", role: "Ringo" as const, performer: "JOE" },
+      { showId: "tue", role: "Who" as const, performer: "CADE" },
+      { showId: "tue", role: "OFF" as const, performer: "JOSH", isRedDay: false }
+    ];
+    const algorithm = new SchedulingAlgorithm(shows, cast, { roles });
+
+    const plans = findReplacementPlans(algorithm, shows, assignments, cast, "JOE", ["tue"]);
+
+    expect(plans[0].changes).toEqual([
+      { showId: "tue", role: "Ringo", from: "JOE", to: "CADE" },
+      { showId: "tue", role: "Who", from: "CADE", to: "JOSH" }
+    ]);
+    expect(plans[0].description[0]).toContain("CADE moves from Who to Ringo, JOSH covers Who");
+
+    const updated = applyCellChanges(assignments, plans[0].changes, cast);
+    expect(updated).toContainEqual(expect.objectContaining({ showId: "tue", role: "OFF", performer: "JOE" }));
+    expect(updated.filter(a => a.performer === "JOSH").map(a => a.role)).toEqual(["Who"]);
+  });
+
+  it('should not offer a cover that breaks the consecutive show limit', () => {
+    const roles = DEFAULT_ROLE_CATALOG.filter(role => role.name === "Sarge");
+    const sarges: CastMember[] = [
+      { name: "PHIL", eligibleRoles: ["Sarge"] },
+      { name: "SEAN", eligibleRoles: ["Sarge", "Potato"] }
+    ];
+    const assignments = weekShows.map(show => (
+      { showId: show.id, role: "Sarge" as const, performer: show.id === "fri" ? "SEAN" : "PHIL" }
+    ));
+    const algorithm = new SchedulingAlgorithm(weekShows, sarges, { roles });
+
+    expect(findReplacementPlans(algorithm, weekShows, assignments, sarges, "SEAN", ["fri"])).toEqual([]);
+  });
+
+  it('should stop combining chains after a fixed number of checks when a performer drops out of many shows', () => {
+    const shows: Show[] = [
+      ...weekShows,
+      { id: "sat_mat", date: "2024-01-06", time: "16:00", callTime: "14:00", status: "show" },
+      { id: "sat_eve", date: "2024-01-06", time: "21:00", callTime: "18:00", status: "show" },
+      { id: "sun_mat", date: "2024-01-07", time: "16:00", callTime: "14:30", status: "show" },
+      { id: "sun_eve", date: "2024-01-07", time: "19:00", callTime: "18:00", status: "show" }
+    ];
+    const onStage: Record<string, string> = {
+      tue: "PHIL", wed: "PHIL", thu: "ANNA", fri: "BEA", sat_mat: "CAT", sat_eve: "PHIL", sun_mat: "DEE", sun_eve: "PHIL"
+    };
+    const philShows = shows.filter(show => onStage[show.id] === "PHIL").map(show => show.id);
+    const roles = DEFAULT_ROLE_CATALOG.filter(role => role.name === "Sarge");
+    const sarges: CastMember[] = ["PHIL", "SEAN", "ANNA", "BEA", "CAT", "DEE"].map(name => ({ name, eligibleRoles: ["Sarge"] }));
+    const assignments = shows.flatMap(show => sarges.map(member => member.name === onStage[show.id]
+      ? { showId: show.id, role: "Sarge" as const, performer: member.name }
+      : { showId: show.id, role: "OFF" as const, performer: member.name, isRedDay: false }
+    ));
+    const algorithm = new SchedulingAlgorithm(shows, sarges, { roles });
+    const validate = vi.spyOn(algorithm, "validateSchedule");
+
+    // Five covers for each of PHIL's four shows is 5^4 combinations
+    const plans = findReplacementPlans(algorithm, shows, assignments, sarges, "PHIL", philShows, { limit: 1000 });
+
+    expect(plans.length).toBeGreaterThan(0);
+    expect(validate.mock.calls.length).toBeLessThanOrEqual(1 + philShows.length * 5 + MAX_COMBINATIONS_CHECKED);
+  });
+});
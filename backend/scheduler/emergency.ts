@@ -0,0 +1,252 @@
+import { Show, Assignment, CastMember, Role } from "./types";
+import { SchedulingAlgorithm } from "./algorithm";
+import { PerformerIdentity } from "./performers";
+
+// Replacement plans for a performer who drops out of shows at short notice.
+//
+// Every stage cell the absent performer holds is a vacancy. A vacancy is filled
+// either directly by someone OFF for that show, or by a chain: a performer
+// already on stage moves into the vacant role and their own role is filled in
+// turn. Plans are checked with SchedulingAlgorithm.validateSchedule and only
+// kept when they add no new hard rule errors.
+
+export const DEFAULT_MAX_CHAIN_STEPS = 3;
+export const MAX_CHAIN_STEPS = 4;
+const DEFAULT_PLAN_LIMIT = 5;
+// Candidate chains kept per vacancy before vacancies are combined
+const CHAINS_PER_VACANCY = 8;
+// Combinations of chains checked in total; without it a week-long absence means up to 8^shows checks
+export const MAX_COMBINATIONS_CHECKED = 500;
+
+export interface CellChange {
+  showId: string;
+  role: Role;
+  from: string; // Performer leaving the cell
+  to: string; // Performer taking it over
+}
+
+export interface ReplacementPlan {
+  changes: CellChange[];
+  description: string[]; // One line per vacancy, e.g. "CADE moves from Who to Ringo, JOSH covers Who"
+  warnings: string[]; // Soft rule warnings the plan adds
+}
+
+export interface ReplacementOptions {
+  maxSteps?: number; // Longest chain of performers moved for one vacancy
+  limit?: number; // Number of plans to return
+}
+
+interface Vacancy {
+  show: Show;
+  role: Role;
+}
+
+interface Chain {
+  vacancy: Vacancy;
+  changes: CellChange[];
+  load: number; // Shows already done by the performers brought in
+}
+
+// Ranked plans covering every show the performer drops out of; fewest changed cells first.
+export function findReplacementPlans(
+  algorithm: SchedulingAlgorithm,
+  shows: Show[],
+  assignments: Assignment[],
+  castMembers: CastMember[],
+  performer: string,
+  showIds: string[],
+  options: ReplacementOptions = {}
+): ReplacementPlan[] {
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_CHAIN_STEPS;
+  const limit = options.limit ?? DEFAULT_PLAN_LIMIT;
+
+  const vacancies: Vacancy[] = [];
+  for (const showId of showIds) {
+    const show = shows.find(s => s.id === showId && s.status === "show");
+    if (!show) continue;
+    assignments
+      .filter(a => a.showId === showId && a.performer === performer && a.role !== "OFF")
+      .forEach(a => vacancies.push({ show, role: a.role }));
+  }
+  if (vacancies.length === 0) return [];
+
+  const baseline = algorithm.validateSchedule(assignments);
+  const baselineErrors = new Set(baseline.errors);
+  const baselineWarnings = new Set(baseline.warnings);
+  const check = (changes: CellChange[]) => {
+    const result = algorithm.validateSchedule(applyCellChanges(assignments, changes, castMembers));
+    return {
+      isValid: result.errors.every(error => baselineErrors.has(error)),
+      warnings: result.warnings.filter(warning => !baselineWarnings.has(warning))
+    };
+  };
+
+  const showCounts = new Map<string, number>();
+  assignments
+    .filter(a => a.role !== "OFF")
+    .forEach(a => showCounts.set(a.performer, (showCounts.get(a.performer) || 0) + 1));
+
+  // Whether the performer brought on from OFF is the one named as first cover for that role
+  const bringsOnNamedCover = (chain: Chain) => {
+    const last = chain.changes[chain.changes.length - 1];
+    return assignments.some(a =>
+      a.showId === last.showId && a.role === "OFF" && a.performer === last.to && (a.covers || []).includes(last.role)
+    ) ? 1 : 0;
+  };
+
+  // Chains that are legal on their own, cheapest first and named covers ahead of others
+  const chainsByVacancy = vacancies.map(vacancy => {
+    const candidates: Chain[] = findChains(vacancy, assignments, castMembers, performer, maxSteps)
+      .map(changes => ({
+        vacancy,
+        changes,
+        load: changes.reduce((total, change) => total + (showCounts.get(change.to) || 0), 0)
+      }))
+      .sort((a, b) => a.changes.length - b.changes.length || bringsOnNamedCover(b) - bringsOnNamedCover(a) || a.load - b.load);
+
+    const legal: Chain[] = [];
+    for (const chain of candidates) {
+      if (legal.length >= CHAINS_PER_VACANCY) break;
+      if (check(chain.changes).isValid) legal.push(chain);
+    }
+    return legal;
+  });
+  if (chainsByVacancy.some(chains => chains.length === 0)) return [];
+
+  // Chains for different shows can still clash on weekly and consecutive limits, so combinations are checked as a whole
+  const plans: ReplacementPlan[] = [];
+  const seen = new Set<string>();
+  let combinationsChecked = 0;
+  const combine = (index: number, picked: Chain[]) => {
+    if (plans.length >= limit * 4 || combinationsChecked >= MAX_COMBINATIONS_CHECKED) return;
+    if (index === chainsByVacancy.length) {
+      combinationsChecked++;
+      const changes = picked.flatMap(chain => chain.changes);
+      const signature = changes.map(c => `${c.showId}:${c.role}:${c.to}`).sort().join("|");
+      if (seen.has(signature)) return;
+      seen.add(signature);
+
+      const result = check(changes);
+      if (result.isValid) {
+        plans.push({
+          changes,
+          description: picked.map(chain => describeChain(chain)),
+          warnings: result.warnings
+        });
+      }
+      return;
+    }
+    for (const chain of chainsByVacancy[index]) {
+      combine(index + 1, [...picked, chain]);
+    }
+  };
+  combine(0, []);
+
+  const loadOf = (plan: ReplacementPlan) =>
+    plan.changes.reduce((total, change) => total + (showCounts.get(change.to) || 0), 0);
+  return plans
+    .sort((a, b) =>
+      a.changes.length - b.changes.length ||
+      a.warnings.length - b.warnings.length ||
+      loadOf(a) - loadOf(b)
+    )
+    .slice(0, limit);
+}
+
+// Every way to fill the vacancy with at most maxSteps performers changing cells
+function findChains(
+  vacancy: Vacancy,
+  assignments: Assignment[],
+  castMembers: CastMember[],
+  absent: string,
+  maxSteps: number
+): CellChange[][] {
+  const { show } = vacancy;
+  const showAssignments = assignments.filter(a => a.showId === show.id);
+  const onStage = showAssignments.filter(a => a.role !== "OFF" && a.performer !== absent);
+  const onStageNames = new Set(onStage.map(a => a.performer));
+
+  // Performers on a RED day are not on call and cannot be brought in
+  const redDayPerformers = new Set(showAssignments.filter(a => a.isRedDay).map(a => a.performer));
+  const offList = castMembers.filter(member =>
+    member.name !== absent && !onStageNames.has(member.name) && !redDayPerformers.has(member.name)
+  );
+  const canPlay = (name: string, role: Role) =>
+    castMembers.find(member => member.name === name)?.eligibleRoles.includes(role) ?? false;
+
+  const chains: CellChange[][] = [];
+  const extend = (role: Role, from: string, used: Set<string>, chain: CellChange[]) => {
+    for (const member of offList) {
+      if (used.has(member.name) || !member.eligibleRoles.includes(role)) continue;
+      chains.push([...chain, { showId: show.id, role, from, to: member.name }]);
+    }
+    if (chain.length + 1 >= maxSteps) return;
+
+    // Move someone across from their own role and fill that one next
+    for (const assignment of onStage) {
+      if (used.has(assignment.performer) || assignment.isLocked || !canPlay(assignment.performer, role)) continue;
+      extend(
+        assignment.role as Role,
+        assignment.performer,
+        new Set([...used, assignment.performer]),
+        [...chain, { showId: show.id, role, from, to: assignment.performer }]
+      );
+    }
+  };
+  extend(vacancy.role, absent, new Set([absent]), []);
+
+  return chains;
+}
+
+function describeChain(chain: Chain): string {
+  const { changes } = chain;
+  const steps = changes.map((change, index) => {
+    const previousRole = changes[index + 1]?.role;
+    return previousRole
+      ? `${change.to} moves from ${previousRole} to ${change.role}`
+      : `${change.to} covers ${change.role}`;
+  });
+  return `${chain.vacancy.show.date} ${chain.vacancy.show.time}: ${steps.join(", ")}`;
+}
+
+// The schedule with the plan's cells changed and OFF entries brought in line
+export function applyCellChanges<T extends PerformerIdentity>(assignments: Assignment[], changes: CellChange[], members: T[]): Assignment[] {
+  const updated = assignments.map(assignment => {
+    const change = changes.find(c =>
+      c.showId === assignment.showId && c.role === assignment.role && c.from === assignment.performer
+    );
+    if (!change) return assignment;
+    return {
+      ...assignment,
+      performer: change.to,
+      performerId: members.find(member => member.name === change.to)?.id,
+      isLocked: false
+    };
+  });
+
+  const changedShowIds = new Set(changes.map(change => change.showId));
+  const result: Assignment[] = [];
+  for (const assignment of updated) {
+    // Performers now on stage are no longer OFF for the show
+    const nowOnStage = changedShowIds.has(assignment.showId) && assignment.role === "OFF" &&
+      updated.some(a => a.showId === assignment.showId && a.role !== "OFF" && a.performer === assignment.performer);
+    if (!nowOnStage) result.push(assignment);
+  }
+
+  // Performers who left the stage entirely are OFF for the show
+  for (const change of changes) {
+    const stillOnStage = result.some(a => a.showId === change.showId && a.role !== "OFF" && a.performer === change.from);
+    const alreadyOff = result.some(a => a.showId === change.showId && a.role === "OFF" && a.performer === change.from);
+    if (!stillOnStage && !alreadyOff) {
+      result.push({
+        showId: change.showId,
+        role: "OFF",
+        performer: change.from,
+        performerId: members.find(member => member.name === change.from)?.id,
+        isRedDay: false
+      });
+    }
+  }
+
+  return result;
+}
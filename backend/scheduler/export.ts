@@ -0,0 +1,67 @@
+import { api, APIError } from "encore.dev/api";
+import { ExportDataResponse, CallSheetResponse, UtilizationReportResponse } from "./types";
+import { get } from "./get";
+import { buildCallSheet, buildUtilizationReport } from "./reports";
+import { requirePermission } from "./auth";
+
+export interface ExportRequest {
+  id: string; // scheduleId
+}
+
+export interface CallSheetRequest {
+  id: string; // scheduleId
+  performer: string; // Member ID or current name
+}
+
+// Gets a schedule with the cast and roles needed to export it.
+export const getExportData = api<ExportRequest, ExportDataResponse>(
+  { expose: true, auth: true, method: "GET", path: "/schedules/:id/export" },
+  async (req) => {
+    requirePermission("schedules.view");
+    const { schedule } = await get({ id: req.id });
+    const { getCastMembers } = await import("./cast_members");
+    const castData = await getCastMembers();
+
+    return {
+      schedule,
+      castMembers: castData.castMembers,
+      roles: castData.roles,
+      exportMetadata: {
+        exportedAt: new Date()
+      }
+    };
+  }
+);
+
+// Generates one performer's call sheet for a schedule.
+export const generateCallSheet = api<CallSheetRequest, CallSheetResponse>(
+  { expose: true, auth: true, method: "GET", path: "/schedules/:id/callsheet/:performer" },
+  async (req) => {
+    requirePermission("schedules.view");
+    const { schedule } = await get({ id: req.id });
+    const { getCastMembers } = await import("./cast_members");
+    const castData = await getCastMembers();
+
+    const member = castData.castMembers.find(m => m.id === req.performer)
+      ?? castData.castMembers.find(m => m.name === req.performer);
+    // Former members can still appear in older schedules under their stored name
+    if (!member && !schedule.assignments.some(a => a.performer === req.performer)) {
+      throw APIError.notFound(`performer ${req.performer} is not in this schedule`);
+    }
+
+    return buildCallSheet(schedule, member?.name ?? req.performer, member?.id);
+  }
+);
+
+// Generates the utilization report for a schedule: shows played per performer and coverage per role.
+export const generateUtilizationReport = api<ExportRequest, UtilizationReportResponse>(
+  { expose: true, auth: true, method: "GET", path: "/schedules/:id/utilization" },
+  async (req) => {
+    requirePermission("schedules.view");
+    const { schedule } = await get({ id: req.id });
+    const { getCastMembers } = await import("./cast_members");
+    const castData = await getCastMembers();
+
+    return buildUtilizationReport(schedule, castData.castMembers, castData.roles);
+  }
+);
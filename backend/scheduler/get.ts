@@ -1,6 +1,10 @@
 import { api, APIError } from "encore.dev/api";
 import { scheduleDB } from "./db";
-import { Schedule, Show, Assignment } from "./types";
+import { Schedule, ScheduleStatus } from "./types";
+import { loadCompanyMembers } from "./company";
+import { PerformerIdentity, resolvePerformerNames } from "./performers";
+import { ScheduleContents, loadScheduleContents } from "./schedule_store";
+import { requirePermission } from "./auth";
 
 export interface GetScheduleRequest {
   id: string;
@@ -12,28 +16,46 @@ export interface GetScheduleResponse {
 
 // Retrieves a schedule by ID.
 export const get = api<GetScheduleRequest, GetScheduleResponse>(
-  { expose: true, method: "GET", path: "/schedules/:id" },
+  { expose: true, auth: true, method: "GET", path: "/schedules/:id" },
   async (req) => {
-    const row = await scheduleDB.queryRow`
-      SELECT id, location, week, shows_data, assignments_data, created_at, updated_at
-      FROM schedules 
-      WHERE id = ${req.id}
-    `;
-
-    if (!row) {
-      throw APIError.notFound("schedule not found");
-    }
-
-    const schedule: Schedule = {
-      id: row.id,
-      location: row.location,
-      week: row.week,
-      shows: JSON.parse(row.shows_data) as Show[],
-      assignments: JSON.parse(row.assignments_data) as Assignment[],
-      createdAt: new Date(row.created_at),
-      updatedAt: new Date(row.updated_at)
-    };
-
-    return { schedule };
+    requirePermission("schedules.view");
+    return { schedule: await loadSchedule(req.id) };
   }
 );
+
+// Loads a schedule with its shows and assignments, for callers that check access themselves
+export async function loadSchedule(id: string): Promise<Schedule> {
+  const row = await scheduleDB.queryRow`
+    SELECT id, location, week, season_id, previous_schedule_id, generation_seed, revision, status, published_at, created_at, updated_at
+    FROM schedules 
+    WHERE id = ${id}
+  `;
+
+  if (!row) {
+    throw APIError.notFound("schedule not found");
+  }
+
+  const contents = await loadScheduleContents(scheduleDB, id);
+  const members = await loadCompanyMembers();
+
+  return toSchedule(row, contents, members);
+}
+
+// Builds a schedule from a full schedules row and its contents, with performer names resolved from member IDs
+export function toSchedule<T extends PerformerIdentity>(row: Record<string, any>, contents: ScheduleContents, members: T[]): Schedule {
+  return {
+    id: row.id,
+    location: row.location,
+    week: row.week,
+    shows: contents.shows,
+    assignments: resolvePerformerNames(contents.assignments, members),
+    seasonId: row.season_id ?? undefined,
+    previousScheduleId: row.previous_schedule_id ?? undefined,
+    seed: row.generation_seed ?? undefined,
+    revision: row.revision,
+    status: row.status as ScheduleStatus,
+    publishedAt: row.published_at ? new Date(row.published_at) : undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  };
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { buildPerformerCalendar } from './ical';
+import { Show } from './types';
+
+describe('Calendar Feed', () => {
+  const shows: Show[] = [
+    { id: "tue", date: "2024-01-02", time: "21:00", callTime: "19:00", status: "show" },
+    { id: "wed", date: "2024-01-03", time: "21:00", callTime: "19:00", status: "show" },
+    { id: "thu", date: "2024-01-04", time: "21:00", callTime: "19:00", status: "show" }
+  ];
+
+  it('should keep UIDs stable across saves and cancel calls for removed shows', () => {
+    const phil = { id: "mem_phil", name: "PHIL" };
+    const earlier = {
+      shows,
+      assignments: [
+        { showId: "tue", role: "Sarge" as const, performer: "PHIL", performerId: "mem_phil" },
+        { showId: "wed", role: "Sarge" as const, performer: "PHIL", performerId: "mem_phil" },
+        { showId: "thu", role: "OFF" as const, performer: "PHIL", performerId: "mem_phil", isRedDay: true }
+      ]
+    };
+    const schedule = {
+      id: "sched",
+      location: "London",
+      week: "1",
+      revision: 2,
+      updatedAt: new Date("2024-01-01T10:00:00Z"),
+      shows: shows.filter(show => show.id !== "wed"),
+      assignments: [
+        { showId: "tue", role: "Potato" as const, performer: "PHIL", performerId: "mem_phil" },
+        { showId: "thu", role: "OFF" as const, performer: "PHIL", performerId: "mem_phil", isRedDay: true }
+      ],
+      earlier: [earlier]
+    };
+
+    const feed = buildPerformerCalendar(phil, [schedule], "2024-01-01").split("\r\n");
+    const uidAt = (summary: string) => feed[feed.indexOf(summary) - 5];
+
+    expect(uidAt("SUMMARY:STOMP - Potato")).toBe("UID:sched-tue-mem_phil@stomp-scheduler");
+    expect(uidAt("SUMMARY:Cancelled: STOMP - Sarge")).toBe("UID:sched-wed-mem_phil@stomp-scheduler");
+    expect(feed).toContain("DTSTART;VALUE=DATE:20240104");
+    expect(feed.filter(line => line === "STATUS:CANCELLED")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,210 @@
+import { Show, Assignment } from "./types";
+
+// iCalendar (RFC 5545) feed of one performer's calls. Every event has a UID built from
+// the schedule, the show or date, and the member, so a calendar that polls the feed
+// updates events in place. Times are floating local times: a show at 19:00 is at 19:00
+// wherever the company is playing.
+
+export const SHOW_LENGTH_MINUTES = 150; // No end time is stored; assume two and a half hours
+
+export interface FeedPerformer {
+  id: string; // CompanyMember.id
+  name: string;
+}
+
+export interface FeedSchedule {
+  id: string;
+  location: string;
+  week: string;
+  revision: number; // Used as the SEQUENCE of every event, so each save supersedes the last
+  updatedAt: Date;
+  shows: Show[];
+  assignments: Assignment[];
+  earlier: Array<{ shows: Show[]; assignments: Assignment[] }>; // Earlier versions, oldest first
+}
+
+interface CalendarEvent {
+  uid: string;
+  slot?: string; // "date time" of the show the event is for
+  summary: string;
+  description: string;
+  start: string; // Floating DATE-TIME, or a DATE for all-day events
+  end: string;
+  allDay: boolean;
+  transparent: boolean;
+}
+
+// Builds the performer's calendar from the given schedules, keeping events dated on or after `today`.
+// Where schedules overlap, the most recently saved one wins; events that an earlier version of a
+// schedule had but the current one does not are sent as cancelled.
+export function buildPerformerCalendar(performer: FeedPerformer, schedules: FeedSchedule[], today: string): string {
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//STOMP Scheduler//Performer Feed//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`STOMP - ${performer.name}`)}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H"
+  ];
+
+  const claimedSlots = new Set<string>();
+  const ordered = [...schedules].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+  for (const schedule of ordered) {
+    const current = eventsFor(performer, schedule, schedule, today);
+    const cancelled = new Map<string, CalendarEvent>();
+    for (const earlier of schedule.earlier) {
+      eventsFor(performer, schedule, earlier, today).forEach((event, uid) => {
+        if (!current.has(uid)) {
+          cancelled.set(uid, event);
+        }
+      });
+    }
+
+    const slots = new Set<string>();
+    const stamp = formatUtc(schedule.updatedAt);
+    for (const event of current.values()) {
+      if (event.slot && claimedSlots.has(event.slot)) continue;
+      if (event.slot) slots.add(event.slot);
+      lines.push(...formatEvent(event, schedule, stamp, "CONFIRMED"));
+    }
+    for (const event of cancelled.values()) {
+      lines.push(...formatEvent(event, schedule, stamp, "CANCELLED"));
+    }
+    slots.forEach(slot => claimedSlots.add(slot));
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+function eventsFor(
+  performer: FeedPerformer,
+  schedule: FeedSchedule,
+  state: { shows: Show[]; assignments: Assignment[] },
+  today: string
+): Map<string, CalendarEvent> {
+  const events = new Map<string, CalendarEvent>();
+  const isMine = (assignment: Assignment) =>
+    assignment.performerId ? assignment.performerId === performer.id : assignment.performer === performer.name;
+  const mine = state.assignments.filter(isMine);
+  const upcoming = state.shows.filter(show => show.date >= today);
+
+  for (const show of upcoming) {
+    const uid = `${schedule.id}-${show.id}-${performer.id}@stomp-scheduler`;
+    if (show.status === "travel") {
+      events.set(uid, {
+        uid,
+        summary: `Travel day - ${schedule.location}`,
+        description: `Week ${schedule.week}`,
+        start: show.date.replace(/-/g, ""),
+        end: nextDate(show.date).replace(/-/g, ""),
+        allDay: true,
+        transparent: false
+      });
+      continue;
+    }
+    if (show.status !== "show") continue;
+
+    const onStage = mine.find(a => a.showId === show.id && a.role !== "OFF");
+    if (!onStage) continue;
+
+    events.set(uid, {
+      uid,
+      slot: `${show.date} ${show.time}`,
+      summary: `STOMP - ${onStage.role}`,
+      description: [
+        `Role: ${onStage.role}`,
+        `Call: ${show.callTime}`,
+        `Show: ${show.time}`,
+        `Week ${schedule.week}`
+      ].join("\n"),
+      start: floating(show.date, show.callTime || show.time),
+      end: floating(show.date, show.time, SHOW_LENGTH_MINUTES),
+      allDay: false,
+      transparent: false
+    });
+  }
+
+  // One all-day event per RED day, whichever show of the day carries the flag
+  const redDates = new Set(
+    mine
+      .filter(a => a.isRedDay)
+      .map(a => upcoming.find(show => show.id === a.showId)?.date)
+      .filter((date): date is string => Boolean(date))
+  );
+  for (const date of redDates) {
+    const uid = `${schedule.id}-red-${date}-${performer.id}@stomp-scheduler`;
+    events.set(uid, {
+      uid,
+      summary: "RED day",
+      description: `Guaranteed day off - ${schedule.location}, week ${schedule.week}`,
+      start: date.replace(/-/g, ""),
+      end: nextDate(date).replace(/-/g, ""),
+      allDay: true,
+      transparent: true
+    });
+  }
+
+  return events;
+}
+
+function formatEvent(event: CalendarEvent, schedule: FeedSchedule, stamp: string, status: "CONFIRMED" | "CANCELLED"): string[] {
+  return [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `SEQUENCE:${schedule.revision}`,
+    event.allDay ? `DTSTART;VALUE=DATE:${event.start}` : `DTSTART:${event.start}`,
+    event.allDay ? `DTEND;VALUE=DATE:${event.end}` : `DTEND:${event.end}`,
+    `SUMMARY:${escapeText(status === "CANCELLED" ? `Cancelled: ${event.summary}` : event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    `LOCATION:${escapeText(schedule.location)}`,
+    `STATUS:${status}`,
+    `TRANSP:${event.transparent ? "TRANSPARENT" : "OPAQUE"}`,
+    "END:VEVENT"
+  ];
+}
+
+// "2024-01-02" + "19:00" (+ minutes) -> "20240102T190000"
+function floating(date: string, time: string, plusMinutes: number = 0): string {
+  const [hours, minutes] = time.split(":").map(Number);
+  const moment = new Date(`${date}T00:00:00Z`);
+  moment.setUTCMinutes((hours || 0) * 60 + (minutes || 0) + plusMinutes);
+  return moment.toISOString().replace(/[-:]/g, "").slice(0, 15);
+}
+
+function nextDate(date: string): string {
+  const next = new Date(`${date}T12:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().split("T")[0];
+}
+
+function formatUtc(moment: Date): string {
+  return moment.toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a single space
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= 75) {
+    return line;
+  }
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
@@ -0,0 +1,82 @@
+import { api } from "encore.dev/api";
+import { scheduleDB } from "./db";
+import { requirePermission } from "./auth";
+
+export interface InboxMessage {
+  id: string;
+  scheduleId?: string;
+  subject: string;
+  body: string;
+  createdAt: Date;
+  readAt?: Date;
+}
+
+export interface InboxResponse {
+  messages: InboxMessage[]; // Latest first
+  unreadCount: number;
+}
+
+export interface MarkInboxReadRequest {
+  ids?: string[]; // Every unread message when omitted
+}
+
+const INBOX_SIZE = 50;
+
+// Lists the signed-in user's latest inbox messages.
+export const getInbox = api<void, InboxResponse>(
+  { expose: true, auth: true, method: "GET", path: "/me/inbox" },
+  async () => {
+    const user = requirePermission("portal.view");
+    return loadInbox(user.userID);
+  }
+);
+
+// Marks messages in the signed-in user's inbox as read.
+export const markInboxRead = api<MarkInboxReadRequest, InboxResponse>(
+  { expose: true, auth: true, method: "POST", path: "/me/inbox/read" },
+  async (req) => {
+    const user = requirePermission("portal.view");
+    const now = new Date();
+
+    if (req.ids === undefined) {
+      await scheduleDB.exec`
+        UPDATE inbox_messages SET read_at = ${now}
+        WHERE user_id = ${user.userID} AND read_at IS NULL
+      `;
+    } else {
+      for (const id of req.ids) {
+        await scheduleDB.exec`
+          UPDATE inbox_messages SET read_at = ${now}
+          WHERE id = ${id} AND user_id = ${user.userID} AND read_at IS NULL
+        `;
+      }
+    }
+
+    return loadInbox(user.userID);
+  }
+);
+
+async function loadInbox(userId: string): Promise<InboxResponse> {
+  const rows = await scheduleDB.queryAll`
+    SELECT id, schedule_id, subject, body, created_at, read_at
+    FROM inbox_messages
+    WHERE user_id = ${userId}
+    ORDER BY created_at DESC
+    LIMIT ${INBOX_SIZE}
+  `;
+  const unread = await scheduleDB.queryRow`
+    SELECT COUNT(*)::int AS count FROM inbox_messages WHERE user_id = ${userId} AND read_at IS NULL
+  `;
+
+  return {
+    messages: rows.map(row => ({
+      id: row.id,
+      scheduleId: row.schedule_id ?? undefined,
+      subject: row.subject,
+      body: row.body,
+      createdAt: new Date(row.created_at),
+      readAt: row.read_at ? new Date(row.read_at) : undefined
+    })),
+    unreadCount: unread?.count ?? 0
+  };
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { canTransition, editRestriction } from './lifecycle';
+import { Show } from './types';
+
+describe('Schedule Lifecycle', () => {
+  const shows: Show[] = [
+    { id: "tue", date: "2024-01-02", time: "21:00", callTime: "19:00", status: "show" },
+    { id: "wed", date: "2024-01-03", time: "21:00", callTime: "19:00", status: "show" },
+    { id: "thu", date: "2024-01-04", time: "21:00", callTime: "19:00", status: "show" }
+  ];
+
+  it('should only allow edits with a reason once published and none once locked or past', () => {
+    expect(editRestriction("draft", shows, undefined, "2024-01-01")).toBeUndefined();
+    expect(editRestriction("published", shows, " ", "2024-01-01")?.kind).toBe("reason_required");
+    expect(editRestriction("published", shows, "PHIL injured", "2024-01-01")).toBeUndefined();
+    expect(editRestriction("locked", shows, "PHIL injured", "2024-01-01")?.kind).toBe("locked");
+    expect(editRestriction("draft", shows, undefined, "2024-01-05")?.kind).toBe("past");
+    expect(editRestriction("draft", shows, undefined, "2024-01-04")).toBeUndefined();
+  });
+
+  it('should move through draft, published and locked in order', () => {
+    expect(canTransition("draft", "published")).toBe(true);
+    expect(canTransition("draft", "locked")).toBe(false);
+    expect(canTransition("published", "locked")).toBe(true);
+    expect(canTransition("locked", "draft")).toBe(false);
+  });
+});
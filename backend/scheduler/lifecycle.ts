@@ -0,0 +1,45 @@
+import { Show, ScheduleStatus } from "./types";
+
+// Which status a schedule can move to from each status
+export const STATUS_TRANSITIONS: Record<ScheduleStatus, ScheduleStatus[]> = {
+  draft: ["published"],
+  published: ["draft", "locked"],
+  locked: ["published"]
+};
+
+export type EditRestriction =
+  | { kind: "locked"; message: string }
+  | { kind: "past"; message: string }
+  | { kind: "reason_required"; message: string };
+
+export function canTransition(from: ScheduleStatus, to: ScheduleStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to);
+}
+
+// A week is over once its last day has gone by; a schedule without shows never is
+export function isPastWeek(shows: Show[], today: string): boolean {
+  if (shows.length === 0) {
+    return false;
+  }
+  const lastDate = shows.map(show => show.date).sort()[shows.length - 1];
+  return lastDate < today;
+}
+
+// Why an edit to a schedule in this state is not allowed, if it is not
+export function editRestriction(
+  status: ScheduleStatus,
+  shows: Show[],
+  changeReason: string | undefined,
+  today: string
+): EditRestriction | undefined {
+  if (status === "locked") {
+    return { kind: "locked", message: "schedule is locked - unlock it before making changes" };
+  }
+  if (isPastWeek(shows, today)) {
+    return { kind: "past", message: "this week is over and its schedule is read-only" };
+  }
+  if (status === "published" && !changeReason?.trim()) {
+    return { kind: "reason_required", message: "a change reason is required to edit a published schedule" };
+  }
+  return undefined;
+}
@@ -1,30 +1,34 @@
 import { api } from "encore.dev/api";
 import { scheduleDB } from "./db";
-import { Schedule, Show, Assignment } from "./types";
+import { Schedule } from "./types";
+import { toSchedule } from "./get";
+import { loadAllScheduleShows } from "./schedule_store";
+import { requirePermission } from "./auth";
+
+// A schedule as listed: its shows but not its assignments, which are loaded when one is opened
+export type ScheduleSummary = Omit<Schedule, "assignments">;
 
 export interface ListSchedulesResponse {
-  schedules: Schedule[];
+  schedules: ScheduleSummary[];
 }
 
 // Retrieves all schedules, ordered by creation date (latest first).
 export const list = api<void, ListSchedulesResponse>(
-  { expose: true, method: "GET", path: "/schedules" },
+  { expose: true, auth: true, method: "GET", path: "/schedules" },
   async () => {
+    requirePermission("schedules.view");
     const rows = await scheduleDB.queryAll`
-      SELECT id, location, week, shows_data, assignments_data, created_at, updated_at
+      SELECT id, location, week, season_id, previous_schedule_id, generation_seed, revision, status, published_at, created_at, updated_at
       FROM schedules 
       ORDER BY created_at DESC
     `;
 
-    const schedules: Schedule[] = rows.map(row => ({
-      id: row.id,
-      location: row.location,
-      week: row.week,
-      shows: JSON.parse(row.shows_data) as Show[],
-      assignments: JSON.parse(row.assignments_data) as Assignment[],
-      createdAt: new Date(row.created_at),
-      updatedAt: new Date(row.updated_at)
-    }));
+    const shows = await loadAllScheduleShows();
+
+    const schedules: ScheduleSummary[] = rows.map(row => {
+      const { assignments, ...summary } = toSchedule(row, { shows: shows.get(row.id) ?? [], assignments: [] }, []);
+      return summary;
+    });
 
     return { schedules };
   }
@@ -0,0 +1,180 @@
+import { api, APIError } from "encore.dev/api";
+import { scheduleDB } from "./db";
+import { CallSheetResponse, Schedule, ScheduleStatus, Unavailability, UnavailabilityType } from "./types";
+import { AuthData, requirePermission } from "./auth";
+import { getMemberById, loadCompanyMembers, normalizeRedDayPreferences } from "./company";
+import { toSchedule } from "./get";
+import { loadScheduleContents } from "./schedule_store";
+import { buildCallSheet } from "./reports";
+import { getEntryById, insertAvailability, queryAvailability } from "./availability";
+
+// The cast's own view: a signed-in performer's calls and time-off requests, scoped to the
+// company member their account is linked to.
+
+export interface MyScheduleWeek {
+  scheduleId: string;
+  status: ScheduleStatus;
+  publishedAt?: Date;
+  callSheet: CallSheetResponse;
+}
+
+export interface MyScheduleResponse {
+  memberId: string;
+  performerName: string;
+  preferredRedDays: number[];
+  weeks: MyScheduleWeek[]; // Published weeks that are not over yet, earliest first
+}
+
+export interface MyAvailabilityResponse {
+  entries: Unavailability[];
+}
+
+export interface RequestTimeOffRequest {
+  type: UnavailabilityType;
+  startDate: string;
+  endDate: string;
+  startTime?: string;
+  endTime?: string;
+  note?: string;
+}
+
+export interface TimeOffResponse {
+  entry: Unavailability;
+}
+
+export interface WithdrawTimeOffRequest {
+  id: string;
+}
+
+export interface UpdateRedDayPreferencesRequest {
+  preferredRedDays: number[]; // Weekdays, 0 = Sunday
+}
+
+export interface RedDayPreferencesResponse {
+  preferredRedDays: number[];
+}
+
+// Gets the signed-in performer's upcoming calls, roles, RED days and covers.
+export const getMySchedule = api<void, MyScheduleResponse>(
+  { expose: true, auth: true, method: "GET", path: "/me/schedule" },
+  async () => {
+    const user = requireLinkedMember();
+    const member = await getMemberById(user.memberId!);
+    const today = new Date().toISOString().split("T")[0];
+
+    // Drafts stay hidden until they are published, as on the calendar feed
+    const rows = await scheduleDB.queryAll`
+      SELECT s.id, s.location, s.week, s.season_id, s.previous_schedule_id, s.generation_seed, s.revision, s.status, s.published_at, s.created_at, s.updated_at
+      FROM schedules s
+      WHERE s.status IN ('published', 'locked')
+        AND EXISTS (
+          SELECT 1 FROM shows show
+          WHERE show.schedule_id = s.id AND show.date >= ${today}
+        )
+        AND EXISTS (
+          SELECT 1 FROM assignments a
+          WHERE a.schedule_id = s.id AND a.performer_id = ${member.id}
+        )
+    `;
+    const members = await loadCompanyMembers();
+
+    // Only the weeks this performer is in are loaded
+    const schedules: Schedule[] = [];
+    for (const row of rows) {
+      schedules.push(toSchedule(row, await loadScheduleContents(scheduleDB, row.id), members));
+    }
+
+    const weeks = schedules
+      .map(schedule => ({
+        scheduleId: schedule.id,
+        status: schedule.status,
+        publishedAt: schedule.publishedAt,
+        callSheet: buildCallSheet(schedule, member.name, member.id)
+      }))
+      .sort((a, b) => firstDate(a.callSheet).localeCompare(firstDate(b.callSheet)));
+
+    return {
+      memberId: member.id,
+      performerName: member.name,
+      preferredRedDays: member.preferredRedDays,
+      weeks
+    };
+  }
+);
+
+// Lists the signed-in performer's time off and requests, in date order.
+export const getMyAvailability = api<void, MyAvailabilityResponse>(
+  { expose: true, auth: true, method: "GET", path: "/me/availability" },
+  async () => {
+    const user = requireLinkedMember();
+    return { entries: await queryAvailability({ memberId: user.memberId! }) };
+  }
+);
+
+// Asks for time off. Requests stay pending until a company manager approves them.
+export const requestTimeOff = api<RequestTimeOffRequest, TimeOffResponse>(
+  { expose: true, auth: true, method: "POST", path: "/me/availability" },
+  async (req) => {
+    const user = requireLinkedMember();
+    return {
+      entry: await insertAvailability({
+        memberId: user.memberId!,
+        type: req.type,
+        status: "pending",
+        startDate: req.startDate,
+        endDate: req.endDate,
+        startTime: req.startTime,
+        endTime: req.endTime,
+        note: req.note
+      })
+    };
+  }
+);
+
+// Withdraws one of the signed-in performer's pending time-off requests.
+export const withdrawTimeOff = api<WithdrawTimeOffRequest, void>(
+  { expose: true, auth: true, method: "DELETE", path: "/me/availability/:id" },
+  async (req) => {
+    const user = requireLinkedMember();
+    const entry = await getEntryById(req.id);
+    if (entry.memberId !== user.memberId) {
+      throw APIError.notFound("availability entry not found");
+    }
+    if (entry.status !== "pending") {
+      throw APIError.failedPrecondition(`this request has already been ${entry.status} - ask a company manager to change it`);
+    }
+
+    await scheduleDB.exec`
+      DELETE FROM performer_unavailability WHERE id = ${req.id}
+    `;
+  }
+);
+
+// Sets the weekdays the signed-in performer would like as RED days.
+export const updateMyRedDayPreferences = api<UpdateRedDayPreferencesRequest, RedDayPreferencesResponse>(
+  { expose: true, auth: true, method: "PUT", path: "/me/red-day-preferences" },
+  async (req) => {
+    const user = requireLinkedMember();
+    const preferredRedDays = normalizeRedDayPreferences(req.preferredRedDays);
+
+    await scheduleDB.exec`
+      UPDATE company_members
+      SET red_day_preferences = ${JSON.stringify(preferredRedDays)}
+      WHERE id = ${user.memberId!}
+    `;
+
+    return { preferredRedDays };
+  }
+);
+
+function requireLinkedMember(): AuthData {
+  const user = requirePermission("portal.view");
+  if (!user.memberId) {
+    throw APIError.failedPrecondition("your account is not linked to a cast member - ask a company manager to link it");
+  }
+  return user;
+}
+
+function firstDate(callSheet: CallSheetResponse): string {
+  return callSheet.shows[0]?.date ?? "";
+}
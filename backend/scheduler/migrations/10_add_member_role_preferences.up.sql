@@ -0,0 +1 @@
+ALTER TABLE company_members ADD COLUMN role_preferences JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,21 @@
+CREATE TABLE schedule_versions (
+  id TEXT PRIMARY KEY,
+  schedule_id TEXT NOT NULL REFERENCES schedules(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  restored_from INTEGER,
+  location TEXT NOT NULL,
+  week TEXT NOT NULL,
+  shows_data JSONB NOT NULL,
+  assignments_data JSONB NOT NULL,
+  generation_seed INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (schedule_id, version)
+);
+
+CREATE INDEX idx_schedule_versions_schedule_id ON schedule_versions(schedule_id, version DESC);
+
+-- Existing schedules start their history at their current state
+INSERT INTO schedule_versions (id, schedule_id, version, reason, location, week, shows_data, assignments_data, generation_seed, created_at)
+SELECT 'ver_' || id || '_1', id, 1, 'imported', location, week, shows_data, assignments_data, generation_seed, updated_at
+FROM schedules;
@@ -0,0 +1,11 @@
+ALTER TABLE schedules ADD COLUMN revision INTEGER NOT NULL DEFAULT 1;
+
+-- The revision matches the schedule's latest version
+UPDATE schedules
+SET revision = latest.version
+FROM (
+  SELECT schedule_id, MAX(version) AS version
+  FROM schedule_versions
+  GROUP BY schedule_id
+) AS latest
+WHERE latest.schedule_id = schedules.id;
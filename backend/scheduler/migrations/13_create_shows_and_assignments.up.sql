@@ -0,0 +1,60 @@
+-- Shows and assignments move out of the schedules JSONB columns into their own tables.
+-- Dates and times keep the YYYY-MM-DD / HH:MM text format of Show.date and Show.time;
+-- position keeps the order the schedule was saved in.
+CREATE TABLE shows (
+  schedule_id TEXT NOT NULL REFERENCES schedules(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  date TEXT NOT NULL,
+  time TEXT NOT NULL,
+  call_time TEXT NOT NULL,
+  status TEXT NOT NULL,
+  PRIMARY KEY (schedule_id, id)
+);
+
+CREATE INDEX idx_shows_date ON shows(date, time);
+
+CREATE TABLE assignments (
+  schedule_id TEXT NOT NULL,
+  show_id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  role TEXT NOT NULL,
+  performer TEXT NOT NULL,
+  performer_id TEXT REFERENCES company_members(id) ON DELETE SET NULL,
+  is_red_day BOOLEAN NOT NULL DEFAULT FALSE,
+  is_locked BOOLEAN NOT NULL DEFAULT FALSE,
+  covers JSONB,
+  PRIMARY KEY (schedule_id, position),
+  FOREIGN KEY (schedule_id, show_id) REFERENCES shows(schedule_id, id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_assignments_show ON assignments(schedule_id, show_id);
+CREATE INDEX idx_assignments_performer_id ON assignments(performer_id);
+
+-- Backfill. A show ID repeated within a schedule keeps its first entry, and assignments
+-- for shows no longer in the schedule are dropped, as no screen could show them.
+INSERT INTO shows (schedule_id, id, position, date, time, call_time, status)
+SELECT DISTINCT ON (s.id, show.item->>'id')
+       s.id, show.item->>'id', show.ord,
+       COALESCE(show.item->>'date', ''), COALESCE(show.item->>'time', ''),
+       COALESCE(show.item->>'callTime', ''), COALESCE(show.item->>'status', 'show')
+FROM schedules s
+CROSS JOIN LATERAL jsonb_array_elements(s.shows_data) WITH ORDINALITY AS show(item, ord)
+WHERE show.item->>'id' IS NOT NULL
+ORDER BY s.id, show.item->>'id', show.ord;
+
+INSERT INTO assignments (schedule_id, show_id, position, role, performer, performer_id, is_red_day, is_locked, covers)
+SELECT s.id, a.item->>'showId', a.ord, a.item->>'role', COALESCE(a.item->>'performer', ''),
+       m.id,
+       COALESCE((a.item->>'isRedDay')::boolean, FALSE),
+       COALESCE((a.item->>'isLocked')::boolean, FALSE),
+       a.item->'covers'
+FROM schedules s
+CROSS JOIN LATERAL jsonb_array_elements(s.assignments_data) WITH ORDINALITY AS a(item, ord)
+JOIN shows sh ON sh.schedule_id = s.id AND sh.id = a.item->>'showId'
+LEFT JOIN company_members m ON m.id = a.item->>'performerId'
+WHERE a.item->>'role' IS NOT NULL;
+
+ALTER TABLE schedules
+  DROP COLUMN shows_data,
+  DROP COLUMN assignments_data;
@@ -0,0 +1,7 @@
+-- One secret feed URL per member; issuing a new token replaces the old one
+CREATE TABLE calendar_feeds (
+  token TEXT PRIMARY KEY,
+  member_id TEXT NOT NULL UNIQUE REFERENCES company_members(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_fetched_at TIMESTAMPTZ
+);
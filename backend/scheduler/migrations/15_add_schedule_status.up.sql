@@ -0,0 +1,10 @@
+ALTER TABLE schedules
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'locked')),
+  ADD COLUMN published_at TIMESTAMPTZ;
+
+-- Schedules saved before the lifecycle existed were already the call board
+UPDATE schedules
+SET status = 'published', published_at = updated_at;
+
+-- Why a published schedule was changed, shown in its version history
+ALTER TABLE schedule_versions ADD COLUMN change_reason TEXT;
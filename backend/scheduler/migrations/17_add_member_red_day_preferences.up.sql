@@ -0,0 +1,2 @@
+-- Weekdays (0 = Sunday) a performer would like as RED days; honoured when a week allows it
+ALTER TABLE company_members ADD COLUMN red_day_preferences JSONB NOT NULL DEFAULT '[]';
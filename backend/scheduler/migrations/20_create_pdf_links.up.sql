@@ -0,0 +1,11 @@
+-- Expiring links to rendered PDFs, so they open from a plain URL without signing in
+CREATE TABLE pdf_links (
+  token TEXT PRIMARY KEY,
+  schedule_id TEXT NOT NULL REFERENCES schedules(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('schedule', 'callsheet', 'utilization')),
+  performer TEXT,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_pdf_links_expires_at ON pdf_links(expires_at);
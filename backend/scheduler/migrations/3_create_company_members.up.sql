@@ -0,0 +1,26 @@
+CREATE TABLE company_members (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  eligible_roles JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active',
+  date_added TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  date_archived TIMESTAMPTZ,
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX idx_company_members_status_order ON company_members(status, sort_order);
+
+-- Seed the roster with the default cast that previously lived in memory
+INSERT INTO company_members (id, name, eligible_roles, status, sort_order) VALUES
+  ('member_default_0', 'PHIL', '["Sarge"]', 'active', 0),
+  ('member_default_1', 'SEAN', '["Sarge", "Potato"]', 'active', 1),
+  ('member_default_2', 'JAMIE', '["Potato", "Ringo"]', 'active', 2),
+  ('member_default_3', 'ADAM', '["Ringo", "Particle"]', 'active', 3),
+  ('member_default_4', 'CARY', '["Particle"]', 'active', 4),
+  ('member_default_5', 'JOE', '["Ringo", "Mozzie"]', 'active', 5),
+  ('member_default_6', 'JOSE', '["Mozzie"]', 'active', 6),
+  ('member_default_7', 'JOSH', '["Who"]', 'active', 7),
+  ('member_default_8', 'CADE', '["Who", "Ringo", "Potato"]', 'active', 8),
+  ('member_default_9', 'MOLLY', '["Bin", "Cornish"]', 'active', 9),
+  ('member_default_10', 'JASMINE', '["Bin", "Cornish"]', 'active', 10),
+  ('member_default_11', 'SERENA', '["Bin", "Cornish"]', 'active', 11);
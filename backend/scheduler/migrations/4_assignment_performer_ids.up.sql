@@ -0,0 +1,26 @@
+-- Reference performers by stable member ID instead of by name
+-- Each stored assignment gets a performerId matched on the name it was saved with;
+-- active members win over archived ones with the same name.
+
+UPDATE schedules s
+SET assignments_data = (
+  SELECT COALESCE(
+    jsonb_agg(
+      CASE
+        WHEN m.id IS NOT NULL THEN a.item || jsonb_build_object('performerId', m.id)
+        ELSE a.item
+      END
+      ORDER BY a.ord
+    ),
+    '[]'::jsonb
+  )
+  FROM jsonb_array_elements(s.assignments_data) WITH ORDINALITY AS a(item, ord)
+  LEFT JOIN LATERAL (
+    SELECT cm.id
+    FROM company_members cm
+    WHERE cm.name = a.item->>'performer'
+    ORDER BY (cm.status = 'active') DESC, cm.date_added ASC
+    LIMIT 1
+  ) m ON TRUE
+)
+WHERE jsonb_array_length(s.assignments_data) > 0;
@@ -0,0 +1,16 @@
+CREATE TABLE performer_unavailability (
+  id TEXT PRIMARY KEY,
+  member_id TEXT NOT NULL REFERENCES company_members(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'approved',
+  -- Dates and times use the same YYYY-MM-DD / HH:MM text format as Show.date and Show.time
+  start_date TEXT NOT NULL,
+  end_date TEXT NOT NULL,
+  start_time TEXT,
+  end_time TEXT,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_performer_unavailability_member ON performer_unavailability(member_id);
+CREATE INDEX idx_performer_unavailability_dates ON performer_unavailability(start_date, end_date);
@@ -0,0 +1,20 @@
+CREATE TABLE roles (
+  name TEXT PRIMARY KEY,
+  description TEXT NOT NULL DEFAULT '',
+  color TEXT NOT NULL,
+  is_required BOOLEAN NOT NULL DEFAULT TRUE,
+  female_only BOOLEAN NOT NULL DEFAULT FALSE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Seed the catalog with the tracks that were previously hardcoded
+INSERT INTO roles (name, color, is_required, female_only, sort_order) VALUES
+  ('Sarge', '#2563eb', TRUE, FALSE, 0),
+  ('Potato', '#d97706', TRUE, FALSE, 1),
+  ('Mozzie', '#059669', TRUE, FALSE, 2),
+  ('Ringo', '#7c3aed', TRUE, FALSE, 3),
+  ('Particle', '#db2777', TRUE, FALSE, 4),
+  ('Bin', '#0891b2', TRUE, TRUE, 5),
+  ('Cornish', '#65a30d', TRUE, TRUE, 6),
+  ('Who', '#dc2626', TRUE, FALSE, 7);
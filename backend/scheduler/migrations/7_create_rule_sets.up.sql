@@ -0,0 +1,25 @@
+CREATE TABLE rule_sets (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  location TEXT UNIQUE,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  rules JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_rule_sets_single_default ON rule_sets(is_default) WHERE is_default;
+
+-- The limits that were previously hardcoded in the scheduling algorithm
+INSERT INTO rule_sets (id, name, is_default, rules) VALUES (
+  'rules_default',
+  'Default',
+  TRUE,
+  '{
+    "maxConsecutiveShows": {"value": 3, "enforcement": "hard"},
+    "maxShowsPerWeek": {"value": 6, "enforcement": "hard"},
+    "maxWeekendShows": {"value": 3, "enforcement": "hard"},
+    "consecutiveGapDays": {"value": 2, "enforcement": "hard"},
+    "redDaysPerWeek": {"value": 1, "enforcement": "hard"}
+  }'
+);
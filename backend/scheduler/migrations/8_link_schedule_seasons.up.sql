@@ -0,0 +1,5 @@
+ALTER TABLE schedules
+  ADD COLUMN season_id TEXT,
+  ADD COLUMN previous_schedule_id TEXT REFERENCES schedules(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_schedules_season_id ON schedules(season_id);
@@ -0,0 +1 @@
+ALTER TABLE schedules ADD COLUMN generation_seed INTEGER;
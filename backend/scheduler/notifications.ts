@@ -0,0 +1,235 @@
+import { api } from "encore.dev/api";
+import { CronJob } from "encore.dev/cron";
+import log from "encore.dev/log";
+import { Transaction } from "encore.dev/storage/sqldb";
+import { scheduleDB } from "./db";
+import { Show, Assignment, ScheduleStatus } from "./types";
+import { diffPerformerCalls } from "./performer_changes";
+import { sendMail, smtpConfigFromEnv } from "./smtp";
+
+// Tells performers what changed for them when a published schedule is edited. Messages
+// are queued in the transaction that saves the edit, then handed to every transport the
+// recipient can be reached through, retrying with backoff until they go out.
+
+export interface NotificationRecipient {
+  userId: string;
+  displayName: string;
+  email?: string;
+}
+
+export interface Notification {
+  id: string;
+  recipient: NotificationRecipient;
+  scheduleId?: string;
+  subject: string;
+  body: string;
+}
+
+export interface NotificationTransport {
+  name: string;
+  accepts(recipient: NotificationRecipient): boolean; // Checked when a message is queued
+  deliver(notification: Notification): Promise<void>; // Throws to have the message retried
+}
+
+export interface DeliverNotificationsResponse {
+  sent: number;
+  failed: number;
+}
+
+const MAX_ATTEMPTS = 6;
+const BATCH_SIZE = 50;
+const CLAIM_MS = 5 * 60_000; // How long a batch is held by one delivery run before another may pick it up
+
+const inboxTransport: NotificationTransport = {
+  name: "inbox",
+  accepts: () => true,
+  async deliver(notification) {
+    // Keyed by the outbox ID, so a retried delivery cannot show the message twice
+    await scheduleDB.exec`
+      INSERT INTO inbox_messages (id, user_id, schedule_id, subject, body, created_at)
+      VALUES (${notification.id}, ${notification.recipient.userId}, ${notification.scheduleId ?? null}, ${notification.subject}, ${notification.body}, ${new Date()})
+      ON CONFLICT (id) DO NOTHING
+    `;
+  }
+};
+
+// Sends through the server in SMTP_HOST/SMTP_PORT; left out entirely while SMTP_HOST is unset
+const smtpTransport: NotificationTransport = {
+  name: "smtp",
+  accepts: (recipient) => Boolean(recipient.email && smtpConfigFromEnv()),
+  async deliver(notification) {
+    const config = smtpConfigFromEnv();
+    if (!config) {
+      throw new Error("SMTP is not configured");
+    }
+    if (!notification.recipient.email) {
+      throw new Error(`${notification.recipient.displayName} has no email address`);
+    }
+    await sendMail(config, {
+      to: notification.recipient.email,
+      subject: notification.subject,
+      text: notification.body
+    });
+  }
+};
+
+const TRANSPORTS: NotificationTransport[] = [inboxTransport, smtpTransport];
+
+// Queues a message for each performer whose calls differ between this version of a published
+// schedule and the one before it. Returns how many messages were queued.
+export async function queueChangeNotifications(
+  tx: Transaction,
+  scheduleId: string,
+  status: ScheduleStatus,
+  version: number
+): Promise<number> {
+  // Drafts are not on the call board yet, and locked schedules cannot change
+  if (status !== "published") {
+    return 0;
+  }
+
+  const rows = await tx.queryAll`
+    SELECT version, change_reason, location, week, shows_data, assignments_data
+    FROM schedule_versions
+    WHERE schedule_id = ${scheduleId} AND version <= ${version}
+    ORDER BY version DESC
+    LIMIT 2
+  `;
+  if (rows.length < 2) {
+    return 0;
+  }
+  const [after, before] = rows;
+
+  const now = new Date();
+  let queued = 0;
+  for (const performer of diffPerformerCalls(stateOf(before), stateOf(after))) {
+    if (!performer.performerId) continue;
+
+    const users = await tx.queryAll`
+      SELECT id, display_name, email
+      FROM users
+      WHERE member_id = ${performer.performerId} AND is_active
+    `;
+    const subject = `Schedule change: ${after.location}, week ${after.week}`;
+    const body = [
+      `Your calls for ${after.location}, week ${after.week} have changed:`,
+      "",
+      ...performer.changes,
+      ...(after.change_reason ? ["", `Reason: ${after.change_reason}`] : [])
+    ].join("\n");
+
+    for (const recipient of users.map(toRecipient)) {
+      for (const transport of TRANSPORTS.filter(t => t.accepts(recipient))) {
+        const id = `ntf_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        await tx.exec`
+          INSERT INTO notification_outbox (id, user_id, schedule_id, transport, subject, body, next_attempt_at, created_at)
+          VALUES (${id}, ${recipient.userId}, ${scheduleId}, ${transport.name}, ${subject}, ${body}, ${now}, ${now})
+        `;
+        queued++;
+      }
+    }
+  }
+
+  return queued;
+}
+
+// Starts delivering what a just-committed change queued, without holding up the response.
+// Anything that fails here is retried by the cron job.
+export function sendQueuedNotifications(): void {
+  deliverPendingNotifications().catch(error => log.error(error, "delivering notifications failed"));
+}
+
+// Delivers queued notifications that are due.
+export const deliverNotifications = api<void, DeliverNotificationsResponse>(
+  { expose: false, method: "POST", path: "/internal/notifications/deliver" },
+  async () => deliverPendingNotifications()
+);
+
+const _ = new CronJob("deliver-notifications", {
+  title: "Deliver queued notifications",
+  every: "1m",
+  endpoint: deliverNotifications
+});
+
+async function deliverPendingNotifications(): Promise<DeliverNotificationsResponse> {
+  // Claim a batch by pushing its next attempt out, so overlapping runs do not send twice
+  const now = new Date();
+  const rows = await scheduleDB.queryAll`
+    UPDATE notification_outbox
+    SET next_attempt_at = ${new Date(now.getTime() + CLAIM_MS)}
+    WHERE id IN (
+      SELECT id FROM notification_outbox
+      WHERE status = 'pending' AND next_attempt_at <= ${now}
+      ORDER BY next_attempt_at
+      LIMIT ${BATCH_SIZE}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id, user_id, schedule_id, transport, subject, body, attempts
+  `;
+
+  let sent = 0;
+  let failed = 0;
+  for (const row of rows) {
+    try {
+      const transport = TRANSPORTS.find(t => t.name === row.transport);
+      if (!transport) {
+        throw new Error(`unknown transport ${row.transport}`);
+      }
+      const user = await scheduleDB.queryRow`
+        SELECT id, display_name, email FROM users WHERE id = ${row.user_id}
+      `;
+      if (!user) {
+        throw new Error("recipient no longer exists");
+      }
+
+      await transport.deliver({
+        id: row.id,
+        recipient: toRecipient(user),
+        scheduleId: row.schedule_id ?? undefined,
+        subject: row.subject,
+        body: row.body
+      });
+      await scheduleDB.exec`
+        UPDATE notification_outbox
+        SET status = 'sent', attempts = attempts + 1, last_error = NULL, sent_at = ${new Date()}
+        WHERE id = ${row.id}
+      `;
+      sent++;
+    } catch (error) {
+      const attempts: number = row.attempts + 1;
+      const message = error instanceof Error ? error.message : String(error);
+      await scheduleDB.exec`
+        UPDATE notification_outbox
+        SET status = ${attempts >= MAX_ATTEMPTS ? "failed" : "pending"},
+            attempts = ${attempts},
+            last_error = ${message},
+            next_attempt_at = ${new Date(Date.now() + retryDelay(attempts))}
+        WHERE id = ${row.id}
+      `;
+      log.warn(error, "notification delivery failed", { notificationId: row.id, transport: row.transport, attempts });
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+}
+
+// 1, 2, 4, 8... minutes between attempts, capped at an hour
+function retryDelay(attempts: number): number {
+  return Math.min(60_000 * 2 ** (attempts - 1), 60 * 60_000);
+}
+
+function stateOf(row: Record<string, any>): { shows: Show[]; assignments: Assignment[] } {
+  return {
+    shows: JSON.parse(row.shows_data),
+    assignments: JSON.parse(row.assignments_data)
+  };
+}
+
+function toRecipient(row: Record<string, any>): NotificationRecipient {
+  return {
+    userId: row.id,
+    displayName: row.display_name,
+    email: row.email ?? undefined
+  };
+}
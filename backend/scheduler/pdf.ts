@@ -0,0 +1,191 @@
+// Minimal PDF writer for the printable reports. It only uses the standard Helvetica
+// fonts every PDF reader ships with, so no font files are embedded and the output
+// looks the same everywhere. Coordinates are in points from the top-left corner.
+
+export type PdfFont = "regular" | "bold";
+export type PdfColor = [number, number, number]; // RGB, 0-1
+
+export const A4_PORTRAIT = { width: 595, height: 842 };
+export const A4_LANDSCAPE = { width: 842, height: 595 };
+
+// Advance widths (1/1000 em) of ASCII 32-126 from the Helvetica AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+interface TextOptions {
+  font?: PdfFont;
+  size?: number;
+  color?: PdfColor;
+}
+
+interface ShapeOptions {
+  fill?: PdfColor;
+  stroke?: PdfColor;
+  lineWidth?: number;
+}
+
+export class PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  private pages: string[][] = [];
+  private current = -1;
+
+  constructor(private title: string, size: { width: number; height: number } = A4_PORTRAIT) {
+    this.width = size.width;
+    this.height = size.height;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  // Switches drawing to an earlier page, e.g. to add "Page 1 of 3" once the page count is known
+  goToPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) {
+      throw new Error(`page ${index + 1} does not exist`);
+    }
+    this.current = index;
+  }
+
+  text(x: number, y: number, value: string, options: TextOptions = {}): void {
+    const size = options.size ?? 10;
+    const font = options.font === "bold" ? "F2" : "F1";
+    this.ops(
+      `${rgb(options.color ?? [0, 0, 0])} rg`,
+      `BT /${font} ${size} Tf ${num(x)} ${num(this.height - y - size * 0.8)} Td (${escapeString(sanitize(value))}) Tj ET`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: ShapeOptions = {}): void {
+    const path = `${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re`;
+    if (options.fill) {
+      this.ops(`${rgb(options.fill)} rg`, `${path} f`);
+    }
+    if (options.stroke) {
+      this.ops(`${num(options.lineWidth ?? 0.5)} w`, `${rgb(options.stroke)} RG`, `${path} S`);
+    }
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: ShapeOptions = {}): void {
+    this.ops(
+      `${num(options.lineWidth ?? 0.5)} w`,
+      `${rgb(options.stroke ?? [0, 0, 0])} RG`,
+      `${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S`
+    );
+  }
+
+  toBytes(createdAt: Date = new Date()): Uint8Array {
+    if (this.pages.length === 0) {
+      this.addPage();
+    }
+
+    // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content stream per page
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, index) => 6 + index * 2);
+    objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+    objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+    objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+    objects[5] = `<< /Title (${escapeString(sanitize(this.title))}) /Producer (STOMP Scheduler) /CreationDate (D:${pdfDate(createdAt)}) >>`;
+
+    this.pages.forEach((content, index) => {
+      const stream = content.join("\n");
+      objects[pageIds[index]] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+      objects[pageIds[index] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+    });
+
+    let output = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    // Everything above is ASCII, so string offsets are byte offsets
+    return new Uint8Array(Buffer.from(output, "latin1"));
+  }
+
+  private ops(...operators: string[]): void {
+    if (this.pages.length === 0) {
+      this.addPage();
+    }
+    this.pages[this.current].push(...operators);
+  }
+}
+
+export function textWidth(value: string, size: number, font: PdfFont = "regular"): number {
+  const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of sanitize(value)) {
+    total += widths[char.charCodeAt(0) - 32] ?? 556;
+  }
+  return (total * size) / 1000;
+}
+
+// Shortens text with "..." so it fits the given width
+export function fitText(value: string, maxWidth: number, size: number, font: PdfFont = "regular"): string {
+  const clean = sanitize(value);
+  if (textWidth(clean, size, font) <= maxWidth) {
+    return clean;
+  }
+  let shortened = clean;
+  while (shortened.length > 0 && textWidth(`${shortened}...`, size, font) > maxWidth) {
+    shortened = shortened.slice(0, -1);
+  }
+  return shortened.length > 0 ? `${shortened}...` : "";
+}
+
+// The standard fonts only cover printable ASCII here; accents are dropped and anything else becomes "?"
+function sanitize(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[\u2013\u2014]/g, "-")
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[^\x20-\x7e]/g, "?");
+}
+
+function escapeString(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
+}
+
+function rgb([r, g, b]: PdfColor): string {
+  return `${num(r)} ${num(g)} ${num(b)}`;
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function pdfDate(moment: Date): string {
+  return moment.toISOString().replace(/[-:T]/g, "").split(".")[0] + "Z";
+}
@@ -0,0 +1,125 @@
+import { api, APIError, ErrCode } from "encore.dev/api";
+import { appMeta, currentRequest, APICallMeta } from "encore.dev";
+import { randomBytes } from "node:crypto";
+import type { ServerResponse } from "node:http";
+import { scheduleDB } from "./db";
+import { loadSchedule } from "./get";
+import { loadCastData } from "./cast_members";
+import { buildCallSheet, buildUtilizationReport } from "./reports";
+import { renderSchedulePdf, renderCallSheetPdf, renderUtilizationPdf } from "./pdf_reports";
+import { requirePermission } from "./auth";
+
+export type PdfKind = "schedule" | "callsheet" | "utilization";
+
+export interface IssuePdfLinkRequest {
+  id: string; // scheduleId
+  kind: PdfKind;
+  performer?: string; // Member ID or name; required for call sheets
+}
+
+export interface PdfLink {
+  url: string;
+  expiresAt: Date;
+}
+
+// How long a PDF link works; long enough to forward by email, short enough that old links die off
+const PDF_LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Issues a link to a schedule, call sheet or utilization PDF that opens without signing in until it expires.
+export const issuePdfLink = api<IssuePdfLinkRequest, PdfLink>(
+  { expose: true, auth: true, method: "POST", path: "/schedules/:id/pdf-links" },
+  async (req) => {
+    requirePermission("schedules.view");
+    if (!["schedule", "callsheet", "utilization"].includes(req.kind)) {
+      throw APIError.invalidArgument(`unknown PDF kind ${req.kind}`);
+    }
+    if (req.kind === "callsheet" && !req.performer) {
+      throw APIError.invalidArgument("performer is required for a call sheet");
+    }
+    await loadSchedule(req.id);
+
+    const token = randomBytes(24).toString("hex");
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + PDF_LINK_TTL_MS);
+    await scheduleDB.exec`
+      DELETE FROM pdf_links WHERE expires_at <= ${now}
+    `;
+    await scheduleDB.exec`
+      INSERT INTO pdf_links (token, schedule_id, kind, performer, expires_at, created_at)
+      VALUES (${token}, ${req.id}, ${req.kind}, ${req.kind === "callsheet" ? req.performer : null}, ${expiresAt}, ${now})
+    `;
+
+    return { url: `${appMeta().apiBaseUrl.replace(/\/$/, "")}/pdf/${token}`, expiresAt };
+  }
+);
+
+// Serves the PDF behind an issued link. The token in the URL is the only credential.
+export const pdfLink = api.raw(
+  { expose: true, method: "GET", path: "/pdf/:token" },
+  async (req, resp) => {
+    const token = String((currentRequest() as APICallMeta).pathParams.token ?? "");
+    await sendPdf(resp, async () => {
+      const link = await scheduleDB.queryRow`
+        SELECT schedule_id, kind, performer
+        FROM pdf_links
+        WHERE token = ${token} AND expires_at > ${new Date()}
+      `;
+      if (!link) {
+        throw APIError.notFound("PDF link not found or expired");
+      }
+
+      const schedule = await loadSchedule(link.schedule_id);
+      const castData = await loadCastData();
+      switch (link.kind as PdfKind) {
+        case "schedule":
+          return {
+            filename: `${schedule.location} week ${schedule.week}`,
+            bytes: renderSchedulePdf(schedule, castData.castMembers, castData.roles)
+          };
+        case "utilization":
+          return {
+            filename: `utilization ${schedule.location} week ${schedule.week}`,
+            bytes: renderUtilizationPdf(buildUtilizationReport(schedule, castData.castMembers, castData.roles))
+          };
+        case "callsheet": {
+          const performer: string = link.performer;
+          const member = castData.castMembers.find(m => m.id === performer)
+            ?? castData.castMembers.find(m => m.name === performer);
+          if (!member && !schedule.assignments.some(a => a.performer === performer)) {
+            throw APIError.notFound(`performer ${performer} is not in this schedule`);
+          }
+
+          const callSheet = buildCallSheet(schedule, member?.name ?? performer, member?.id);
+          return {
+            filename: `${callSheet.performerName} ${schedule.location} week ${schedule.week}`,
+            bytes: renderCallSheetPdf(callSheet)
+          };
+        }
+      }
+    });
+  }
+);
+
+// Raw endpoints write their own errors; an unknown link, schedule or performer is a 404, anything else is rethrown
+async function sendPdf(resp: ServerResponse, render: () => Promise<{ filename: string; bytes: Uint8Array }>): Promise<void> {
+  let result: { filename: string; bytes: Uint8Array };
+  try {
+    result = await render();
+  } catch (error) {
+    if (error instanceof APIError && error.code === ErrCode.NotFound) {
+      resp.writeHead(404, { "Content-Type": "text/plain; charset=utf-8" });
+      resp.end(error.message);
+      return;
+    }
+    throw error;
+  }
+
+  const filename = result.filename.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  resp.writeHead(200, {
+    "Content-Type": "application/pdf",
+    "Content-Length": String(result.bytes.length),
+    "Content-Disposition": `inline; filename="${filename}.pdf"`,
+    "Cache-Control": "no-cache"
+  });
+  resp.end(Buffer.from(result.bytes));
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { renderSchedulePdf, renderCallSheetPdf } from './pdf_reports';
+import { Show, CastMember } from './types';
+
+describe('PDF Rendering', () => {
+  it('should write a well-formed PDF with the grid and page numbers', () => {
+    const shows: Show[] = [
+      { id: "tue", date: "2024-01-02", time: "21:00", callTime: "19:00", status: "show" },
+      { id: "wed", date: "2024-01-03", time: "21:00", callTime: "19:00", status: "show" }
+    ];
+    const cast: CastMember[] = [
+      { name: "PHIL", eligibleRoles: ["Sarge"] },
+      { name: "SEAN", eligibleRoles: ["Sarge", "Potato"] }
+    ];
+    const schedule = {
+      id: "sched",
+      location: "London",
+      week: "1",
+      shows,
+      assignments: [
+        { showId: "tue", role: "Sarge" as const, performer: "PHIL" },
+        { showId: "tue", role: "OFF" as const, performer: "SEAN", isRedDay: true }
+      ],
+      revision: 1,
+      status: "published" as const,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    const pdf = Buffer.from(renderSchedulePdf(schedule, cast, ["Sarge"])).toString("latin1");
+    const xrefAt = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    const firstOffset = Number(pdf.slice(xrefAt).split("\n")[3].slice(0, 10));
+
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf.slice(xrefAt, xrefAt + 4)).toBe("xref");
+    expect(pdf.slice(firstOffset, firstOffset + 7)).toBe("1 0 obj");
+    expect(pdf).toContain("(PHIL) Tj");
+    expect(pdf).toContain("(Page 1 of 1) Tj");
+  });
+
+  it('should continue a long call sheet on a new page', () => {
+    const shows = Array.from({ length: 50 }, (_, index) => ({
+      showId: `show_${index}`,
+      date: "2024-01-02",
+      time: "21:00",
+      callTime: "19:00",
+      status: "show",
+      role: "Sarge"
+    }));
+    const callSheet = {
+      performerName: "PHIL",
+      location: "London",
+      week: "1",
+      shows,
+      metadata: { generatedAt: new Date(), totalShows: 50, performingShows: 50, offDays: 0, redDays: 0 }
+    };
+
+    const pdf = Buffer.from(renderCallSheetPdf(callSheet)).toString("latin1");
+
+    expect(pdf).toContain("/Count 2");
+    expect(pdf).toContain("(Page 2 of 2) Tj");
+  });
+});
@@ -0,0 +1,327 @@
+import { Schedule, CastMember, Role, CallSheetResponse, UtilizationReportResponse } from "./types";
+import { PdfDocument, PdfColor, PdfFont, A4_LANDSCAPE, A4_PORTRAIT, fitText, textWidth } from "./pdf";
+
+// Printable layouts for the weekly grid, call sheets and the utilization report.
+// All three share the page furniture below: a title block on every page, tables
+// whose header row repeats after a page break, and a "Page X of Y" footer.
+
+const MARGIN = 36;
+const FOOTER_HEIGHT = 24;
+const LINE_HEIGHT = 11;
+const CELL_PADDING = 4;
+const FONT_SIZE = 8.5;
+
+const TEXT: PdfColor = [0.12, 0.12, 0.14];
+const MUTED: PdfColor = [0.42, 0.45, 0.5];
+const BORDER: PdfColor = [0.8, 0.82, 0.85];
+const HEADER_FILL: PdfColor = [0.92, 0.93, 0.95];
+const SHADED_FILL: PdfColor = [0.96, 0.96, 0.97];
+const RED: PdfColor = [0.78, 0.1, 0.1];
+
+interface CellLine {
+  text: string;
+  font?: PdfFont;
+  color?: PdfColor;
+}
+
+type Cell = string | CellLine[];
+
+interface TableColumn {
+  label: string[];
+  width: number;
+}
+
+interface TableRow {
+  cells: Cell[];
+  fill?: PdfColor;
+}
+
+class ReportWriter {
+  readonly doc: PdfDocument;
+  y = 0;
+
+  constructor(private title: string, private subtitle: string, size: { width: number; height: number }) {
+    this.doc = new PdfDocument(title, size);
+    this.startPage();
+  }
+
+  get contentWidth(): number {
+    return this.doc.width - MARGIN * 2;
+  }
+
+  startPage(): void {
+    this.doc.addPage();
+    this.doc.text(MARGIN, MARGIN, fitText(this.title, this.contentWidth, 16, "bold"), { font: "bold", size: 16, color: TEXT });
+    this.doc.text(MARGIN, MARGIN + 20, fitText(this.subtitle, this.contentWidth, 10), { size: 10, color: MUTED });
+    this.doc.line(MARGIN, MARGIN + 36, this.doc.width - MARGIN, MARGIN + 36, { stroke: BORDER });
+    this.y = MARGIN + 46;
+  }
+
+  // Starts a new page when the next block would run into the footer
+  ensureSpace(height: number): boolean {
+    if (this.y + height <= this.doc.height - MARGIN - FOOTER_HEIGHT) {
+      return false;
+    }
+    this.startPage();
+    return true;
+  }
+
+  paragraph(text: string, options: { font?: PdfFont; size?: number; color?: PdfColor } = {}): void {
+    const size = options.size ?? 10;
+    this.ensureSpace(size + 6);
+    this.doc.text(MARGIN, this.y, fitText(text, this.contentWidth, size, options.font), { ...options, size, color: options.color ?? TEXT });
+    this.y += size + 6;
+  }
+
+  table(columns: TableColumn[], rows: TableRow[]): void {
+    const header: Cell[] = columns.map(column => column.label.map(text => ({ text, font: "bold" as const })));
+    const headerHeight = rowHeight(header);
+    const drawHeader = () => {
+      this.doc.rect(MARGIN, this.y, this.tableWidth(columns), headerHeight, { fill: HEADER_FILL, stroke: BORDER });
+      this.drawCells(columns, header, headerHeight);
+      this.y += headerHeight;
+    };
+
+    // Keep the header together with at least one row
+    this.ensureSpace(headerHeight + LINE_HEIGHT + CELL_PADDING * 2);
+    drawHeader();
+    for (const row of rows) {
+      const height = rowHeight(row.cells);
+      if (this.ensureSpace(height)) {
+        drawHeader();
+      }
+      this.doc.rect(MARGIN, this.y, this.tableWidth(columns), height, { fill: row.fill, stroke: BORDER });
+      this.drawCells(columns, row.cells, height);
+      this.y += height;
+    }
+    this.y += 12;
+  }
+
+  finish(generatedAt: Date): Uint8Array {
+    const pageCount = this.doc.pageCount;
+    const stamp = generatedAt.toISOString().replace("T", " ").slice(0, 16) + " UTC";
+    for (let index = 0; index < pageCount; index++) {
+      this.doc.goToPage(index);
+      const footerY = this.doc.height - MARGIN - 10;
+      this.doc.text(MARGIN, footerY, `Generated ${stamp}`, { size: 8, color: MUTED });
+      const label = `Page ${index + 1} of ${pageCount}`;
+      this.doc.text(this.doc.width - MARGIN - textWidth(label, 8), footerY, label, { size: 8, color: MUTED });
+    }
+    return this.doc.toBytes(generatedAt);
+  }
+
+  private tableWidth(columns: TableColumn[]): number {
+    return columns.reduce((sum, column) => sum + column.width, 0);
+  }
+
+  private drawCells(columns: TableColumn[], cells: Cell[], height: number): void {
+    let x = MARGIN;
+    columns.forEach((column, index) => {
+      if (index > 0) {
+        this.doc.line(x, this.y, x, this.y + height, { stroke: BORDER });
+      }
+      toLines(cells[index] ?? "").forEach((line, lineIndex) => {
+        const font = line.font ?? "regular";
+        this.doc.text(
+          x + CELL_PADDING,
+          this.y + CELL_PADDING + lineIndex * LINE_HEIGHT,
+          fitText(line.text, column.width - CELL_PADDING * 2, FONT_SIZE, font),
+          { font, size: FONT_SIZE, color: line.color ?? TEXT }
+        );
+      });
+      x += column.width;
+    });
+  }
+}
+
+// Landscape grid of roles against shows, with who is OFF underneath. Weeks with
+// more shows than fit across the page continue on the next page.
+export function renderSchedulePdf(schedule: Schedule, castMembers: CastMember[], roles: Role[], generatedAt: Date = new Date()): Uint8Array {
+  const writer = new ReportWriter(
+    `${schedule.location} - Week ${schedule.week}`,
+    `Cast schedule, revision ${schedule.revision}`,
+    A4_LANDSCAPE
+  );
+
+  const shows = [...schedule.shows].sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`));
+  const roleColumnWidth = 90;
+  const showsPerPage = Math.max(1, Math.floor((writer.contentWidth - roleColumnWidth) / 72));
+
+  for (let start = 0; start < shows.length || start === 0; start += showsPerPage) {
+    const chunk = shows.slice(start, start + showsPerPage);
+    if (start > 0) {
+      writer.startPage();
+    }
+    const showWidth = chunk.length > 0 ? (writer.contentWidth - roleColumnWidth) / chunk.length : 0;
+    const columns: TableColumn[] = [
+      { label: ["Role"], width: roleColumnWidth },
+      ...chunk.map(show => ({
+        label: show.status === "show"
+          ? [formatDay(show.date), `${show.time} (call ${show.callTime})`]
+          : [formatDay(show.date), show.status === "travel" ? "Travel" : "Day off"],
+        width: showWidth
+      }))
+    ];
+
+    const rows: TableRow[] = roles.map(role => ({
+      cells: [
+        [{ text: role, font: "bold" }],
+        ...chunk.map(show => {
+          if (show.status !== "show") return "";
+          const cell = schedule.assignments.find(a => a.showId === show.id && a.role === role && a.performer);
+          return cell ? cell.performer : [{ text: "unfilled", color: RED }];
+        })
+      ]
+    }));
+
+    rows.push({
+      fill: SHADED_FILL,
+      cells: [
+        [{ text: "OFF", font: "bold" }],
+        ...chunk.map(show => show.status === "show" ? offLines(schedule, castMembers, show.id) : "")
+      ]
+    });
+
+    writer.table(columns, rows);
+    if (start + showsPerPage >= shows.length) {
+      break;
+    }
+  }
+
+  writer.paragraph("Names in red have their RED day.", { size: 8, color: MUTED });
+  return writer.finish(generatedAt);
+}
+
+// One performer's week, a row per show with their part in it.
+export function renderCallSheetPdf(callSheet: CallSheetResponse, generatedAt: Date = new Date()): Uint8Array {
+  const writer = new ReportWriter(
+    `Call Sheet - ${callSheet.performerName}`,
+    `${callSheet.location} - Week ${callSheet.week}`,
+    A4_PORTRAIT
+  );
+  const { metadata } = callSheet;
+
+  writer.paragraph(
+    `On stage for ${metadata.performingShows} of ${metadata.totalShows} shows - ${metadata.offDays} show days off - ${metadata.redDays} RED day${metadata.redDays === 1 ? "" : "s"}`
+  );
+
+  const width = writer.contentWidth;
+  writer.table(
+    [
+      { label: ["Date"], width: 130 },
+      { label: ["Show"], width: 70 },
+      { label: ["Call"], width: 70 },
+      { label: ["Part"], width: width - 270 }
+    ],
+    callSheet.shows.map(show => {
+      const part: CellLine[] = show.status === "travel"
+        ? [{ text: "Travel day", color: MUTED }]
+        : show.status !== "show"
+          ? [{ text: "Day off", color: MUTED }]
+          : show.role
+            ? [{ text: show.role, font: "bold" }]
+            : [{
+                text: show.isRedDay ? "OFF - RED day" : show.covers ? `OFF - cover ${show.covers.join(", ")}` : "OFF",
+                color: show.isRedDay ? RED : MUTED
+              }];
+      return {
+        fill: show.role ? undefined : SHADED_FILL,
+        cells: [formatDay(show.date), show.status === "show" ? show.time : "", show.status === "show" ? show.callTime : "", part]
+      };
+    })
+  );
+
+  return writer.finish(generatedAt);
+}
+
+// Shows played per performer, then how fully each role is cast.
+export function renderUtilizationPdf(report: UtilizationReportResponse, generatedAt: Date = new Date()): Uint8Array {
+  const writer = new ReportWriter(
+    `Utilization - ${report.location} Week ${report.week}`,
+    `${report.metadata.activeShows} shows, average utilization ${report.metadata.averageUtilization}%`,
+    A4_PORTRAIT
+  );
+  const width = writer.contentWidth;
+
+  writer.paragraph("Performers", { font: "bold", size: 12 });
+  writer.table(
+    [
+      { label: ["Performer"], width: 120 },
+      { label: ["On stage"], width: 70 },
+      { label: ["Rate"], width: 50 },
+      { label: ["RED days"], width: 60 },
+      { label: ["Roles"], width: width - 300 }
+    ],
+    report.performerUtilization.map(entry => ({
+      cells: [
+        [{ text: entry.performer, font: "bold" }],
+        `${entry.performingShows} / ${entry.totalShows}`,
+        `${entry.utilizationRate}%`,
+        String(entry.redDays),
+        entry.roles.join(", ") || "-"
+      ]
+    }))
+  );
+
+  writer.paragraph("Role coverage", { font: "bold", size: 12 });
+  writer.table(
+    [
+      { label: ["Role"], width: 120 },
+      { label: ["Covered"], width: 70 },
+      { label: ["Rate"], width: 50 },
+      { label: ["Unfilled shows"], width: width - 240 }
+    ],
+    report.roleUtilization.map(entry => {
+      const unfilled = entry.coverage.filter(show => !show.isCovered);
+      return {
+        cells: [
+          [{ text: entry.role, font: "bold" }],
+          `${entry.coverage.length - unfilled.length} / ${entry.coverage.length}`,
+          [{ text: `${entry.coverageRate}%`, color: entry.coverageRate < 100 ? RED : TEXT }],
+          unfilled.length > 0
+            ? unfilled.map(show => ({ text: `${formatDay(show.showDate)} ${show.showTime}` }))
+            : [{ text: "None", color: MUTED }]
+        ]
+      };
+    })
+  );
+
+  return writer.finish(generatedAt);
+}
+
+// Everyone in the cast who is not on stage for the show, RED days in red and named covers after the name
+function offLines(schedule: Schedule, castMembers: CastMember[], showId: string): CellLine[] {
+  const onStage = new Set(
+    schedule.assignments.filter(a => a.showId === showId && a.role !== "OFF" && a.performer).map(a => a.performer)
+  );
+  const offEntries = schedule.assignments.filter(a => a.showId === showId && a.role === "OFF");
+  const names = [...new Set([...castMembers.map(member => member.name), ...offEntries.map(a => a.performer)])]
+    .filter(name => name && !onStage.has(name));
+
+  return names.map(name => {
+    const entry = offEntries.find(a => a.performer === name);
+    const covers = entry?.covers?.length ? ` (cover ${entry.covers.join(", ")})` : "";
+    return { text: `${name}${covers}`, color: entry?.isRedDay ? RED : TEXT };
+  });
+}
+
+function toLines(cell: Cell): CellLine[] {
+  return typeof cell === "string" ? [{ text: cell }] : cell;
+}
+
+function rowHeight(cells: Cell[]): number {
+  const lines = Math.max(1, ...cells.map(cell => toLines(cell).length));
+  return lines * LINE_HEIGHT + CELL_PADDING * 2;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// "2024-01-02" -> "Tue 2 Jan"
+function formatDay(date: string): string {
+  const day = new Date(`${date}T12:00:00Z`);
+  if (isNaN(day.getTime())) {
+    return date;
+  }
+  return `${WEEKDAYS[day.getUTCDay()]} ${day.getUTCDate()} ${MONTHS[day.getUTCMonth()]}`;
+}
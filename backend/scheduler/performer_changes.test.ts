@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { diffPerformerCalls } from './performer_changes';
+import { Show } from './types';
+
+describe('Change Notifications', () => {
+  const satMat: Show = { id: "sat_mat", date: "2024-01-06", time: "16:00", callTime: "14:00", status: "show" };
+  const satEve: Show = { id: "sat_eve", date: "2024-01-06", time: "21:00", callTime: "18:00", status: "show" };
+
+  it('should list what changed for each performer, matching them by member ID', () => {
+    const before = {
+      shows: [satMat, satEve],
+      assignments: [
+        { showId: "sat_mat", role: "Ringo" as const, performer: "JOE", performerId: "m_joe" },
+        { showId: "sat_mat", role: "Who" as const, performer: "CADE", performerId: "m_cade" },
+        { showId: "sat_mat", role: "OFF" as const, performer: "JOSH", performerId: "m_josh" },
+        { showId: "sat_eve", role: "Ringo" as const, performer: "JOE", performerId: "m_joe" }
+      ]
+    };
+    const after = {
+      shows: [satMat, { ...satEve, callTime: "17:30" }],
+      assignments: [
+        { showId: "sat_mat", role: "Ringo" as const, performer: "JOSHUA", performerId: "m_josh" },
+        { showId: "sat_mat", role: "Who" as const, performer: "CADE", performerId: "m_cade" },
+        { showId: "sat_mat", role: "OFF" as const, performer: "JOE", performerId: "m_joe", covers: ["Ringo" as const] },
+        { showId: "sat_eve", role: "Ringo" as const, performer: "JOE", performerId: "m_joe" }
+      ]
+    };
+
+    const changes = diffPerformerCalls(before, after);
+
+    expect(changes).toEqual([
+      { performerId: "m_joe", performer: "JOE", changes: ["Sat 16:00: Ringo → OFF, cover Ringo", "Sat 21:00: call 18:00 → 17:30"] },
+      { performerId: "m_josh", performer: "JOSHUA", changes: ["Sat 16:00: OFF → Ringo"] }
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+import { Show, Assignment } from "./types";
+
+// What changed for each performer between two states of a schedule, phrased as
+// one line per call: "Sat 16:00: Ringo → OFF". Performers are matched on their
+// member ID, so a rename between the two states is not reported as a change.
+
+export interface PerformerChanges {
+  performerId?: string;
+  performer: string; // Display name in the later state
+  changes: string[];
+}
+
+interface ScheduleState {
+  shows: Show[];
+  assignments: Assignment[];
+}
+
+interface Call {
+  text: string; // "Ringo", "OFF", "RED", "OFF, cover Ringo"
+  onStage: boolean;
+}
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function diffPerformerCalls(before: ScheduleState, after: ScheduleState): PerformerChanges[] {
+  const beforeShows = new Map(before.shows.map(show => [show.id, show]));
+  const afterShows = new Map(after.shows.map(show => [show.id, show]));
+  const showIds = [...new Set([...beforeShows.keys(), ...afterShows.keys()])].sort((a, b) => {
+    const showA = afterShows.get(a) ?? beforeShows.get(a)!;
+    const showB = afterShows.get(b) ?? beforeShows.get(b)!;
+    return `${showA.date} ${showA.time}`.localeCompare(`${showB.date} ${showB.time}`);
+  });
+
+  const performers = new Map<string, { performerId?: string; performer: string }>();
+  for (const assignment of [...before.assignments, ...after.assignments]) {
+    if (assignment.performer) {
+      performers.set(performerKey(assignment), { performerId: assignment.performerId, performer: assignment.performer });
+    }
+  }
+
+  const result: PerformerChanges[] = [];
+  for (const [key, identity] of performers) {
+    const changes: string[] = [];
+
+    for (const showId of showIds) {
+      const beforeShow = beforeShows.get(showId);
+      const afterShow = afterShows.get(showId);
+      const wasPlaying = beforeShow?.status === "show";
+      const isPlaying = afterShow?.status === "show";
+      const from = wasPlaying ? callIn(before, showId, key) : undefined;
+      const to = isPlaying ? callIn(after, showId, key) : undefined;
+      if (!from && !to) continue;
+
+      if (!isPlaying) {
+        changes.push(`${showLabel(beforeShow!)}: ${from!.text} → show cancelled`);
+        continue;
+      }
+      if (!wasPlaying) {
+        changes.push(`${showLabel(afterShow!)}: new show → ${to!.text}`);
+        continue;
+      }
+
+      if (beforeShow!.date !== afterShow!.date || beforeShow!.time !== afterShow!.time) {
+        changes.push(`${showLabel(beforeShow!)}: show moved to ${showLabel(afterShow!)}`);
+      }
+      if ((from?.text ?? "") !== (to?.text ?? "")) {
+        changes.push(`${showLabel(afterShow!)}: ${from?.text ?? "not called"} → ${to?.text ?? "not called"}`);
+      }
+      if (to?.onStage && beforeShow!.callTime !== afterShow!.callTime) {
+        changes.push(`${showLabel(afterShow!)}: call ${beforeShow!.callTime} → ${afterShow!.callTime}`);
+      }
+    }
+
+    if (changes.length > 0) {
+      result.push({ ...identity, changes });
+    }
+  }
+
+  return result.sort((a, b) => a.performer.localeCompare(b.performer));
+}
+
+function performerKey(assignment: Assignment): string {
+  return assignment.performerId ?? `name:${assignment.performer}`;
+}
+
+// The performer's part in one show, or undefined when they are not in it at all
+function callIn(state: ScheduleState, showId: string, key: string): Call | undefined {
+  const own = state.assignments.filter(a => a.showId === showId && a.performer && performerKey(a) === key);
+  const roles = own.filter(a => a.role !== "OFF").map(a => a.role);
+  if (roles.length > 0) {
+    return { text: roles.join(" + "), onStage: true };
+  }
+
+  const off = own.find(a => a.role === "OFF");
+  if (!off) {
+    return undefined;
+  }
+  const text = off.isRedDay ? "RED" : "OFF";
+  return { text: off.covers?.length ? `${text}, cover ${off.covers.join("/")}` : text, onStage: false };
+}
+
+function showLabel(show: Show): string {
+  return `${DAY_NAMES[new Date(`${show.date}T12:00:00Z`).getUTCDay()]} ${show.time}`;
+}
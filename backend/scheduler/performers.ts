@@ -0,0 +1,44 @@
+import { Assignment } from "./types";
+
+// Anything with a stable member ID and a display name (CompanyMember, CastMember).
+export interface PerformerIdentity {
+  id?: string;
+  name: string;
+}
+
+// Fills in `performerId` on assignments that only carry a display name.
+// Used on the write path so stored assignments always reference members by ID.
+export function attachPerformerIds<T extends PerformerIdentity>(assignments: Assignment[], members: T[]): Assignment[] {
+  const idsByName = new Map<string, string>();
+  for (const member of members) {
+    if (member.id && !idsByName.has(member.name)) {
+      idsByName.set(member.name, member.id);
+    }
+  }
+
+  return assignments.map(assignment => {
+    if (assignment.performerId) {
+      return assignment;
+    }
+    const performerId = idsByName.get(assignment.performer);
+    return performerId ? { ...assignment, performerId } : assignment;
+  });
+}
+
+// Replaces the stored display name with the member's current name.
+// Used on the read path so renames propagate to every schedule.
+export function resolvePerformerNames<T extends PerformerIdentity>(assignments: Assignment[], members: T[]): Assignment[] {
+  const namesById = new Map<string, string>();
+  for (const member of members) {
+    if (member.id) {
+      namesById.set(member.id, member.name);
+    }
+  }
+
+  return assignments.map(assignment => {
+    const currentName = assignment.performerId ? namesById.get(assignment.performerId) : undefined;
+    return currentName && currentName !== assignment.performer
+      ? { ...assignment, performer: currentName }
+      : assignment;
+  });
+}
@@ -0,0 +1,24 @@
+// Seeded pseudo-random numbers, so a schedule generation can be replayed from its seed.
+
+// Seeds are stored in a Postgres INTEGER column
+export const MAX_SEED = 2147483647;
+
+export function createSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
+
+export function isValidSeed(seed: number): boolean {
+  return Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED;
+}
+
+// Mulberry32: returns numbers in [0, 1), like Math.random()
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
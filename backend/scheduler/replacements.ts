@@ -0,0 +1,181 @@
+import { api, APIError } from "encore.dev/api";
+import { scheduleDB } from "./db";
+import { Assignment, Show } from "./types";
+import { SchedulingAlgorithm } from "./algorithm";
+import { CellChange, ReplacementPlan, MAX_CHAIN_STEPS, applyCellChanges, findReplacementPlans } from "./emergency";
+import { loadCompanyMembers } from "./company";
+import { attachPerformerIds, resolvePerformerNames } from "./performers";
+import { loadApprovedUnavailability } from "./availability";
+import { loadRulesForLocation } from "./rule_sets";
+import { loadPreviousSchedule } from "./season";
+import { assertCurrentRevision, loadRevisionConflict, recordVersion } from "./versions";
+import { toSchedule } from "./get";
+import { loadScheduleContents, saveScheduleContents } from "./schedule_store";
+import { assertEditable } from "./schedule_status";
+import { requirePermission } from "./auth";
+import { queueChangeNotifications, sendQueuedNotifications } from "./notifications";
+import { emitWebhookEvent, scheduleEventData, sendQueuedWebhooks } from "./webhooks";
+
+export interface FindReplacementsRequest {
+  id: string; // scheduleId
+  performer: string; // Performer who cannot do the shows
+  performerId?: string; // Preferred over the name when present
+  showIds: string[];
+  maxSteps?: number; // Longest chain of performers moved for one show, 1 to 4
+}
+
+export interface FindReplacementsResponse {
+  plans: ReplacementPlan[];
+}
+
+export interface ApplyReplacementRequest {
+  id: string; // scheduleId
+  changes: CellChange[];
+  revision?: number; // Revision the plan was found against; stale plans are rejected as a conflict
+  changeReason?: string; // Required once the schedule is published
+}
+
+export interface ApplyReplacementResponse {
+  assignments: Assignment[];
+  revision: number;
+}
+
+// Finds ranked replacement plans for a performer dropping out of shows.
+export const findReplacements = api<FindReplacementsRequest, FindReplacementsResponse>(
+  { expose: true, auth: true, method: "POST", path: "/schedules/:id/replacements" },
+  async (req) => {
+    requirePermission("schedules.edit");
+    if (req.showIds.length === 0) {
+      throw APIError.invalidArgument("at least one show is required");
+    }
+    if (req.maxSteps !== undefined && (!Number.isInteger(req.maxSteps) || req.maxSteps < 1 || req.maxSteps > MAX_CHAIN_STEPS)) {
+      throw APIError.invalidArgument(`maxSteps must be between 1 and ${MAX_CHAIN_STEPS}`);
+    }
+
+    const row = await scheduleDB.queryRow`
+      SELECT id, location, previous_schedule_id
+      FROM schedules
+      WHERE id = ${req.id}
+    `;
+
+    if (!row) {
+      throw APIError.notFound("schedule not found");
+    }
+
+    const contents = await loadScheduleContents(scheduleDB, req.id);
+    const members = await loadCompanyMembers();
+    const shows: Show[] = contents.shows;
+    const assignments: Assignment[] = resolvePerformerNames(
+      attachPerformerIds(contents.assignments, members),
+      members
+    );
+    const performer = (req.performerId && members.find(m => m.id === req.performerId)?.name) || req.performer;
+
+    const unknownShow = req.showIds.find(showId => !shows.some(show => show.id === showId));
+    if (unknownShow) {
+      throw APIError.invalidArgument(`show ${unknownShow} is not in this schedule`);
+    }
+    if (!assignments.some(a => a.performer === performer && a.role !== "OFF" && req.showIds.includes(a.showId))) {
+      throw APIError.failedPrecondition(`${performer} is not on stage in any of the selected shows`);
+    }
+
+    // Validate with the same rules, leave and preceding week as generation
+    const { getCastMembers } = await import("./cast_members");
+    const castData = await getCastMembers();
+    const unavailability = await loadApprovedUnavailability(shows);
+    const rules = await loadRulesForLocation(row.location);
+    const previous = await loadPreviousSchedule(row.location, shows, row.previous_schedule_id ?? undefined);
+
+    const algorithm = new SchedulingAlgorithm(shows, castData.castMembers, {
+      unavailability,
+      roles: castData.roleCatalog,
+      rules,
+      previousTail: previous?.tail
+    });
+    const plans = findReplacementPlans(algorithm, shows, assignments, castData.castMembers, performer, req.showIds, {
+      maxSteps: req.maxSteps
+    });
+
+    return { plans };
+  }
+);
+
+// Applies a replacement plan to a saved schedule.
+export const applyReplacement = api<ApplyReplacementRequest, ApplyReplacementResponse>(
+  { expose: true, auth: true, method: "PUT", path: "/schedules/:id/replacements" },
+  async (req) => {
+    requirePermission("schedules.edit");
+    const existingRow = await scheduleDB.queryRow`
+      SELECT id, location, week, season_id, previous_schedule_id, generation_seed, revision, status, published_at, created_at, updated_at
+      FROM schedules
+      WHERE id = ${req.id}
+    `;
+
+    if (!existingRow) {
+      throw APIError.notFound("schedule not found");
+    }
+
+    const contents = await loadScheduleContents(scheduleDB, req.id);
+    const members = await loadCompanyMembers();
+    assertCurrentRevision(req.revision, toSchedule(existingRow, contents, members));
+    assertEditable(existingRow.status, contents.shows, req.changeReason);
+
+    const assignments: Assignment[] = resolvePerformerNames(
+      attachPerformerIds(contents.assignments, members),
+      members
+    );
+
+    // The plan was worked out against the cells as they were; refuse it if any have moved since
+    for (const change of req.changes) {
+      const current = assignments.find(a => a.showId === change.showId && a.role === change.role);
+      if (current?.performer !== change.from) {
+        throw APIError.failedPrecondition(`${change.role} is no longer played by ${change.from} in that show - find replacements again`);
+      }
+    }
+
+    const updated = applyCellChanges(assignments, req.changes, members);
+
+    const now = new Date();
+    let revision: number;
+    let notified = 0;
+    let queuedWebhooks = 0;
+    const tx = await scheduleDB.begin();
+    try {
+      const saved = await tx.queryRow`
+        UPDATE schedules
+        SET revision = revision + 1,
+            updated_at = ${now}
+        WHERE id = ${req.id} AND revision = ${existingRow.revision}
+        RETURNING revision
+      `;
+      if (!saved) {
+        throw await loadRevisionConflict(req.id, existingRow.revision);
+      }
+      await saveScheduleContents(tx, req.id, contents.shows, updated);
+      revision = await recordVersion(tx, req.id, {
+        location: existingRow.location,
+        week: existingRow.week,
+        shows: contents.shows,
+        assignments: updated,
+        seed: existingRow.generation_seed ?? undefined
+      }, "replacement", undefined, req.changeReason);
+      notified = await queueChangeNotifications(tx, req.id, existingRow.status, revision);
+      queuedWebhooks = await emitWebhookEvent(tx, "schedule.updated", {
+        schedule: scheduleEventData({ id: req.id, location: existingRow.location, week: existingRow.week, status: existingRow.status, revision }),
+        changeReason: req.changeReason?.trim() || undefined
+      });
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+    if (notified > 0) {
+      sendQueuedNotifications();
+    }
+    if (queuedWebhooks > 0) {
+      sendQueuedWebhooks();
+    }
+
+    return { assignments: updated, revision };
+  }
+);
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { buildCallSheet, buildUtilizationReport } from './reports';
+import { Show, CastMember, Assignment } from './types';
+
+describe('Call Sheets and Utilization', () => {
+  const shows: Show[] = [
+    { id: "tue", date: "2024-01-02", time: "21:00", callTime: "19:00", status: "show" },
+    { id: "wed", date: "2024-01-03", time: "21:00", callTime: "19:00", status: "show" }
+  ];
+  const cast: CastMember[] = [
+    { name: "PHIL", eligibleRoles: ["Sarge"] },
+    { name: "SEAN", eligibleRoles: ["Sarge", "Potato"] }
+  ];
+  const buildSchedule = (assignments: Assignment[] = [
+    { showId: "tue", role: "Sarge", performer: "PHIL" },
+    { showId: "wed", role: "Sarge", performer: "SEAN" },
+    { showId: "tue", role: "OFF", performer: "SEAN" },
+    { showId: "wed", role: "OFF", performer: "PHIL", isRedDay: true }
+  ]) => ({
+    id: "sched",
+    location: "London",
+    week: "1",
+    shows,
+    assignments,
+    revision: 1,
+    status: "published" as const,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+  it('should list every show with the performer\'s role and count OFF and RED days', () => {
+    const callSheet = buildCallSheet(buildSchedule(), "PHIL");
+
+    expect(callSheet.shows.map(show => show.role)).toEqual(["Sarge", undefined]);
+    expect(callSheet.metadata).toMatchObject({ totalShows: 2, performingShows: 1, offDays: 1, redDays: 1 });
+  });
+
+  it('should show the roles a performer covers on their call sheet', () => {
+    const callSheet = buildCallSheet(buildSchedule([
+      { showId: "tue", role: "Sarge", performer: "SEAN" },
+      { showId: "tue", role: "OFF", performer: "PHIL", covers: ["Sarge"] },
+      { showId: "wed", role: "OFF", performer: "PHIL", isRedDay: true }
+    ]), "PHIL");
+
+    expect(callSheet.shows.map(show => show.covers)).toEqual([["Sarge"], undefined]);
+  });
+
+  it('should report utilization per performer and coverage per role', () => {
+    const report = buildUtilizationReport(buildSchedule(), cast, ["Sarge", "Potato"]);
+
+    expect(report.performerUtilization.map(entry => `${entry.performer}:${entry.utilizationRate}`)).toEqual(["PHIL:50", "SEAN:50"]);
+    expect(report.roleUtilization.map(entry => `${entry.role}:${entry.coverageRate}`)).toEqual(["Sarge:100", "Potato:0"]);
+    expect(report.metadata.averageUtilization).toBe(50);
+  });
+});
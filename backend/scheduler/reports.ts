@@ -0,0 +1,120 @@
+import { Schedule, CastMember, Role, CallSheetResponse, UtilizationReportResponse } from "./types";
+
+// Per-performer call sheets and company-wide utilization for a saved schedule.
+// Percentages are whole numbers; only shows with status "show" count as performances.
+
+// Every show in the schedule with the performer's part in it, in date order.
+export function buildCallSheet(
+  schedule: Schedule,
+  performer: string,
+  performerId?: string,
+  generatedAt: Date = new Date()
+): CallSheetResponse {
+  const shows = [...schedule.shows].sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`));
+  const mine = schedule.assignments.filter(a => a.performer === performer);
+
+  const lines = shows.map(show => {
+    const onStage = mine.find(a => a.showId === show.id && a.role !== "OFF");
+    const isRedDay = mine.some(a => a.showId === show.id && a.isRedDay);
+    const covers = mine.find(a => a.showId === show.id && a.role === "OFF")?.covers ?? [];
+    return {
+      showId: show.id,
+      date: show.date,
+      time: show.time,
+      callTime: show.callTime,
+      status: show.status,
+      role: onStage?.role,
+      isRedDay: isRedDay || undefined,
+      covers: covers.length > 0 ? covers : undefined
+    };
+  });
+
+  const activeLines = lines.filter(line => line.status === "show");
+  const showDates = [...new Set(activeLines.map(line => line.date))];
+
+  return {
+    performerId,
+    performerName: performer,
+    location: schedule.location,
+    week: schedule.week,
+    shows: lines,
+    metadata: {
+      generatedAt,
+      totalShows: activeLines.length,
+      performingShows: activeLines.filter(line => line.role).length,
+      offDays: showDates.filter(date => activeLines.every(line => line.date !== date || !line.role)).length,
+      redDays: new Set(activeLines.filter(line => line.isRedDay).map(line => line.date)).size
+    }
+  };
+}
+
+// How much of the week each cast member plays, and how fully each role is cast.
+export function buildUtilizationReport(
+  schedule: Schedule,
+  castMembers: CastMember[],
+  roles: Role[],
+  generatedAt: Date = new Date()
+): UtilizationReportResponse {
+  const activeShows = schedule.shows
+    .filter(show => show.status === "show")
+    .sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`));
+  const activeShowIds = new Set(activeShows.map(show => show.id));
+  const showDates = new Map(activeShows.map(show => [show.id, show.date]));
+  const stage = schedule.assignments.filter(a => a.role !== "OFF" && a.performer && activeShowIds.has(a.showId));
+
+  const performerUtilization = castMembers.map(member => {
+    const played = stage.filter(a => a.performer === member.name);
+    const performingShows = new Set(played.map(a => a.showId)).size;
+    const redDates = new Set(
+      schedule.assignments
+        .filter(a => a.performer === member.name && a.isRedDay && activeShowIds.has(a.showId))
+        .map(a => showDates.get(a.showId))
+    );
+    return {
+      performerId: member.id,
+      performer: member.name,
+      totalShows: activeShows.length,
+      performingShows,
+      utilizationRate: percentage(performingShows, activeShows.length),
+      redDays: redDates.size,
+      roles: [...new Set(played.map(a => a.role))].sort()
+    };
+  });
+
+  const roleUtilization = roles.map(role => {
+    const coverage = activeShows.map(show => {
+      const cell = stage.find(a => a.showId === show.id && a.role === role);
+      return {
+        showId: show.id,
+        showDate: show.date,
+        showTime: show.time,
+        performer: cell?.performer ?? null,
+        isCovered: Boolean(cell)
+      };
+    });
+    return {
+      role,
+      coverage,
+      coverageRate: percentage(coverage.filter(entry => entry.isCovered).length, coverage.length)
+    };
+  });
+
+  const rates = performerUtilization.map(entry => entry.utilizationRate);
+
+  return {
+    location: schedule.location,
+    week: schedule.week,
+    performerUtilization,
+    roleUtilization,
+    metadata: {
+      generatedAt,
+      totalShows: schedule.shows.length,
+      activeShows: activeShows.length,
+      averageUtilization: rates.length > 0 ? Math.round(rates.reduce((sum, rate) => sum + rate, 0) / rates.length) : 0
+    }
+  };
+}
+
+function percentage(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
@@ -0,0 +1,97 @@
+import { api, APIError } from "encore.dev/api";
+import { scheduleDB } from "./db";
+import { Show, Assignment, RoleHistory } from "./types";
+import { loadCompanyMembers } from "./company";
+import { attachPerformerIds, resolvePerformerNames } from "./performers";
+import { ROLE_HISTORY_WEEKS, countRoleMix } from "./rotation";
+import { loadScheduleContents } from "./schedule_store";
+import { requirePermission } from "./auth";
+
+export const MAX_ROLE_HISTORY_WEEKS = 12;
+
+export interface GetRoleHistoryRequest {
+  location: string;
+  shows: Show[]; // The week being scheduled; history covers the weeks before its first show
+  weeks?: number; // Length of the window, 1 to 12
+}
+
+export interface GetRoleHistoryResponse {
+  history: RoleHistory;
+  since: string; // First date in the window
+  weeks: number;
+}
+
+// Gets the roles each performer played in the weeks before the given shows.
+export const getRoleHistory = api<GetRoleHistoryRequest, GetRoleHistoryResponse>(
+  { expose: true, auth: true, method: "POST", path: "/schedules/role-history" },
+  async (req) => {
+    requirePermission("schedules.view");
+    const weeks = req.weeks ?? ROLE_HISTORY_WEEKS;
+    if (!Number.isInteger(weeks) || weeks < 1 || weeks > MAX_ROLE_HISTORY_WEEKS) {
+      throw APIError.invalidArgument(`weeks must be between 1 and ${MAX_ROLE_HISTORY_WEEKS}`);
+    }
+    if (!req.location.trim()) {
+      throw APIError.invalidArgument("location is required");
+    }
+
+    const history = await loadRoleHistory(req.location, req.shows, weeks);
+    return {
+      history,
+      since: windowStart(req.shows, weeks) ?? "",
+      weeks
+    };
+  }
+);
+
+// Stage shows per role for every performer in the location's saved schedules over the
+// window before the given shows. Where schedules overlap, the most recently edited one counts.
+export async function loadRoleHistory(location: string, shows: Show[], weeks: number = ROLE_HISTORY_WEEKS): Promise<RoleHistory> {
+  const firstDate = shows.map(show => show.date).sort()[0];
+  const since = windowStart(shows, weeks);
+  if (!firstDate || !since) {
+    return {};
+  }
+
+  const rows = await scheduleDB.queryAll`
+    SELECT s.id
+    FROM schedules s
+    WHERE s.location = ${location}
+      AND EXISTS (
+        SELECT 1 FROM shows show
+        WHERE show.schedule_id = s.id AND show.date >= ${since} AND show.date < ${firstDate}
+      )
+    ORDER BY s.updated_at DESC
+  `;
+
+  const members = await loadCompanyMembers();
+  const counted = new Set<string>();
+  const windowShows: Show[] = [];
+  const windowAssignments: Assignment[] = [];
+
+  for (const row of rows) {
+    const contents = await loadScheduleContents(scheduleDB, row.id);
+    const rowShows = contents.shows.filter(show =>
+      show.status === "show" && show.date >= since && show.date < firstDate && !counted.has(`${show.date} ${show.time}`)
+    );
+    const rowShowIds = new Set(rowShows.map(show => show.id));
+    rowShows.forEach(show => counted.add(`${show.date} ${show.time}`));
+
+    windowShows.push(...rowShows);
+    windowAssignments.push(...resolvePerformerNames(
+      attachPerformerIds(contents.assignments, members),
+      members
+    ).filter(assignment => rowShowIds.has(assignment.showId)));
+  }
+
+  return countRoleMix(windowShows, windowAssignments);
+}
+
+function windowStart(shows: Show[], weeks: number): string | null {
+  const firstDate = shows.map(show => show.date).sort()[0];
+  if (!firstDate) {
+    return null;
+  }
+  const start = new Date(firstDate + "T12:00:00Z");
+  start.setUTCDate(start.getUTCDate() - weeks * 7);
+  return start.toISOString().split("T")[0];
+}
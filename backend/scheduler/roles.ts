@@ -0,0 +1,165 @@
+import { api, APIError } from "encore.dev/api";
+import { scheduleDB } from "./db";
+import { DEFAULT_ROLE_CATALOG, RoleDefinition } from "./types";
+import { requirePermission } from "./auth";
+
+export interface ListRolesResponse {
+  roles: RoleDefinition[];
+}
+
+export interface AddRoleRequest {
+  name: string;
+  description?: string;
+  color?: string;
+  isRequired?: boolean;
+  femaleOnly?: boolean;
+}
+
+export interface UpdateRoleRequest {
+  name: string;
+  description?: string;
+  color?: string;
+  isRequired?: boolean;
+  femaleOnly?: boolean;
+  order?: number;
+}
+
+export interface RoleResponse {
+  role: RoleDefinition;
+}
+
+export interface DeleteRoleRequest {
+  name: string;
+}
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// Loads the role catalog in display order, falling back to the built-in roles.
+export async function loadRoleCatalog(): Promise<RoleDefinition[]> {
+  const rows = await scheduleDB.queryAll`
+    SELECT name, description, color, is_required, female_only, sort_order
+    FROM roles
+    ORDER BY sort_order ASC, created_at ASC
+  `;
+
+  return rows.length > 0 ? rows.map(toRoleDefinition) : DEFAULT_ROLE_CATALOG;
+}
+
+// Retrieves the role catalog.
+export const listRoles = api<void, ListRolesResponse>(
+  { expose: true, auth: true, method: "GET", path: "/roles" },
+  async () => {
+    requirePermission("schedules.view");
+    return { roles: await loadRoleCatalog() };
+  }
+);
+
+// Adds a role to the end of the catalog.
+export const addRole = api<AddRoleRequest, RoleResponse>(
+  { expose: true, auth: true, method: "POST", path: "/roles" },
+  async (req) => {
+    requirePermission("company.manage");
+    const name = req.name.trim();
+    if (!name || name === "OFF") {
+      throw APIError.invalidArgument("role name is invalid");
+    }
+    if (req.color && !COLOR_PATTERN.test(req.color)) {
+      throw APIError.invalidArgument("color must be a hex value like #2563eb");
+    }
+
+    const existing = await scheduleDB.queryRow`
+      SELECT name FROM roles WHERE LOWER(name) = LOWER(${name})
+    `;
+    if (existing) {
+      throw APIError.alreadyExists("a role with this name already exists");
+    }
+
+    const maxOrder = await scheduleDB.queryRow`
+      SELECT COALESCE(MAX(sort_order), -1) AS max_order FROM roles
+    `;
+    const order = Number(maxOrder?.max_order ?? -1) + 1;
+
+    await scheduleDB.exec`
+      INSERT INTO roles (name, description, color, is_required, female_only, sort_order)
+      VALUES (${name}, ${req.description ?? ""}, ${req.color ?? "#6b7280"}, ${req.isRequired ?? true}, ${req.femaleOnly ?? false}, ${order})
+    `;
+
+    return { role: await getRoleByName(name) };
+  }
+);
+
+// Updates a role's description, colour, requirement flags or position.
+export const updateRole = api<UpdateRoleRequest, RoleResponse>(
+  { expose: true, auth: true, method: "PUT", path: "/roles/:name" },
+  async (req) => {
+    requirePermission("company.manage");
+    const role = await getRoleByName(req.name);
+    if (req.color && !COLOR_PATTERN.test(req.color)) {
+      throw APIError.invalidArgument("color must be a hex value like #2563eb");
+    }
+
+    await scheduleDB.exec`
+      UPDATE roles
+      SET description = ${req.description ?? role.description},
+          color = ${req.color ?? role.color},
+          is_required = ${req.isRequired ?? role.isRequired},
+          female_only = ${req.femaleOnly ?? role.femaleOnly},
+          sort_order = ${req.order ?? role.order}
+      WHERE name = ${req.name}
+    `;
+
+    return { role: await getRoleByName(req.name) };
+  }
+);
+
+// Removes a role from the catalog and from every member's eligible roles.
+// Existing schedules keep their assignments for the role.
+export const deleteRole = api<DeleteRoleRequest, void>(
+  { expose: true, auth: true, method: "DELETE", path: "/roles/:name" },
+  async (req) => {
+    requirePermission("company.manage");
+    await getRoleByName(req.name);
+
+    const tx = await scheduleDB.begin();
+    try {
+      await tx.exec`
+        UPDATE company_members
+        SET eligible_roles = eligible_roles - ${req.name},
+            role_preferences = role_preferences - ${req.name}
+        WHERE eligible_roles ? ${req.name}
+      `;
+      await tx.exec`
+        DELETE FROM roles WHERE name = ${req.name}
+      `;
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+  }
+);
+
+async function getRoleByName(name: string): Promise<RoleDefinition> {
+  const row = await scheduleDB.queryRow`
+    SELECT name, description, color, is_required, female_only, sort_order
+    FROM roles
+    WHERE name = ${name}
+  `;
+
+  if (!row) {
+    throw APIError.notFound("role not found");
+  }
+
+  return toRoleDefinition(row);
+}
+
+function toRoleDefinition(row: Record<string, any>): RoleDefinition {
+  return {
+    name: row.name,
+    description: row.description,
+    color: row.color,
+    isRequired: row.is_required,
+    femaleOnly: row.female_only,
+    order: row.sort_order
+  };
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { countRoleMix, mergeRoleHistory } from './rotation';
+import { Show } from './types';
+
+describe('Role Rotation', () => {
+  const shows: Show[] = [
+    { id: "tue", date: "2024-01-02", time: "21:00", callTime: "19:00", status: "show" },
+    { id: "wed", date: "2024-01-03", time: "21:00", callTime: "19:00", status: "show" }
+  ];
+
+  it('should count stage roles per performer across weeks', () => {
+    const week = countRoleMix(shows, [
+      { showId: "tue", role: "Who", performer: "CADE" },
+      { showId: "wed", role: "Ringo", performer: "CADE" },
+      { showId: "wed", role: "OFF", performer: "JOSH", isRedDay: false }
+    ]);
+
+    expect(week).toEqual({ CADE: { Who: 1, Ringo: 1 } });
+    expect(mergeRoleHistory([week, { CADE: { Who: 3 }, JOSH: { Who: 2 } }])).toEqual({
+      CADE: { Who: 4, Ringo: 1 },
+      JOSH: { Who: 2 }
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { Show, Assignment, RoleHistory } from "./types";
+
+// Role rotation across weeks. Each generation sees how often every performer
+// played each of their roles over a rolling window of saved weeks, and the
+// solver steers them towards the roles they have played least.
+
+// Weeks of saved schedules looked back over when rotating performers through their roles
+export const ROLE_HISTORY_WEEKS = 4;
+
+// Stage shows per role for each performer in the given shows
+export function countRoleMix(shows: Show[], assignments: Assignment[]): RoleHistory {
+  const activeShowIds = new Set(shows.filter(show => show.status === "show").map(show => show.id));
+  const history: RoleHistory = {};
+  for (const assignment of assignments) {
+    if (assignment.role === "OFF" || !assignment.performer || !activeShowIds.has(assignment.showId)) continue;
+    const mix = history[assignment.performer] ?? (history[assignment.performer] = {});
+    mix[assignment.role] = (mix[assignment.role] || 0) + 1;
+  }
+  return history;
+}
+
+// Sums several windows' counts into one
+export function mergeRoleHistory(histories: RoleHistory[]): RoleHistory {
+  const merged: RoleHistory = {};
+  for (const history of histories) {
+    for (const [performer, mix] of Object.entries(history)) {
+      const target = merged[performer] ?? (merged[performer] = {});
+      for (const [role, count] of Object.entries(mix)) {
+        target[role] = (target[role] || 0) + count;
+      }
+    }
+  }
+  return merged;
+}
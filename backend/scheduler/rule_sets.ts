@@ -0,0 +1,177 @@
+import { api, APIError } from "encore.dev/api";
+import { scheduleDB } from "./db";
+import { DEFAULT_RULES, RuleSet, SchedulingRules } from "./types";
+import { requirePermission } from "./auth";
+
+export interface ListRuleSetsResponse {
+  ruleSets: RuleSet[];
+}
+
+export interface CreateRuleSetRequest {
+  name: string;
+  location?: string;
+  rules?: Partial<SchedulingRules>;
+}
+
+export interface UpdateRuleSetRequest {
+  id: string;
+  name?: string;
+  location?: string;
+  rules?: Partial<SchedulingRules>;
+}
+
+export interface RuleSetResponse {
+  ruleSet: RuleSet;
+}
+
+export interface DeleteRuleSetRequest {
+  id: string;
+}
+
+// Loads the rules that apply to a location: its own rule set, else the default one.
+export async function loadRulesForLocation(location?: string): Promise<SchedulingRules> {
+  const row = await scheduleDB.queryRow`
+    SELECT rules FROM rule_sets
+    WHERE location = ${location ?? null} OR is_default
+    ORDER BY is_default ASC
+    LIMIT 1
+  `;
+
+  return row ? withDefaults(JSON.parse(row.rules)) : DEFAULT_RULES;
+}
+
+// Retrieves every rule set, default first.
+export const listRuleSets = api<void, ListRuleSetsResponse>(
+  { expose: true, auth: true, method: "GET", path: "/rule-sets" },
+  async () => {
+    requirePermission("schedules.view");
+    const rows = await scheduleDB.queryAll`
+      SELECT id, name, location, is_default, rules, updated_at
+      FROM rule_sets
+      ORDER BY is_default DESC, name ASC
+    `;
+
+    return { ruleSets: rows.map(toRuleSet) };
+  }
+);
+
+// Creates a rule set for a production's location.
+export const createRuleSet = api<CreateRuleSetRequest, RuleSetResponse>(
+  { expose: true, auth: true, method: "POST", path: "/rule-sets" },
+  async (req) => {
+    requirePermission("company.manage");
+    const id = `rules_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const rules = withDefaults(req.rules ?? {});
+    validateRules(rules);
+    await assertLocationAvailable(req.location);
+
+    await scheduleDB.exec`
+      INSERT INTO rule_sets (id, name, location, is_default, rules, updated_at)
+      VALUES (${id}, ${req.name}, ${req.location || null}, FALSE, ${JSON.stringify(rules)}, ${new Date()})
+    `;
+
+    return { ruleSet: await getRuleSetById(id) };
+  }
+);
+
+// Updates a rule set's name, location or rule values.
+export const updateRuleSet = api<UpdateRuleSetRequest, RuleSetResponse>(
+  { expose: true, auth: true, method: "PUT", path: "/rule-sets/:id" },
+  async (req) => {
+    requirePermission("company.manage");
+    const ruleSet = await getRuleSetById(req.id);
+    const rules = withDefaults({ ...ruleSet.rules, ...req.rules });
+    validateRules(rules);
+
+    // The default set applies everywhere and cannot be tied to a location
+    let location = ruleSet.location;
+    if (req.location !== undefined && !ruleSet.isDefault) {
+      await assertLocationAvailable(req.location, ruleSet.id);
+      location = req.location || undefined;
+    }
+
+    await scheduleDB.exec`
+      UPDATE rule_sets
+      SET name = ${req.name ?? ruleSet.name},
+          location = ${location ?? null},
+          rules = ${JSON.stringify(rules)},
+          updated_at = ${new Date()}
+      WHERE id = ${req.id}
+    `;
+
+    return { ruleSet: await getRuleSetById(req.id) };
+  }
+);
+
+// Deletes a location's rule set; its schedules fall back to the default rules.
+export const deleteRuleSet = api<DeleteRuleSetRequest, void>(
+  { expose: true, auth: true, method: "DELETE", path: "/rule-sets/:id" },
+  async (req) => {
+    requirePermission("company.manage");
+    const ruleSet = await getRuleSetById(req.id);
+    if (ruleSet.isDefault) {
+      throw APIError.failedPrecondition("the default rule set cannot be deleted");
+    }
+
+    await scheduleDB.exec`
+      DELETE FROM rule_sets WHERE id = ${req.id}
+    `;
+  }
+);
+
+async function getRuleSetById(id: string): Promise<RuleSet> {
+  const row = await scheduleDB.queryRow`
+    SELECT id, name, location, is_default, rules, updated_at
+    FROM rule_sets
+    WHERE id = ${id}
+  `;
+
+  if (!row) {
+    throw APIError.notFound("rule set not found");
+  }
+
+  return toRuleSet(row);
+}
+
+async function assertLocationAvailable(location?: string, excludeId?: string): Promise<void> {
+  if (!location) return;
+
+  const row = await scheduleDB.queryRow`
+    SELECT id FROM rule_sets
+    WHERE location = ${location} AND id <> ${excludeId ?? ""}
+  `;
+
+  if (row) {
+    throw APIError.alreadyExists(`${location} already has a rule set`);
+  }
+}
+
+function validateRules(rules: SchedulingRules): void {
+  for (const [key, setting] of Object.entries(rules)) {
+    if (!Number.isInteger(setting.value) || setting.value < 0) {
+      throw APIError.invalidArgument(`${key} must be a whole number of zero or more`);
+    }
+    if (setting.enforcement !== "hard" && setting.enforcement !== "soft") {
+      throw APIError.invalidArgument(`${key} must be hard or soft`);
+    }
+  }
+  if (rules.maxConsecutiveShows.value < 1 || rules.maxShowsPerWeek.value < 1) {
+    throw APIError.invalidArgument("performers must be allowed at least one show");
+  }
+}
+
+// Fills rules missing from older rule sets with the built-in defaults
+function withDefaults(rules: Partial<SchedulingRules>): SchedulingRules {
+  return { ...DEFAULT_RULES, ...rules };
+}
+
+function toRuleSet(row: Record<string, any>): RuleSet {
+  return {
+    id: row.id,
+    name: row.name,
+    location: row.location ?? undefined,
+    isDefault: row.is_default,
+    rules: withDefaults(JSON.parse(row.rules)),
+    updatedAt: new Date(row.updated_at)
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { diffSchedules } from './schedule_diff';
+import { Show } from './types';
+
+describe('Version Diff', () => {
+  const weekShows: Show[] = [
+    { id: "tue", date: "2024-01-02", time: "21:00", callTime: "19:00", status: "show" },
+    { id: "wed", date: "2024-01-03", time: "21:00", callTime: "19:00", status: "show" },
+    { id: "thu", date: "2024-01-04", time: "21:00", callTime: "19:00", status: "show" }
+  ];
+
+  it('should report changed cells, RED days and shows between two versions', () => {
+    const before = {
+      shows: weekShows.slice(0, 2),
+      assignments: [
+        { showId: "tue", role: "Sarge" as const, performer: "PHIL" },
+        { showId: "wed", role: "Sarge" as const, performer: "PHIL" },
+        { showId: "tue", role: "OFF" as const, performer: "SEAN", isRedDay: true }
+      ]
+    };
+    const after = {
+      shows: [{ ...weekShows[0], time: "20:00" }, weekShows[1], weekShows[2]],
+      assignments: [
+        { showId: "tue", role: "Sarge" as const, performer: "PHIL" },
+        { showId: "wed", role: "Sarge" as const, performer: "SEAN" },
+        { showId: "tue", role: "OFF" as const, performer: "SEAN", isRedDay: false }
+      ]
+    };
+
+    const diff = diffSchedules(before, after);
+
+    expect(diff.cells).toEqual([
+      { showId: "wed", date: "2024-01-03", time: "21:00", role: "Sarge", from: "PHIL", to: "SEAN" }
+    ]);
+    expect(diff.redDays).toEqual([{ performer: "SEAN", from: "2024-01-02", to: undefined }]);
+    expect(diff.shows.map(show => `${show.showId}:${show.change}`)).toEqual(["tue:changed", "thu:added"]);
+  });
+
+  it('should diff each RED day when a performer has more than one', () => {
+    const before = {
+      shows: weekShows,
+      assignments: [
+        { showId: "tue", role: "OFF" as const, performer: "SEAN", isRedDay: true },
+        { showId: "wed", role: "OFF" as const, performer: "SEAN", isRedDay: true },
+        { showId: "thu", role: "OFF" as const, performer: "SEAN" }
+      ]
+    };
+    const after = {
+      shows: weekShows,
+      assignments: [
+        { showId: "tue", role: "OFF" as const, performer: "SEAN", isRedDay: true },
+        { showId: "wed", role: "OFF" as const, performer: "SEAN" },
+        { showId: "thu", role: "OFF" as const, performer: "SEAN" }
+      ]
+    };
+
+    expect(diffSchedules(before, after).redDays).toEqual([{ performer: "SEAN", from: "2024-01-03", to: undefined }]);
+    expect(diffSchedules(after, before).redDays).toEqual([{ performer: "SEAN", from: undefined, to: "2024-01-03" }]);
+  });
+});
@@ -0,0 +1,109 @@
+import { Show, Assignment, Role } from "./types";
+
+// Cell-level comparison of two states of a schedule. Stage cells are matched
+// on show and role, RED days on performer and date, and shows on their ID.
+
+export interface CellDiff {
+  showId: string;
+  date: string;
+  time: string;
+  role: Role;
+  from: string; // Empty when the cell was unfilled
+  to: string;
+}
+
+export interface RedDayDiff {
+  performer: string;
+  from?: string; // Date of the RED day before, if any
+  to?: string;
+}
+
+export interface ShowDiff {
+  showId: string;
+  change: "added" | "removed" | "changed";
+  before?: Show;
+  after?: Show;
+}
+
+export interface ScheduleDiff {
+  cells: CellDiff[];
+  redDays: RedDayDiff[];
+  shows: ShowDiff[];
+}
+
+export function diffSchedules(
+  before: { shows: Show[]; assignments: Assignment[] },
+  after: { shows: Show[]; assignments: Assignment[] }
+): ScheduleDiff {
+  const beforeShows = new Map(before.shows.map(show => [show.id, show]));
+  const afterShows = new Map(after.shows.map(show => [show.id, show]));
+
+  const shows: ShowDiff[] = [];
+  for (const [showId, show] of beforeShows) {
+    const updated = afterShows.get(showId);
+    if (!updated) {
+      shows.push({ showId, change: "removed", before: show });
+    } else if (
+      show.date !== updated.date || show.time !== updated.time ||
+      show.callTime !== updated.callTime || show.status !== updated.status
+    ) {
+      shows.push({ showId, change: "changed", before: show, after: updated });
+    }
+  }
+  for (const [showId, show] of afterShows) {
+    if (!beforeShows.has(showId)) {
+      shows.push({ showId, change: "added", after: show });
+    }
+  }
+
+  const cellsOf = (assignments: Assignment[]) => {
+    const cells = new Map<string, string>();
+    assignments
+      .filter(a => a.role !== "OFF" && a.performer)
+      .forEach(a => cells.set(`${a.showId}|${a.role}`, a.performer));
+    return cells;
+  };
+  const beforeCells = cellsOf(before.assignments);
+  const afterCells = cellsOf(after.assignments);
+
+  const cells: CellDiff[] = [];
+  for (const key of new Set([...beforeCells.keys(), ...afterCells.keys()])) {
+    const from = beforeCells.get(key) ?? "";
+    const to = afterCells.get(key) ?? "";
+    if (from === to) continue;
+
+    const [showId, role] = key.split("|");
+    const show = afterShows.get(showId) ?? beforeShows.get(showId);
+    cells.push({ showId, date: show?.date ?? "", time: show?.time ?? "", role, from, to });
+  }
+  cells.sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`) || a.role.localeCompare(b.role));
+
+  const redDaysOf = (state: { shows: Show[]; assignments: Assignment[] }) => {
+    const showDates = new Map(state.shows.map(show => [show.id, show.date]));
+    return new Set(state.assignments
+      .filter(a => a.role === "OFF" && a.isRedDay && showDates.has(a.showId))
+      .map(a => `${a.performer}|${showDates.get(a.showId)}`));
+  };
+  const beforeRed = redDaysOf(before);
+  const afterRed = redDaysOf(after);
+
+  // A performer's dropped and new RED days are paired in date order as moves
+  const changed = new Map<string, { from: string[]; to: string[] }>();
+  const track = (key: string, side: "from" | "to") => {
+    const [performer, date] = key.split("|");
+    const entry = changed.get(performer) ?? { from: [], to: [] };
+    entry[side].push(date);
+    changed.set(performer, entry);
+  };
+  [...beforeRed].filter(key => !afterRed.has(key)).sort().forEach(key => track(key, "from"));
+  [...afterRed].filter(key => !beforeRed.has(key)).sort().forEach(key => track(key, "to"));
+
+  const redDays: RedDayDiff[] = [];
+  for (const [performer, { from, to }] of changed) {
+    for (let i = 0; i < Math.max(from.length, to.length); i++) {
+      redDays.push({ performer, from: from[i], to: to[i] });
+    }
+  }
+
+  return { cells, redDays, shows };
+}
@@ -0,0 +1,159 @@
+import { api, APIError } from "encore.dev/api";
+import { scheduleDB } from "./db";
+import { Schedule, Show, ScheduleStatus } from "./types";
+import { loadCompanyMembers } from "./company";
+import { assertCurrentRevision } from "./versions";
+import { toSchedule } from "./get";
+import { loadScheduleContents } from "./schedule_store";
+import { validate } from "./validate";
+import { canTransition, editRestriction, isPastWeek } from "./lifecycle";
+import { requirePermission } from "./auth";
+import { emitWebhookEvent, scheduleEventData, sendQueuedWebhooks } from "./webhooks";
+import { WebhookEvent } from "./webhook_events";
+
+export interface ScheduleTransitionRequest {
+  id: string; // scheduleId
+  revision?: number; // Revision the manager reviewed; rejected as a conflict when the schedule has moved on
+}
+
+export interface ScheduleTransitionResponse {
+  schedule: Schedule;
+}
+
+export interface PublishScheduleResponse {
+  schedule: Schedule;
+  warnings: string[]; // Validation warnings; errors stop the schedule from being published
+}
+
+// Publishes a draft schedule as the cast's call board, refusing schedules that break the rules.
+export const publishSchedule = api<ScheduleTransitionRequest, PublishScheduleResponse>(
+  { expose: true, auth: true, method: "POST", path: "/schedules/:id/publish" },
+  async (req) => {
+    requirePermission("schedules.publish");
+    let warnings: string[] = [];
+    const schedule = await transition(req, "draft", "published", async (current) => {
+      const result = await validate({
+        shows: current.shows,
+        assignments: current.assignments,
+        location: current.location
+      });
+      if (!result.isValid) {
+        throw APIError.failedPrecondition(
+          `schedule has ${result.errors.length} validation error${result.errors.length === 1 ? "" : "s"} - fix them before publishing`
+        ).withDetails({ errors: result.errors });
+      }
+      warnings = result.warnings;
+    });
+
+    return { schedule, warnings };
+  }
+);
+
+// Takes a published schedule back to draft.
+export const unpublishSchedule = api<ScheduleTransitionRequest, ScheduleTransitionResponse>(
+  { expose: true, auth: true, method: "POST", path: "/schedules/:id/unpublish" },
+  async (req) => {
+    requirePermission("schedules.publish");
+    return { schedule: await transition(req, "published", "draft") };
+  }
+);
+
+// Locks a published schedule so it can no longer be edited.
+export const lockSchedule = api<ScheduleTransitionRequest, ScheduleTransitionResponse>(
+  { expose: true, auth: true, method: "POST", path: "/schedules/:id/lock" },
+  async (req) => {
+    requirePermission("schedules.publish");
+    return { schedule: await transition(req, "published", "locked") };
+  }
+);
+
+// Unlocks a locked schedule, leaving it published.
+export const unlockSchedule = api<ScheduleTransitionRequest, ScheduleTransitionResponse>(
+  { expose: true, auth: true, method: "POST", path: "/schedules/:id/unlock" },
+  async (req) => {
+    requirePermission("schedules.publish");
+    return { schedule: await transition(req, "locked", "published") };
+  }
+);
+
+// Rejects an edit the schedule's status or dates do not allow. Pass the shows as they are saved now,
+// so moving a past week's dates forward does not make it editable.
+export function assertEditable(status: ScheduleStatus, shows: Show[], changeReason?: string): void {
+  const restriction = editRestriction(status, shows, changeReason, today());
+  if (!restriction) {
+    return;
+  }
+  throw restriction.kind === "reason_required"
+    ? APIError.invalidArgument(restriction.message)
+    : APIError.failedPrecondition(restriction.message);
+}
+
+async function transition(
+  req: ScheduleTransitionRequest,
+  from: ScheduleStatus,
+  to: ScheduleStatus,
+  check?: (schedule: Schedule) => Promise<void>
+): Promise<Schedule> {
+  const members = await loadCompanyMembers();
+  const now = new Date();
+
+  const tx = await scheduleDB.begin();
+  try {
+    const row = await tx.queryRow`
+      SELECT id, location, week, season_id, previous_schedule_id, generation_seed, revision, status, published_at, created_at, updated_at
+      FROM schedules
+      WHERE id = ${req.id}
+      FOR UPDATE
+    `;
+
+    if (!row) {
+      throw APIError.notFound("schedule not found");
+    }
+    const schedule = toSchedule(row, await loadScheduleContents(tx, req.id), members);
+    assertCurrentRevision(req.revision, schedule);
+
+    if (schedule.status !== from || !canTransition(from, to)) {
+      throw APIError.failedPrecondition(`schedule is ${schedule.status}, not ${from}`);
+    }
+    // A finished week can still be locked for the record, but nothing else
+    if (to !== "locked" && isPastWeek(schedule.shows, today())) {
+      throw APIError.failedPrecondition("this week is over and its schedule is read-only");
+    }
+    if (check) {
+      await check(schedule);
+    }
+
+    // Publishing from draft stamps a new publish date; unlocking keeps the original one
+    const publishedAt = to === "draft" ? undefined : from === "draft" ? now : schedule.publishedAt;
+    await tx.exec`
+      UPDATE schedules
+      SET status = ${to}, published_at = ${publishedAt ?? null}
+      WHERE id = ${req.id}
+    `;
+    const event = transitionEvent(from, to);
+    const queuedWebhooks = event
+      ? await emitWebhookEvent(tx, event, { schedule: scheduleEventData({ ...schedule, status: to }), publishedAt })
+      : 0;
+    await tx.commit();
+    if (queuedWebhooks > 0) {
+      sendQueuedWebhooks();
+    }
+
+    return { ...schedule, status: to, publishedAt };
+  } catch (error) {
+    await tx.rollback();
+    throw error;
+  }
+}
+
+// Unlocking makes a schedule published again, but only a draft going out is a new publication
+function transitionEvent(from: ScheduleStatus, to: ScheduleStatus): WebhookEvent | undefined {
+  if (to === "published") {
+    return from === "draft" ? "schedule.published" : undefined;
+  }
+  return to === "draft" ? "schedule.unpublished" : "schedule.locked";
+}
+
+function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { scheduleDB } from './db';
+import { loadScheduleContents, saveScheduleContents } from './schedule_store';
+import { Show, Assignment } from './types';
+
+// Runs against the database under `encore test`, like the e2e suite
+describe('Schedule Store', () => {
+  const scheduleId = `sched_store_test_${Date.now()}`;
+
+  const shows: Show[] = [
+    { id: "wed", date: "2024-01-03", time: "21:00", callTime: "19:00", status: "show" },
+    { id: "tue", date: "2024-01-02", time: "21:00", callTime: "19:00", status: "show" },
+    { id: "travel", date: "2024-01-04", time: "10:00", callTime: "09:00", status: "travel" }
+  ];
+
+  afterEach(async () => {
+    await scheduleDB.exec`DELETE FROM schedules WHERE id = ${scheduleId}`;
+  });
+
+  it('should load a schedule\'s shows and assignments back exactly as they were saved', async () => {
+    // member_default_0 is PHIL, seeded with the roster
+    const assignments: Assignment[] = [
+      { showId: "wed", role: "Sarge", performer: "PHIL", performerId: "member_default_0", isLocked: true },
+      { showId: "wed", role: "OFF", performer: "SEAN", covers: ["Sarge", "Potato"] },
+      { showId: "tue", role: "Sarge", performer: "SEAN" },
+      { showId: "tue", role: "OFF", performer: "PHIL", performerId: "member_default_0", isRedDay: true }
+    ];
+    await scheduleDB.exec`
+      INSERT INTO schedules (id, location, week, created_at, updated_at)
+      VALUES (${scheduleId}, 'Store Test', '1', ${new Date()}, ${new Date()})
+    `;
+
+    await saveScheduleContents(scheduleDB, scheduleId, shows, assignments);
+
+    expect(await loadScheduleContents(scheduleDB, scheduleId)).toEqual({ shows, assignments });
+  });
+
+  it('should drop flags that are false and member IDs that do not exist', async () => {
+    await scheduleDB.exec`
+      INSERT INTO schedules (id, location, week, created_at, updated_at)
+      VALUES (${scheduleId}, 'Store Test', '1', ${new Date()}, ${new Date()})
+    `;
+
+    await saveScheduleContents(scheduleDB, scheduleId, shows, [
+      { showId: "tue", role: "OFF", performer: "GHOST", performerId: "member_gone", isRedDay: false, isLocked: false }
+    ]);
+
+    expect((await loadScheduleContents(scheduleDB, scheduleId)).assignments).toEqual([
+      { showId: "tue", role: "OFF", performer: "GHOST" }
+    ]);
+  });
+
+  it('should backfill shows and assignments from the old JSONB columns', async () => {
+    const migration = readFileSync(join(__dirname, 'migrations', '13_create_shows_and_assignments.up.sql'), 'utf8');
+    const backfill = migration
+      .slice(migration.indexOf('INSERT INTO shows'), migration.indexOf('ALTER TABLE schedules'))
+      .split(/;\s*\n/)
+      .map(statement => statement.trim())
+      .filter(Boolean);
+
+    // Temporary tables shadow the real ones for this transaction only
+    const tx = await scheduleDB.begin();
+    try {
+      await tx.rawExec(`CREATE TEMP TABLE schedules (id TEXT PRIMARY KEY, shows_data JSONB NOT NULL, assignments_data JSONB NOT NULL) ON COMMIT DROP`);
+      await tx.rawExec(`CREATE TEMP TABLE shows (LIKE public.shows) ON COMMIT DROP`);
+      await tx.rawExec(`CREATE TEMP TABLE assignments (LIKE public.assignments) ON COMMIT DROP`);
+      await tx.exec`
+        INSERT INTO schedules (id, shows_data, assignments_data) VALUES (${scheduleId}, ${JSON.stringify([
+          shows[1],
+          shows[0],
+          { ...shows[1], time: "20:00" } // Repeated show ID: the first entry wins
+        ])}::jsonb, ${JSON.stringify([
+          { showId: "tue", role: "Sarge", performer: "PHIL", performerId: "member_default_0", isRedDay: false },
+          { showId: "wed", role: "OFF", performer: "PHIL", isRedDay: true, covers: ["Sarge"] },
+          { showId: "wed", role: "Sarge", performer: "GHOST", performerId: "member_gone" },
+          { showId: "gone", role: "Sarge", performer: "SEAN" } // Show no longer in the schedule
+        ])}::jsonb)
+      `;
+      for (const statement of backfill) {
+        await tx.rawExec(statement);
+      }
+
+      expect(await loadScheduleContents(tx, scheduleId)).toEqual({
+        shows: [shows[1], shows[0]],
+        assignments: [
+          { showId: "tue", role: "Sarge", performer: "PHIL", performerId: "member_default_0" },
+          { showId: "wed", role: "OFF", performer: "PHIL", isRedDay: true, covers: ["Sarge"] },
+          { showId: "wed", role: "Sarge", performer: "GHOST" }
+        ]
+      });
+    } finally {
+      await tx.rollback();
+    }
+  });
+});
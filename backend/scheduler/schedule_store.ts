@@ -0,0 +1,156 @@
+import { APIError } from "encore.dev/api";
+import { SQLDatabase, Transaction } from "encore.dev/storage/sqldb";
+import { scheduleDB } from "./db";
+import { Show, Assignment, Role, DayStatus } from "./types";
+
+// Reads and writes the shows and assignments of schedules, which live in their own
+// tables keyed by schedule. Both come back in the order they were saved; assignment flags
+// that are false come back unset.
+
+export interface ScheduleContents {
+  shows: Show[];
+  assignments: Assignment[];
+}
+
+// Loads the shows and assignments of one schedule.
+export async function loadScheduleContents(db: SQLDatabase | Transaction, scheduleId: string): Promise<ScheduleContents> {
+  const showRows = await db.queryAll`
+    SELECT schedule_id, id, date, time, call_time, status
+    FROM shows
+    WHERE schedule_id = ${scheduleId}
+    ORDER BY position
+  `;
+  const assignmentRows = await db.queryAll`
+    SELECT schedule_id, show_id, role, performer, performer_id, is_red_day, is_locked, covers
+    FROM assignments
+    WHERE schedule_id = ${scheduleId}
+    ORDER BY position
+  `;
+
+  return {
+    shows: showRows.map(toShow),
+    assignments: assignmentRows.map(toAssignment)
+  };
+}
+
+// Loads the shows of every schedule, keyed by schedule ID, for listings that do not need the assignments.
+export async function loadAllScheduleShows(): Promise<Map<string, Show[]>> {
+  const shows = new Map<string, Show[]>();
+  const showRows = await scheduleDB.queryAll`
+    SELECT schedule_id, id, date, time, call_time, status
+    FROM shows
+    ORDER BY schedule_id, position
+  `;
+  for (const row of showRows) {
+    const scheduleShows = shows.get(row.schedule_id);
+    if (scheduleShows) {
+      scheduleShows.push(toShow(row));
+    } else {
+      shows.set(row.schedule_id, [toShow(row)]);
+    }
+  }
+  return shows;
+}
+
+// Replaces a schedule's shows and assignments. Pass the transaction that writes the
+// schedule row so a failed save leaves the old contents in place.
+export async function saveScheduleContents(
+  db: SQLDatabase | Transaction,
+  scheduleId: string,
+  shows: Show[],
+  assignments: Assignment[]
+): Promise<void> {
+  assertScheduleContents(shows, assignments);
+
+  // Assignments go with their shows
+  await db.exec`
+    DELETE FROM shows WHERE schedule_id = ${scheduleId}
+  `;
+
+  if (shows.length > 0) {
+    const showRecords = shows.map((show, position) => ({
+      id: show.id,
+      position,
+      date: show.date,
+      time: show.time,
+      call_time: show.callTime,
+      status: show.status
+    }));
+    await db.exec`
+      INSERT INTO shows (schedule_id, id, position, date, time, call_time, status)
+      SELECT ${scheduleId}, show.id, show.position, show.date, show.time, show.call_time, show.status
+      FROM jsonb_to_recordset(${JSON.stringify(showRecords)}::jsonb)
+        AS show(id TEXT, position INTEGER, date TEXT, time TEXT, call_time TEXT, status TEXT)
+    `;
+  }
+
+  if (assignments.length > 0) {
+    const assignmentRecords = assignments.map((assignment, position) => ({
+      show_id: assignment.showId,
+      position,
+      role: assignment.role,
+      performer: assignment.performer,
+      performer_id: assignment.performerId ?? null,
+      is_red_day: assignment.isRedDay ?? false,
+      is_locked: assignment.isLocked ?? false,
+      covers: assignment.covers ?? null
+    }));
+    // Member IDs that no longer exist are dropped; the stored name still identifies the performer
+    await db.exec`
+      INSERT INTO assignments (schedule_id, show_id, position, role, performer, performer_id, is_red_day, is_locked, covers)
+      SELECT ${scheduleId}, a.show_id, a.position, a.role, a.performer, m.id, a.is_red_day, a.is_locked, a.covers
+      FROM jsonb_to_recordset(${JSON.stringify(assignmentRecords)}::jsonb)
+        AS a(show_id TEXT, position INTEGER, role TEXT, performer TEXT, performer_id TEXT, is_red_day BOOLEAN, is_locked BOOLEAN, covers JSONB)
+      LEFT JOIN company_members m ON m.id = a.performer_id
+    `;
+  }
+}
+
+function assertScheduleContents(shows: Show[], assignments: Assignment[]): void {
+  const showIds = new Set<string>();
+  for (const show of shows) {
+    if (!show.id) {
+      throw APIError.invalidArgument("every show needs an id");
+    }
+    if (showIds.has(show.id)) {
+      throw APIError.invalidArgument(`show ${show.id} appears more than once`);
+    }
+    showIds.add(show.id);
+  }
+
+  const unknown = assignments.find(assignment => !showIds.has(assignment.showId));
+  if (unknown) {
+    throw APIError.invalidArgument(`assignment for ${unknown.performer || "an empty cell"} refers to show ${unknown.showId}, which is not in the schedule`);
+  }
+}
+
+function toShow(row: Record<string, any>): Show {
+  return {
+    id: row.id,
+    date: row.date,
+    time: row.time,
+    callTime: row.call_time,
+    status: row.status as DayStatus
+  };
+}
+
+function toAssignment(row: Record<string, any>): Assignment {
+  const assignment: Assignment = {
+    showId: row.show_id,
+    role: row.role as Role | "OFF",
+    performer: row.performer
+  };
+  if (row.performer_id) {
+    assignment.performerId = row.performer_id;
+  }
+  if (row.is_red_day) {
+    assignment.isRedDay = true;
+  }
+  if (row.is_locked) {
+    assignment.isLocked = true;
+  }
+  if (row.covers) {
+    assignment.covers = JSON.parse(row.covers) as Role[];
+  }
+  return assignment;
+}
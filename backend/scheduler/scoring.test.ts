@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { scoreSchedule } from './scoring';
+import { Show, CastMember } from './types';
+
+describe('Schedule Scoring', () => {
+  const weekShows: Show[] = [
+    { id: "tue", date: "2024-01-02", time: "21:00", callTime: "19:00", status: "show" },
+    { id: "wed", date: "2024-01-03", time: "21:00", callTime: "19:00", status: "show" },
+    { id: "thu", date: "2024-01-04", time: "21:00", callTime: "19:00", status: "show" },
+    { id: "fri", date: "2024-01-05", time: "21:00", callTime: "18:00", status: "show" },
+    { id: "sat_mat", date: "2024-01-06", time: "16:00", callTime: "14:00", status: "show" },
+    { id: "sat_eve", date: "2024-01-06", time: "21:00", callTime: "18:00", status: "show" },
+    { id: "sun_mat", date: "2024-01-07", time: "16:00", callTime: "14:30", status: "show" },
+    { id: "sun_eve", date: "2024-01-07", time: "19:00", callTime: "18:00", status: "show" }
+  ];
+  const sarges: CastMember[] = [
+    { name: "PHIL", eligibleRoles: ["Sarge"] },
+    { name: "SEAN", eligibleRoles: ["Sarge", "Potato"] }
+  ];
+
+  it('should rank an even spread of shows above a lopsided one', () => {
+    const shared = weekShows.map((show, index) => (
+      { showId: show.id, role: "Sarge" as const, performer: index % 2 === 0 ? "PHIL" : "SEAN", isRedDay: false }
+    ));
+    const lopsided = weekShows.map((show, index) => (
+      { showId: show.id, role: "Sarge" as const, performer: index < 7 ? "PHIL" : "SEAN", isRedDay: false }
+    ));
+
+    const even = scoreSchedule(weekShows, shared, sarges);
+    const uneven = scoreSchedule(weekShows, lopsided, sarges);
+    expect(even.workloadSpread).toBe(100);
+    expect(uneven.workloadSpread).toBeLessThan(even.workloadSpread);
+    expect(uneven.total).toBeLessThan(even.total);
+  });
+});
@@ -0,0 +1,68 @@
+import { Show, Assignment, CastMember } from "./types";
+import { getWeekKey } from "./solver";
+
+// Quality measures for a generated schedule, each from 0 (poor) to 100 (ideal).
+export interface ScheduleScore {
+  total: number;
+  workloadSpread: number; // Every performer does a similar number of shows
+  weekendLoad: number; // Friday to Sunday shows are shared evenly
+  roleVariety: number; // Performers rotate through the roles they know
+  redDayPlacement: number; // Every performer gets a RED day each week
+}
+
+export function scoreSchedule(shows: Show[], assignments: Assignment[], castMembers: CastMember[]): ScheduleScore {
+  const activeShows = shows.filter(show => show.status === "show");
+  const showsById = new Map(activeShows.map(show => [show.id, show]));
+  const stageAssignments = assignments.filter(a => a.role !== "OFF" && showsById.has(a.showId));
+
+  const workloadSpread = evenness(castMembers.map(member =>
+    stageAssignments.filter(a => a.performer === member.name).length
+  ));
+
+  const weekendLoad = evenness(castMembers.map(member =>
+    stageAssignments.filter(a => a.performer === member.name && isWeekendShow(showsById.get(a.showId)!)).length
+  ));
+
+  const varietyRatios: number[] = [];
+  for (const member of castMembers) {
+    const memberAssignments = stageAssignments.filter(a => a.performer === member.name);
+    const possibleRoles = Math.min(member.eligibleRoles.length, memberAssignments.length);
+    if (possibleRoles < 2) continue;
+    varietyRatios.push(new Set(memberAssignments.map(a => a.role)).size / possibleRoles);
+  }
+  const roleVariety = varietyRatios.length > 0
+    ? Math.round(100 * varietyRatios.reduce((sum, ratio) => sum + ratio, 0) / varietyRatios.length)
+    : 100;
+
+  const weeks = new Set(activeShows.map(show => getWeekKey(show.date)));
+  let weeksWithRedDay = 0;
+  for (const member of castMembers) {
+    const redWeeks = new Set(assignments
+      .filter(a => a.performer === member.name && a.isRedDay && showsById.has(a.showId))
+      .map(a => getWeekKey(showsById.get(a.showId)!.date)));
+    weeksWithRedDay += redWeeks.size;
+  }
+  const possibleRedWeeks = weeks.size * castMembers.length;
+  const redDayPlacement = possibleRedWeeks > 0 ? Math.round(100 * weeksWithRedDay / possibleRedWeeks) : 100;
+
+  return {
+    total: Math.round((workloadSpread + weekendLoad + roleVariety + redDayPlacement) / 4),
+    workloadSpread,
+    weekendLoad,
+    roleVariety,
+    redDayPlacement
+  };
+}
+
+// 100 when all values are equal, falling with the coefficient of variation
+function evenness(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / (values.length || 1);
+  if (mean === 0) return 100;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return Math.round(100 * Math.max(0, 1 - Math.sqrt(variance) / mean));
+}
+
+function isWeekendShow(show: Show): boolean {
+  const dayOfWeek = new Date(show.date + 'T12:00:00Z').getUTCDay();
+  return dayOfWeek >= 5 || dayOfWeek === 0;
+}
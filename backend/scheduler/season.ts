@@ -0,0 +1,221 @@
+import { api, APIError } from "encore.dev/api";
+import { scheduleDB } from "./db";
+import { Schedule, Show, Assignment, RoleHistory } from "./types";
+import { SchedulingAlgorithm, ScheduleTail } from "./algorithm";
+import { loadApprovedUnavailability } from "./availability";
+import { loadRulesForLocation } from "./rule_sets";
+import { loadRoleHistory } from "./role_history";
+import { ROLE_HISTORY_WEEKS, countRoleMix, mergeRoleHistory } from "./rotation";
+import { generateId } from "./create";
+import { recordVersion } from "./versions";
+import { loadScheduleContents, saveScheduleContents } from "./schedule_store";
+import { createSeed, isValidSeed } from "./random";
+import { isValidTimeBudget } from "./solver";
+import { requirePermission } from "./auth";
+import { emitWebhookEvent, scheduleEventData, sendQueuedWebhooks } from "./webhooks";
+
+// Days of the preceding schedule carried into generation; covers a full Monday-Sunday week
+const TAIL_DAYS = 7;
+
+export interface SeasonWeek {
+  week: string;
+  shows: Show[];
+}
+
+export interface GenerateSeasonRequest {
+  location: string;
+  weeks: SeasonWeek[];
+  previousScheduleId?: string; // Defaults to the latest saved schedule for the location before the first week
+  seed?: number; // Used for every week; a random seed is used when omitted
+  timeBudgetMs?: number; // Search time limit per week
+}
+
+export interface GenerateSeasonResponse {
+  seasonId: string;
+  schedules: Schedule[];
+  errors?: string[];
+  seed: number;
+}
+
+export interface PreviousSchedule {
+  scheduleId: string;
+  tail: ScheduleTail;
+}
+
+// Generates and saves consecutive weeks, carrying limits across each week boundary.
+export const generateSeason = api<GenerateSeasonRequest, GenerateSeasonResponse>(
+  { expose: true, auth: true, method: "POST", path: "/schedules/season" },
+  async (req) => {
+    requirePermission("schedules.edit");
+    if (!req.location.trim()) {
+      throw APIError.invalidArgument("location is required");
+    }
+    if (req.weeks.length === 0) {
+      throw APIError.invalidArgument("at least one week is required");
+    }
+    if (req.seed !== undefined && !isValidSeed(req.seed)) {
+      throw APIError.invalidArgument("seed must be a non-negative 32-bit integer");
+    }
+    if (req.timeBudgetMs !== undefined && !isValidTimeBudget(req.timeBudgetMs)) {
+      throw APIError.invalidArgument("timeBudgetMs must be between 100 and 60000");
+    }
+    validateWeekOrder(req.weeks);
+
+    const { getCastMembers } = await import("./cast_members");
+    const castData = await getCastMembers();
+    const unavailability = await loadApprovedUnavailability(req.weeks.flatMap(week => week.shows));
+    const rules = await loadRulesForLocation(req.location);
+    const previous = await loadPreviousSchedule(req.location, req.weeks[0].shows, req.previousScheduleId);
+    const savedHistory = await loadRoleHistory(req.location, req.weeks[0].shows);
+
+    // Each week is generated against the one before it, so nothing is saved until all succeed
+    const generated: Array<{ week: SeasonWeek; assignments: Assignment[] }> = [];
+    const errors: string[] = [];
+    let previousTail = previous?.tail;
+    const seed = req.seed ?? createSeed();
+    // Saved weeks drop out of the role window once enough new weeks have been generated
+    const generatedMixes: RoleHistory[] = [];
+
+    for (const week of req.weeks) {
+      const algorithm = new SchedulingAlgorithm(week.shows, castData.castMembers, {
+        unavailability,
+        roles: castData.roleCatalog,
+        rules,
+        previousTail,
+        roleHistory: mergeRoleHistory(
+          generatedMixes.length >= ROLE_HISTORY_WEEKS
+            ? generatedMixes.slice(-ROLE_HISTORY_WEEKS)
+            : [savedHistory, ...generatedMixes]
+        ),
+        seed,
+        timeBudgetMs: req.timeBudgetMs
+      });
+      const result = await algorithm.autoGenerate();
+
+      if (!result.success) {
+        throw APIError.failedPrecondition(`could not generate week ${week.week}: ${(result.errors ?? []).join("; ")}`);
+      }
+
+      errors.push(...(result.errors ?? []).map(error => `${week.week}: ${error}`));
+      generated.push({ week, assignments: result.assignments });
+      previousTail = { shows: week.shows, assignments: result.assignments };
+      generatedMixes.push(countRoleMix(week.shows, result.assignments));
+    }
+
+    const seasonId = `season_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const now = new Date();
+    const schedules: Schedule[] = [];
+    let previousScheduleId = previous?.scheduleId;
+    let queuedWebhooks = 0;
+
+    const tx = await scheduleDB.begin();
+    try {
+      for (const { week, assignments } of generated) {
+        const id = generateId();
+        await tx.exec`
+          INSERT INTO schedules (id, location, week, season_id, previous_schedule_id, generation_seed, created_at, updated_at)
+          VALUES (${id}, ${req.location}, ${week.week}, ${seasonId}, ${previousScheduleId ?? null}, ${seed}, ${now}, ${now})
+        `;
+        await saveScheduleContents(tx, id, week.shows, assignments);
+        await recordVersion(tx, id, { location: req.location, week: week.week, shows: week.shows, assignments, seed }, "season");
+        const schedule: Schedule = {
+          id,
+          location: req.location,
+          week: week.week,
+          shows: week.shows,
+          assignments,
+          seasonId,
+          previousScheduleId,
+          seed,
+          revision: 1,
+          status: "draft",
+          createdAt: now,
+          updatedAt: now
+        };
+        // Each week is a new schedule, so outside tools hear about it as they would a single create
+        queuedWebhooks += await emitWebhookEvent(tx, "schedule.created", { schedule: scheduleEventData(schedule), seasonId });
+        schedules.push(schedule);
+        previousScheduleId = id;
+      }
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+    if (queuedWebhooks > 0) {
+      sendQueuedWebhooks();
+    }
+
+    return {
+      seasonId,
+      schedules,
+      errors: errors.length > 0 ? errors : undefined,
+      seed
+    };
+  }
+);
+
+// Loads the end of the schedule that precedes the given shows: either the one named,
+// or the latest saved schedule for the location that finishes before they start.
+export async function loadPreviousSchedule(location: string, shows: Show[], previousScheduleId?: string): Promise<PreviousSchedule | null> {
+  const firstDate = shows.map(show => show.date).sort()[0];
+  if (!firstDate) {
+    return null;
+  }
+
+  const row = previousScheduleId
+    ? await scheduleDB.queryRow`
+        SELECT id
+        FROM schedules
+        WHERE id = ${previousScheduleId}
+      `
+    : await scheduleDB.queryRow`
+        SELECT s.id, MAX(show.date) AS last_date
+        FROM schedules s
+        JOIN shows show ON show.schedule_id = s.id
+        WHERE s.location = ${location}
+        GROUP BY s.id
+        HAVING MAX(show.date) < ${firstDate}
+        ORDER BY last_date DESC
+        LIMIT 1
+      `;
+
+  if (!row) {
+    if (previousScheduleId) {
+      throw APIError.notFound("previous schedule not found");
+    }
+    return null;
+  }
+
+  const cutoff = new Date(firstDate + "T12:00:00Z");
+  cutoff.setUTCDate(cutoff.getUTCDate() - TAIL_DAYS);
+  const cutoffDate = cutoff.toISOString().split("T")[0];
+
+  const contents = await loadScheduleContents(scheduleDB, row.id);
+  const tailShows = contents.shows
+    .filter(show => show.date >= cutoffDate && show.date < firstDate);
+  const tailShowIds = new Set(tailShows.map(show => show.id));
+
+  return {
+    scheduleId: row.id,
+    tail: {
+      shows: tailShows,
+      assignments: contents.assignments
+        .filter(assignment => tailShowIds.has(assignment.showId))
+    }
+  };
+}
+
+function validateWeekOrder(weeks: SeasonWeek[]): void {
+  let previousLastDate = "";
+  for (const week of weeks) {
+    const dates = week.shows.map(show => show.date).sort();
+    if (dates.length === 0) {
+      throw APIError.invalidArgument(`week ${week.week} has no shows`);
+    }
+    if (dates[0] <= previousLastDate) {
+      throw APIError.invalidArgument("weeks must be in chronological order and must not overlap");
+    }
+    previousLastDate = dates[dates.length - 1];
+  }
+}
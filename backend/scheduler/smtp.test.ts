@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { createServer, AddressInfo } from 'node:net';
+import { sendMail } from './smtp';
+
+describe('SMTP Delivery', () => {
+  it('should deliver mail to an SMTP server', async () => {
+    const commands: string[] = [];
+    const messages: string[] = [];
+    // A bare-bones catcher that accepts whatever it is sent
+    const server = createServer(socket => {
+      let buffer = "";
+      let data: string | undefined;
+      socket.write("220 catcher ready\r\n");
+      socket.on("data", chunk => {
+        buffer += chunk.toString();
+        let end: number;
+        while ((end = buffer.indexOf("\r\n")) !== -1) {
+          const line = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          if (data !== undefined) {
+            if (line === ".") {
+              messages.push(data);
+              data = undefined;
+              socket.write("250 queued\r\n");
+            } else {
+              data += `${line}\r\n`;
+            }
+          } else if (line === "DATA") {
+            data = "";
+            socket.write("354 go ahead\r\n");
+          } else if (line === "QUIT") {
+            socket.end("221 bye\r\n");
+          } else {
+            commands.push(line);
+            socket.write(line.startsWith("EHLO") ? "250-catcher\r\n250 8BITMIME\r\n" : "250 ok\r\n");
+          }
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+    try {
+      await sendMail(
+        { host: "127.0.0.1", port: (server.address() as AddressInfo).port, from: "scheduler@stomp.test" },
+        { to: "joe@stomp.test", subject: "Schedule change: London, week 1", text: "Sat 16:00: Ringo → OFF" }
+      );
+    } finally {
+      server.close();
+    }
+
+    expect(commands.slice(1)).toEqual(["MAIL FROM:<scheduler@stomp.test>", "RCPT TO:<joe@stomp.test>"]);
+    const [headers, body] = messages[0].split("\r\n\r\n");
+    expect(headers).toContain("Subject: Schedule change: London, week 1");
+    expect(Buffer.from(body, "base64").toString()).toBe("Sat 16:00: Ringo → OFF");
+  });
+});
@@ -0,0 +1,186 @@
+import { Socket, connect } from "node:net";
+import { connect as connectTls } from "node:tls";
+import { hostname } from "node:os";
+
+// A small SMTP client for plain-text mail: EHLO, STARTTLS when the server offers it,
+// AUTH PLAIN when credentials are configured, then one message per connection.
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure?: boolean; // TLS from the first byte (usually port 465); otherwise STARTTLS is used when offered
+  username?: string;
+  password?: string;
+  from: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+const TIMEOUT_MS = 15_000;
+
+// Reads the SMTP settings from the environment; undefined when no SMTP_HOST is set
+export function smtpConfigFromEnv(env: NodeJS.ProcessEnv = process.env): SmtpConfig | undefined {
+  if (!env.SMTP_HOST) {
+    return undefined;
+  }
+  const secure = env.SMTP_SECURE === "true";
+  return {
+    host: env.SMTP_HOST,
+    port: Number(env.SMTP_PORT) || (secure ? 465 : 25),
+    secure,
+    username: env.SMTP_USER || undefined,
+    password: env.SMTP_PASSWORD || undefined,
+    from: env.SMTP_FROM || `scheduler@${env.SMTP_HOST}`
+  };
+}
+
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  let socket: Socket = config.secure
+    ? connectTls({ host: config.host, port: config.port, servername: config.host })
+    : connect({ host: config.host, port: config.port });
+  let replies = new ReplyReader(socket);
+
+  try {
+    await replies.expect(220);
+    let features = await command(socket, replies, `EHLO ${hostname() || "localhost"}`, 250);
+
+    if (!config.secure && /^STARTTLS$/im.test(features)) {
+      await command(socket, replies, "STARTTLS", 220);
+      replies.detach();
+      socket = connectTls({ socket, servername: config.host });
+      replies = new ReplyReader(socket);
+      features = await command(socket, replies, `EHLO ${hostname() || "localhost"}`, 250);
+    }
+
+    if (config.username) {
+      const credentials = Buffer.from(`\0${config.username}\0${config.password ?? ""}`).toString("base64");
+      await command(socket, replies, `AUTH PLAIN ${credentials}`, 235);
+    }
+
+    await command(socket, replies, `MAIL FROM:<${config.from}>`, 250);
+    await command(socket, replies, `RCPT TO:<${message.to}>`, 250);
+    await command(socket, replies, "DATA", 354);
+    await command(socket, replies, `${formatMessage(config.from, message)}\r\n.`, 250);
+    socket.write("QUIT\r\n");
+  } finally {
+    replies.detach();
+    // Whatever the server does after this cannot change the outcome
+    socket.on("error", () => undefined);
+    socket.end();
+  }
+}
+
+// Headers plus a base64 body, with CRLF line endings, ready to send after DATA
+export function formatMessage(from: string, message: MailMessage, date: Date = new Date()): string {
+  const domain = from.split("@")[1] || "localhost";
+  const body = Buffer.from(message.text.replace(/\r?\n/g, "\r\n")).toString("base64").match(/.{1,76}/g) ?? [];
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${date.getTime()}.${Math.random().toString(36).substr(2, 9)}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    ...body
+  ].join("\r\n");
+}
+
+// Non-ASCII header text goes out as an RFC 2047 encoded word
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+async function command(socket: Socket, replies: ReplyReader, line: string, expected: number): Promise<string> {
+  socket.write(`${line}\r\n`);
+  return replies.expect(expected);
+}
+
+// Collects server replies, which may span several "250-" lines before the final "250 " one
+class ReplyReader {
+  private buffer = "";
+  private lines: string[] = [];
+  private waiting?: { resolve: (reply: string) => void; reject: (error: Error) => void };
+  private failure?: Error;
+
+  constructor(private readonly socket: Socket) {
+    socket.setTimeout(TIMEOUT_MS);
+    socket.on("data", this.onData);
+    socket.on("error", this.onError);
+    socket.on("timeout", this.onTimeout);
+    socket.on("close", this.onClose);
+  }
+
+  detach(): void {
+    this.socket.off("data", this.onData);
+    this.socket.off("error", this.onError);
+    this.socket.off("timeout", this.onTimeout);
+    this.socket.off("close", this.onClose);
+  }
+
+  async expect(code: number): Promise<string> {
+    const reply = await this.next();
+    if (!reply.startsWith(String(code))) {
+      throw new Error(`SMTP server replied: ${reply.trim()}`);
+    }
+    return reply.replace(/^\d{3}[ -]/gm, "");
+  }
+
+  private next(): Promise<string> {
+    const reply = this.takeReply();
+    if (reply !== undefined) {
+      return Promise.resolve(reply);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private takeReply(): string | undefined {
+    const end = this.lines.findIndex(line => /^\d{3}( |$)/.test(line));
+    if (end === -1) {
+      return undefined;
+    }
+    return this.lines.splice(0, end + 1).join("\n");
+  }
+
+  private onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString("utf8");
+    const parts = this.buffer.split("\r\n");
+    this.buffer = parts.pop()!;
+    this.lines.push(...parts);
+
+    const reply = this.waiting && this.takeReply();
+    if (reply !== undefined) {
+      const { resolve } = this.waiting!;
+      this.waiting = undefined;
+      resolve(reply);
+    }
+  };
+
+  private fail(error: Error): void {
+    this.failure = this.failure ?? error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = undefined;
+      reject(this.failure);
+    }
+  }
+
+  private onError = (error: Error) => this.fail(error);
+  private onTimeout = () => {
+    this.fail(new Error("SMTP server timed out"));
+    this.socket.destroy();
+  };
+  private onClose = () => this.fail(new Error("SMTP connection closed"));
+}
@@ -0,0 +1,524 @@
+import { Show, RoleHistory, RolePreferences, ROLE_PREFERENCES } from "./types";
+
+// Backtracking search over show × role variables.
+//
+// Each variable's domain is the set of performers who could still take the slot.
+// After every assignment the domains of the remaining variables are pruned
+// (forward checking), the variable with the smallest domain is filled next, and
+// on failure the search jumps straight back to the most recent assignment that
+// caused it (conflict-directed backjumping). The search is complete, so when it
+// runs out of options the problem has no solution under the given limits.
+
+export type SolverStatus = "solved" | "infeasible" | "timeout";
+
+export const DEFAULT_TIME_BUDGET_MS = 5000;
+export const MAX_TIME_BUDGET_MS = 60000;
+
+export function isValidTimeBudget(timeBudgetMs: number): boolean {
+  return Number.isFinite(timeBudgetMs) && timeBudgetMs >= 100 && timeBudgetMs <= MAX_TIME_BUDGET_MS;
+}
+
+export interface SolverRole {
+  name: string;
+  required: boolean;
+}
+
+export interface SolverPerformer {
+  name: string;
+  eligibleRoles: string[];
+  rolePreferences?: RolePreferences; // Preferred roles are tried first
+}
+
+export interface FixedAssignment {
+  showId: string;
+  role: string;
+  performer: string;
+}
+
+export interface SolverLimits {
+  // A limit left undefined is not enforced
+  maxConsecutiveShows?: number;
+  maxShowsPerWeek?: number;
+  maxWeekendShows?: number;
+  consecutiveGapDays: number;
+}
+
+export interface SolverProblem {
+  // Active shows, including earlier ones that only provide context
+  shows: Show[];
+  // Shows whose open slots should be filled
+  schedulableShowIds: Set<string>;
+  fixed: FixedAssignment[];
+  roles: SolverRole[];
+  performers: SolverPerformer[];
+  limits: SolverLimits;
+  isUnavailable: (performer: string, showId: string) => boolean;
+  random: () => number;
+  roleHistory?: RoleHistory; // Roles played in recent weeks; performers are steered towards the ones they have played least
+  // Leave required slots empty instead of failing; used for best-effort schedules
+  allowUnfilled?: boolean;
+}
+
+export interface SolverResult {
+  status: SolverStatus;
+  // Complete when solved, otherwise the fullest legal partial schedule found
+  assignments: Map<string, Record<string, string>>;
+  unfilled: Array<{ showId: string; role: string }>;
+  nodes: number;
+}
+
+// Monday of the week containing the date, as YYYY-MM-DD
+export function getWeekKey(date: string): string {
+  const day = new Date(date + 'T12:00:00Z');
+  const dayOfWeek = day.getUTCDay();
+  day.setUTCDate(day.getUTCDate() + (dayOfWeek === 0 ? -6 : 1 - dayOfWeek));
+  return day.toISOString().split('T')[0];
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const UNASSIGNED = -2;
+const EMPTY = -1;
+
+class SearchTimeout extends Error {}
+
+export class ConstraintSolver {
+  private problem: SolverProblem;
+  private shows: Show[];
+  private showTimes: number[];
+  private weekOf: number[];
+  private weekendOf: number[];
+  private weekCount: number;
+  private performerCount: number;
+
+  // Variables
+  private varShow: number[] = [];
+  private varRole: number[] = [];
+  private varRequired: boolean[] = [];
+  private varInitial: number[][] = [];
+  private roleRank: number[];
+  private preferenceRank: Uint8Array; // role × performer, 0 for primary
+  private eligibleRoleCount: number[];
+  private jitter: number[];
+
+  // Search state
+  private alive!: Uint8Array;
+  private domainSize!: Int32Array;
+  private value!: Int32Array;
+  private depthOf!: Int32Array;
+  private trail: number[] = [];
+  private performerShows: number[][];
+  private showHasPerformer: Uint8Array;
+  private weeklyShows: Int32Array;
+  private weekendShows: Int32Array;
+  private load: Int32Array;
+  private roleUse: Int32Array; // role × performer: recent weeks plus this search
+  private roleTotal: Int32Array;
+  private varsOfPerformer: number[][];
+  private assignedCount = 0;
+
+  private bestValues!: Int32Array;
+  private bestCount = -1;
+  private deadline = 0;
+  private nodes = 0;
+
+  constructor(problem: SolverProblem) {
+    this.problem = problem;
+    this.shows = [...problem.shows].sort((a, b) => this.timeOf(a) - this.timeOf(b));
+    this.showTimes = this.shows.map(show => this.timeOf(show));
+    this.performerCount = problem.performers.length;
+
+    const weekKeys = new Map<string, number>();
+    this.weekOf = this.shows.map(show => {
+      const key = getWeekKey(show.date);
+      if (!weekKeys.has(key)) weekKeys.set(key, weekKeys.size);
+      return weekKeys.get(key)!;
+    });
+    this.weekendOf = this.shows.map((show, index) => {
+      const dayOfWeek = new Date(show.date + 'T12:00:00Z').getUTCDay();
+      return dayOfWeek >= 5 || dayOfWeek === 0 ? this.weekOf[index] : -1;
+    });
+    this.weekCount = weekKeys.size;
+
+    const P = this.performerCount;
+    this.performerShows = problem.performers.map(() => []);
+    this.varsOfPerformer = problem.performers.map(() => []);
+    this.showHasPerformer = new Uint8Array(this.shows.length * P);
+    this.weeklyShows = new Int32Array(P * this.weekCount);
+    this.weekendShows = new Int32Array(P * this.weekCount);
+    this.load = new Int32Array(P);
+    this.jitter = problem.performers.map(() => problem.random());
+
+    // Roles with fewer eligible performers are tried first among equally constrained slots
+    const eligibleCounts = problem.roles.map(role =>
+      problem.performers.filter(performer => performer.eligibleRoles.includes(role.name)).length
+    );
+    const roleJitter = problem.roles.map(() => problem.random());
+    const roleOrder = problem.roles
+      .map((_, index) => index)
+      .sort((a, b) => eligibleCounts[a] - eligibleCounts[b] || roleJitter[a] - roleJitter[b]);
+    this.roleRank = new Array(problem.roles.length);
+    roleOrder.forEach((roleIndex, rank) => { this.roleRank[roleIndex] = rank; });
+
+    this.preferenceRank = new Uint8Array(problem.roles.length * P);
+    problem.roles.forEach((role, r) => {
+      problem.performers.forEach((performer, p) => {
+        this.preferenceRank[r * P + p] = ROLE_PREFERENCES.indexOf(performer.rolePreferences?.[role.name] ?? "primary");
+      });
+    });
+
+    this.eligibleRoleCount = problem.performers.map(performer =>
+      problem.roles.filter(role => performer.eligibleRoles.includes(role.name)).length
+    );
+    this.roleUse = new Int32Array(problem.roles.length * P);
+    this.roleTotal = new Int32Array(P);
+    problem.roles.forEach((role, r) => {
+      problem.performers.forEach((performer, p) => {
+        const count = problem.roleHistory?.[performer.name]?.[role.name] ?? 0;
+        this.roleUse[r * P + p] = count;
+        this.roleTotal[p] += count;
+      });
+    });
+
+    this.placeFixedAssignments();
+    this.buildVariables();
+  }
+
+  public solve(timeBudgetMs: number = DEFAULT_TIME_BUDGET_MS): SolverResult {
+    this.deadline = Date.now() + timeBudgetMs;
+    let status: SolverStatus;
+
+    try {
+      const result = this.search(0);
+      if (result === true) {
+        this.bestValues = this.value.slice();
+        status = this.varInitial.some((domain, v) => domain.length === 0 && this.varRequired[v]) ? "infeasible" : "solved";
+      } else {
+        status = "infeasible";
+      }
+    } catch (error) {
+      if (!(error instanceof SearchTimeout)) throw error;
+      status = "timeout";
+    }
+
+    const searched = this.buildResult(status);
+    if (status === "solved" || this.problem.allowUnfilled) {
+      return searched;
+    }
+
+    // The deepest point of a failed search can be far from the fullest legal schedule;
+    // the re-solve only gets what is left of the budget
+    const remainingMs = Math.max(0, this.deadline - Date.now());
+    const bestEffort = new ConstraintSolver({ ...this.problem, allowUnfilled: true }).solve(remainingMs);
+    return bestEffort.unfilled.length < searched.unfilled.length
+      ? { ...bestEffort, status, nodes: searched.nodes + bestEffort.nodes }
+      : searched;
+  }
+
+  private timeOf(show: Show): number {
+    return new Date(`${show.date}T${show.time}`).getTime();
+  }
+
+  private placeFixedAssignments(): void {
+    const showIndex = new Map(this.shows.map((show, index) => [show.id, index]));
+    const performerIndex = new Map(this.problem.performers.map((performer, index) => [performer.name, index]));
+
+    for (const assignment of this.problem.fixed) {
+      const s = showIndex.get(assignment.showId);
+      const p = performerIndex.get(assignment.performer);
+      if (s === undefined || p === undefined || this.showHasPerformer[s * this.performerCount + p]) continue;
+      this.placePerformer(p, s, false);
+    }
+  }
+
+  private buildVariables(): void {
+    const fixedSlots = new Set(this.problem.fixed.map(assignment => `${assignment.showId}|${assignment.role}`));
+
+    this.shows.forEach((show, s) => {
+      if (!this.problem.schedulableShowIds.has(show.id)) return;
+
+      this.problem.roles.forEach((role, r) => {
+        if (fixedSlots.has(`${show.id}|${role.name}`)) return;
+
+        const domain: number[] = [];
+        this.problem.performers.forEach((performer, p) => {
+          if (!performer.eligibleRoles.includes(role.name)) return;
+          if (this.problem.isUnavailable(performer.name, show.id)) return;
+          if (!this.canTake(p, s)) return;
+          domain.push(p);
+        });
+
+        // Optional roles nobody can cover are left empty rather than searched
+        if (domain.length === 0 && !role.required) return;
+
+        this.varShow.push(s);
+        this.varRole.push(r);
+        this.varRequired.push(role.required);
+        this.varInitial.push(domain);
+      });
+    });
+
+    const V = this.varShow.length;
+    const P = this.performerCount;
+    this.alive = new Uint8Array(V * P);
+    this.domainSize = new Int32Array(V);
+    this.value = new Int32Array(V).fill(UNASSIGNED);
+    this.depthOf = new Int32Array(V).fill(-1);
+    this.bestValues = this.value.slice();
+
+    this.varInitial.forEach((domain, v) => {
+      domain.forEach(p => { this.alive[v * P + p] = 1; });
+      // Required slots nobody can cover are reported as unfilled; the rest is still searched
+      this.domainSize[v] = domain.length;
+      if (domain.length === 0) {
+        this.value[v] = EMPTY;
+      }
+    });
+  }
+
+  private search(depth: number): true | Set<number> {
+    this.nodes++;
+    if (Date.now() > this.deadline) {
+      throw new SearchTimeout();
+    }
+    this.recordProgress();
+
+    const v = this.selectVariable();
+    if (v === -1) return true;
+
+    const conflict = new Set<number>();
+
+    for (const p of this.orderValues(v)) {
+      const mark = this.trail.length;
+      this.assign(v, p, depth);
+
+      const wiped = this.forwardCheck(p);
+      if (wiped !== -1) {
+        this.explainDomain(wiped, conflict);
+      } else {
+        const result = this.search(depth + 1);
+        if (result === true) return true;
+        if (!result.has(depth)) {
+          // This slot played no part in the failure below; keep jumping back
+          this.unassign(v, p, mark);
+          return result;
+        }
+        result.forEach(culprit => conflict.add(culprit));
+      }
+
+      this.unassign(v, p, mark);
+    }
+
+    if (!this.varRequired[v] || this.problem.allowUnfilled) {
+      // Leaving a slot empty constrains nothing, so any failure below is independent of it
+      this.value[v] = EMPTY;
+      const result = this.search(depth + 1);
+      if (result === true) return true;
+      this.value[v] = UNASSIGNED;
+      return result;
+    }
+
+    this.explainDomain(v, conflict);
+    conflict.delete(depth);
+    return conflict;
+  }
+
+  // Required slots first, then the fewest remaining candidates
+  private selectVariable(): number {
+    let best = -1;
+    for (let v = 0; v < this.varShow.length; v++) {
+      if (this.value[v] !== UNASSIGNED) continue;
+      if (best === -1 || this.isMoreConstrained(v, best)) {
+        best = v;
+      }
+    }
+    return best;
+  }
+
+  private isMoreConstrained(a: number, b: number): boolean {
+    if (this.varRequired[a] !== this.varRequired[b]) return this.varRequired[a];
+    if (this.domainSize[a] !== this.domainSize[b]) return this.domainSize[a] < this.domainSize[b];
+    const roleA = this.roleRank[this.varRole[a]];
+    const roleB = this.roleRank[this.varRole[b]];
+    if (roleA !== roleB) return roleA < roleB;
+    return this.varShow[a] < this.varShow[b];
+  }
+
+  // Extra load charged per unit of role overuse when ordering performers for a slot
+  private static readonly ROLE_VARIETY_WEIGHT = 2;
+
+  // Performers who rank the role highest first, then the least loaded to spread the work,
+  // counting a role the performer has played more than their fair share of as extra load
+  private orderValues(v: number): number[] {
+    const P = this.performerCount;
+    const preferences = this.varRole[v] * P;
+    const cost = new Float64Array(P);
+    const candidates = this.varInitial[v].filter(p => this.alive[v * P + p] === 1);
+    for (const p of candidates) {
+      cost[p] = this.load[p] + ConstraintSolver.ROLE_VARIETY_WEIGHT * this.roleOveruse(this.varRole[v], p);
+    }
+    return candidates.sort((a, b) =>
+      this.preferenceRank[preferences + a] - this.preferenceRank[preferences + b] ||
+      cost[a] - cost[b] ||
+      this.jitter[a] - this.jitter[b]
+    );
+  }
+
+  // Share of the performer's recent shows spent in the role beyond an even split across their roles
+  private roleOveruse(r: number, p: number): number {
+    if (this.roleTotal[p] === 0 || this.eligibleRoleCount[p] < 2) return 0;
+    return Math.max(0, this.roleUse[r * this.performerCount + p] / this.roleTotal[p] - 1 / this.eligibleRoleCount[p]);
+  }
+
+  // Removes the performer from slots they can no longer take; returns a required slot left empty, or -1
+  private forwardCheck(p: number): number {
+    const P = this.performerCount;
+    for (let u = 0; u < this.varShow.length; u++) {
+      if (this.value[u] !== UNASSIGNED || this.alive[u * P + p] === 0) continue;
+      if (this.canTake(p, this.varShow[u])) continue;
+
+      this.alive[u * P + p] = 0;
+      this.domainSize[u]--;
+      this.trail.push(u * P + p);
+      if (this.domainSize[u] === 0 && this.varRequired[u] && !this.problem.allowUnfilled) {
+        return u;
+      }
+    }
+    return -1;
+  }
+
+  // Adds the search depths of every assignment that pruned a candidate from the slot
+  private explainDomain(v: number, conflict: Set<number>): void {
+    const P = this.performerCount;
+    for (const p of this.varInitial[v]) {
+      if (this.alive[v * P + p] === 1) continue;
+      for (const other of this.varsOfPerformer[p]) {
+        conflict.add(this.depthOf[other]);
+      }
+    }
+  }
+
+  private assign(v: number, p: number, depth: number): void {
+    this.value[v] = p;
+    this.depthOf[v] = depth;
+    this.varsOfPerformer[p].push(v);
+    this.placePerformer(p, this.varShow[v], true);
+    this.roleUse[this.varRole[v] * this.performerCount + p]++;
+    this.roleTotal[p]++;
+    this.assignedCount++;
+  }
+
+  private unassign(v: number, p: number, mark: number): void {
+    const P = this.performerCount;
+    while (this.trail.length > mark) {
+      const entry = this.trail.pop()!;
+      this.alive[entry] = 1;
+      this.domainSize[Math.floor(entry / P)]++;
+    }
+    this.removePerformer(p, this.varShow[v]);
+    this.roleUse[this.varRole[v] * this.performerCount + p]--;
+    this.roleTotal[p]--;
+    this.varsOfPerformer[p].pop();
+    this.value[v] = UNASSIGNED;
+    this.depthOf[v] = -1;
+    this.assignedCount--;
+  }
+
+  private placePerformer(p: number, s: number, counted: boolean): void {
+    const shows = this.performerShows[p];
+    let position = 0;
+    while (position < shows.length && shows[position] < s) position++;
+    shows.splice(position, 0, s);
+
+    this.showHasPerformer[s * this.performerCount + p] = 1;
+    this.weeklyShows[p * this.weekCount + this.weekOf[s]]++;
+    if (this.weekendOf[s] >= 0) {
+      this.weekendShows[p * this.weekCount + this.weekendOf[s]]++;
+    }
+    if (counted) {
+      this.load[p]++;
+    }
+  }
+
+  private removePerformer(p: number, s: number): void {
+    const shows = this.performerShows[p];
+    shows.splice(shows.indexOf(s), 1);
+
+    this.showHasPerformer[s * this.performerCount + p] = 0;
+    this.weeklyShows[p * this.weekCount + this.weekOf[s]]--;
+    if (this.weekendOf[s] >= 0) {
+      this.weekendShows[p * this.weekCount + this.weekendOf[s]]--;
+    }
+    this.load[p]--;
+  }
+
+  private canTake(p: number, s: number): boolean {
+    const { maxConsecutiveShows, maxShowsPerWeek, maxWeekendShows } = this.problem.limits;
+
+    if (this.showHasPerformer[s * this.performerCount + p]) {
+      return false;
+    }
+    if (maxShowsPerWeek !== undefined && this.weeklyShows[p * this.weekCount + this.weekOf[s]] >= maxShowsPerWeek) {
+      return false;
+    }
+    if (maxWeekendShows !== undefined && this.weekendOf[s] >= 0 &&
+        this.weekendShows[p * this.weekCount + this.weekendOf[s]] >= maxWeekendShows) {
+      return false;
+    }
+    if (maxConsecutiveShows !== undefined && this.runLengthWith(p, s) > maxConsecutiveShows) {
+      return false;
+    }
+    return true;
+  }
+
+  // Length of the run of consecutive shows the performer would have if they also did show s
+  private runLengthWith(p: number, s: number): number {
+    const shows = this.performerShows[p];
+    let position = 0;
+    while (position < shows.length && shows[position] < s) position++;
+
+    let length = 1;
+    let next = s;
+    for (let i = position - 1; i >= 0 && this.isConsecutive(shows[i], next); i--) {
+      length++;
+      next = shows[i];
+    }
+    let previous = s;
+    for (let i = position; i < shows.length && this.isConsecutive(previous, shows[i]); i++) {
+      length++;
+      previous = shows[i];
+    }
+    return length;
+  }
+
+  private isConsecutive(earlier: number, later: number): boolean {
+    const daysDiff = Math.floor((this.showTimes[later] - this.showTimes[earlier]) / DAY_MS);
+    return daysDiff <= this.problem.limits.consecutiveGapDays;
+  }
+
+  private recordProgress(): void {
+    if (this.assignedCount > this.bestCount) {
+      this.bestCount = this.assignedCount;
+      this.bestValues = this.value.slice();
+    }
+  }
+
+  private buildResult(status: SolverStatus): SolverResult {
+    const assignments = new Map<string, Record<string, string>>();
+    const unfilled: Array<{ showId: string; role: string }> = [];
+
+    for (let v = 0; v < this.varShow.length; v++) {
+      const show = this.shows[this.varShow[v]];
+      const role = this.problem.roles[this.varRole[v]].name;
+      const p = this.bestValues[v];
+
+      if (p >= 0) {
+        if (!assignments.has(show.id)) assignments.set(show.id, {});
+        assignments.get(show.id)![role] = this.problem.performers[p].name;
+      } else if (this.varRequired[v]) {
+        unfilled.push({ showId: show.id, role });
+      }
+    }
+
+    return { status, assignments, unfilled, nodes: this.nodes };
+  }
+}
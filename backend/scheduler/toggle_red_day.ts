@@ -1,24 +1,40 @@
 import { api, APIError } from "encore.dev/api";
 import { scheduleDB } from "./db";
 import { Assignment, Show } from "./types";
+import { loadCompanyMembers } from "./company";
+import { attachPerformerIds, resolvePerformerNames } from "./performers";
+import { assertCurrentRevision, loadRevisionConflict, recordVersion } from "./versions";
+import { toSchedule } from "./get";
+import { loadScheduleContents, saveScheduleContents } from "./schedule_store";
+import { assertEditable } from "./schedule_status";
+import { requirePermission } from "./auth";
+import { queueChangeNotifications, sendQueuedNotifications } from "./notifications";
+import { emitWebhookEvent, scheduleEventData, sendQueuedWebhooks } from "./webhooks";
+import { loadRulesForLocation } from "./rule_sets";
+import { getWeekKey } from "./solver";
 
 export interface ToggleRedDayRequest {
   id: string; // scheduleId
   performer: string;
+  performerId?: string; // Preferred over the name when present
   date: string;
+  revision?: number; // Revision the client loaded; stale toggles are rejected as a conflict
+  changeReason?: string; // Required once the schedule is published
 }
 
 export interface ToggleRedDayResponse {
   assignments: Assignment[];
+  revision: number;
 }
 
 // Toggles the RED day status for a performer for an entire date.
 export const toggleRedDay = api<ToggleRedDayRequest, ToggleRedDayResponse>(
-  { expose: true, method: "PUT", path: "/schedules/:id/toggle-red-day" },
+  { expose: true, auth: true, method: "PUT", path: "/schedules/:id/toggle-red-day" },
   async (req) => {
+    requirePermission("schedules.edit");
     // First, get the existing schedule
     const existingRow = await scheduleDB.queryRow`
-      SELECT id, assignments_data, shows_data, updated_at
+      SELECT id, location, week, season_id, previous_schedule_id, generation_seed, revision, status, published_at, created_at, updated_at
       FROM schedules 
       WHERE id = ${req.id}
     `;
@@ -27,8 +43,19 @@ export const toggleRedDay = api<ToggleRedDayRequest, ToggleRedDayResponse>(
       throw APIError.notFound("schedule not found");
     }
 
-    const assignments: Assignment[] = JSON.parse(existingRow.assignments_data);
-    const shows: Show[] = JSON.parse(existingRow.shows_data);
+    const contents = await loadScheduleContents(scheduleDB, req.id);
+    const members = await loadCompanyMembers();
+    assertCurrentRevision(req.revision, toSchedule(existingRow, contents, members));
+    assertEditable(existingRow.status, contents.shows, req.changeReason);
+
+    const assignments: Assignment[] = resolvePerformerNames(
+      attachPerformerIds(contents.assignments, members),
+      members
+    );
+    const shows: Show[] = contents.shows;
+
+    // Names are resolved from member IDs above, so matching on the current name is stable
+    const performer = (req.performerId && members.find(m => m.id === req.performerId)?.name) || req.performer;
     
     // 1. Check if performer is OFF for all shows on the given date.
     const showsOnDate = shows.filter(s => s.date === req.date && s.status === 'show');
@@ -37,55 +64,98 @@ export const toggleRedDay = api<ToggleRedDayRequest, ToggleRedDayResponse>(
     }
 
     const assignmentsOnDate = assignments.filter(a => 
-        a.performer === req.performer && showsOnDate.some(s => s.id === a.showId)
+        a.performer === performer && showsOnDate.some(s => s.id === a.showId)
     );
 
     // If the performer has any stage roles on this date, they can't have a RED day.
     if (assignmentsOnDate.some(a => a.role !== 'OFF')) {
-        throw APIError.failedPrecondition(`${req.performer} is not OFF for all shows on ${req.date}.`);
+        throw APIError.failedPrecondition(`${performer} is not OFF for all shows on ${req.date}.`);
     }
 
-    // 2. Find current RED day for the performer, if any.
-    let currentRedDate: string | null = null;
+    // 2. Collect the performer's current RED days by date.
+    const redDates = new Set<string>();
     for (const a of assignments) {
-        if (a.performer === req.performer && a.isRedDay) {
+        if (a.performer === performer && a.isRedDay) {
             const show = shows.find(s => s.id === a.showId);
             if (show) {
-                currentRedDate = show.date;
-                break;
+                redDates.add(show.date);
             }
         }
     }
 
-    // 3. Clear the old RED day flags
-    if (currentRedDate) {
-        assignments.forEach(a => {
-            const show = shows.find(s => s.id === a.showId);
-            if (a.performer === req.performer && show && show.date === currentRedDate) {
-                a.isRedDay = false;
-            }
-        });
+    // 3. Toggle off an existing RED day; otherwise only move one out of the same week
+    // when adding this date would exceed the location's RED days per week.
+    const clearDates = new Set<string>();
+    const isRedDay = !redDates.has(req.date);
+    if (!isRedDay) {
+        clearDates.add(req.date);
+    } else {
+        const rules = await loadRulesForLocation(existingRow.location);
+        const weekKey = getWeekKey(req.date);
+        const sameWeek = [...redDates].filter(date => getWeekKey(date) === weekKey).sort();
+        const excess = sameWeek.length + 1 - rules.redDaysPerWeek.value;
+        sameWeek.slice(0, Math.max(0, excess)).forEach(date => clearDates.add(date));
     }
 
-    // 4. Set new RED day flags, or unset if toggling off
-    if (currentRedDate !== req.date) {
-        assignments.forEach(a => {
-            const show = shows.find(s => s.id === a.showId);
-            if (a.performer === req.performer && show && show.date === req.date) {
-                a.isRedDay = true;
-            }
-        });
-    }
+    // 4. Apply the flags for the affected dates
+    assignments.forEach(a => {
+        const show = shows.find(s => s.id === a.showId);
+        if (a.performer !== performer || !show) {
+            return;
+        }
+        if (clearDates.has(show.date)) {
+            a.isRedDay = false;
+        } else if (isRedDay && show.date === req.date) {
+            a.isRedDay = true;
+        }
+    });
 
     // Update the database
     const now = new Date();
-    await scheduleDB.exec`
-      UPDATE schedules 
-      SET assignments_data = ${JSON.stringify(assignments)}, 
-          updated_at = ${now}
-      WHERE id = ${req.id}
-    `;
+    let revision: number;
+    let notified = 0;
+    let queuedWebhooks = 0;
+    const tx = await scheduleDB.begin();
+    try {
+      // Only write over the revision read above; anything else means a save landed in between
+      const saved = await tx.queryRow`
+        UPDATE schedules 
+        SET revision = revision + 1,
+            updated_at = ${now}
+        WHERE id = ${req.id} AND revision = ${existingRow.revision}
+        RETURNING revision
+      `;
+      if (!saved) {
+        throw await loadRevisionConflict(req.id, existingRow.revision);
+      }
+      await saveScheduleContents(tx, req.id, shows, assignments);
+      revision = await recordVersion(tx, req.id, {
+        location: existingRow.location,
+        week: existingRow.week,
+        shows,
+        assignments,
+        seed: existingRow.generation_seed ?? undefined
+      }, "toggle_red_day", undefined, req.changeReason);
+      notified = await queueChangeNotifications(tx, req.id, existingRow.status, revision);
+      queuedWebhooks = await emitWebhookEvent(tx, "schedule.red_day_toggled", {
+        schedule: scheduleEventData({ id: req.id, location: existingRow.location, week: existingRow.week, status: existingRow.status, revision }),
+        performer,
+        performerId: members.find(m => m.name === performer)?.id,
+        date: req.date,
+        isRedDay
+      });
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+    if (notified > 0) {
+      sendQueuedNotifications();
+    }
+    if (queuedWebhooks > 0) {
+      sendQueuedWebhooks();
+    }
 
-    return { assignments };
+    return { assignments, revision };
   }
 );
@@ -1,11 +1,37 @@
 // Core domain types
-export type Role = "Sarge" | "Potato" | "Mozzie" | "Ringo" | "Particle" | "Bin" | "Cornish" | "Who";
+export type Role = string; // Name of a RoleDefinition in the role catalog
+
+export interface RoleDefinition {
+  name: Role;
+  description: string;
+  color: string; // Hex colour used for the role in the schedule grid
+  isRequired: boolean; // Must be filled for every show; optional tracks are filled when possible
+  femaleOnly: boolean;
+  order: number;
+}
 
 export type DayStatus = "show" | "travel" | "dayoff";
 
+// Drafts are working copies; published schedules are the cast's call board and
+// need a reason for every change; locked schedules cannot be edited at all.
+export type ScheduleStatus = "draft" | "published" | "locked";
+
+// How much a performer should be used in an eligible role. Emergency-only
+// roles are filled by them only when no schedule works otherwise.
+export type RolePreference = "primary" | "secondary" | "emergency";
+
+// Ranking per eligible role; roles left out count as primary
+export type RolePreferences = Record<Role, RolePreference>;
+
+// Stage shows per role for each performer over recent weeks, keyed by performer name
+export type RoleHistory = Record<string, Record<Role, number>>;
+
 export interface CastMember {
+  id?: string; // CompanyMember.id, absent for the built-in default cast
   name: string;
   eligibleRoles: Role[];
+  rolePreferences?: RolePreferences;
+  preferredRedDays?: number[]; // Weekdays (0 = Sunday) to give as RED days when the week allows
 }
 
 export interface Show {
@@ -19,8 +45,11 @@ export interface Show {
 export interface Assignment {
   showId: string;
   role: Role | "OFF";
-  performer: string;
+  performer: string; // Display name, resolved from performerId when the schedule is read
+  performerId?: string; // Stable CompanyMember.id
   isRedDay?: boolean;
+  isLocked?: boolean; // Pinned by the manager; generation keeps it and schedules around it
+  covers?: Role[]; // On OFF entries: roles this performer is first cover for in the show
 }
 
 export interface Schedule {
@@ -29,10 +58,63 @@ export interface Schedule {
   week: string;
   shows: Show[];
   assignments: Assignment[];
+  seasonId?: string; // Set when generated as part of a multi-week season
+  previousScheduleId?: string; // Schedule this one continues from
+  seed?: number; // Seed of the generation that produced the assignments
+  revision: number; // Goes up on every save; sent back with edits so concurrent changes are caught
+  status: ScheduleStatus;
+  publishedAt?: Date; // When the schedule was last published
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type RuleEnforcement = "hard" | "soft";
+
+// Hard rules are never broken by generation and fail validation; soft rules
+// are respected when possible and only produce warnings.
+export interface RuleSetting {
+  value: number;
+  enforcement: RuleEnforcement;
+}
+
+export interface SchedulingRules {
+  maxConsecutiveShows: RuleSetting;
+  maxShowsPerWeek: RuleSetting;
+  maxWeekendShows: RuleSetting; // Friday to Sunday
+  consecutiveGapDays: RuleSetting; // Shows this many days apart or fewer count as consecutive; enforcement does not apply
+  redDaysPerWeek: RuleSetting;
+}
+
+// Rules for a production. The default set applies to every location without its own.
+export interface RuleSet {
+  id: string;
+  name: string;
+  location?: string;
+  isDefault: boolean;
+  rules: SchedulingRules;
+  updatedAt: Date;
+}
+
+export type UnavailabilityType = "vacation" | "sick" | "personal" | "hold";
+
+export type UnavailabilityStatus = "pending" | "approved" | "declined";
+
+// A window in which a performer cannot be scheduled. Without times the window
+// covers whole days; startTime/endTime narrow it to a range of shows.
+export interface Unavailability {
+  id: string;
+  memberId: string;
+  performer: string; // Display name, resolved from memberId when read
+  type: UnavailabilityType;
+  status: UnavailabilityStatus;
+  startDate: string;
+  endDate: string;
+  startTime?: string;
+  endTime?: string;
+  note?: string;
+  createdAt: Date;
+}
+
 // Validation types
 export interface ValidationIssue {
   severity: "error" | "warning" | "info";
@@ -80,26 +162,40 @@ export interface ExportDataResponse {
   schedule: Schedule;
   castMembers: CastMember[];
   roles: Role[];
+  exportMetadata: {
+    exportedAt: Date;
+  };
 }
 
 export interface CallSheetResponse {
+  performerId?: string;
   performerName: string;
   location: string;
   week: string;
   shows: Array<{
+    showId: string;
     date: string;
     time: string;
     callTime: string;
     status: string;
-    role?: string;
+    role?: string; // Absent when the performer is OFF
     isRedDay?: boolean;
+    covers?: string[]; // Roles the performer is first cover for while OFF
   }>;
+  metadata: {
+    generatedAt: Date;
+    totalShows: number; // Shows with status "show"
+    performingShows: number;
+    offDays: number; // Show days with no stage role
+    redDays: number;
+  };
 }
 
 export interface UtilizationReportResponse {
   location: string;
   week: string;
   performerUtilization: Array<{
+    performerId?: string;
     performer: string;
     totalShows: number;
     performingShows: number;
@@ -110,12 +206,20 @@ export interface UtilizationReportResponse {
   roleUtilization: Array<{
     role: string;
     coverage: Array<{
+      showId: string;
       showDate: string;
+      showTime: string;
       performer: string | null;
       isCovered: boolean;
     }>;
     coverageRate: number;
   }>;
+  metadata: {
+    generatedAt: Date;
+    totalShows: number;
+    activeShows: number; // Shows with status "show"
+    averageUtilization: number;
+  };
 }
 
 // Constants
@@ -136,4 +240,26 @@ export const CAST_MEMBERS: CastMember[] = [
 
 export const ROLES: Role[] = ["Sarge", "Potato", "Mozzie", "Ringo", "Particle", "Bin", "Cornish", "Who"];
 
-export const FEMALE_ONLY_ROLES: Role[] = ["Bin", "Cornish"];
\ No newline at end of file
+export const FEMALE_ONLY_ROLES: Role[] = ["Bin", "Cornish"];
+
+export const ROLE_PREFERENCES: RolePreference[] = ["primary", "secondary", "emergency"];
+
+const DEFAULT_ROLE_COLORS = ["#2563eb", "#d97706", "#059669", "#7c3aed", "#db2777", "#0891b2", "#65a30d", "#dc2626"];
+
+export const DEFAULT_RULES: SchedulingRules = {
+  maxConsecutiveShows: { value: 3, enforcement: "hard" },
+  maxShowsPerWeek: { value: 6, enforcement: "hard" },
+  maxWeekendShows: { value: 3, enforcement: "hard" },
+  consecutiveGapDays: { value: 2, enforcement: "hard" },
+  redDaysPerWeek: { value: 1, enforcement: "hard" }
+};
+
+// Built-in catalog, used when the roles table is empty
+export const DEFAULT_ROLE_CATALOG: RoleDefinition[] = ROLES.map((name, index) => ({
+  name,
+  description: "",
+  color: DEFAULT_ROLE_COLORS[index % DEFAULT_ROLE_COLORS.length],
+  isRequired: true,
+  femaleOnly: FEMALE_ONLY_ROLES.includes(name),
+  order: index
+}));
\ No newline at end of file
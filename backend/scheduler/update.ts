@@ -1,6 +1,16 @@
 import { api, APIError } from "encore.dev/api";
 import { scheduleDB } from "./db";
 import { Schedule, Show, Assignment } from "./types";
+import { loadCompanyMembers } from "./company";
+import { attachPerformerIds, resolvePerformerNames } from "./performers";
+import { isValidSeed } from "./random";
+import { assertCurrentRevision, recordVersion } from "./versions";
+import { toSchedule } from "./get";
+import { loadScheduleContents, saveScheduleContents } from "./schedule_store";
+import { assertEditable } from "./schedule_status";
+import { requirePermission } from "./auth";
+import { queueChangeNotifications, sendQueuedNotifications } from "./notifications";
+import { emitWebhookEvent, scheduleEventData, sendQueuedWebhooks } from "./webhooks";
 
 export interface UpdateScheduleRequest {
   id: string;
@@ -8,6 +18,9 @@ export interface UpdateScheduleRequest {
   week?: string;
   shows?: Show[];
   assignments?: Assignment[];
+  seed?: number; // Seed from the auto-generate run that produced the assignments
+  revision?: number; // Revision the edit was made against; rejected as a conflict when the schedule has moved on
+  changeReason?: string; // Required once the schedule is published
 }
 
 export interface UpdateScheduleResponse {
@@ -16,44 +29,93 @@ export interface UpdateScheduleResponse {
 
 // Updates a schedule.
 export const update = api<UpdateScheduleRequest, UpdateScheduleResponse>(
-  { expose: true, method: "PUT", path: "/schedules/:id" },
+  { expose: true, auth: true, method: "PUT", path: "/schedules/:id" },
   async (req) => {
-    // First, get the existing schedule
-    const existingRow = await scheduleDB.queryRow`
-      SELECT id, location, week, shows_data, assignments_data, created_at, updated_at
-      FROM schedules 
-      WHERE id = ${req.id}
-    `;
-
-    if (!existingRow) {
-      throw APIError.notFound("schedule not found");
+    requirePermission("schedules.edit");
+    if (req.seed !== undefined && !isValidSeed(req.seed)) {
+      throw APIError.invalidArgument("seed must be a non-negative 32-bit integer");
     }
 
+    const members = await loadCompanyMembers();
     const now = new Date();
-    const location = req.location ?? existingRow.location;
-    const week = req.week ?? existingRow.week;
-    const shows = req.shows ?? JSON.parse(existingRow.shows_data);
-    const assignments = req.assignments ?? JSON.parse(existingRow.assignments_data);
-
-    await scheduleDB.exec`
-      UPDATE schedules 
-      SET location = ${location}, 
-          week = ${week}, 
-          shows_data = ${JSON.stringify(shows)}, 
-          assignments_data = ${JSON.stringify(assignments)}, 
-          updated_at = ${now}
-      WHERE id = ${req.id}
-    `;
-
-    const schedule: Schedule = {
-      id: req.id,
-      location,
-      week,
-      shows,
-      assignments,
-      createdAt: new Date(existingRow.created_at),
-      updatedAt: now
-    };
+    let schedule: Schedule;
+    let notified = 0;
+    let queuedWebhooks = 0;
+
+    const tx = await scheduleDB.begin();
+    try {
+      // Lock the row so the revision check and the write cannot interleave with another save
+      const existingRow = await tx.queryRow`
+        SELECT id, location, week, season_id, previous_schedule_id, generation_seed, revision, status, published_at, created_at, updated_at
+        FROM schedules 
+        WHERE id = ${req.id}
+        FOR UPDATE
+      `;
+
+      if (!existingRow) {
+        throw APIError.notFound("schedule not found");
+      }
+      const existing = await loadScheduleContents(tx, req.id);
+      assertCurrentRevision(req.revision, toSchedule(existingRow, existing, members));
+      assertEditable(existingRow.status, existing.shows, req.changeReason);
+
+      const location = req.location ?? existingRow.location;
+      const week = req.week ?? existingRow.week;
+      const shows = req.shows ?? existing.shows;
+      const seed: number | undefined = req.seed ?? existingRow.generation_seed ?? undefined;
+      
+      // Store member IDs alongside the names, then hand back current display names
+      const assignments = resolvePerformerNames(
+        attachPerformerIds(req.assignments ?? existing.assignments, members),
+        members
+      );
+
+      // A seed that differs from the stored one means freshly generated assignments are being saved
+      const reason = req.seed !== undefined && req.seed !== existingRow.generation_seed ? "auto_generate" : "update";
+
+      await tx.exec`
+        UPDATE schedules 
+        SET location = ${location}, 
+            week = ${week}, 
+            generation_seed = ${seed ?? null},
+            revision = revision + 1,
+            updated_at = ${now}
+        WHERE id = ${req.id}
+      `;
+      await saveScheduleContents(tx, req.id, shows, assignments);
+      const revision = await recordVersion(tx, req.id, { location, week, shows, assignments, seed }, reason, undefined, req.changeReason);
+      notified = await queueChangeNotifications(tx, req.id, existingRow.status, revision);
+      queuedWebhooks = await emitWebhookEvent(tx, "schedule.updated", {
+        schedule: scheduleEventData({ id: req.id, location, week, status: existingRow.status, revision }),
+        changeReason: req.changeReason?.trim() || undefined
+      });
+      await tx.commit();
+
+      schedule = {
+        id: req.id,
+        location,
+        week,
+        shows,
+        assignments,
+        seasonId: existingRow.season_id ?? undefined,
+        previousScheduleId: existingRow.previous_schedule_id ?? undefined,
+        seed,
+        revision,
+        status: existingRow.status,
+        publishedAt: existingRow.published_at ? new Date(existingRow.published_at) : undefined,
+        createdAt: new Date(existingRow.created_at),
+        updatedAt: now
+      };
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+    if (notified > 0) {
+      sendQueuedNotifications();
+    }
+    if (queuedWebhooks > 0) {
+      sendQueuedWebhooks();
+    }
 
     return { schedule };
   }
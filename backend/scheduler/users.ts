@@ -0,0 +1,177 @@
+import { api, APIError } from "encore.dev/api";
+import { scheduleDB } from "./db";
+import { UserRole, isUserRole, hashPassword } from "./access";
+import { User, requirePermission, getUserById, toUser, normalizeUsername, validateCredentials } from "./auth";
+import { getMemberById } from "./company";
+
+export interface ListUsersResponse {
+  users: User[];
+}
+
+export interface CreateUserRequest {
+  username: string;
+  displayName: string;
+  password: string;
+  role: UserRole;
+  memberId?: string;
+  email?: string;
+}
+
+export interface UpdateUserRequest {
+  id: string;
+  displayName?: string;
+  role?: UserRole;
+  memberId?: string | null; // null unlinks the account from its cast member
+  email?: string | null; // null stops email notifications
+  isActive?: boolean; // Deactivating signs the user out everywhere
+  password?: string; // Resets the password and signs the user out everywhere
+}
+
+export interface UserResponse {
+  user: User;
+}
+
+export interface DeleteUserRequest {
+  id: string;
+}
+
+// Lists all user accounts.
+export const listUsers = api<void, ListUsersResponse>(
+  { expose: true, auth: true, method: "GET", path: "/users" },
+  async () => {
+    requirePermission("users.manage");
+
+    const rows = await scheduleDB.queryAll`
+      SELECT id, username, display_name, role, member_id, email, is_active, created_at, last_login_at
+      FROM users
+      ORDER BY display_name
+    `;
+
+    return { users: rows.map(toUser) };
+  }
+);
+
+// Creates a user account.
+export const createUser = api<CreateUserRequest, UserResponse>(
+  { expose: true, auth: true, method: "POST", path: "/users" },
+  async (req) => {
+    requirePermission("users.manage");
+    validateCredentials(req.username, req.password);
+    if (!req.displayName?.trim()) {
+      throw APIError.invalidArgument("display name is required");
+    }
+    if (!isUserRole(req.role)) {
+      throw APIError.invalidArgument(`unknown role ${req.role}`);
+    }
+    if (req.memberId) {
+      await getMemberById(req.memberId);
+    }
+    const email = normalizeEmail(req.email);
+
+    const username = normalizeUsername(req.username);
+    const existing = await scheduleDB.queryRow`
+      SELECT id FROM users WHERE username = ${username}
+    `;
+    if (existing) {
+      throw APIError.alreadyExists(`username ${username} is taken`);
+    }
+
+    const id = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const now = new Date();
+    await scheduleDB.exec`
+      INSERT INTO users (id, username, display_name, password_hash, role, member_id, email, created_at, updated_at)
+      VALUES (${id}, ${username}, ${req.displayName.trim()}, ${hashPassword(req.password)}, ${req.role}, ${req.memberId ?? null}, ${email ?? null}, ${now}, ${now})
+    `;
+
+    return { user: await getUserById(id) };
+  }
+);
+
+// Updates a user's details, role, status or password.
+export const updateUser = api<UpdateUserRequest, UserResponse>(
+  { expose: true, auth: true, method: "PUT", path: "/users/:id" },
+  async (req) => {
+    const admin = requirePermission("users.manage");
+    const user = await getUserById(req.id);
+
+    if (req.role !== undefined && !isUserRole(req.role)) {
+      throw APIError.invalidArgument(`unknown role ${req.role}`);
+    }
+    if (req.displayName !== undefined && !req.displayName.trim()) {
+      throw APIError.invalidArgument("display name is required");
+    }
+    if (req.password !== undefined) {
+      validateCredentials(user.username, req.password);
+    }
+    if (req.memberId) {
+      await getMemberById(req.memberId);
+    }
+    const email = req.email === undefined ? user.email : normalizeEmail(req.email);
+
+    const role = req.role ?? user.role;
+    const isActive = req.isActive ?? user.isActive;
+    if (user.id === admin.userID && (role !== "admin" || !isActive)) {
+      throw APIError.failedPrecondition("you cannot remove your own admin access");
+    }
+
+    const tx = await scheduleDB.begin();
+    try {
+      await tx.exec`
+        UPDATE users
+        SET display_name = ${req.displayName?.trim() ?? user.displayName},
+            role = ${role},
+            member_id = ${req.memberId === undefined ? user.memberId ?? null : req.memberId},
+            email = ${email ?? null},
+            is_active = ${isActive},
+            updated_at = ${new Date()}
+        WHERE id = ${req.id}
+      `;
+      if (req.password !== undefined) {
+        await tx.exec`
+          UPDATE users SET password_hash = ${hashPassword(req.password)} WHERE id = ${req.id}
+        `;
+      }
+      if (req.password !== undefined || !isActive) {
+        await tx.exec`
+          DELETE FROM user_sessions WHERE user_id = ${req.id}
+        `;
+      }
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+
+    return { user: await getUserById(req.id) };
+  }
+);
+
+// Deletes a user account.
+export const deleteUser = api<DeleteUserRequest, void>(
+  { expose: true, auth: true, method: "DELETE", path: "/users/:id" },
+  async (req) => {
+    const admin = requirePermission("users.manage");
+    if (req.id === admin.userID) {
+      throw APIError.failedPrecondition("you cannot delete your own account");
+    }
+
+    const row = await scheduleDB.queryRow`
+      DELETE FROM users WHERE id = ${req.id} RETURNING id
+    `;
+    if (!row) {
+      throw APIError.notFound("user not found");
+    }
+  }
+);
+
+// Blank clears the address; anything else has to look like one
+function normalizeEmail(email: string | null | undefined): string | undefined {
+  const trimmed = email?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed)) {
+    throw APIError.invalidArgument(`${trimmed} is not a valid email address`);
+  }
+  return trimmed;
+}
@@ -1,33 +1,42 @@
 import { api } from "encore.dev/api";
 import { Show, Assignment } from "./types";
 import { SchedulingAlgorithm, ConstraintResult } from "./algorithm";
+import { loadApprovedUnavailability } from "./availability";
+import { loadRulesForLocation } from "./rule_sets";
+import { requirePermission } from "./auth";
 
 export interface ValidateScheduleRequest {
   shows: Show[];
   assignments: Assignment[];
+  location?: string; // Selects the production's rule set
 }
 
 export interface ValidateScheduleResponse {
   isValid: boolean;
   errors: string[];
   warnings: string[];
+  offPrimaryShows: Record<string, number>; // Shows each performer played outside their primary tracks
 }
 
 // Validates a schedule against all constraints and business rules.
 export const validate = api<ValidateScheduleRequest, ValidateScheduleResponse>(
-  { expose: true, method: "POST", path: "/schedules/validate" },
+  { expose: true, auth: true, method: "POST", path: "/schedules/validate" },
   async (req) => {
+    requirePermission("schedules.view");
     // Get current cast members from company system
     const { getCastMembers } = await import("./cast_members");
     const castData = await getCastMembers();
+    const unavailability = await loadApprovedUnavailability(req.shows);
+    const rules = await loadRulesForLocation(req.location);
     
-    const algorithm = new SchedulingAlgorithm(req.shows, castData.castMembers);
+    const algorithm = new SchedulingAlgorithm(req.shows, castData.castMembers, { unavailability, roles: castData.roleCatalog, rules });
     const result = algorithm.validateSchedule(req.assignments);
     
     return {
       isValid: result.isValid,
       errors: result.errors,
-      warnings: result.warnings
+      warnings: result.warnings,
+      offPrimaryShows: result.offPrimaryShows
     };
   }
 );
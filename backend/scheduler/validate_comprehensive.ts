@@ -1,15 +1,20 @@
 import { api } from "encore.dev/api";
-import { Show, Assignment } from "./types";
+import { Show, Assignment, RoleDefinition, SchedulingRules } from "./types";
 import { SchedulingAlgorithm, ConstraintResult } from "./algorithm";
+import { resolvePerformerNames } from "./performers";
+import { loadApprovedUnavailability } from "./availability";
+import { loadRulesForLocation } from "./rule_sets";
+import { requirePermission } from "./auth";
 
 export interface ValidateComprehensiveRequest {
   shows: Show[];
   assignments: Assignment[];
+  location?: string; // Selects the production's rule set
 }
 
 export interface ValidationIssue {
   type: "error" | "warning" | "info";
-  category: "role_eligibility" | "consecutive_shows" | "load_balancing" | "special_days" | "completeness" | "conflicts";
+  category: "role_eligibility" | "consecutive_shows" | "load_balancing" | "special_days" | "completeness" | "conflicts" | "availability" | "role_preferences" | "covers";
   message: string;
   performer?: string;
   showId?: string;
@@ -62,18 +67,25 @@ export interface ValidateComprehensiveResponse {
     totalSpecialDays: number;
     impactOnScheduling: string;
   };
+  offPrimaryShows: Record<string, number>; // Shows each performer played outside their primary tracks
   recommendations: string[];
 }
 
 // Provides comprehensive validation of schedule with detailed business logic analysis.
 export const validateComprehensive = api<ValidateComprehensiveRequest, ValidateComprehensiveResponse>(
-  { expose: true, method: "POST", path: "/schedules/validate-comprehensive" },
+  { expose: true, auth: true, method: "POST", path: "/schedules/validate-comprehensive" },
   async (req) => {
+    requirePermission("schedules.view");
     // Get current cast members from company system
     const { getCastMembers } = await import("./cast_members");
     const castData = await getCastMembers();
     
-    const algorithm = new SchedulingAlgorithm(req.shows, castData.castMembers);
+    // Match assignments that carry a member ID on the member's current name
+    req = { ...req, assignments: resolvePerformerNames(req.assignments, castData.castMembers) };
+    
+    const unavailability = await loadApprovedUnavailability(req.shows);
+    const rules = await loadRulesForLocation(req.location);
+    const algorithm = new SchedulingAlgorithm(req.shows, castData.castMembers, { unavailability, roles: castData.roleCatalog, rules });
     const basicValidation = algorithm.validateSchedule(req.assignments);
     
     const issues: ValidationIssue[] = [];
@@ -119,7 +131,7 @@ export const validateComprehensive = api<ValidateComprehensiveRequest, ValidateC
     issues.push(...roleEligibilityIssues);
     
     // 2. Consecutive Shows Analysis with specific suggestions
-    const consecutiveAnalysis = analyzeConsecutiveShows(req.assignments, activeShows, castData.castMembers, formatDateForDisplay, getAlternativePerformers);
+    const consecutiveAnalysis = analyzeConsecutiveShows(req.assignments, activeShows, castData.castMembers, formatDateForDisplay, getAlternativePerformers, rules);
     consecutiveAnalysis.forEach(analysis => {
       analysis.sequences.forEach(sequence => {
         if (sequence.severity === "critical") {
@@ -183,7 +195,7 @@ export const validateComprehensive = api<ValidateComprehensiveRequest, ValidateC
     });
     
     // 4. Role Completeness Analysis with specific suggestions
-    const roleCompleteness = analyzeRoleCompleteness(req.assignments, activeShows);
+    const roleCompleteness = analyzeRoleCompleteness(req.assignments, activeShows, castData.roleCatalog);
     roleCompleteness.forEach(roleStats => {
       if (roleStats.completionPercentage < 100) {
         const severity = roleStats.completionPercentage < 50 ? "critical" : 
@@ -213,6 +225,30 @@ export const validateComprehensive = api<ValidateComprehensiveRequest, ValidateC
     const conflictIssues = detectConflictsWithSuggestions(req.assignments, activeShows, formatDateForDisplay, getAlternativePerformers);
     issues.push(...conflictIssues);
     
+    // Assignments that clash with approved leave
+    for (const { assignment, leave } of algorithm.getAvailabilityConflicts(req.assignments)) {
+      const show = activeShows.find(s => s.id === assignment.showId);
+      if (!show) continue;
+      
+      const alternatives = getAlternativePerformers(assignment.role, assignment.performer, show.id)
+        .filter(name => !unavailability.some(entry =>
+          entry.performer === name && show.date >= entry.startDate && show.date <= entry.endDate
+        ));
+      
+      issues.push({
+        type: "error",
+        category: "availability",
+        message: `${assignment.performer} is on approved ${leave.type} leave but assigned to ${assignment.role} on ${formatDateForDisplay(show.date, show.time)}`,
+        performer: assignment.performer,
+        showId: show.id,
+        role: assignment.role,
+        severity: "critical",
+        suggestion: alternatives.length > 0
+          ? `Reassign ${assignment.role} to ${alternatives.slice(0, 2).join(" or ")}`
+          : `No other eligible performer is free - consider revisiting ${assignment.performer}'s leave`
+      });
+    }
+    
     // 6. Special Day Handling
     const specialDayHandling = analyzeSpecialDayHandling(specialDays, req.assignments);
     if (specialDayHandling.impactOnScheduling === "high") {
@@ -225,6 +261,30 @@ export const validateComprehensive = api<ValidateComprehensiveRequest, ValidateC
       });
     }
     
+    // 6b. Role Preferences
+    for (const [performer, count] of Object.entries(basicValidation.offPrimaryShows)) {
+      issues.push({
+        type: "info",
+        category: "role_preferences",
+        message: `${performer} plays ${count} show${count === 1 ? '' : 's'} outside their primary track${count === 1 ? '' : 's'}`,
+        performer,
+        severity: "low"
+      });
+    }
+    
+    // 6c. Understudy Cover
+    for (const { show, role } of algorithm.getCoverGaps(req.assignments)) {
+      issues.push({
+        type: "warning",
+        category: "covers",
+        message: `No cover for ${role} on ${formatDateForDisplay(show.date, show.time)} - nobody off that night can play it`,
+        showId: show.id,
+        role,
+        severity: "medium",
+        suggestion: `Give a performer who knows ${role} the night off, or move a RED day`
+      });
+    }
+    
     // 7. Generate Smart Recommendations
     const smartRecommendations = generateSmartRecommendations(issues, loadBalancing, consecutiveAnalysis, roleCompleteness, activeShows.length);
     recommendations.push(...smartRecommendations);
@@ -251,6 +311,7 @@ export const validateComprehensive = api<ValidateComprehensiveRequest, ValidateC
       consecutiveAnalysis,
       roleCompleteness,
       specialDayHandling,
+      offPrimaryShows: basicValidation.offPrimaryShows,
       recommendations
     };
   }
@@ -303,7 +364,9 @@ function validateRoleEligibilityWithSuggestions(assignments: Assignment[], castM
   return issues;
 }
 
-function analyzeConsecutiveShows(assignments: Assignment[], activeShows: Show[], castMembers: any[], formatDateForDisplay: Function, getAlternativePerformers: Function): ConsecutiveShowAnalysis[] {
+function analyzeConsecutiveShows(assignments: Assignment[], activeShows: Show[], castMembers: any[], formatDateForDisplay: Function, getAlternativePerformers: Function, rules: SchedulingRules): ConsecutiveShowAnalysis[] {
+  const { value: maxConsecutive, enforcement } = rules.maxConsecutiveShows;
+  const overLimitSeverity = enforcement === "hard" ? "critical" : "warning";
   const analysis: ConsecutiveShowAnalysis[] = [];
   
   castMembers.forEach(member => {
@@ -341,7 +404,7 @@ function analyzeConsecutiveShows(assignments: Assignment[], activeShows: Show[],
     }> = [];
     
     let currentSequence: { startDate: string; endDate: string; count: number; showIds: string[] } | null = null;
-    let maxConsecutive = 0;
+    let longestSequence = 0;
     let lastShowDate: Date | null = null;
     
     sortedShows.forEach((show, index) => {
@@ -350,7 +413,7 @@ function analyzeConsecutiveShows(assignments: Assignment[], activeShows: Show[],
       if (lastShowDate) {
         const daysDiff = Math.floor((showDate.getTime() - lastShowDate.getTime()) / (1000 * 60 * 60 * 24));
         
-        if (daysDiff <= 2) { // Consider consecutive if within 2 days
+        if (daysDiff <= rules.consecutiveGapDays.value) {
           if (currentSequence) {
             currentSequence.count++;
             currentSequence.endDate = formatDateForDisplay(show.date, show.time);
@@ -367,11 +430,10 @@ function analyzeConsecutiveShows(assignments: Assignment[], activeShows: Show[],
           }
         } else {
           // End current sequence
-          if (currentSequence && currentSequence.count >= 3) {
-            const severity = currentSequence.count >= 6 ? "critical" : 
-                           currentSequence.count >= 4 ? "warning" : "ok";
+          if (currentSequence && currentSequence.count >= maxConsecutive) {
+            const severity = currentSequence.count > maxConsecutive ? overLimitSeverity : "ok";
             sequences.push({ ...currentSequence, severity });
-            maxConsecutive = Math.max(maxConsecutive, currentSequence.count);
+            longestSequence = Math.max(longestSequence, currentSequence.count);
           }
           currentSequence = null;
         }
@@ -381,16 +443,15 @@ function analyzeConsecutiveShows(assignments: Assignment[], activeShows: Show[],
     });
     
     // Handle final sequence
-    if (currentSequence && currentSequence.count >= 3) {
-      const severity = currentSequence.count >= 6 ? "critical" : 
-                     currentSequence.count >= 4 ? "warning" : "ok";
+    if (currentSequence && currentSequence.count >= maxConsecutive) {
+      const severity = currentSequence.count > maxConsecutive ? overLimitSeverity : "ok";
       sequences.push({ ...currentSequence, severity });
-      maxConsecutive = Math.max(maxConsecutive, currentSequence.count);
+      longestSequence = Math.max(longestSequence, currentSequence.count);
     }
     
     analysis.push({
       performer: member.name,
-      maxConsecutive,
+      maxConsecutive: longestSequence,
       sequences: sequences.map(seq => ({
         startDate: seq.startDate,
         endDate: seq.endDate,
@@ -570,8 +631,8 @@ function analyzeLoadBalancing(assignments: Assignment[], activeShows: Show[], ca
   return stats;
 }
 
-function analyzeRoleCompleteness(assignments: Assignment[], activeShows: Show[]) {
-  const roles = ["Sarge", "Potato", "Mozzie", "Ringo", "Particle", "Bin", "Cornish", "Who"];
+function analyzeRoleCompleteness(assignments: Assignment[], activeShows: Show[], roleCatalog: RoleDefinition[]) {
+  const roles = roleCatalog.filter(role => role.isRequired).map(role => role.name);
   
   return roles.map(role => {
     const roleAssignments = assignments.filter(a => 
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { APIError, ErrCode } from 'encore.dev/api';
+import { assertCurrentRevision } from './versions';
+import { Schedule } from './types';
+
+// Loads the Encore runtime through ./versions, so it runs under `encore test` like the e2e suite
+describe('Revision Checks', () => {
+  const saved: Schedule = {
+    id: "sched",
+    location: "London",
+    week: "1",
+    shows: [{ id: "tue", date: "2024-01-02", time: "21:00", callTime: "19:00", status: "show" }],
+    assignments: [{ showId: "tue", role: "Sarge", performer: "SEAN" }],
+    revision: 4,
+    status: "draft",
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+
+  it('should accept a write made against the saved revision or without one', () => {
+    expect(() => assertCurrentRevision(4, saved)).not.toThrow();
+    expect(() => assertCurrentRevision(undefined, saved)).not.toThrow();
+  });
+
+  it('should reject a stale write and hand back the saved schedule to merge with', () => {
+    let error: unknown;
+    try {
+      assertCurrentRevision(3, saved);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(APIError);
+    expect((error as APIError).code).toBe(ErrCode.Aborted);
+    expect((error as APIError).message).toContain("revision 4, yours is 3");
+    expect((error as APIError).details).toEqual({ schedule: saved });
+  });
+});
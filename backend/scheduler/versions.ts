@@ -0,0 +1,301 @@
+import { api, APIError } from "encore.dev/api";
+import { SQLDatabase, Transaction } from "encore.dev/storage/sqldb";
+import { scheduleDB } from "./db";
+import { Schedule, Show, Assignment } from "./types";
+import { loadCompanyMembers } from "./company";
+import { resolvePerformerNames } from "./performers";
+import { toSchedule } from "./get";
+import { loadScheduleContents, saveScheduleContents } from "./schedule_store";
+import { ScheduleDiff, diffSchedules } from "./schedule_diff";
+import { assertEditable } from "./schedule_status";
+import { requirePermission } from "./auth";
+import { queueChangeNotifications, sendQueuedNotifications } from "./notifications";
+import { emitWebhookEvent, scheduleEventData, sendQueuedWebhooks } from "./webhooks";
+
+export type VersionReason =
+  | "imported" // State of the schedule when version history was introduced
+  | "create"
+  | "update"
+  | "auto_generate"
+  | "toggle_red_day"
+  | "replacement"
+  | "season"
+  | "restore";
+
+export interface ScheduleVersionSummary {
+  version: number;
+  reason: VersionReason;
+  restoredFrom?: number; // Version brought back by a restore
+  changeReason?: string; // Given for changes made while the schedule was published
+  stageAssignments: number;
+  createdAt: Date;
+}
+
+export interface ListVersionsRequest {
+  id: string; // scheduleId
+}
+
+export interface ListVersionsResponse {
+  versions: ScheduleVersionSummary[]; // Newest first
+}
+
+export interface DiffVersionsRequest {
+  id: string; // scheduleId
+  from: number;
+  to?: number; // Defaults to the latest version
+}
+
+export interface DiffVersionsResponse {
+  from: ScheduleVersionSummary;
+  to: ScheduleVersionSummary;
+  diff: ScheduleDiff;
+}
+
+export interface RestoreVersionRequest {
+  id: string; // scheduleId
+  version: number;
+  revision?: number; // Revision the client loaded; restoring over a newer save is rejected as a conflict
+  changeReason?: string; // Required when the schedule is published
+}
+
+export interface RestoreVersionResponse {
+  schedule: Schedule;
+  version: number; // The new version recording the restore
+}
+
+export interface VersionSnapshot {
+  location: string;
+  week: string;
+  shows: Show[];
+  assignments: Assignment[];
+  seed?: number;
+}
+
+// Lists the saved versions of a schedule.
+export const listVersions = api<ListVersionsRequest, ListVersionsResponse>(
+  { expose: true, auth: true, method: "GET", path: "/schedules/:id/versions" },
+  async (req) => {
+    requirePermission("schedules.view");
+    await assertScheduleExists(req.id);
+
+    const rows = await scheduleDB.queryAll`
+      SELECT version, reason, restored_from, change_reason, assignments_data, created_at
+      FROM schedule_versions
+      WHERE schedule_id = ${req.id}
+      ORDER BY version DESC
+    `;
+
+    return { versions: rows.map(toVersionSummary) };
+  }
+);
+
+// Compares two versions of a schedule cell by cell.
+export const diffVersions = api<DiffVersionsRequest, DiffVersionsResponse>(
+  { expose: true, auth: true, method: "GET", path: "/schedules/:id/versions/diff" },
+  async (req) => {
+    requirePermission("schedules.view");
+    await assertScheduleExists(req.id);
+
+    const fromRow = await loadVersionRow(req.id, req.from);
+    const toRow = req.to !== undefined
+      ? await loadVersionRow(req.id, req.to)
+      : await scheduleDB.queryRow`
+          SELECT version, reason, restored_from, change_reason, shows_data, assignments_data, created_at
+          FROM schedule_versions
+          WHERE schedule_id = ${req.id}
+          ORDER BY version DESC
+          LIMIT 1
+        `;
+    if (!toRow) {
+      throw APIError.notFound("version not found");
+    }
+
+    // Compare on current names so a renamed performer is not reported as a change
+    const members = await loadCompanyMembers();
+    const stateOf = (row: Record<string, any>) => ({
+      shows: JSON.parse(row.shows_data) as Show[],
+      assignments: resolvePerformerNames(JSON.parse(row.assignments_data) as Assignment[], members)
+    });
+
+    return {
+      from: toVersionSummary(fromRow),
+      to: toVersionSummary(toRow),
+      diff: diffSchedules(stateOf(fromRow), stateOf(toRow))
+    };
+  }
+);
+
+// Restores a schedule to an earlier version, recording the restore as a new version.
+export const restoreVersion = api<RestoreVersionRequest, RestoreVersionResponse>(
+  { expose: true, auth: true, method: "POST", path: "/schedules/:id/versions/:version/restore" },
+  async (req) => {
+    requirePermission("schedules.edit");
+    const existingRow = await scheduleDB.queryRow`
+      SELECT id, season_id, previous_schedule_id, revision, status, published_at, created_at
+      FROM schedules
+      WHERE id = ${req.id}
+    `;
+
+    if (!existingRow) {
+      throw APIError.notFound("schedule not found");
+    }
+    assertEditable(existingRow.status, (await loadScheduleContents(scheduleDB, req.id)).shows, req.changeReason);
+
+    const row = await loadVersionRow(req.id, req.version);
+    const shows: Show[] = JSON.parse(row.shows_data);
+    // Versions saved before shows and assignments had their own tables may hold
+    // assignments for shows that were since removed
+    const showIds = new Set(shows.map(show => show.id));
+    const snapshot: VersionSnapshot = {
+      location: row.location,
+      week: row.week,
+      shows,
+      assignments: (JSON.parse(row.assignments_data) as Assignment[]).filter(a => showIds.has(a.showId)),
+      seed: row.generation_seed ?? undefined
+    };
+
+    const now = new Date();
+    let version: number;
+    let notified = 0;
+    let queuedWebhooks = 0;
+    const expectedRevision: number = req.revision ?? existingRow.revision;
+    const tx = await scheduleDB.begin();
+    try {
+      // Only write over the revision the client loaded; anything else means a save landed in between
+      const saved = await tx.queryRow`
+        UPDATE schedules
+        SET location = ${snapshot.location},
+            week = ${snapshot.week},
+            generation_seed = ${snapshot.seed ?? null},
+            revision = revision + 1,
+            updated_at = ${now}
+        WHERE id = ${req.id} AND revision = ${expectedRevision}
+        RETURNING revision
+      `;
+      if (!saved) {
+        throw await loadRevisionConflict(req.id, expectedRevision);
+      }
+      await saveScheduleContents(tx, req.id, snapshot.shows, snapshot.assignments);
+      version = await recordVersion(tx, req.id, snapshot, "restore", req.version, req.changeReason);
+      notified = await queueChangeNotifications(tx, req.id, existingRow.status, version);
+      queuedWebhooks = await emitWebhookEvent(tx, "schedule.updated", {
+        schedule: scheduleEventData({ id: req.id, location: snapshot.location, week: snapshot.week, status: existingRow.status, revision: version }),
+        restoredFrom: req.version,
+        changeReason: req.changeReason?.trim() || undefined
+      });
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+    if (notified > 0) {
+      sendQueuedNotifications();
+    }
+    if (queuedWebhooks > 0) {
+      sendQueuedWebhooks();
+    }
+
+    const members = await loadCompanyMembers();
+    const schedule: Schedule = {
+      id: req.id,
+      location: snapshot.location,
+      week: snapshot.week,
+      shows: snapshot.shows,
+      assignments: resolvePerformerNames(snapshot.assignments, members),
+      seasonId: existingRow.season_id ?? undefined,
+      previousScheduleId: existingRow.previous_schedule_id ?? undefined,
+      seed: snapshot.seed,
+      revision: version,
+      status: existingRow.status,
+      publishedAt: existingRow.published_at ? new Date(existingRow.published_at) : undefined,
+      createdAt: new Date(existingRow.created_at),
+      updatedAt: now
+    };
+
+    return { schedule, version };
+  }
+);
+
+// Saves the schedule's state as the version matching its revision and returns the version number.
+// Pass the transaction that wrote the schedule, and bumped its revision, so the two are saved together.
+export async function recordVersion(
+  db: SQLDatabase | Transaction,
+  scheduleId: string,
+  snapshot: VersionSnapshot,
+  reason: VersionReason,
+  restoredFrom?: number,
+  changeReason?: string
+): Promise<number> {
+  const current = await db.queryRow`
+    SELECT revision FROM schedules WHERE id = ${scheduleId}
+  `;
+  const version: number = current?.revision ?? 1;
+  const id = `ver_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  await db.exec`
+    INSERT INTO schedule_versions (id, schedule_id, version, reason, restored_from, change_reason, location, week, shows_data, assignments_data, generation_seed, created_at)
+    VALUES (${id}, ${scheduleId}, ${version}, ${reason}, ${restoredFrom ?? null}, ${changeReason?.trim() || null}, ${snapshot.location}, ${snapshot.week}, ${JSON.stringify(snapshot.shows)}, ${JSON.stringify(snapshot.assignments)}, ${snapshot.seed ?? null}, ${new Date()})
+  `;
+
+  return version;
+}
+
+// Rejects a write made against an older revision, handing back what is saved now so the client can merge
+export function assertCurrentRevision(expected: number | undefined, current: Schedule): void {
+  if (expected !== undefined && expected !== current.revision) {
+    throw revisionConflict(expected, current);
+  }
+}
+
+// For writes that read outside their transaction: the error to raise when the guarded UPDATE matched no row
+export async function loadRevisionConflict(scheduleId: string, expected: number): Promise<APIError> {
+  const row = await scheduleDB.queryRow`
+    SELECT id, location, week, season_id, previous_schedule_id, generation_seed, revision, status, published_at, created_at, updated_at
+    FROM schedules
+    WHERE id = ${scheduleId}
+  `;
+  if (!row) {
+    return APIError.notFound("schedule not found");
+  }
+  const contents = await loadScheduleContents(scheduleDB, scheduleId);
+  return revisionConflict(expected, toSchedule(row, contents, await loadCompanyMembers()));
+}
+
+function revisionConflict(expected: number, current: Schedule): APIError {
+  return APIError.aborted(
+    `schedule was saved by someone else since you loaded it (revision ${current.revision}, yours is ${expected}) - reload or merge your changes`
+  ).withDetails({ schedule: current });
+}
+
+async function assertScheduleExists(id: string): Promise<void> {
+  const row = await scheduleDB.queryRow`
+    SELECT id FROM schedules WHERE id = ${id}
+  `;
+  if (!row) {
+    throw APIError.notFound("schedule not found");
+  }
+}
+
+async function loadVersionRow(scheduleId: string, version: number): Promise<Record<string, any>> {
+  const row = await scheduleDB.queryRow`
+    SELECT version, reason, restored_from, change_reason, location, week, shows_data, assignments_data, generation_seed, created_at
+    FROM schedule_versions
+    WHERE schedule_id = ${scheduleId} AND version = ${version}
+  `;
+  if (!row) {
+    throw APIError.notFound(`version ${version} not found`);
+  }
+  return row;
+}
+
+function toVersionSummary(row: Record<string, any>): ScheduleVersionSummary {
+  const assignments: Assignment[] = JSON.parse(row.assignments_data);
+  return {
+    version: row.version,
+    reason: row.reason as VersionReason,
+    restoredFrom: row.restored_from ?? undefined,
+    changeReason: row.change_reason ?? undefined,
+    stageAssignments: assignments.filter(a => a.role !== "OFF" && a.performer).length,
+    createdAt: new Date(row.created_at)
+  };
+}
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_WEBHOOK_ATTEMPTS, signWebhookPayload, verifyWebhookSignature, webhookRetryDelay } from './webhook_events';
+
+describe('Webhooks', () => {
+  it('should sign payloads so receivers can detect tampering', () => {
+    const body = JSON.stringify({ id: "evt_1", event: "schedule.published", data: { schedule: { id: "sched" } } });
+    const signature = signWebhookPayload("whsec_test", 1700000000, body);
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature("whsec_test", 1700000000, body, signature)).toBe(true);
+    expect(verifyWebhookSignature("whsec_test", 1700000000, body.replace("sched", "other"), signature)).toBe(false);
+    expect(verifyWebhookSignature("whsec_test", 1700000001, body, signature)).toBe(false);
+    expect(verifyWebhookSignature("whsec_other", 1700000000, body, signature)).toBe(false);
+  });
+
+  it('should back off between retries up to an hour', () => {
+    const delays = Array.from({ length: MAX_WEBHOOK_ATTEMPTS }, (_, i) => webhookRetryDelay(i + 1) / 1000);
+
+    expect(delays).toEqual([30, 60, 120, 240, 480, 960, 1920, 3600]);
+  });
+});
@@ -0,0 +1,61 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+// The events outside tools can subscribe to, and how their payloads are signed.
+// Receivers recompute X-Webhook-Signature as an HMAC-SHA256 of "<timestamp>.<body>",
+// keyed with the webhook's secret, and should reject old timestamps to stop replays.
+
+export type WebhookEvent =
+  | "schedule.created"
+  | "schedule.updated"
+  | "schedule.published"
+  | "schedule.unpublished"
+  | "schedule.locked"
+  | "schedule.deleted"
+  | "schedule.red_day_toggled"
+  | "member.added"
+  | "member.archived";
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  "schedule.created",
+  "schedule.updated",
+  "schedule.published",
+  "schedule.unpublished",
+  "schedule.locked",
+  "schedule.deleted",
+  "schedule.red_day_toggled",
+  "member.added",
+  "member.archived"
+];
+
+export interface WebhookPayload {
+  id: string; // Event ID; the same for every webhook the event goes to, so receivers can drop repeats
+  event: WebhookEvent;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export const MAX_WEBHOOK_ATTEMPTS = 8;
+
+export function isWebhookEvent(value: string): value is WebhookEvent {
+  return (WEBHOOK_EVENTS as string[]).includes(value);
+}
+
+export function newWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+// Value of the X-Webhook-Signature header; timestamp is in seconds, as sent in X-Webhook-Timestamp
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+export function verifyWebhookSignature(secret: string, timestamp: number, body: string, signature: string): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// 30 seconds, then doubling up to an hour between attempts
+export function webhookRetryDelay(attempts: number): number {
+  return Math.min(30_000 * 2 ** (attempts - 1), 60 * 60_000);
+}
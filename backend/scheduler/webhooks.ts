@@ -0,0 +1,390 @@
+import { api, APIError } from "encore.dev/api";
+import { CronJob } from "encore.dev/cron";
+import log from "encore.dev/log";
+import { SQLDatabase, Transaction } from "encore.dev/storage/sqldb";
+import { scheduleDB } from "./db";
+import { Schedule } from "./types";
+import { requirePermission } from "./auth";
+import {
+  WebhookEvent,
+  WebhookPayload,
+  MAX_WEBHOOK_ATTEMPTS,
+  isWebhookEvent,
+  newWebhookSecret,
+  signWebhookPayload,
+  webhookRetryDelay
+} from "./webhook_events";
+
+// Tells outside tools about schedule and company changes. Events are queued in the same
+// write as the change, so a rolled-back change never goes out, then POSTed as signed JSON
+// to every active webhook subscribed to them, retrying with backoff.
+
+export interface Webhook {
+  id: string;
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  secret: string; // Shared with the receiver to check X-Webhook-Signature
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventId: string;
+  event: WebhookEvent;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number; // HTTP status of the last attempt, when the receiver answered
+  lastError?: string;
+  nextAttemptAt?: Date; // While pending
+  createdAt: Date;
+  deliveredAt?: Date;
+}
+
+export interface ListWebhooksResponse {
+  webhooks: Webhook[];
+}
+
+export interface CreateWebhookRequest {
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+}
+
+export interface UpdateWebhookRequest {
+  id: string;
+  url?: string;
+  description?: string;
+  events?: WebhookEvent[];
+  isActive?: boolean;
+  rotateSecret?: boolean; // Issues a new secret; the receiver has to be given it
+}
+
+export interface WebhookResponse {
+  webhook: Webhook;
+}
+
+export interface DeleteWebhookRequest {
+  id: string;
+}
+
+export interface ListWebhookDeliveriesRequest {
+  id: string; // webhookId
+}
+
+export interface ListWebhookDeliveriesResponse {
+  deliveries: WebhookDelivery[]; // Latest first
+}
+
+export interface DeliverWebhooksResponse {
+  succeeded: number;
+  failed: number;
+}
+
+const BATCH_SIZE = 50;
+const CLAIM_MS = 5 * 60_000; // How long a batch is held by one delivery run before another may pick it up
+const REQUEST_TIMEOUT_MS = 10_000;
+const DELIVERY_LOG_SIZE = 100;
+
+// Lists the registered webhooks.
+export const listWebhooks = api<void, ListWebhooksResponse>(
+  { expose: true, auth: true, method: "GET", path: "/webhooks" },
+  async () => {
+    requirePermission("integrations.manage");
+
+    const rows = await scheduleDB.queryAll`
+      SELECT id, url, description, events, secret, is_active, created_at, updated_at
+      FROM webhooks
+      ORDER BY created_at
+    `;
+
+    return { webhooks: rows.map(toWebhook) };
+  }
+);
+
+// Registers a webhook with a fresh signing secret.
+export const createWebhook = api<CreateWebhookRequest, WebhookResponse>(
+  { expose: true, auth: true, method: "POST", path: "/webhooks" },
+  async (req) => {
+    requirePermission("integrations.manage");
+    const url = validateUrl(req.url);
+    const events = validateEvents(req.events);
+
+    const id = `hook_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const now = new Date();
+    await scheduleDB.exec`
+      INSERT INTO webhooks (id, url, description, events, secret, created_at, updated_at)
+      VALUES (${id}, ${url}, ${req.description?.trim() || null}, ${JSON.stringify(events)}, ${newWebhookSecret()}, ${now}, ${now})
+    `;
+
+    return { webhook: await getWebhookById(id) };
+  }
+);
+
+// Updates a webhook's address, events or status, or rotates its secret.
+export const updateWebhook = api<UpdateWebhookRequest, WebhookResponse>(
+  { expose: true, auth: true, method: "PUT", path: "/webhooks/:id" },
+  async (req) => {
+    requirePermission("integrations.manage");
+    const webhook = await getWebhookById(req.id);
+    const url = req.url === undefined ? webhook.url : validateUrl(req.url);
+    const events = req.events === undefined ? webhook.events : validateEvents(req.events);
+    const description = req.description === undefined ? webhook.description : req.description.trim() || undefined;
+
+    await scheduleDB.exec`
+      UPDATE webhooks
+      SET url = ${url},
+          description = ${description ?? null},
+          events = ${JSON.stringify(events)},
+          secret = ${req.rotateSecret ? newWebhookSecret() : webhook.secret},
+          is_active = ${req.isActive ?? webhook.isActive},
+          updated_at = ${new Date()}
+      WHERE id = ${req.id}
+    `;
+
+    return { webhook: await getWebhookById(req.id) };
+  }
+);
+
+// Deletes a webhook and its delivery log.
+export const deleteWebhook = api<DeleteWebhookRequest, void>(
+  { expose: true, auth: true, method: "DELETE", path: "/webhooks/:id" },
+  async (req) => {
+    requirePermission("integrations.manage");
+    const row = await scheduleDB.queryRow`
+      DELETE FROM webhooks WHERE id = ${req.id} RETURNING id
+    `;
+    if (!row) {
+      throw APIError.notFound("webhook not found");
+    }
+  }
+);
+
+// Lists a webhook's latest deliveries with their outcome.
+export const listWebhookDeliveries = api<ListWebhookDeliveriesRequest, ListWebhookDeliveriesResponse>(
+  { expose: true, auth: true, method: "GET", path: "/webhooks/:id/deliveries" },
+  async (req) => {
+    requirePermission("integrations.manage");
+    await getWebhookById(req.id);
+
+    const rows = await scheduleDB.queryAll`
+      SELECT id, webhook_id, event_id, event, payload, status, attempts, response_status, last_error, next_attempt_at, created_at, delivered_at
+      FROM webhook_deliveries
+      WHERE webhook_id = ${req.id}
+      ORDER BY created_at DESC
+      LIMIT ${DELIVERY_LOG_SIZE}
+    `;
+
+    return { deliveries: rows.map(toDelivery) };
+  }
+);
+
+// Queues an event for every active webhook subscribed to it. Pass the transaction making the
+// change so the event is only sent if it commits. Returns how many deliveries were queued.
+export async function emitWebhookEvent(
+  db: SQLDatabase | Transaction,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<number> {
+  const hooks = (await db.queryAll`
+    SELECT id, events FROM webhooks WHERE is_active
+  `).filter(row => (JSON.parse(row.events) as string[]).includes(event));
+  if (hooks.length === 0) {
+    return 0;
+  }
+
+  const now = new Date();
+  const payload: WebhookPayload = {
+    id: `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    event,
+    createdAt: now.toISOString(),
+    data
+  };
+  const body = JSON.stringify(payload);
+
+  for (const hook of hooks) {
+    const id = `whd_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    await db.exec`
+      INSERT INTO webhook_deliveries (id, webhook_id, event_id, event, payload, next_attempt_at, created_at)
+      VALUES (${id}, ${hook.id}, ${payload.id}, ${event}, ${body}, ${now}, ${now})
+    `;
+  }
+
+  return hooks.length;
+}
+
+// What every schedule event says about the schedule
+export function scheduleEventData(schedule: Pick<Schedule, "id" | "location" | "week" | "status" | "revision">): Record<string, unknown> {
+  return {
+    id: schedule.id,
+    location: schedule.location,
+    week: schedule.week,
+    status: schedule.status,
+    revision: schedule.revision
+  };
+}
+
+// Starts delivering what a just-committed change queued, without holding up the response.
+// Anything that fails here is retried by the cron job.
+export function sendQueuedWebhooks(): void {
+  deliverPendingWebhooks().catch(error => log.error(error, "delivering webhooks failed"));
+}
+
+// Delivers queued webhook events that are due.
+export const deliverWebhooks = api<void, DeliverWebhooksResponse>(
+  { expose: false, method: "POST", path: "/internal/webhooks/deliver" },
+  async () => deliverPendingWebhooks()
+);
+
+const _ = new CronJob("deliver-webhooks", {
+  title: "Deliver queued webhook events",
+  every: "1m",
+  endpoint: deliverWebhooks
+});
+
+async function deliverPendingWebhooks(): Promise<DeliverWebhooksResponse> {
+  // Claim a batch by pushing its next attempt out, so overlapping runs do not send twice
+  const now = new Date();
+  const rows = await scheduleDB.queryAll`
+    UPDATE webhook_deliveries
+    SET next_attempt_at = ${new Date(now.getTime() + CLAIM_MS)}
+    WHERE id IN (
+      SELECT id FROM webhook_deliveries
+      WHERE status = 'pending' AND next_attempt_at <= ${now}
+      ORDER BY next_attempt_at
+      LIMIT ${BATCH_SIZE}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id, webhook_id, event, payload, attempts
+  `;
+
+  let succeeded = 0;
+  let failed = 0;
+  for (const row of rows) {
+    const attempts: number = row.attempts + 1;
+    let responseStatus: number | undefined;
+    try {
+      const hook = await scheduleDB.queryRow`
+        SELECT url, secret, is_active FROM webhooks WHERE id = ${row.webhook_id}
+      `;
+      if (!hook?.is_active) {
+        throw new Error("webhook is disabled");
+      }
+
+      const timestamp = Math.floor(Date.now() / 1000);
+      const response = await fetch(hook.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "stomp-scheduler-webhooks",
+          "X-Webhook-Event": row.event,
+          "X-Webhook-Delivery": row.id,
+          "X-Webhook-Timestamp": String(timestamp),
+          "X-Webhook-Signature": signWebhookPayload(hook.secret, timestamp, row.payload)
+        },
+        body: row.payload,
+        redirect: "manual",
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+      responseStatus = response.status;
+      await response.body?.cancel();
+      if (!response.ok) {
+        throw new Error(`receiver answered ${response.status} ${response.statusText}`.trim());
+      }
+
+      await scheduleDB.exec`
+        UPDATE webhook_deliveries
+        SET status = 'succeeded', attempts = ${attempts}, response_status = ${responseStatus}, last_error = NULL, delivered_at = ${new Date()}
+        WHERE id = ${row.id}
+      `;
+      succeeded++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await scheduleDB.exec`
+        UPDATE webhook_deliveries
+        SET status = ${attempts >= MAX_WEBHOOK_ATTEMPTS ? "failed" : "pending"},
+            attempts = ${attempts},
+            response_status = ${responseStatus ?? null},
+            last_error = ${message},
+            next_attempt_at = ${new Date(Date.now() + webhookRetryDelay(attempts))}
+        WHERE id = ${row.id}
+      `;
+      log.warn(error, "webhook delivery failed", { deliveryId: row.id, event: row.event, attempts });
+      failed++;
+    }
+  }
+
+  return { succeeded, failed };
+}
+
+async function getWebhookById(id: string): Promise<Webhook> {
+  const row = await scheduleDB.queryRow`
+    SELECT id, url, description, events, secret, is_active, created_at, updated_at
+    FROM webhooks
+    WHERE id = ${id}
+  `;
+  if (!row) {
+    throw APIError.notFound("webhook not found");
+  }
+  return toWebhook(row);
+}
+
+function validateUrl(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw APIError.invalidArgument(`${value} is not a valid URL`);
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw APIError.invalidArgument("webhook URLs must use http or https");
+  }
+  return url.toString();
+}
+
+function validateEvents(events: string[]): WebhookEvent[] {
+  if (!events?.length) {
+    throw APIError.invalidArgument("choose at least one event");
+  }
+  const unknown = events.filter(event => !isWebhookEvent(event));
+  if (unknown.length > 0) {
+    throw APIError.invalidArgument(`unknown event ${unknown.join(", ")}`);
+  }
+  return [...new Set(events)] as WebhookEvent[];
+}
+
+function toWebhook(row: Record<string, any>): Webhook {
+  return {
+    id: row.id,
+    url: row.url,
+    description: row.description ?? undefined,
+    events: JSON.parse(row.events) as WebhookEvent[],
+    secret: row.secret,
+    isActive: row.is_active,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  };
+}
+
+function toDelivery(row: Record<string, any>): WebhookDelivery {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    eventId: row.event_id,
+    event: row.event as WebhookEvent,
+    payload: row.payload,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts,
+    responseStatus: row.response_status ?? undefined,
+    lastError: row.last_error ?? undefined,
+    nextAttemptAt: row.status === "pending" ? new Date(row.next_attempt_at) : undefined,
+    createdAt: new Date(row.created_at),
+    deliveredAt: row.delivered_at ? new Date(row.delivered_at) : undefined
+  };
+}
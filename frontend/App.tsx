@@ -5,7 +5,12 @@ import { Toaster } from '@/components/ui/toaster';
 import ScheduleList from './components/ScheduleList';
 import ScheduleEditor from './components/ScheduleEditor';
 import CompanyManagement from './components/CompanyManagement';
+import RuleSettings from './components/RuleSettings';
+import UserManagement from './components/UserManagement';
+import WebhookManagement from './components/WebhookManagement';
+import MyPortal from './components/MyPortal';
 import { AppHeader } from './components/AppHeader';
+import { AuthProvider, useAuth } from './components/AuthProvider';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -20,7 +25,9 @@ export default function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <Router>
-        <AppInner />
+        <AuthProvider>
+          <AppInner />
+        </AuthProvider>
       </Router>
       <Toaster />
     </QueryClientProvider>
@@ -28,15 +35,23 @@ export default function App() {
 }
 
 function AppInner() {
+  const { user, can } = useAuth();
+  // Performers land on their own calls rather than the manager's schedule list
+  const isPerformer = user.role === 'cast_member';
+
   return (
     <div className="min-h-screen bg-gray-50">
       <AppHeader />
       <main className="container mx-auto px-4 py-8">
         <Routes>
-          <Route path="/" element={<ScheduleList />} />
-          <Route path="/schedule/new" element={<ScheduleEditor />} />
-          <Route path="/schedule/:id" element={<ScheduleEditor />} />
-          <Route path="/company" element={<CompanyManagement />} />
+          <Route path="/" element={isPerformer ? <Navigate to="/me" replace /> : <ScheduleList />} />
+          <Route path="/me" element={<MyPortal />} />
+          {can('schedules.edit') && <Route path="/schedule/new" element={<ScheduleEditor />} />}
+          {can('schedules.view') && <Route path="/schedule/:id" element={<ScheduleEditor />} />}
+          {can('company.manage') && <Route path="/company" element={<CompanyManagement />} />}
+          {can('company.manage') && <Route path="/settings/rules" element={<RuleSettings />} />}
+          {can('users.manage') && <Route path="/users" element={<UserManagement />} />}
+          {can('integrations.manage') && <Route path="/settings/webhooks" element={<WebhookManagement />} />}
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </main>
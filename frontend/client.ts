@@ -77,12 +77,37 @@ export interface ClientOptions {
 
     /** Default RequestInit to be used for the client */
     requestInit?: Omit<RequestInit, "headers"> & { headers?: Record<string, string> }
+
+    /**
+     * Allows you to set the authentication data to be used for each
+     * request either by passing in a static object or by passing in
+     * a function which returns a new object for each request.
+     */
+    auth?: RequestType<typeof api_scheduler_auth_auth> | AuthDataGenerator
 }
 
 /**
  * Import the endpoint handlers to derive the types for the client.
  */
+import { generateAlternatives as api_scheduler_alternatives_generateAlternatives } from "~backend/scheduler/alternatives";
+import {
+    auth as api_scheduler_auth_auth,
+    authStatus as api_scheduler_auth_authStatus,
+    currentUser as api_scheduler_auth_currentUser,
+    login as api_scheduler_auth_login,
+    setupAdmin as api_scheduler_auth_setupAdmin
+} from "~backend/scheduler/auth";
 import { autoGenerate as api_scheduler_auto_generate_autoGenerate } from "~backend/scheduler/auto_generate";
+import {
+    addAvailability as api_scheduler_availability_addAvailability,
+    deleteAvailability as api_scheduler_availability_deleteAvailability,
+    listAvailability as api_scheduler_availability_listAvailability,
+    updateAvailability as api_scheduler_availability_updateAvailability
+} from "~backend/scheduler/availability";
+import {
+    getCalendarFeed as api_scheduler_calendar_feed_getCalendarFeed,
+    issueCalendarFeed as api_scheduler_calendar_feed_issueCalendarFeed
+} from "~backend/scheduler/calendar_feed";
 import { getCastMembers as api_scheduler_cast_members_getCastMembers } from "~backend/scheduler/cast_members";
 import {
     addMember as api_scheduler_company_addMember,
@@ -93,12 +118,68 @@ import {
 } from "~backend/scheduler/company";
 import { create as api_scheduler_create_create } from "~backend/scheduler/create";
 import { deleteSchedule as api_scheduler_delete_deleteSchedule } from "~backend/scheduler/delete";
+import {
+    generateCallSheet as api_scheduler_export_generateCallSheet,
+    generateUtilizationReport as api_scheduler_export_generateUtilizationReport,
+    getExportData as api_scheduler_export_getExportData
+} from "~backend/scheduler/export";
 import { get as api_scheduler_get_get } from "~backend/scheduler/get";
+import {
+    getInbox as api_scheduler_inbox_getInbox,
+    markInboxRead as api_scheduler_inbox_markInboxRead
+} from "~backend/scheduler/inbox";
 import { list as api_scheduler_list_list } from "~backend/scheduler/list";
+import {
+    getMyAvailability as api_scheduler_me_getMyAvailability,
+    getMySchedule as api_scheduler_me_getMySchedule,
+    requestTimeOff as api_scheduler_me_requestTimeOff,
+    updateMyRedDayPreferences as api_scheduler_me_updateMyRedDayPreferences
+} from "~backend/scheduler/me";
+import { issuePdfLink as api_scheduler_pdf_export_issuePdfLink } from "~backend/scheduler/pdf_export";
+import {
+    applyReplacement as api_scheduler_replacements_applyReplacement,
+    findReplacements as api_scheduler_replacements_findReplacements
+} from "~backend/scheduler/replacements";
+import { getRoleHistory as api_scheduler_role_history_getRoleHistory } from "~backend/scheduler/role_history";
+import {
+    addRole as api_scheduler_roles_addRole,
+    deleteRole as api_scheduler_roles_deleteRole,
+    listRoles as api_scheduler_roles_listRoles,
+    updateRole as api_scheduler_roles_updateRole
+} from "~backend/scheduler/roles";
+import {
+    createRuleSet as api_scheduler_rule_sets_createRuleSet,
+    deleteRuleSet as api_scheduler_rule_sets_deleteRuleSet,
+    listRuleSets as api_scheduler_rule_sets_listRuleSets,
+    updateRuleSet as api_scheduler_rule_sets_updateRuleSet
+} from "~backend/scheduler/rule_sets";
+import {
+    lockSchedule as api_scheduler_schedule_status_lockSchedule,
+    publishSchedule as api_scheduler_schedule_status_publishSchedule,
+    unlockSchedule as api_scheduler_schedule_status_unlockSchedule,
+    unpublishSchedule as api_scheduler_schedule_status_unpublishSchedule
+} from "~backend/scheduler/schedule_status";
+import { generateSeason as api_scheduler_season_generateSeason } from "~backend/scheduler/season";
 import { toggleRedDay as api_scheduler_toggle_red_day_toggleRedDay } from "~backend/scheduler/toggle_red_day";
 import { update as api_scheduler_update_update } from "~backend/scheduler/update";
+import {
+    createUser as api_scheduler_users_createUser,
+    listUsers as api_scheduler_users_listUsers,
+    updateUser as api_scheduler_users_updateUser
+} from "~backend/scheduler/users";
 import { validate as api_scheduler_validate_validate } from "~backend/scheduler/validate";
 import { validateComprehensive as api_scheduler_validate_comprehensive_validateComprehensive } from "~backend/scheduler/validate_comprehensive";
+import {
+    diffVersions as api_scheduler_versions_diffVersions,
+    listVersions as api_scheduler_versions_listVersions,
+    restoreVersion as api_scheduler_versions_restoreVersion
+} from "~backend/scheduler/versions";
+import {
+    createWebhook as api_scheduler_webhooks_createWebhook,
+    listWebhookDeliveries as api_scheduler_webhooks_listWebhookDeliveries,
+    listWebhooks as api_scheduler_webhooks_listWebhooks,
+    updateWebhook as api_scheduler_webhooks_updateWebhook
+} from "~backend/scheduler/webhooks";
 
 export namespace scheduler {
 
@@ -107,21 +188,82 @@ export namespace scheduler {
 
         constructor(baseClient: BaseClient) {
             this.baseClient = baseClient
+            this.addAvailability = this.addAvailability.bind(this)
             this.addMember = this.addMember.bind(this)
+            this.addRole = this.addRole.bind(this)
+            this.applyReplacement = this.applyReplacement.bind(this)
+            this.authStatus = this.authStatus.bind(this)
             this.autoGenerate = this.autoGenerate.bind(this)
             this.create = this.create.bind(this)
+            this.createRuleSet = this.createRuleSet.bind(this)
+            this.createUser = this.createUser.bind(this)
+            this.createWebhook = this.createWebhook.bind(this)
+            this.currentUser = this.currentUser.bind(this)
+            this.deleteAvailability = this.deleteAvailability.bind(this)
             this.deleteMember = this.deleteMember.bind(this)
+            this.deleteRole = this.deleteRole.bind(this)
+            this.deleteRuleSet = this.deleteRuleSet.bind(this)
             this.deleteSchedule = this.deleteSchedule.bind(this)
+            this.deleteUser = this.deleteUser.bind(this)
+            this.deleteWebhook = this.deleteWebhook.bind(this)
+            this.diffVersions = this.diffVersions.bind(this)
+            this.findReplacements = this.findReplacements.bind(this)
+            this.generateAlternatives = this.generateAlternatives.bind(this)
+            this.generateCallSheet = this.generateCallSheet.bind(this)
+            this.generateSeason = this.generateSeason.bind(this)
+            this.generateUtilizationReport = this.generateUtilizationReport.bind(this)
             this.get = this.get.bind(this)
+            this.getCalendarFeed = this.getCalendarFeed.bind(this)
             this.getCastMembers = this.getCastMembers.bind(this)
             this.getCompany = this.getCompany.bind(this)
+            this.getExportData = this.getExportData.bind(this)
+            this.getInbox = this.getInbox.bind(this)
+            this.getMyAvailability = this.getMyAvailability.bind(this)
+            this.getMySchedule = this.getMySchedule.bind(this)
+            this.getRoleHistory = this.getRoleHistory.bind(this)
+            this.issueCalendarFeed = this.issueCalendarFeed.bind(this)
+            this.issuePdfLink = this.issuePdfLink.bind(this)
             this.list = this.list.bind(this)
+            this.listAvailability = this.listAvailability.bind(this)
+            this.listRoles = this.listRoles.bind(this)
+            this.listRuleSets = this.listRuleSets.bind(this)
+            this.listUsers = this.listUsers.bind(this)
+            this.listVersions = this.listVersions.bind(this)
+            this.listWebhookDeliveries = this.listWebhookDeliveries.bind(this)
+            this.listWebhooks = this.listWebhooks.bind(this)
+            this.lockSchedule = this.lockSchedule.bind(this)
+            this.login = this.login.bind(this)
+            this.logout = this.logout.bind(this)
+            this.markInboxRead = this.markInboxRead.bind(this)
+            this.publishSchedule = this.publishSchedule.bind(this)
             this.reorderMembers = this.reorderMembers.bind(this)
+            this.requestTimeOff = this.requestTimeOff.bind(this)
+            this.restoreVersion = this.restoreVersion.bind(this)
+            this.revokeCalendarFeed = this.revokeCalendarFeed.bind(this)
+            this.setupAdmin = this.setupAdmin.bind(this)
             this.toggleRedDay = this.toggleRedDay.bind(this)
+            this.unlockSchedule = this.unlockSchedule.bind(this)
+            this.unpublishSchedule = this.unpublishSchedule.bind(this)
             this.update = this.update.bind(this)
+            this.updateAvailability = this.updateAvailability.bind(this)
             this.updateMember = this.updateMember.bind(this)
+            this.updateMyRedDayPreferences = this.updateMyRedDayPreferences.bind(this)
+            this.updateRole = this.updateRole.bind(this)
+            this.updateRuleSet = this.updateRuleSet.bind(this)
+            this.updateUser = this.updateUser.bind(this)
+            this.updateWebhook = this.updateWebhook.bind(this)
             this.validate = this.validate.bind(this)
             this.validateComprehensive = this.validateComprehensive.bind(this)
+            this.withdrawTimeOff = this.withdrawTimeOff.bind(this)
+        }
+
+        /**
+         * Records a period in which a performer cannot be scheduled.
+         */
+        public async addAvailability(params: RequestType<typeof api_scheduler_availability_addAvailability>): Promise<ResponseType<typeof api_scheduler_availability_addAvailability>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/company/availability`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_availability_addAvailability>
         }
 
         /**
@@ -133,6 +275,40 @@ export namespace scheduler {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_company_addMember>
         }
 
+        /**
+         * Adds a role to the end of the catalog.
+         */
+        public async addRole(params: RequestType<typeof api_scheduler_roles_addRole>): Promise<ResponseType<typeof api_scheduler_roles_addRole>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/roles`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_roles_addRole>
+        }
+
+        /**
+         * Applies a replacement plan to a saved schedule.
+         */
+        public async applyReplacement(params: RequestType<typeof api_scheduler_replacements_applyReplacement>): Promise<ResponseType<typeof api_scheduler_replacements_applyReplacement>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                changeReason: params.changeReason,
+                changes:      params.changes,
+                revision:     params.revision,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}/replacements`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_replacements_applyReplacement>
+        }
+
+        /**
+         * Tells the login page whether to offer first-time setup instead.
+         */
+        public async authStatus(): Promise<ResponseType<typeof api_scheduler_auth_authStatus>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/status`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_auth_authStatus>
+        }
+
         /**
          * Generates optimal cast assignments for the given shows using constraint satisfaction.
          */
@@ -151,6 +327,49 @@ export namespace scheduler {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_create_create>
         }
 
+        /**
+         * Creates a rule set for a production's location.
+         */
+        public async createRuleSet(params: RequestType<typeof api_scheduler_rule_sets_createRuleSet>): Promise<ResponseType<typeof api_scheduler_rule_sets_createRuleSet>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/rule-sets`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_rule_sets_createRuleSet>
+        }
+
+        /**
+         * Creates a user account.
+         */
+        public async createUser(params: RequestType<typeof api_scheduler_users_createUser>): Promise<ResponseType<typeof api_scheduler_users_createUser>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/users`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_users_createUser>
+        }
+
+        /**
+         * Registers a webhook with a fresh signing secret.
+         */
+        public async createWebhook(params: RequestType<typeof api_scheduler_webhooks_createWebhook>): Promise<ResponseType<typeof api_scheduler_webhooks_createWebhook>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/webhooks`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_webhooks_createWebhook>
+        }
+
+        /**
+         * Gets the signed-in user.
+         */
+        public async currentUser(): Promise<ResponseType<typeof api_scheduler_auth_currentUser>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/me`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_auth_currentUser>
+        }
+
+        /**
+         * Deletes a recorded unavailability period.
+         */
+        public async deleteAvailability(params: { id: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/company/availability/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+        }
+
         /**
          * Deletes a cast member permanently.
          */
@@ -158,6 +377,21 @@ export namespace scheduler {
             await this.baseClient.callTypedAPI(`/company/members/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
         }
 
+        /**
+         * Removes a role from the catalog and from every member's eligible roles.
+         * Existing schedules keep their assignments for the role.
+         */
+        public async deleteRole(params: { name: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/roles/${encodeURIComponent(params.name)}`, {method: "DELETE", body: undefined})
+        }
+
+        /**
+         * Deletes a location's rule set; its schedules fall back to the default rules.
+         */
+        public async deleteRuleSet(params: { id: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/rule-sets/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+        }
+
         /**
          * Deletes a schedule.
          */
@@ -165,6 +399,88 @@ export namespace scheduler {
             await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
         }
 
+        /**
+         * Deletes a user account.
+         */
+        public async deleteUser(params: { id: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/users/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+        }
+
+        /**
+         * Deletes a webhook and its delivery log.
+         */
+        public async deleteWebhook(params: { id: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/webhooks/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+        }
+
+        /**
+         * Compares two versions of a schedule cell by cell.
+         */
+        public async diffVersions(params: RequestType<typeof api_scheduler_versions_diffVersions>): Promise<ResponseType<typeof api_scheduler_versions_diffVersions>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                from: String(params.from),
+                to:   params.to === undefined ? undefined : String(params.to),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}/versions/diff`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_versions_diffVersions>
+        }
+
+        /**
+         * Finds ranked replacement plans for a performer dropping out of shows.
+         */
+        public async findReplacements(params: RequestType<typeof api_scheduler_replacements_findReplacements>): Promise<ResponseType<typeof api_scheduler_replacements_findReplacements>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                maxSteps:    params.maxSteps,
+                performer:   params.performer,
+                performerId: params.performerId,
+                showIds:     params.showIds,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}/replacements`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_replacements_findReplacements>
+        }
+
+        /**
+         * Generates several distinct schedules for the same shows, best scoring first.
+         */
+        public async generateAlternatives(params: RequestType<typeof api_scheduler_alternatives_generateAlternatives>): Promise<ResponseType<typeof api_scheduler_alternatives_generateAlternatives>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/alternatives`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_alternatives_generateAlternatives>
+        }
+
+        /**
+         * Generates one performer's call sheet for a schedule.
+         */
+        public async generateCallSheet(params: { id: string, performer: string }): Promise<ResponseType<typeof api_scheduler_export_generateCallSheet>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}/callsheet/${encodeURIComponent(params.performer)}`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_export_generateCallSheet>
+        }
+
+        /**
+         * Generates and saves consecutive weeks, carrying limits across each week boundary.
+         */
+        public async generateSeason(params: RequestType<typeof api_scheduler_season_generateSeason>): Promise<ResponseType<typeof api_scheduler_season_generateSeason>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/season`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_season_generateSeason>
+        }
+
+        /**
+         * Generates the utilization report for a schedule: shows played per performer and coverage per role.
+         */
+        public async generateUtilizationReport(params: { id: string }): Promise<ResponseType<typeof api_scheduler_export_generateUtilizationReport>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}/utilization`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_export_generateUtilizationReport>
+        }
+
         /**
          * Retrieves a schedule by ID.
          */
@@ -174,6 +490,15 @@ export namespace scheduler {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_get_get>
         }
 
+        /**
+         * Gets a member's calendar feed, if one has been issued.
+         */
+        public async getCalendarFeed(params: { id: string }): Promise<ResponseType<typeof api_scheduler_calendar_feed_getCalendarFeed>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/company/members/${encodeURIComponent(params.id)}/calendar-feed`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_calendar_feed_getCalendarFeed>
+        }
+
         /**
          * Retrieves all cast members and their role eligibility from the company management system.
          */
@@ -192,6 +517,75 @@ export namespace scheduler {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_company_getCompany>
         }
 
+        /**
+         * Gets a schedule with the cast and roles needed to export it.
+         */
+        public async getExportData(params: { id: string }): Promise<ResponseType<typeof api_scheduler_export_getExportData>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}/export`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_export_getExportData>
+        }
+
+        /**
+         * Lists the signed-in user's latest inbox messages.
+         */
+        public async getInbox(): Promise<ResponseType<typeof api_scheduler_inbox_getInbox>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/me/inbox`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_inbox_getInbox>
+        }
+
+        /**
+         * Lists the signed-in performer's time off and requests, in date order.
+         */
+        public async getMyAvailability(): Promise<ResponseType<typeof api_scheduler_me_getMyAvailability>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/me/availability`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_me_getMyAvailability>
+        }
+
+        /**
+         * Gets the signed-in performer's upcoming calls, roles, RED days and covers.
+         */
+        public async getMySchedule(): Promise<ResponseType<typeof api_scheduler_me_getMySchedule>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/me/schedule`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_me_getMySchedule>
+        }
+
+        /**
+         * Gets the roles each performer played in the weeks before the given shows.
+         */
+        public async getRoleHistory(params: RequestType<typeof api_scheduler_role_history_getRoleHistory>): Promise<ResponseType<typeof api_scheduler_role_history_getRoleHistory>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/role-history`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_role_history_getRoleHistory>
+        }
+
+        /**
+         * Issues a new calendar feed URL for a member; any earlier URL stops working.
+         */
+        public async issueCalendarFeed(params: { id: string }): Promise<ResponseType<typeof api_scheduler_calendar_feed_issueCalendarFeed>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/company/members/${encodeURIComponent(params.id)}/calendar-feed`, {method: "POST", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_calendar_feed_issueCalendarFeed>
+        }
+
+        /**
+         * Issues a link to a schedule, call sheet or utilization PDF that opens without signing in until it expires.
+         */
+        public async issuePdfLink(params: RequestType<typeof api_scheduler_pdf_export_issuePdfLink>): Promise<ResponseType<typeof api_scheduler_pdf_export_issuePdfLink>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                kind:      params.kind,
+                performer: params.performer,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}/pdf-links`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_pdf_export_issuePdfLink>
+        }
+
         /**
          * Retrieves all schedules, ordered by creation date (latest first).
          */
@@ -201,6 +595,130 @@ export namespace scheduler {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_list_list>
         }
 
+        /**
+         * Lists recorded unavailability, optionally filtered by member, date range and status.
+         */
+        public async listAvailability(params: RequestType<typeof api_scheduler_availability_listAvailability>): Promise<ResponseType<typeof api_scheduler_availability_listAvailability>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                from:     params.from,
+                memberId: params.memberId,
+                status:   params.status === undefined ? undefined : String(params.status),
+                to:       params.to,
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/company/availability`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_availability_listAvailability>
+        }
+
+        /**
+         * Retrieves the role catalog.
+         */
+        public async listRoles(): Promise<ResponseType<typeof api_scheduler_roles_listRoles>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/roles`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_roles_listRoles>
+        }
+
+        /**
+         * Retrieves every rule set, default first.
+         */
+        public async listRuleSets(): Promise<ResponseType<typeof api_scheduler_rule_sets_listRuleSets>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/rule-sets`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_rule_sets_listRuleSets>
+        }
+
+        /**
+         * Lists all user accounts.
+         */
+        public async listUsers(): Promise<ResponseType<typeof api_scheduler_users_listUsers>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/users`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_users_listUsers>
+        }
+
+        /**
+         * Lists the saved versions of a schedule.
+         */
+        public async listVersions(params: { id: string }): Promise<ResponseType<typeof api_scheduler_versions_listVersions>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}/versions`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_versions_listVersions>
+        }
+
+        /**
+         * Lists a webhook's latest deliveries with their outcome.
+         */
+        public async listWebhookDeliveries(params: { id: string }): Promise<ResponseType<typeof api_scheduler_webhooks_listWebhookDeliveries>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/webhooks/${encodeURIComponent(params.id)}/deliveries`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_webhooks_listWebhookDeliveries>
+        }
+
+        /**
+         * Lists the registered webhooks.
+         */
+        public async listWebhooks(): Promise<ResponseType<typeof api_scheduler_webhooks_listWebhooks>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/webhooks`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_webhooks_listWebhooks>
+        }
+
+        /**
+         * Locks a published schedule so it can no longer be edited.
+         */
+        public async lockSchedule(params: RequestType<typeof api_scheduler_schedule_status_lockSchedule>): Promise<ResponseType<typeof api_scheduler_schedule_status_lockSchedule>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                revision: params.revision,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}/lock`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_schedule_status_lockSchedule>
+        }
+
+        /**
+         * Signs in with a username and password.
+         */
+        public async login(params: RequestType<typeof api_scheduler_auth_login>): Promise<ResponseType<typeof api_scheduler_auth_login>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/login`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_auth_login>
+        }
+
+        /**
+         * Signs out, ending the current session.
+         */
+        public async logout(): Promise<void> {
+            await this.baseClient.callTypedAPI(`/auth/logout`, {method: "POST", body: undefined})
+        }
+
+        /**
+         * Marks messages in the signed-in user's inbox as read.
+         */
+        public async markInboxRead(params: RequestType<typeof api_scheduler_inbox_markInboxRead>): Promise<ResponseType<typeof api_scheduler_inbox_markInboxRead>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/me/inbox/read`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_inbox_markInboxRead>
+        }
+
+        /**
+         * Publishes a draft schedule as the cast's call board, refusing schedules that break the rules.
+         */
+        public async publishSchedule(params: RequestType<typeof api_scheduler_schedule_status_publishSchedule>): Promise<ResponseType<typeof api_scheduler_schedule_status_publishSchedule>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                revision: params.revision,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}/publish`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_schedule_status_publishSchedule>
+        }
+
         /**
          * Reorders the current company members.
          */
@@ -208,14 +726,57 @@ export namespace scheduler {
             await this.baseClient.callTypedAPI(`/company/reorder`, {method: "PUT", body: JSON.stringify(params)})
         }
 
+        /**
+         * Asks for time off. Requests stay pending until a company manager approves them.
+         */
+        public async requestTimeOff(params: RequestType<typeof api_scheduler_me_requestTimeOff>): Promise<ResponseType<typeof api_scheduler_me_requestTimeOff>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/me/availability`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_me_requestTimeOff>
+        }
+
+        /**
+         * Restores a schedule to an earlier version, recording the restore as a new version.
+         */
+        public async restoreVersion(params: RequestType<typeof api_scheduler_versions_restoreVersion>): Promise<ResponseType<typeof api_scheduler_versions_restoreVersion>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                changeReason: params.changeReason,
+                revision:     params.revision,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}/versions/${encodeURIComponent(params.version)}/restore`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_versions_restoreVersion>
+        }
+
+        /**
+         * Revokes a member's calendar feed.
+         */
+        public async revokeCalendarFeed(params: { id: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/company/members/${encodeURIComponent(params.id)}/calendar-feed`, {method: "DELETE", body: undefined})
+        }
+
+        /**
+         * Creates the first admin account. Only works while no accounts exist.
+         */
+        public async setupAdmin(params: RequestType<typeof api_scheduler_auth_setupAdmin>): Promise<ResponseType<typeof api_scheduler_auth_setupAdmin>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/setup`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_auth_setupAdmin>
+        }
+
         /**
          * Toggles the RED day status for a performer for an entire date.
          */
         public async toggleRedDay(params: RequestType<typeof api_scheduler_toggle_red_day_toggleRedDay>): Promise<ResponseType<typeof api_scheduler_toggle_red_day_toggleRedDay>> {
             // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
             const body: Record<string, any> = {
-                date:      params.date,
-                performer: params.performer,
+                changeReason: params.changeReason,
+                date:         params.date,
+                performer:    params.performer,
+                performerId:  params.performerId,
+                revision:     params.revision,
             }
 
             // Now make the actual call to the API
@@ -223,16 +784,47 @@ export namespace scheduler {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_toggle_red_day_toggleRedDay>
         }
 
+        /**
+         * Unlocks a locked schedule, leaving it published.
+         */
+        public async unlockSchedule(params: RequestType<typeof api_scheduler_schedule_status_unlockSchedule>): Promise<ResponseType<typeof api_scheduler_schedule_status_unlockSchedule>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                revision: params.revision,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}/unlock`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_schedule_status_unlockSchedule>
+        }
+
+        /**
+         * Takes a published schedule back to draft.
+         */
+        public async unpublishSchedule(params: RequestType<typeof api_scheduler_schedule_status_unpublishSchedule>): Promise<ResponseType<typeof api_scheduler_schedule_status_unpublishSchedule>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                revision: params.revision,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedules/${encodeURIComponent(params.id)}/unpublish`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_schedule_status_unpublishSchedule>
+        }
+
         /**
          * Updates a schedule.
          */
         public async update(params: RequestType<typeof api_scheduler_update_update>): Promise<ResponseType<typeof api_scheduler_update_update>> {
             // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
             const body: Record<string, any> = {
-                assignments: params.assignments,
-                location:    params.location,
-                shows:       params.shows,
-                week:        params.week,
+                assignments:  params.assignments,
+                changeReason: params.changeReason,
+                location:     params.location,
+                revision:     params.revision,
+                seed:         params.seed,
+                shows:        params.shows,
+                week:         params.week,
             }
 
             // Now make the actual call to the API
@@ -240,16 +832,38 @@ export namespace scheduler {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_update_update>
         }
 
+        /**
+         * Updates a recorded unavailability period, e.g. to approve or decline a request.
+         */
+        public async updateAvailability(params: RequestType<typeof api_scheduler_availability_updateAvailability>): Promise<ResponseType<typeof api_scheduler_availability_updateAvailability>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                endDate:   params.endDate,
+                endTime:   params.endTime,
+                note:      params.note,
+                startDate: params.startDate,
+                startTime: params.startTime,
+                status:    params.status,
+                type:      params.type,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/company/availability/${encodeURIComponent(params.id)}`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_availability_updateAvailability>
+        }
+
         /**
          * Updates an existing cast member.
          */
         public async updateMember(params: RequestType<typeof api_scheduler_company_updateMember>): Promise<ResponseType<typeof api_scheduler_company_updateMember>> {
             // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
             const body: Record<string, any> = {
-                eligibleRoles: params.eligibleRoles,
-                name:          params.name,
-                order:         params.order,
-                status:        params.status,
+                eligibleRoles:    params.eligibleRoles,
+                name:             params.name,
+                order:            params.order,
+                preferredRedDays: params.preferredRedDays,
+                rolePreferences:  params.rolePreferences,
+                status:           params.status,
             }
 
             // Now make the actual call to the API
@@ -257,6 +871,86 @@ export namespace scheduler {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_company_updateMember>
         }
 
+        /**
+         * Sets the weekdays the signed-in performer would like as RED days.
+         */
+        public async updateMyRedDayPreferences(params: RequestType<typeof api_scheduler_me_updateMyRedDayPreferences>): Promise<ResponseType<typeof api_scheduler_me_updateMyRedDayPreferences>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/me/red-day-preferences`, {method: "PUT", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_me_updateMyRedDayPreferences>
+        }
+
+        /**
+         * Updates a role's description, colour, requirement flags or position.
+         */
+        public async updateRole(params: RequestType<typeof api_scheduler_roles_updateRole>): Promise<ResponseType<typeof api_scheduler_roles_updateRole>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                color:       params.color,
+                description: params.description,
+                femaleOnly:  params.femaleOnly,
+                isRequired:  params.isRequired,
+                order:       params.order,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/roles/${encodeURIComponent(params.name)}`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_roles_updateRole>
+        }
+
+        /**
+         * Updates a rule set's name, location or rule values.
+         */
+        public async updateRuleSet(params: RequestType<typeof api_scheduler_rule_sets_updateRuleSet>): Promise<ResponseType<typeof api_scheduler_rule_sets_updateRuleSet>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                location: params.location,
+                name:     params.name,
+                rules:    params.rules,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/rule-sets/${encodeURIComponent(params.id)}`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_rule_sets_updateRuleSet>
+        }
+
+        /**
+         * Updates a user's details, role, status or password.
+         */
+        public async updateUser(params: RequestType<typeof api_scheduler_users_updateUser>): Promise<ResponseType<typeof api_scheduler_users_updateUser>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                displayName: params.displayName,
+                email:       params.email,
+                isActive:    params.isActive,
+                memberId:    params.memberId,
+                password:    params.password,
+                role:        params.role,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/users/${encodeURIComponent(params.id)}`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_users_updateUser>
+        }
+
+        /**
+         * Updates a webhook's address, events or status, or rotates its secret.
+         */
+        public async updateWebhook(params: RequestType<typeof api_scheduler_webhooks_updateWebhook>): Promise<ResponseType<typeof api_scheduler_webhooks_updateWebhook>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                description:  params.description,
+                events:       params.events,
+                isActive:     params.isActive,
+                rotateSecret: params.rotateSecret,
+                url:          params.url,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/webhooks/${encodeURIComponent(params.id)}`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_webhooks_updateWebhook>
+        }
+
         /**
          * Validates a schedule against all constraints and business rules.
          */
@@ -274,6 +968,12 @@ export namespace scheduler {
             const resp = await this.baseClient.callTypedAPI(`/schedules/validate-comprehensive`, {method: "POST", body: JSON.stringify(params)})
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_scheduler_validate_comprehensive_validateComprehensive>
         }
+        /**
+         * Withdraws one of the signed-in performer's pending time-off requests.
+         */
+        public async withdrawTimeOff(params: { id: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/me/availability/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+        }
     }
 }
 
@@ -535,6 +1235,12 @@ type CallParameters = Omit<RequestInit, "headers"> & {
 // A fetcher is the prototype for the inbuilt Fetch function
 export type Fetcher = typeof fetch;
 
+// AuthDataGenerator is a function that returns a new instance of the authentication data required by this API
+export type AuthDataGenerator = () =>
+  | RequestType<typeof api_scheduler_auth_auth>
+  | Promise<RequestType<typeof api_scheduler_auth_auth> | undefined>
+  | undefined;
+
 const boundFetch = fetch.bind(this);
 
 class BaseClient {
@@ -542,6 +1248,7 @@ class BaseClient {
     readonly fetcher: Fetcher
     readonly headers: Record<string, string>
     readonly requestInit: Omit<RequestInit, "headers"> & { headers?: Record<string, string> }
+    readonly authGenerator?: AuthDataGenerator
 
     constructor(baseURL: string, options: ClientOptions) {
         this.baseURL = baseURL
@@ -561,9 +1268,41 @@ class BaseClient {
         } else {
             this.fetcher = boundFetch
         }
+
+        // Setup an authentication data generator using the auth data token option
+        if (options.auth !== undefined) {
+            const auth = options.auth
+            if (typeof auth === "function") {
+                this.authGenerator = auth
+            } else {
+                this.authGenerator = () => auth
+            }
+        }
     }
 
     async getAuthData(): Promise<CallParameters | undefined> {
+        let authData: RequestType<typeof api_scheduler_auth_auth> | undefined;
+
+        // If authorization data generator is present, call it and add the returned data to the request
+        if (this.authGenerator) {
+            const mayBePromise = this.authGenerator();
+            if (mayBePromise instanceof Promise) {
+                authData = await mayBePromise;
+            } else {
+                authData = mayBePromise;
+            }
+        }
+
+        if (authData) {
+            const data: CallParameters = {};
+
+            data.headers = makeRecord<string, string>({
+                authorization: authData.authorization,
+            });
+
+            return data;
+        }
+
         return undefined;
     }
 
@@ -970,4 +1709,11 @@ export enum ErrCode {
     Unauthenticated = "unauthenticated",
 }
 
-export default new Client(import.meta.env.VITE_CLIENT_TARGET, { requestInit: { credentials: "include" } });
+export default new Client(import.meta.env.VITE_CLIENT_TARGET, {
+    requestInit: { credentials: "include" },
+    // Session token saved at sign-in by utils/access.ts
+    auth: () => {
+        const token = localStorage.getItem("stomp.sessionToken");
+        return token ? { authorization: `Bearer ${token}` } : undefined;
+    },
+});
@@ -1,13 +1,22 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Calendar, Home, Plus, Users } from 'lucide-react';
+import { Calendar, CalendarCheck, Home, LogOut, Plus, ShieldCheck, SlidersHorizontal, Users, Webhook } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { useAuth } from './AuthProvider';
+import { InboxMenu } from './InboxMenu';
+import { ROLE_LABELS } from '../utils/access';
 
 export function AppHeader() {
   const location = useLocation();
+  const { user, can, signOut } = useAuth();
   const isHomePage = location.pathname === '/';
   const isEditPage = location.pathname.includes('/schedule/');
   const isCompanyPage = location.pathname === '/company';
+  const isRulesPage = location.pathname === '/settings/rules';
+  const isUsersPage = location.pathname === '/users';
+  const isWebhooksPage = location.pathname === '/settings/webhooks';
+  const isMyPage = location.pathname === '/me';
+  const isPerformer = user.role === 'cast_member';
 
   // Determine page title based on route
   const getPageTitle = () => {
@@ -17,6 +26,14 @@ export function AppHeader() {
       return 'Edit Schedule';
     } else if (location.pathname === '/company') {
       return 'Company Management';
+    } else if (isRulesPage) {
+      return 'Scheduling Rules';
+    } else if (isUsersPage) {
+      return 'Users';
+    } else if (isWebhooksPage) {
+      return 'Webhooks';
+    } else if (isMyPage) {
+      return 'My Schedule';
     }
     return 'STOMP Scheduler';
   };
@@ -26,6 +43,14 @@ export function AppHeader() {
       return 'Performance Cast Management';
     } else if (isCompanyPage) {
       return 'Manage Cast Members & Roles';
+    } else if (isRulesPage) {
+      return 'Limits per Production';
+    } else if (isUsersPage) {
+      return 'Accounts & Access';
+    } else if (isWebhooksPage) {
+      return 'Events for Outside Tools';
+    } else if (isMyPage) {
+      return 'Calls, Time Off & Calendar';
     }
     return 'Performance Cast Management';
   };
@@ -33,7 +58,7 @@ export function AppHeader() {
   return (
     <header className="bg-white border-b border-gray-200 shadow-sm">
       <div className="container mx-auto px-4 py-4">
-        <div className="flex items-center justify-between">
+        <div className="flex flex-wrap items-center justify-between gap-4">
           <Link to="/" className="flex items-center space-x-2">
             <Calendar className="h-8 w-8 text-blue-600" />
             <div>
@@ -42,8 +67,8 @@ export function AppHeader() {
             </div>
           </Link>
           
-          <div className="flex items-center space-x-4">
-            {!isHomePage && (
+          <div className="flex flex-wrap items-center gap-4">
+            {!isHomePage && !isPerformer && (
               <Button variant="outline" asChild>
                 <Link to="/" className="flex items-center space-x-2">
                   <Home className="h-4 w-4" />
@@ -52,7 +77,16 @@ export function AppHeader() {
               </Button>
             )}
             
-            {!isCompanyPage && (
+            {!isMyPage && user.memberId && (
+              <Button variant="outline" asChild>
+                <Link to="/me" className="flex items-center space-x-2">
+                  <CalendarCheck className="h-4 w-4" />
+                  <span>My Schedule</span>
+                </Link>
+              </Button>
+            )}
+            
+            {!isCompanyPage && can('company.manage') && (
               <Button variant="outline" asChild>
                 <Link to="/company" className="flex items-center space-x-2">
                   <Users className="h-4 w-4" />
@@ -61,7 +95,34 @@ export function AppHeader() {
               </Button>
             )}
             
-            {(isHomePage || isCompanyPage) && (
+            {!isRulesPage && can('company.manage') && (
+              <Button variant="outline" asChild>
+                <Link to="/settings/rules" className="flex items-center space-x-2">
+                  <SlidersHorizontal className="h-4 w-4" />
+                  <span>Rules</span>
+                </Link>
+              </Button>
+            )}
+            
+            {!isUsersPage && can('users.manage') && (
+              <Button variant="outline" asChild>
+                <Link to="/users" className="flex items-center space-x-2">
+                  <ShieldCheck className="h-4 w-4" />
+                  <span>Users</span>
+                </Link>
+              </Button>
+            )}
+            
+            {!isWebhooksPage && can('integrations.manage') && (
+              <Button variant="outline" asChild>
+                <Link to="/settings/webhooks" className="flex items-center space-x-2">
+                  <Webhook className="h-4 w-4" />
+                  <span>Webhooks</span>
+                </Link>
+              </Button>
+            )}
+            
+            {(isHomePage || isCompanyPage || isRulesPage || isUsersPage || isWebhooksPage) && can('schedules.edit') && (
               <Button asChild>
                 <Link to="/schedule/new" className="flex items-center space-x-2">
                   <Plus className="h-4 w-4" />
@@ -69,6 +130,17 @@ export function AppHeader() {
                 </Link>
               </Button>
             )}
+
+            <div className="flex items-center space-x-2 border-l border-gray-200 pl-4">
+              <InboxMenu />
+              <div className="text-right">
+                <div className="text-sm font-medium text-gray-900">{user.displayName}</div>
+                <div className="text-xs text-gray-500">{ROLE_LABELS[user.role]}</div>
+              </div>
+              <Button variant="ghost" size="icon" title="Sign out" onClick={signOut}>
+                <LogOut className="h-4 w-4" />
+              </Button>
+            </div>
           </div>
         </div>
       </div>
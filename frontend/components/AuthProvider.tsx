@@ -0,0 +1,84 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Permission } from '~backend/scheduler/access';
+import type { LoginResponse, User } from '~backend/scheduler/auth';
+import backend from '~backend/client';
+import { clearSessionToken, getSessionToken, hasPermission, setSessionToken } from '../utils/access';
+import { LoginPage } from './LoginPage';
+
+interface AuthContextValue {
+  user: User;
+  can: (permission: Permission) => boolean;
+  signOut: () => void;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function useAuth(): AuthContextValue {
+  const value = useContext(AuthContext);
+  if (!value) {
+    throw new Error('useAuth must be used inside AuthProvider');
+  }
+  return value;
+}
+
+// Shows the login page until there is a valid session, then renders the app as the signed-in user
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const queryClient = useQueryClient();
+  const [token, setToken] = useState<string | null>(() => getSessionToken());
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['current-user', token],
+    queryFn: () => backend.scheduler.currentUser(),
+    enabled: token !== null,
+    retry: false,
+    staleTime: Infinity
+  });
+
+  const expire = useCallback(() => {
+    clearSessionToken();
+    queryClient.clear();
+    setToken(null);
+  }, [queryClient]);
+
+  // Any request rejected for a missing or expired session sends the user back to sign in
+  useEffect(() => {
+    return queryClient.getQueryCache().subscribe((event) => {
+      const error = event.query.state.error as { code?: string } | null;
+      if (event.type === 'updated' && error?.code === 'unauthenticated') {
+        expire();
+      }
+    });
+  }, [queryClient, expire]);
+
+  const signIn = (response: LoginResponse) => {
+    setSessionToken(response.token);
+    queryClient.setQueryData(['current-user', response.token], { user: response.user });
+    setToken(response.token);
+  };
+
+  const signOut = () => {
+    backend.scheduler.logout().catch((error) => console.error('Failed to end session:', error));
+    expire();
+  };
+
+  if (token === null || (!isLoading && !data)) {
+    return <LoginPage onSignedIn={signIn} />;
+  }
+
+  if (!data) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-50">
+        <div className="animate-spin h-8 w-8 border-2 border-blue-600 border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  const value: AuthContextValue = {
+    user: data.user,
+    can: (permission) => hasPermission(data.user.role, permission),
+    signOut
+  };
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { CalendarX, Check, X, Trash2 } from 'lucide-react';
+import backend from '~backend/client';
+import type { CompanyMember } from '~backend/scheduler/company';
+import type { UnavailabilityType, UnavailabilityStatus } from '~backend/scheduler/types';
+import { UNAVAILABILITY_STATUS_STYLES, UNAVAILABILITY_TYPE_LABELS } from '../utils/availability';
+
+interface AvailabilityManagementProps {
+  members: CompanyMember[];
+}
+
+export default function AvailabilityManagement({ members }: AvailabilityManagementProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [memberId, setMemberId] = useState('');
+  const [type, setType] = useState<UnavailabilityType>('vacation');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [note, setNote] = useState('');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['availability'],
+    queryFn: () => backend.scheduler.listAvailability({})
+  });
+
+  const addMutation = useMutation({
+    mutationFn: () => backend.scheduler.addAvailability({
+      memberId,
+      type,
+      startDate,
+      endDate: endDate || startDate,
+      note: note.trim() || undefined
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['availability'] });
+      setStartDate('');
+      setEndDate('');
+      setNote('');
+      toast({
+        title: "Success",
+        description: "Unavailability recorded"
+      });
+    },
+    onError: (error) => {
+      console.error('Failed to add unavailability:', error);
+      toast({
+        title: "Error",
+        description: "Failed to record unavailability",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (params: { id: string; status: UnavailabilityStatus }) =>
+      backend.scheduler.updateAvailability(params),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['availability'] });
+    },
+    onError: (error) => {
+      console.error('Failed to update unavailability:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update unavailability",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => backend.scheduler.deleteAvailability({ id }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['availability'] });
+    },
+    onError: (error) => {
+      console.error('Failed to delete unavailability:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete unavailability",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleAdd = () => {
+    if (!memberId || !startDate) {
+      toast({
+        title: "Validation Error",
+        description: "Please choose a cast member and a start date",
+        variant: "destructive"
+      });
+      return;
+    }
+    addMutation.mutate();
+  };
+
+  const entries = data?.entries ?? [];
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-dashed border-blue-300 bg-blue-50">
+        <CardContent className="p-6">
+          <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
+            <Select value={memberId} onValueChange={setMemberId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Cast member..." />
+              </SelectTrigger>
+              <SelectContent>
+                {members.map(member => (
+                  <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={type} onValueChange={(value) => setType(value as UnavailabilityType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(UNAVAILABILITY_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            <Input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+            <Input placeholder="Note (optional)" value={note} onChange={(e) => setNote(e.target.value)} />
+            <Button onClick={handleAdd} disabled={addMutation.isPending}>
+              <CalendarX className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">Loading availability...</div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">No unavailability recorded</div>
+      ) : (
+        <div className="space-y-2">
+          {entries.map(entry => (
+            <Card key={entry.id}>
+              <CardContent className="p-4 flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3 flex-wrap">
+                  <span className="font-medium">{entry.performer}</span>
+                  <Badge variant="outline" className="text-xs">{UNAVAILABILITY_TYPE_LABELS[entry.type]}</Badge>
+                  <span className="text-sm text-gray-600">
+                    {entry.startDate === entry.endDate ? entry.startDate : `${entry.startDate} → ${entry.endDate}`}
+                  </span>
+                  <span className={`text-xs px-2 py-0.5 rounded ${UNAVAILABILITY_STATUS_STYLES[entry.status]}`}>{entry.status}</span>
+                  {entry.note && <span className="text-sm text-gray-500">{entry.note}</span>}
+                </div>
+                <div className="flex items-center space-x-2">
+                  {entry.status === 'pending' && (
+                    <>
+                      <Button variant="outline" size="icon" title="Approve" onClick={() => updateMutation.mutate({ id: entry.id, status: 'approved' })}>
+                        <Check className="h-4 w-4 text-green-600" />
+                      </Button>
+                      <Button variant="outline" size="icon" title="Decline" onClick={() => updateMutation.mutate({ id: entry.id, status: 'declined' })}>
+                        <X className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </>
+                  )}
+                  <Button variant="destructive" size="icon" onClick={() => deleteMutation.mutate(entry.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
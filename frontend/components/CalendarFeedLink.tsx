@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/use-toast';
+import { CalendarPlus, Copy, RefreshCw, X } from 'lucide-react';
+import backend from '~backend/client';
+
+interface CalendarFeedLinkProps {
+  memberId: string;
+  memberName: string;
+}
+
+// Subscription URL a performer adds to their phone calendar; it follows every saved change
+export function CalendarFeedLink({ memberId, memberName }: CalendarFeedLinkProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['calendar-feed', memberId],
+    queryFn: () => backend.scheduler.getCalendarFeed({ id: memberId }),
+    enabled: open
+  });
+
+  const issueMutation = useMutation({
+    mutationFn: () => backend.scheduler.issueCalendarFeed({ id: memberId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feed', memberId] });
+    },
+    onError: (error) => {
+      console.error('Failed to issue calendar feed:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create calendar link",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleIssue = () => {
+    if (data?.feed && !confirm(`Replace ${memberName}'s calendar link? Calendars subscribed to the old link stop updating.`)) {
+      return;
+    }
+    issueMutation.mutate();
+  };
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Copied",
+        description: `Send this link to ${memberName} to subscribe`
+      });
+    } catch (error) {
+      console.error('Failed to copy calendar link:', error);
+    }
+  };
+
+  if (!open) {
+    return (
+      <Button variant="outline" size="icon" title="Calendar link" onClick={() => setOpen(true)}>
+        <CalendarPlus className="h-4 w-4" />
+      </Button>
+    );
+  }
+
+  const feed = data?.feed;
+
+  return (
+    <div className="w-full space-y-2 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">Calendar link</span>
+        <Button variant="ghost" size="icon" onClick={() => setOpen(false)}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {isLoading ? (
+        <p className="text-gray-600">Loading...</p>
+      ) : feed ? (
+        <>
+          <div className="flex items-center space-x-2">
+            <Input readOnly value={feed.webcalUrl} className="text-xs" onFocus={(e) => e.currentTarget.select()} />
+            <Button variant="outline" size="icon" onClick={() => handleCopy(feed.webcalUrl)}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>{feed.lastFetchedAt ? `Last synced ${new Date(feed.lastFetchedAt).toLocaleString()}` : 'Not synced yet'}</span>
+            <Button variant="ghost" size="sm" onClick={handleIssue} disabled={issueMutation.isPending}>
+              <RefreshCw className="h-3 w-3 mr-1" />
+              New link
+            </Button>
+          </div>
+        </>
+      ) : (
+        <Button size="sm" className="w-full" onClick={handleIssue} disabled={issueMutation.isPending}>
+          Create calendar link
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -7,10 +7,13 @@ import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/components/ui/use-toast';
-import { Users, Archive, Edit3, ArrowUp, Search, UserPlus, GripVertical, Trash2, Filter } from 'lucide-react';
+import { Users, Archive, CalendarX, Edit3, ArrowUp, Search, UserPlus, GripVertical, Trash2, Filter } from 'lucide-react';
 import backend from '~backend/client';
 import type { CompanyMember, Role } from '~backend/scheduler/company';
+import type { RolePreferences } from '~backend/scheduler/types';
 import { RoleSelector } from './RoleSelector';
+import AvailabilityManagement from './AvailabilityManagement';
+import { CalendarFeedLink } from './CalendarFeedLink';
 
 export default function CompanyManagement() {
   const { toast } = useToast();
@@ -58,7 +61,7 @@ export default function CompanyManagement() {
 
   // Update member mutation
   const updateMemberMutation = useMutation({
-    mutationFn: (data: { id: string; name?: string; eligibleRoles?: Role[]; status?: "active" | "archived" }) =>
+    mutationFn: (data: { id: string; name?: string; eligibleRoles?: Role[]; rolePreferences?: RolePreferences; status?: "active" | "archived" }) =>
       backend.scheduler.updateMember(data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['company'] });
@@ -166,6 +169,17 @@ export default function CompanyManagement() {
     }
   };
 
+  const handleUpdatePreferences = async (member: CompanyMember, rolePreferences: RolePreferences) => {
+    try {
+      await updateMemberMutation.mutateAsync({
+        id: member.id,
+        rolePreferences
+      });
+    } catch (error) {
+      // Error handling is done in mutation onError
+    }
+  };
+
   const handleUpdateName = async (member: CompanyMember, name: string) => {
     if (!name.trim()) return;
     
@@ -190,7 +204,7 @@ export default function CompanyManagement() {
     );
   }
 
-  const { currentCompany = [], archive = [], roles = [] } = companyData || {};
+  const { currentCompany = [], archive = [], roles = [], roleCatalog = [] } = companyData || {};
 
   const filterMembers = (members: CompanyMember[]) => {
     return members.filter(member => {
@@ -221,6 +235,7 @@ export default function CompanyManagement() {
             <RoleSelector
               selectedRoles={newMemberRoles}
               availableRoles={roles}
+              roleCatalog={roleCatalog}
               onChange={setNewMemberRoles}
               placeholder="Select roles..."
             />
@@ -276,7 +291,7 @@ export default function CompanyManagement() {
       </Card>
 
       <Tabs defaultValue="current" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="current" className="flex items-center space-x-2">
             <Users className="h-4 w-4" />
             <span>Current ({filteredCurrentCompany.length})</span>
@@ -285,6 +300,10 @@ export default function CompanyManagement() {
             <Archive className="h-4 w-4" />
             <span>Archive ({filteredArchive.length})</span>
           </TabsTrigger>
+          <TabsTrigger value="availability" className="flex items-center space-x-2">
+            <CalendarX className="h-4 w-4" />
+            <span>Availability</span>
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="current" className="mt-6">
@@ -331,12 +350,13 @@ export default function CompanyManagement() {
                               </div>
                             )}
                             <div>
-                              <RoleSelector selectedRoles={member.eligibleRoles} availableRoles={roles} onChange={(newRoles) => handleUpdateRoles(member, newRoles)} displayMode="badges" />
+                              <RoleSelector selectedRoles={member.eligibleRoles} availableRoles={roles} roleCatalog={roleCatalog} onChange={(newRoles) => handleUpdateRoles(member, newRoles)} rolePreferences={member.rolePreferences} onPreferencesChange={(preferences) => handleUpdatePreferences(member, preferences)} displayMode="badges" />
                             </div>
                           </div>
                         </div>
-                        <div className="flex items-center space-x-2 mt-4 pt-4 border-t">
+                        <div className="flex flex-wrap items-center gap-2 mt-4 pt-4 border-t">
                           <Button variant="outline" size="sm" className="flex-1" onClick={() => handleArchiveMember(member)}>Archive</Button>
+                          <CalendarFeedLink memberId={member.id} memberName={member.name} />
                           <Button variant="destructive" size="icon" onClick={() => handleDeleteMember(member)}><Trash2 className="h-4 w-4" /></Button>
                         </div>
                       </div>
@@ -398,6 +418,10 @@ export default function CompanyManagement() {
             </div>
           </div>
         </TabsContent>
+
+        <TabsContent value="availability" className="mt-6">
+          <AvailabilityManagement members={currentCompany} />
+        </TabsContent>
       </Tabs>
     </div>
   );
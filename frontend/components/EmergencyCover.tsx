@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Siren, Search, Check, X } from 'lucide-react';
+import type { Show, Assignment, CastMember } from '~backend/scheduler/types';
+import type { ReplacementPlan } from '~backend/scheduler/emergency';
+import { formatTime, formatDate } from '../utils/dateUtils';
+import backend from '~backend/client';
+import { askChangeReason } from '../utils/scheduleLifecycle';
+
+interface EmergencyCoverProps {
+  scheduleId: string;
+  revision?: number;
+  requiresChangeReason?: boolean; // The schedule is published
+  shows: Show[];
+  assignments: Assignment[];
+  castMembers: CastMember[];
+  onApplied: (assignments: Assignment[], revision: number) => void;
+  onClose: () => void;
+}
+
+export function EmergencyCover({ scheduleId, revision, requiresChangeReason, shows, assignments, castMembers, onApplied, onClose }: EmergencyCoverProps) {
+  const { toast } = useToast();
+  const [performer, setPerformer] = useState('');
+  const [selectedShowIds, setSelectedShowIds] = useState<string[]>([]);
+  const [plans, setPlans] = useState<ReplacementPlan[] | null>(null);
+
+  const performerShows = shows.filter(show =>
+    show.status === 'show' && assignments.some(a => a.showId === show.id && a.performer === performer && a.role !== 'OFF')
+  );
+  const performersOnStage = castMembers.filter(member =>
+    assignments.some(a => a.performer === member.name && a.role !== 'OFF')
+  );
+
+  const findMutation = useMutation({
+    mutationFn: () => backend.scheduler.findReplacements({
+      id: scheduleId,
+      performer,
+      performerId: castMembers.find(member => member.name === performer)?.id,
+      showIds: selectedShowIds
+    }),
+    onSuccess: (response) => {
+      setPlans(response.plans);
+    },
+    onError: (error) => {
+      console.error('Failed to find replacements:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to find replacements",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: ({ plan, changeReason }: { plan: ReplacementPlan; changeReason?: string }) =>
+      backend.scheduler.applyReplacement({ id: scheduleId, changes: plan.changes, revision, changeReason }),
+    onSuccess: (response) => {
+      onApplied(response.assignments, response.revision);
+      toast({
+        title: "Cover Applied",
+        description: `${performer} has been replaced and the schedule saved`
+      });
+      onClose();
+    },
+    onError: (error) => {
+      console.error('Failed to apply replacement:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to apply replacement",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleApply = (plan: ReplacementPlan) => {
+    const changeReason = requiresChangeReason ? askChangeReason() : undefined;
+    if (changeReason === null) return;
+    applyMutation.mutate({ plan, changeReason });
+  };
+
+  const handlePerformerChange = (value: string) => {
+    setPerformer(value);
+    setSelectedShowIds([]);
+    setPlans(null);
+  };
+
+  const handleShowToggle = (showId: string, checked: boolean) => {
+    setSelectedShowIds(prev => checked ? [...prev, showId] : prev.filter(id => id !== showId));
+    setPlans(null);
+  };
+
+  const describeShow = (showId: string): string => {
+    const show = shows.find(s => s.id === showId);
+    return show ? `${formatDate(show.date)} ${formatTime(show.time)}` : showId;
+  };
+
+  return (
+    <div className="mb-4 p-4 border border-orange-200 bg-orange-50 rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 font-medium text-orange-800">
+          <Siren className="h-4 w-4" />
+          <span>Emergency Cover</span>
+        </div>
+        <Button variant="ghost" size="icon" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Who is out?</div>
+          <Select value={performer} onValueChange={handlePerformerChange}>
+            <SelectTrigger className="bg-white">
+              <SelectValue placeholder="Select performer..." />
+            </SelectTrigger>
+            <SelectContent>
+              {performersOnStage.map(member => (
+                <SelectItem key={member.name} value={member.name}>{member.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2 md:col-span-2">
+          <div className="text-sm font-medium">Shows they will miss</div>
+          {performer ? (
+            <div className="flex flex-wrap gap-3">
+              {performerShows.map(show => (
+                <div key={show.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`cover-${show.id}`}
+                    checked={selectedShowIds.includes(show.id)}
+                    onCheckedChange={(checked) => handleShowToggle(show.id, checked as boolean)}
+                  />
+                  <label htmlFor={`cover-${show.id}`} className="text-sm cursor-pointer">
+                    {describeShow(show.id)}
+                  </label>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">Pick a performer first</p>
+          )}
+        </div>
+      </div>
+
+      <Button
+        size="sm"
+        onClick={() => findMutation.mutate()}
+        disabled={!performer || selectedShowIds.length === 0 || findMutation.isPending}
+      >
+        <Search className="h-4 w-4 mr-2" />
+        Find Cover
+      </Button>
+
+      {plans !== null && plans.length === 0 && (
+        <p className="text-sm text-red-700">
+          No cover keeps every hard rule. Consider a performer on a RED day or relaxing a rule for this week.
+        </p>
+      )}
+
+      {plans !== null && plans.length > 0 && (
+        <div className="space-y-3">
+          {plans.map((plan, index) => (
+            <div key={index} className="bg-white border rounded-lg p-3 flex items-start justify-between">
+              <div className="space-y-1 text-sm">
+                {plan.description.map(line => (
+                  <div key={line} className="font-medium">{line}</div>
+                ))}
+                <ul className="text-xs text-gray-600 space-y-0.5">
+                  {plan.changes.map(change => (
+                    <li key={`${change.showId}-${change.role}`}>
+                      {describeShow(change.showId)} · {change.role}: {change.from} → {change.to}
+                    </li>
+                  ))}
+                </ul>
+                {plan.warnings.map(warning => (
+                  <div key={warning} className="text-xs text-orange-600">{warning}</div>
+                ))}
+              </div>
+              <Button size="sm" onClick={() => handleApply(plan)} disabled={applyMutation.isPending}>
+                <Check className="h-4 w-4 mr-2" />
+                Apply
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,15 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Download, FileText, Share } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BarChart3, Download, FileText, Share, User } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import backend from '~backend/client';
 import type { Show, Assignment, Role, CastMember } from '~backend/scheduler/types';
 import { formatDate, formatTime } from '../utils/dateUtils';
 
 interface ExportControlsProps {
+  scheduleId?: string; // Saved schedules are rendered to PDF by the server; unsaved ones fall back to printing
   location: string;
   week: string;
   shows: Show[];
@@ -16,6 +19,7 @@ interface ExportControlsProps {
 }
 
 export function ExportControls({
+  scheduleId,
   location,
   week,
   shows,
@@ -24,6 +28,8 @@ export function ExportControls({
   roles
 }: ExportControlsProps) {
   const { toast } = useToast();
+  const [callSheetPerformer, setCallSheetPerformer] = useState('');
+  const [downloading, setDownloading] = useState(false);
 
   // Format call time display for export
   const formatCallTimeDisplay = (callTime: string): string => {
@@ -31,7 +37,44 @@ export function ExportControls({
     return formatTime(callTime);
   };
 
+  // Downloads a PDF rendered by the server through an expiring link, the same kind of link that can be emailed
+  const downloadServerPDF = async (link: () => Promise<{ url: string }>, filename: string) => {
+    setDownloading(true);
+    try {
+      const { url: pdfUrl } = await link();
+      const response = await fetch(pdfUrl);
+      if (!response.ok) {
+        throw new Error(`PDF request failed with status ${response.status}`);
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('PDF download failed:', error);
+      toast({
+        title: "Export Failed",
+        description: "Could not generate PDF. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const fileSlug = `${location.toLowerCase().replace(/\s+/g, '-')}-week-${week}`;
+  const callSheetName = castMembers.find(member => (member.id ?? member.name) === callSheetPerformer)?.name ?? callSheetPerformer;
+
   const exportToPDF = async () => {
+    if (scheduleId) {
+      await downloadServerPDF(() => backend.scheduler.issuePdfLink({ id: scheduleId, kind: 'schedule' }), `stomp-schedule-${fileSlug}.pdf`);
+      return;
+    }
+
     try {
       // Create a new window with the printable schedule
       const printWindow = window.open('', '_blank');
@@ -450,10 +493,22 @@ export function ExportControls({
       </CardHeader>
       <CardContent>
         <div className="flex flex-wrap gap-3">
-          <Button onClick={exportToPDF} className="flex items-center space-x-2">
+          <Button onClick={exportToPDF} disabled={downloading} className="flex items-center space-x-2">
             <FileText className="h-4 w-4" />
             <span>Export PDF</span>
           </Button>
+
+          {scheduleId && (
+            <Button
+              variant="outline"
+              disabled={downloading}
+              onClick={() => downloadServerPDF(() => backend.scheduler.issuePdfLink({ id: scheduleId, kind: 'utilization' }), `utilization-${fileSlug}.pdf`)}
+              className="flex items-center space-x-2"
+            >
+              <BarChart3 className="h-4 w-4" />
+              <span>Utilization PDF</span>
+            </Button>
+          )}
           
           <Button variant="outline" onClick={exportToJSON} className="flex items-center space-x-2">
             <Download className="h-4 w-4" />
@@ -465,6 +520,35 @@ export function ExportControls({
             <span>Copy Text</span>
           </Button>
         </div>
+
+        {scheduleId && castMembers.length > 0 && (
+          <div className="flex items-center gap-3 mt-3">
+            <Select value={callSheetPerformer} onValueChange={setCallSheetPerformer}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Cast member..." />
+              </SelectTrigger>
+              <SelectContent>
+                {castMembers.map(member => (
+                  <SelectItem key={member.id ?? member.name} value={member.id ?? member.name}>
+                    {member.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              disabled={!callSheetPerformer || downloading}
+              onClick={() => downloadServerPDF(
+                () => backend.scheduler.issuePdfLink({ id: scheduleId, kind: 'callsheet', performer: callSheetPerformer }),
+                `call-sheet-${callSheetName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${fileSlug}.pdf`
+              )}
+              className="flex items-center space-x-2"
+            >
+              <User className="h-4 w-4" />
+              <span>Call Sheet PDF</span>
+            </Button>
+          </div>
+        )}
         
         <p className="text-sm text-gray-600 mt-3">
           Export your schedule for distribution or backup. PDF format is ideal for printing and sharing with cast members.
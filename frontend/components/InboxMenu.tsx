@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Bell } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import backend from '~backend/client';
+
+// Checked once a minute, the same pace the server retries deliveries
+const POLL_INTERVAL_MS = 60_000;
+
+// Bell in the header with the signed-in user's schedule change messages
+export function InboxMenu() {
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const { data } = useQuery({
+    queryKey: ['inbox'],
+    queryFn: () => backend.scheduler.getInbox(),
+    refetchInterval: POLL_INTERVAL_MS
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: () => backend.scheduler.markInboxRead({}),
+    onSuccess: (inbox) => {
+      queryClient.setQueryData(['inbox'], inbox);
+    },
+    onError: (error) => {
+      console.error('Failed to mark messages as read:', error);
+    }
+  });
+
+  const messages = data?.messages ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  // Messages stay highlighted while the list is open and count as read once it closes
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open && unreadCount > 0) {
+      markReadMutation.mutate();
+    }
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" title="Notifications">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-red-600 text-white text-[10px] leading-4 text-center">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="end">
+        <div className="px-4 py-2 border-b border-gray-200 text-sm font-medium">Notifications</div>
+        {messages.length === 0 ? (
+          <div className="px-4 py-6 text-center text-sm text-gray-500">Nothing new</div>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {messages.map(message => (
+              <li key={message.id} className={`px-4 py-3 text-sm ${message.readAt ? '' : 'bg-blue-50'}`}>
+                <div className="font-medium text-gray-900">{message.subject}</div>
+                <div className="text-xs text-gray-500 mb-1">{new Date(message.createdAt).toLocaleString()}</div>
+                <div className="whitespace-pre-line text-gray-700">{message.body}</div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Calendar, LogIn } from 'lucide-react';
+import type { LoginResponse } from '~backend/scheduler/auth';
+import backend from '~backend/client';
+
+interface LoginPageProps {
+  onSignedIn: (response: LoginResponse) => void;
+}
+
+// Sign-in form, or first-time setup of the admin account while no accounts exist
+export function LoginPage({ onSignedIn }: LoginPageProps) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+
+  const { data: status, isLoading } = useQuery({
+    queryKey: ['auth-status'],
+    queryFn: () => backend.scheduler.authStatus()
+  });
+  const needsSetup = status?.needsSetup ?? false;
+
+  const signInMutation = useMutation({
+    mutationFn: () => needsSetup
+      ? backend.scheduler.setupAdmin({ username, password, displayName })
+      : backend.scheduler.login({ username, password }),
+    onSuccess: (response) => {
+      setPassword('');
+      onSignedIn(response);
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    signInMutation.mutate();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-50">
+        <div className="animate-spin h-8 w-8 border-2 border-blue-600 border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50 px-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <div className="flex items-center space-x-2">
+            <Calendar className="h-8 w-8 text-blue-600" />
+            <CardTitle>STOMP Scheduler</CardTitle>
+          </div>
+          <p className="text-sm text-gray-600">
+            {needsSetup ? 'Create the first admin account to get started.' : 'Sign in to continue.'}
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {needsSetup && (
+              <div className="space-y-1">
+                <Label htmlFor="displayName">Your name</Label>
+                <Input id="displayName" value={displayName} onChange={(e) => setDisplayName(e.target.value)} required />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="username">Username</Label>
+              <Input id="username" autoComplete="username" value={username} onChange={(e) => setUsername(e.target.value)} required />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete={needsSetup ? 'new-password' : 'current-password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+            {signInMutation.isError && (
+              <p className="text-sm text-red-600">
+                {(signInMutation.error as Error).message || 'Sign in failed'}
+              </p>
+            )}
+            <Button type="submit" className="w-full" disabled={signInMutation.isPending}>
+              <LogIn className="h-4 w-4 mr-2" />
+              {needsSetup ? 'Create admin account' : 'Sign in'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
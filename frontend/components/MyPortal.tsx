@@ -0,0 +1,351 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { CalendarPlus, CalendarX, Download, MapPin, Save, Trash2 } from 'lucide-react';
+import backend from '~backend/client';
+import type { MyScheduleWeek } from '~backend/scheduler/me';
+import type { UnavailabilityType } from '~backend/scheduler/types';
+import { formatDate, formatTime } from '../utils/dateUtils';
+import { UNAVAILABILITY_STATUS_STYLES, UNAVAILABILITY_TYPE_LABELS, WEEKDAYS } from '../utils/availability';
+import { useAuth } from './AuthProvider';
+
+// A performer's own calls, time off and calendar, laid out to read on a phone
+export default function MyPortal() {
+  const { user } = useAuth();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['my-schedule'],
+    queryFn: () => backend.scheduler.getMySchedule(),
+    enabled: Boolean(user.memberId)
+  });
+
+  if (!user.memberId) {
+    return (
+      <div className="text-center py-12 text-gray-600">
+        Your account is not linked to a cast member yet. Ask a company manager to link it.
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-64">
+        <div className="text-center">
+          <div className="animate-spin h-8 w-8 border-2 border-blue-600 border-t-transparent rounded-full mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading your schedule...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return <div className="text-center py-12 text-red-600">Failed to load your schedule</div>;
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold text-gray-900">Upcoming calls</h2>
+        {data.weeks.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center text-gray-600">No published schedules for you yet.</CardContent>
+          </Card>
+        ) : (
+          data.weeks.map(week => <WeekCard key={week.scheduleId} week={week} />)
+        )}
+      </section>
+
+      <MyCalendar memberId={data.memberId} />
+      <RedDayPreferences preferredRedDays={data.preferredRedDays} />
+      <TimeOffRequests />
+    </div>
+  );
+}
+
+function WeekCard({ week }: { week: MyScheduleWeek }) {
+  const today = new Date().toISOString().split('T')[0];
+  const { callSheet } = week;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-1">
+            <MapPin className="h-4 w-4 text-gray-500" />
+            {callSheet.location} · Week {callSheet.week}
+          </span>
+          <span className="text-xs font-normal text-gray-500">
+            {callSheet.metadata.performingShows}/{callSheet.metadata.totalShows} shows
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        <ul className="divide-y divide-gray-100">
+          {callSheet.shows.map(show => (
+            <li
+              key={show.showId}
+              className={`flex items-center justify-between gap-3 px-4 py-3 ${show.date < today ? 'opacity-50' : ''} ${show.date === today ? 'bg-blue-50' : ''}`}
+            >
+              <div>
+                <div className="font-medium text-sm">{formatDate(show.date)}</div>
+                {show.status === 'show' && (
+                  <div className="text-xs text-gray-500">
+                    Show {formatTime(show.time)} · Call {formatTime(show.callTime)}
+                  </div>
+                )}
+              </div>
+              <div className="flex flex-wrap justify-end gap-1">
+                {show.status !== 'show' ? (
+                  <Badge variant="outline" className="text-gray-500">{show.status === 'travel' ? 'Travel' : 'Day off'}</Badge>
+                ) : show.role ? (
+                  <Badge>{show.role}</Badge>
+                ) : show.isRedDay ? (
+                  <Badge className="bg-red-600 hover:bg-red-600">RED</Badge>
+                ) : (
+                  <Badge variant="outline">OFF</Badge>
+                )}
+                {show.covers?.map(role => (
+                  <Badge key={role} variant="outline" className="border-amber-300 text-amber-800">Cover {role}</Badge>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
+
+function MyCalendar({ memberId }: { memberId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['calendar-feed', memberId],
+    queryFn: () => backend.scheduler.getCalendarFeed({ id: memberId })
+  });
+
+  const issueMutation = useMutation({
+    mutationFn: () => backend.scheduler.issueCalendarFeed({ id: memberId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feed', memberId] });
+    },
+    onError: (error) => {
+      console.error('Failed to issue calendar feed:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create calendar link",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const feed = data?.feed;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Calendar</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        <p className="text-gray-600">Subscribe once and your phone calendar follows every published change.</p>
+        {feed ? (
+          <div className="flex flex-wrap gap-2">
+            <Button asChild size="sm">
+              <a href={feed.webcalUrl}>
+                <CalendarPlus className="h-4 w-4 mr-2" />
+                Subscribe
+              </a>
+            </Button>
+            <Button asChild size="sm" variant="outline">
+              <a href={feed.url} download>
+                <Download className="h-4 w-4 mr-2" />
+                Download .ics
+              </a>
+            </Button>
+          </div>
+        ) : (
+          <Button size="sm" onClick={() => issueMutation.mutate()} disabled={issueMutation.isPending}>
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            Create my calendar link
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RedDayPreferences({ preferredRedDays }: { preferredRedDays: number[] }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<number[]>(preferredRedDays);
+
+  useEffect(() => {
+    setSelected(preferredRedDays);
+  }, [preferredRedDays]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => backend.scheduler.updateMyRedDayPreferences({ preferredRedDays: selected }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-schedule'] });
+      toast({
+        title: "Saved",
+        description: "RED day preferences apply to schedules generated from now on"
+      });
+    },
+    onError: (error) => {
+      console.error('Failed to save RED day preferences:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save RED day preferences",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const toggle = (day: number) => {
+    setSelected(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]);
+  };
+
+  const isDirty = [...selected].sort().join() !== [...preferredRedDays].sort().join();
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">RED day preferences</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <p className="text-gray-600">Days you would like as RED days. They are given when the week allows.</p>
+        <div className="grid grid-cols-7 gap-1">
+          {WEEKDAYS.map(({ day, label }) => (
+            <Button
+              key={day}
+              size="sm"
+              variant={selected.includes(day) ? 'default' : 'outline'}
+              className="px-0"
+              onClick={() => toggle(day)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        <Button size="sm" onClick={() => saveMutation.mutate()} disabled={!isDirty || saveMutation.isPending}>
+          <Save className="h-4 w-4 mr-2" />
+          Save preferences
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TimeOffRequests() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [type, setType] = useState<UnavailabilityType>('vacation');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [note, setNote] = useState('');
+
+  const { data } = useQuery({
+    queryKey: ['my-availability'],
+    queryFn: () => backend.scheduler.getMyAvailability()
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: () => backend.scheduler.requestTimeOff({
+      type,
+      startDate,
+      endDate: endDate || startDate,
+      note: note.trim() || undefined
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-availability'] });
+      setStartDate('');
+      setEndDate('');
+      setNote('');
+      toast({
+        title: "Requested",
+        description: "A company manager will review your request"
+      });
+    },
+    onError: (error) => {
+      console.error('Failed to request time off:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to request time off",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: (id: string) => backend.scheduler.withdrawTimeOff({ id }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-availability'] });
+    },
+    onError: (error) => {
+      console.error('Failed to withdraw request:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to withdraw request",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const entries = data?.entries ?? [];
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Time off</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={type} onValueChange={(value) => setType(value as UnavailabilityType)}>
+            <SelectTrigger className="col-span-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(UNAVAILABILITY_TYPE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input type="date" aria-label="First day" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          <Input type="date" aria-label="Last day" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+          <Input className="col-span-2" placeholder="Note (optional)" value={note} onChange={(e) => setNote(e.target.value)} />
+          <Button className="col-span-2" onClick={() => requestMutation.mutate()} disabled={!startDate || requestMutation.isPending}>
+            <CalendarX className="h-4 w-4 mr-2" />
+            Request time off
+          </Button>
+        </div>
+
+        {entries.length > 0 && (
+          <ul className="divide-y divide-gray-100">
+            {entries.map(entry => (
+              <li key={entry.id} className="flex items-center justify-between gap-2 py-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline" className="text-xs">{UNAVAILABILITY_TYPE_LABELS[entry.type]}</Badge>
+                  <span>{entry.startDate === entry.endDate ? formatDate(entry.startDate) : `${formatDate(entry.startDate)} → ${formatDate(entry.endDate)}`}</span>
+                  <span className={`text-xs px-2 py-0.5 rounded ${UNAVAILABILITY_STATUS_STYLES[entry.status]}`}>{entry.status}</span>
+                </div>
+                {entry.status === 'pending' && (
+                  <Button variant="ghost" size="icon" title="Withdraw request" onClick={() => withdrawMutation.mutate(entry.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,22 +4,34 @@ import { Button } from '@/components/ui/button';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Plus, X } from 'lucide-react';
-import type { Role } from '~backend/scheduler/types';
+import type { Role, RoleDefinition, RolePreference, RolePreferences } from '~backend/scheduler/types';
+
+const PREFERENCE_ORDER: RolePreference[] = ['primary', 'secondary', 'emergency'];
+
+const PREFERENCE_LABELS: Record<RolePreference, string> = {
+  primary: 'Primary',
+  secondary: 'Secondary',
+  emergency: 'Emergency only'
+};
 
 interface RoleSelectorProps {
   selectedRoles: Role[];
   availableRoles: Role[];
+  roleCatalog?: RoleDefinition[];
   onChange: (roles: Role[]) => void;
+  rolePreferences?: RolePreferences;
+  onPreferencesChange?: (preferences: RolePreferences) => void;
   placeholder?: string;
   displayMode?: 'badges' | 'dropdown';
 }
 
-const FEMALE_ONLY_ROLES: Role[] = ['Bin', 'Cornish'];
-
 export function RoleSelector({
   selectedRoles,
   availableRoles,
+  roleCatalog = [],
   onChange,
+  rolePreferences = {},
+  onPreferencesChange,
   placeholder = "Select roles...",
   displayMode = 'dropdown'
 }: RoleSelectorProps) {
@@ -37,20 +49,63 @@ export function RoleSelector({
     onChange(selectedRoles.filter(r => r !== role));
   };
 
+  const getPreference = (role: Role): RolePreference => rolePreferences[role] ?? 'primary';
+
+  // Primary, then secondary, then emergency only, then back to primary
+  const handleCyclePreference = (role: Role) => {
+    if (!onPreferencesChange) return;
+    const next = PREFERENCE_ORDER[(PREFERENCE_ORDER.indexOf(getPreference(role)) + 1) % PREFERENCE_ORDER.length];
+    const { [role]: _, ...rest } = rolePreferences;
+    onPreferencesChange(next === 'primary' ? rest : { ...rest, [role]: next });
+  };
+
+  const getPreferenceVariant = (role: Role): 'default' | 'secondary' | 'outline' => {
+    const preference = getPreference(role);
+    return preference === 'primary' ? 'default' : preference === 'secondary' ? 'secondary' : 'outline';
+  };
+
+  const renderPreferenceToggle = (role: Role) => {
+    if (!onPreferencesChange || !selectedRoles.includes(role)) return null;
+    return (
+      <button
+        type="button"
+        onClick={() => handleCyclePreference(role)}
+        className="ml-auto text-xs text-gray-500 hover:text-gray-900"
+        title="Click to change how much this role is used"
+      >
+        {PREFERENCE_LABELS[getPreference(role)]}
+      </button>
+    );
+  };
+
   const getRoleDescription = (role: Role): string => {
-    if (FEMALE_ONLY_ROLES.includes(role)) {
+    if (roleCatalog.find(definition => definition.name === role)?.femaleOnly) {
       return `${role} (Female Only)`;
     }
     return role;
   };
 
+  const getRoleTitle = (role: Role): string | undefined => {
+    return roleCatalog.find(definition => definition.name === role)?.description || undefined;
+  };
+
   if (displayMode === 'badges') {
     return (
       <div className="space-y-2">
         <div className="flex flex-wrap gap-1">
           {selectedRoles.map((role) => (
-            <Badge key={role} variant="default" className="text-xs flex items-center space-x-1">
-              <span>{role}</span>
+            <Badge key={role} variant={getPreferenceVariant(role)} className="text-xs flex items-center space-x-1">
+              {onPreferencesChange ? (
+                <button
+                  type="button"
+                  onClick={() => handleCyclePreference(role)}
+                  title={`${PREFERENCE_LABELS[getPreference(role)]} - click to change`}
+                >
+                  {role}{getPreference(role) === 'emergency' ? ' (E)' : ''}
+                </button>
+              ) : (
+                <span>{role}</span>
+              )}
               <button
                 onClick={() => handleRemoveRole(role)}
                 className="ml-1 hover:bg-black hover:bg-opacity-20 rounded-full p-0.5 transition-colors"
@@ -78,10 +133,12 @@ export function RoleSelector({
                     />
                     <label
                       htmlFor={`role-${role}`}
+                      title={getRoleTitle(role)}
                       className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 cursor-pointer"
                     >
                       {getRoleDescription(role)}
                     </label>
+                    {renderPreferenceToggle(role)}
                   </div>
                 ))}
               </div>
@@ -101,7 +158,7 @@ export function RoleSelector({
           ) : (
             <div className="flex flex-wrap gap-1">
               {selectedRoles.slice(0, 3).map((role) => (
-                <Badge key={role} variant="secondary" className="text-xs">
+                <Badge key={role} variant={getPreference(role) === 'emergency' ? 'outline' : 'secondary'} className="text-xs">
                   {role}
                 </Badge>
               ))}
@@ -126,10 +183,12 @@ export function RoleSelector({
               />
               <label
                 htmlFor={`role-${role}`}
+                title={getRoleTitle(role)}
                 className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 cursor-pointer"
               >
                 {getRoleDescription(role)}
               </label>
+              {renderPreferenceToggle(role)}
             </div>
           ))}
         </div>
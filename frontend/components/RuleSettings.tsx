@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import backend from '~backend/client';
+import type { RuleSet, RuleEnforcement, SchedulingRules } from '~backend/scheduler/types';
+
+const RULE_LABELS: Record<keyof SchedulingRules, { label: string; help: string }> = {
+  maxConsecutiveShows: { label: 'Max consecutive shows', help: 'Longest run of shows without a break' },
+  maxShowsPerWeek: { label: 'Max shows per week', help: 'Stage shows per performer, Monday to Sunday' },
+  maxWeekendShows: { label: 'Max weekend shows', help: 'Shows per performer from Friday to Sunday' },
+  consecutiveGapDays: { label: 'Consecutive gap (days)', help: 'Shows this many days apart or fewer count as consecutive' },
+  redDaysPerWeek: { label: 'RED days per week', help: 'Guaranteed full days off per performer' }
+};
+
+export default function RuleSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [newName, setNewName] = useState('');
+  const [newLocation, setNewLocation] = useState('');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['rule-sets'],
+    queryFn: () => backend.scheduler.listRuleSets()
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => backend.scheduler.createRuleSet({ name: newName.trim(), location: newLocation.trim() }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rule-sets'] });
+      setNewName('');
+      setNewLocation('');
+      toast({
+        title: "Success",
+        description: "Rule set created"
+      });
+    },
+    onError: (error) => {
+      console.error('Failed to create rule set:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create rule set",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleCreate = () => {
+    if (!newName.trim() || !newLocation.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Please enter a name and the location it applies to",
+        variant: "destructive"
+      });
+      return;
+    }
+    createMutation.mutate();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-64">
+        <div className="text-center">
+          <div className="animate-spin h-8 w-8 border-2 border-blue-600 border-t-transparent rounded-full mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading rule sets...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 max-w-4xl">
+      <p className="text-sm text-gray-600">
+        Hard rules are never broken by auto-generate and fail validation. Soft rules are respected when possible and only raise warnings.
+        Schedules use the rule set for their location, or the default set when there is none.
+      </p>
+
+      {(data?.ruleSets ?? []).map(ruleSet => (
+        <RuleSetCard key={ruleSet.id} ruleSet={ruleSet} />
+      ))}
+
+      <Card className="border-dashed border-blue-300 bg-blue-50">
+        <CardContent className="p-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input placeholder="Rule set name" value={newName} onChange={(e) => setNewName(e.target.value)} />
+            <Input placeholder="Location (e.g. London)" value={newLocation} onChange={(e) => setNewLocation(e.target.value)} />
+            <Button onClick={handleCreate} disabled={createMutation.isPending}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule Set
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function RuleSetCard({ ruleSet }: { ruleSet: RuleSet }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rules, setRules] = useState<SchedulingRules>(ruleSet.rules);
+
+  useEffect(() => {
+    setRules(ruleSet.rules);
+  }, [ruleSet]);
+
+  const updateMutation = useMutation({
+    mutationFn: () => backend.scheduler.updateRuleSet({ id: ruleSet.id, rules }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rule-sets'] });
+      toast({
+        title: "Success",
+        description: `${ruleSet.name} rules saved`
+      });
+    },
+    onError: (error) => {
+      console.error('Failed to update rule set:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save rules",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => backend.scheduler.deleteRuleSet({ id: ruleSet.id }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rule-sets'] });
+    },
+    onError: (error) => {
+      console.error('Failed to delete rule set:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete rule set",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const updateRule = (key: keyof SchedulingRules, change: { value?: number; enforcement?: RuleEnforcement }) => {
+    setRules(prev => ({ ...prev, [key]: { ...prev[key], ...change } }));
+  };
+
+  const isDirty = JSON.stringify(rules) !== JSON.stringify(ruleSet.rules);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center space-x-2 text-lg">
+          <span>{ruleSet.name}</span>
+          {ruleSet.isDefault ? (
+            <Badge variant="secondary">Default</Badge>
+          ) : (
+            <Badge variant="outline">{ruleSet.location}</Badge>
+          )}
+        </CardTitle>
+        <div className="flex items-center space-x-2">
+          <Button size="sm" onClick={() => updateMutation.mutate()} disabled={!isDirty || updateMutation.isPending}>
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </Button>
+          {!ruleSet.isDefault && (
+            <Button variant="destructive" size="icon" onClick={() => deleteMutation.mutate()}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {(Object.keys(RULE_LABELS) as Array<keyof SchedulingRules>).map(key => (
+          <div key={key} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-center">
+            <div className="md:col-span-2">
+              <div className="font-medium text-sm">{RULE_LABELS[key].label}</div>
+              <div className="text-xs text-gray-500">{RULE_LABELS[key].help}</div>
+            </div>
+            <Input
+              type="number"
+              min={0}
+              value={rules[key].value}
+              onChange={(e) => updateRule(key, { value: parseInt(e.target.value, 10) || 0 })}
+            />
+            {key === 'consecutiveGapDays' ? (
+              <div />
+            ) : (
+              <Select value={rules[key].enforcement} onValueChange={(value) => updateRule(key, { enforcement: value as RuleEnforcement })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="hard">Hard</SelectItem>
+                  <SelectItem value="soft">Soft</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
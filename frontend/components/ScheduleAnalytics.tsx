@@ -3,16 +3,18 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { AlertTriangle, Users, TrendingUp } from 'lucide-react';
-import type { Show, Assignment, CastMember } from '~backend/scheduler/types';
+import { AlertTriangle, Users, TrendingUp, Shuffle } from 'lucide-react';
+import type { Show, Assignment, CastMember, Role, RoleHistory } from '~backend/scheduler/types';
 
 interface ScheduleAnalyticsProps {
   shows: Show[];
   assignments: Assignment[];
   castMembers: CastMember[];
+  roleHistory?: RoleHistory; // Roles played in the weeks before this one
+  roleHistoryWeeks?: number;
 }
 
-export function ScheduleAnalytics({ shows, assignments, castMembers }: ScheduleAnalyticsProps) {
+export function ScheduleAnalytics({ shows, assignments, castMembers, roleHistory = {}, roleHistoryWeeks }: ScheduleAnalyticsProps) {
   // Calculate show counts per performer
   const getShowCounts = (): Record<string, number> => {
     const counts: Record<string, number> = {};
@@ -88,9 +90,26 @@ export function ScheduleAnalytics({ shows, assignments, castMembers }: ScheduleA
     };
   };
 
+  // Role mix per performer who knows several roles, this week and in recent weeks
+  const getRoleMix = () => {
+    return castMembers
+      .filter(member => member.eligibleRoles.length > 1)
+      .map(member => {
+        const roles = member.eligibleRoles.map((role: Role) => {
+          const thisWeek = assignments.filter(a => a.performer === member.name && a.role === role).length;
+          const recent = roleHistory[member.name]?.[role] || 0;
+          return { role, thisWeek, recent, total: thisWeek + recent };
+        });
+        const total = roles.reduce((sum, entry) => sum + entry.total, 0);
+        const topShare = total > 0 ? Math.max(...roles.map(entry => entry.total)) / total : 0;
+        return { performer: member.name, roles, total, isStuck: total >= 4 && topShare > 0.75 };
+      });
+  };
+
   const showCounts = getShowCounts();
   const consecutiveWarnings = getConsecutiveWarnings();
   const assignmentStats = getAssignmentStats();
+  const roleMix = getRoleMix();
 
   const getShowCountStatus = (count: number) => {
     if (count < 3) return { label: 'Low', variant: 'secondary' as const, color: 'text-yellow-600' };
@@ -188,6 +207,44 @@ export function ScheduleAnalytics({ shows, assignments, castMembers }: ScheduleA
           </div>
         </CardContent>
       </Card>
+
+      {/* Role Mix */}
+      {roleMix.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Shuffle className="h-5 w-5" />
+              <span>Role Mix</span>
+            </CardTitle>
+            <p className="text-sm text-gray-600">
+              This week plus {roleHistoryWeeks ? `the previous ${roleHistoryWeeks} weeks` : 'earlier weeks'} for performers who know more than one role
+            </p>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {roleMix.map(mix => (
+                <div key={mix.performer} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-sm">{mix.performer}</span>
+                    {mix.isStuck && (
+                      <Badge variant="secondary" className="text-xs">Same track</Badge>
+                    )}
+                  </div>
+                  {mix.roles.map(entry => (
+                    <div key={entry.role} className="space-y-1">
+                      <div className="flex justify-between text-xs text-gray-600">
+                        <span>{entry.role}</span>
+                        <span>{entry.thisWeek} this week · {entry.recent} before</span>
+                      </div>
+                      <Progress value={mix.total > 0 ? Math.round(100 * entry.total / mix.total) : 0} />
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
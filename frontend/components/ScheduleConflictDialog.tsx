@@ -0,0 +1,55 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, GitMerge, RefreshCw } from 'lucide-react';
+import type { Schedule } from '~backend/scheduler/types';
+import type { MergeResult } from '../utils/scheduleMerge';
+
+interface ScheduleConflictDialogProps {
+  serverSchedule: Schedule;
+  merge: MergeResult;
+  onMerge: () => void;
+  onReload: () => void;
+  onCancel: () => void;
+}
+
+export function ScheduleConflictDialog({ serverSchedule, merge, onMerge, onReload, onCancel }: ScheduleConflictDialogProps) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <Card className="w-full max-w-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2 text-orange-700">
+            <AlertTriangle className="h-5 w-5" />
+            <span>Schedule Changed Elsewhere</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <p>
+            Someone saved this schedule (revision {serverSchedule.revision}, {new Date(serverSchedule.updatedAt).toLocaleString()}) while
+            you were editing it. Your changes have not been saved.
+          </p>
+          <ul className="list-disc pl-5 space-y-1 text-gray-700">
+            <li><strong>Merge</strong> keeps their save and re-applies the cells you changed on top.</li>
+            <li><strong>Reload</strong> discards your changes and shows their version.</li>
+          </ul>
+          {merge.overlaps.length > 0 && (
+            <p className="text-orange-700">
+              {merge.overlaps.length} cell{merge.overlaps.length === 1 ? ' clashes' : 's clash'} with their save - merging keeps your edits, check {merge.overlaps.length === 1 ? 'it' : 'them'} before saving.
+            </p>
+          )}
+          <div className="flex justify-end space-x-2">
+            <Button variant="ghost" onClick={onCancel}>Cancel</Button>
+            <Button variant="outline" onClick={onReload}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Reload
+            </Button>
+            <Button onClick={onMerge}>
+              <GitMerge className="h-4 w-4 mr-2" />
+              Merge
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import backend from '~backend/client';
-import type { Schedule, Show, Assignment, Role, DayStatus } from '~backend/scheduler/types';
+import backend, { APIError, ErrCode } from '~backend/client';
+import type { Schedule, Show, Assignment, Role, DayStatus, ScheduleStatus } from '~backend/scheduler/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -11,7 +11,14 @@ import { useToast } from '@/components/ui/use-toast';
 import { Separator } from '@/components/ui/separator';
 import { ScheduleGrid } from './ScheduleGrid';
 import { ScheduleAnalytics } from './ScheduleAnalytics';
+import { VersionHistory } from './VersionHistory';
+import { ScheduleOptions } from './ScheduleOptions';
 import { ExportControls } from './ExportControls';
+import { ScheduleConflictDialog } from './ScheduleConflictDialog';
+import { ScheduleStatusControls } from './ScheduleStatusControls';
+import { useAuth } from './AuthProvider';
+import { mergeScheduleEdits, ScheduleState } from '../utils/scheduleMerge';
+import { askChangeReason, isPastWeek } from '../utils/scheduleLifecycle';
 import { Save, ArrowLeft, Calendar, ChevronLeft, ChevronRight, RotateCcw } from 'lucide-react';
 
 export default function ScheduleEditor() {
@@ -19,6 +26,7 @@ export default function ScheduleEditor() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { can } = useAuth();
   
   const [location, setLocation] = useState('');
   const [week, setWeek] = useState('');
@@ -26,8 +34,18 @@ export default function ScheduleEditor() {
   const [shows, setShows] = useState<Show[]>([]);
   const [assignments, setAssignments] = useState<Assignment[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generationSeed, setGenerationSeed] = useState<number | undefined>();
+  // Revision the editor's state is based on, and that state as it was last loaded or saved
+  const [revision, setRevision] = useState<number | undefined>();
+  const [baseState, setBaseState] = useState<ScheduleState>({ shows: [], assignments: [] });
+  const [conflict, setConflict] = useState<Schedule | null>(null);
+  const [status, setStatus] = useState<ScheduleStatus>('draft');
 
   const isEditing = Boolean(id);
+  // Locked schedules, weeks that are over and roles without edit access can view and export but not change
+  const isPast = isEditing && isPastWeek(baseState.shows);
+  const readOnly = isEditing && (status === 'locked' || isPast || !can('schedules.edit'));
+  const hasUnsavedChanges = JSON.stringify({ shows, assignments }) !== JSON.stringify(baseState);
 
   // Fetch existing schedule if editing
   const { data: scheduleData, isLoading } = useQuery({
@@ -42,6 +60,14 @@ export default function ScheduleEditor() {
     queryFn: () => backend.scheduler.getCastMembers()
   });
 
+  // Fetch the roles performers played in the weeks before this one
+  const firstShowDate = shows.map(show => show.date).sort()[0];
+  const { data: roleHistoryData } = useQuery({
+    queryKey: ['role-history', location, firstShowDate],
+    queryFn: () => backend.scheduler.getRoleHistory({ location, shows }),
+    enabled: Boolean(location.trim() && firstShowDate)
+  });
+
   // Create schedule mutation
   const createMutation = useMutation({
     mutationFn: (data: { location: string; week: string; shows: Show[] }) =>
@@ -66,17 +92,26 @@ export default function ScheduleEditor() {
 
   // Update schedule mutation
   const updateMutation = useMutation({
-    mutationFn: (data: { id: string; location?: string; week?: string; shows?: Show[]; assignments?: Assignment[] }) =>
+    mutationFn: (data: { id: string; location?: string; week?: string; shows?: Show[]; assignments?: Assignment[]; seed?: number; revision?: number; changeReason?: string }) =>
       backend.scheduler.update(data),
-    onSuccess: () => {
+    onSuccess: (response) => {
+      setRevision(response.schedule.revision);
+      setStatus(response.schedule.status);
+      setBaseState({ shows: response.schedule.shows, assignments: response.schedule.assignments });
       queryClient.invalidateQueries({ queryKey: ['schedules'] });
       queryClient.invalidateQueries({ queryKey: ['schedule', id] });
+      queryClient.invalidateQueries({ queryKey: ['schedule-versions', id] });
       toast({
         title: "Success",
         description: "Schedule saved successfully"
       });
     },
     onError: (error) => {
+      // Someone else saved first: the server sends back what it has now
+      if (error instanceof APIError && error.code === ErrCode.Aborted && error.details?.schedule) {
+        setConflict(error.details.schedule as Schedule);
+        return;
+      }
       console.error('Failed to update schedule:', error);
       toast({
         title: "Error",
@@ -88,10 +123,25 @@ export default function ScheduleEditor() {
 
   // Auto-generate mutation
   const autoGenerateMutation = useMutation({
-    mutationFn: (shows: Show[]) => backend.scheduler.autoGenerate({ shows }),
+    mutationFn: (shows: Show[]) => backend.scheduler.autoGenerate({
+      shows,
+      location,
+      assignments: assignments.filter(a => a.isLocked)
+    }),
     onSuccess: (response) => {
       if (response.success) {
         setAssignments(response.assignments);
+        setGenerationSeed(response.seed);
+
+        // The solver could not fill every slot without breaking a hard rule
+        if (response.status && response.status !== 'solved') {
+          toast({
+            title: response.locksInfeasible ? "Locked Cells Conflict" : "Partial Schedule",
+            description: response.errors?.[0] || "Some roles could not be filled",
+            variant: "destructive"
+          });
+          return;
+        }
         
         // Check for critical violations in the response
         const stageAssignments = response.assignments.filter(a => a.role !== "OFF");
@@ -113,12 +163,12 @@ export default function ScheduleEditor() {
         } else {
           toast({
             title: "Success",
-            description: "Schedule generated successfully with improved constraints"
+            description: `Schedule generated successfully with improved constraints (seed ${response.seed})`
           });
         }
       } else {
         toast({
-          title: "Generation Failed",
+          title: response.locksInfeasible ? "Locked Cells Conflict" : "Generation Failed",
           description: response.errors?.[0] || "Could not generate a valid schedule",
           variant: "destructive"
         });
@@ -240,6 +290,10 @@ export default function ScheduleEditor() {
       setWeek(schedule.week);
       setShows(schedule.shows);
       setAssignments(schedule.assignments);
+      setGenerationSeed(schedule.seed);
+      setRevision(schedule.revision);
+      setStatus(schedule.status);
+      setBaseState({ shows: schedule.shows, assignments: schedule.assignments });
 
       // Calculate week start date from first show
       if (schedule.shows.length > 0) {
@@ -290,12 +344,18 @@ export default function ScheduleEditor() {
 
     try {
       if (isEditing && id) {
+        const changeReason = status === 'published' ? askChangeReason() : undefined;
+        if (changeReason === null) return;
+
         await updateMutation.mutateAsync({
           id,
           location,
           week,
           shows,
-          assignments
+          assignments,
+          seed: generationSeed,
+          revision,
+          changeReason
         });
       } else {
         await createMutation.mutateAsync({
@@ -328,6 +388,15 @@ export default function ScheduleEditor() {
     }
   };
 
+  const handleApplyOption = (optionAssignments: Assignment[], seed: number) => {
+    setAssignments(optionAssignments);
+    setGenerationSeed(seed);
+    toast({
+      title: "Option Applied",
+      description: "Review the grid and save to keep this schedule"
+    });
+  };
+
   const handleClearAll = () => {
     if (confirm('Are you sure you want to clear all assignments?')) {
       setAssignments([]);
@@ -343,15 +412,22 @@ export default function ScheduleEditor() {
       // Remove existing assignment for this show/role
       const filtered = prev.filter(a => !(a.showId === showId && a.role === role));
       
-      // Add new assignment if performer is selected
+      // Add new assignment if performer is selected, referencing the member by ID
       if (performer) {
-        filtered.push({ showId, role, performer });
+        const performerId = castData?.castMembers.find(member => member.name === performer)?.id;
+        filtered.push({ showId, role, performer, performerId });
       }
       
       return filtered;
     });
   };
 
+  const handleToggleLock = (showId: string, role: Role) => {
+    setAssignments(prev => prev.map(a =>
+      a.showId === showId && a.role === role ? { ...a, isLocked: !a.isLocked } : a
+    ));
+  };
+
   const handleShowStatusChange = (showId: string, status: DayStatus) => {
     setShows(prev => prev.map(show => 
       show.id === showId ? { ...show, status } : show
@@ -396,8 +472,45 @@ export default function ScheduleEditor() {
   };
 
   // Handle assignment updates from the grid (for RED day toggles)
-  const handleAssignmentUpdate = (updatedAssignments: Assignment[]) => {
+  // RED day toggles and emergency cover are saved by the server straight away
+  const handleAssignmentUpdate = (updatedAssignments: Assignment[], updatedRevision?: number) => {
     setAssignments(updatedAssignments);
+    if (updatedRevision !== undefined) {
+      setRevision(updatedRevision);
+      setBaseState(prev => ({ ...prev, assignments: updatedAssignments }));
+    }
+    queryClient.invalidateQueries({ queryKey: ['schedule-versions', id] });
+  };
+
+  // Take the other save as the new base and replay this editor's changes on top of it
+  const handleMergeConflict = () => {
+    if (!conflict) return;
+    const merged = mergeScheduleEdits(baseState, { shows, assignments }, conflict);
+    setShows(merged.shows);
+    setAssignments(merged.assignments);
+    setRevision(conflict.revision);
+    setBaseState({ shows: conflict.shows, assignments: conflict.assignments });
+    setConflict(null);
+    toast({
+      title: "Changes Merged",
+      description: merged.overlaps.length > 0
+        ? `${merged.overlaps.length} cell(s) clash with the other save - review them and save`
+        : "Review the merged schedule and save"
+    });
+  };
+
+  const handleReloadConflict = () => {
+    if (!conflict) return;
+    setLocation(conflict.location);
+    setWeek(conflict.week);
+    setShows(conflict.shows);
+    setAssignments(conflict.assignments);
+    setGenerationSeed(conflict.seed);
+    setRevision(conflict.revision);
+    setStatus(conflict.status);
+    setBaseState({ shows: conflict.shows, assignments: conflict.assignments });
+    setConflict(null);
+    queryClient.invalidateQueries({ queryKey: ['schedule-versions', id] });
   };
 
   if (isLoading) {
@@ -413,13 +526,35 @@ export default function ScheduleEditor() {
 
   return (
     <div className="space-y-6 max-w-full">
+      {readOnly && (
+        <div className="rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm text-blue-800">
+          {!can('schedules.edit')
+            ? 'You can view and export this schedule, but not change it.'
+            : status === 'locked'
+              ? 'This schedule is locked. Unlock it to make changes.'
+              : 'This week is over, so its schedule is read-only.'}
+        </div>
+      )}
+
       {/* Basic Information */}
       <Card>
         <CardHeader>
-          <CardTitle>Schedule Information</CardTitle>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle>Schedule Information</CardTitle>
+            {id && can('schedules.publish') && (
+              <ScheduleStatusControls
+                scheduleId={id}
+                status={status}
+                revision={revision}
+                isPast={isPast}
+                hasUnsavedChanges={hasUnsavedChanges}
+                onChanged={(schedule) => setStatus(schedule.status)}
+              />
+            )}
+          </div>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <fieldset disabled={readOnly} className="grid grid-cols-1 md:grid-cols-3 gap-4 min-w-0">
             <div className="space-y-2">
               <Label htmlFor="location">City</Label>
               <Input
@@ -487,19 +622,24 @@ export default function ScheduleEditor() {
               />
               <p className="text-xs text-gray-500">Auto-calculated from start date</p>
             </div>
-          </div>
+          </fieldset>
         </CardContent>
       </Card>
 
+      <fieldset disabled={readOnly} className="space-y-6 min-w-0">
       {/* Schedule Grid */}
       <ScheduleGrid
         shows={shows}
         assignments={assignments}
         castMembers={castData?.castMembers || []}
         roles={castData?.roles || []}
+        roleCatalog={castData?.roleCatalog || []}
         location={location}
         scheduleId={id}
+        revision={revision}
+        status={status}
         onAssignmentChange={handleAssignmentChange}
+        onToggleLock={handleToggleLock}
         onShowStatusChange={handleShowStatusChange}
         onShowChange={handleShowChange}
         onAddShow={handleAddShow}
@@ -513,18 +653,31 @@ export default function ScheduleEditor() {
         onAssignmentUpdate={handleAssignmentUpdate}
       />
 
+      {/* Alternative schedules */}
+      {shows.length > 0 && (
+        <ScheduleOptions
+          shows={shows}
+          location={location}
+          onApply={handleApplyOption}
+        />
+      )}
+      </fieldset>
+
       {/* Analytics */}
       {shows.length > 0 && (
         <ScheduleAnalytics
           shows={shows.filter(show => show.status === 'show')}
           assignments={assignments.filter(a => a.role !== "OFF")}
           castMembers={castData?.castMembers || []}
+          roleHistory={roleHistoryData?.history}
+          roleHistoryWeeks={roleHistoryData?.weeks}
         />
       )}
 
       {/* Export Controls */}
       {shows.length > 0 && (
         <ExportControls
+          scheduleId={id}
           location={location}
           week={week}
           shows={shows}
@@ -533,6 +686,19 @@ export default function ScheduleEditor() {
           roles={castData?.roles || []}
         />
       )}
+
+      {/* Version History */}
+      {id && <VersionHistory scheduleId={id} revision={revision} requiresChangeReason={status === 'published'} readOnly={readOnly} />}
+
+      {conflict && (
+        <ScheduleConflictDialog
+          serverSchedule={conflict}
+          merge={mergeScheduleEdits(baseState, { shows, assignments }, conflict)}
+          onMerge={handleMergeConflict}
+          onReload={handleReloadConflict}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 }
@@ -3,9 +3,11 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { AlertTriangle, Wand2, RefreshCw, Car, Calendar, Plus, Edit3, RotateCcw } from 'lucide-react';
-import type { Show, Assignment, Role, CastMember, DayStatus } from '~backend/scheduler/types';
+import { AlertTriangle, Wand2, RefreshCw, Car, Calendar, Plus, Edit3, RotateCcw, Lock, Unlock, Siren } from 'lucide-react';
+import type { Show, Assignment, Role, RoleDefinition, CastMember, DayStatus, ScheduleStatus } from '~backend/scheduler/types';
 import { formatTime, formatDate } from '../utils/dateUtils';
+import { askChangeReason } from '../utils/scheduleLifecycle';
+import { EmergencyCover } from './EmergencyCover';
 import backend from '~backend/client';
 import { useToast } from '@/components/ui/use-toast';
 
@@ -14,9 +16,13 @@ interface ScheduleGridProps {
   assignments: Assignment[];
   castMembers: CastMember[];
   roles: Role[];
+  roleCatalog?: RoleDefinition[];
   location: string;
   scheduleId?: string;
+  revision?: number;
+  status?: ScheduleStatus; // Changes to a published schedule need a reason
   onAssignmentChange: (showId: string, role: Role, performer: string) => void;
+  onToggleLock?: (showId: string, role: Role) => void;
   onShowStatusChange: (showId: string, status: DayStatus) => void;
   onShowChange: (showId: string, field: 'date' | 'time' | 'callTime', value: string) => void;
   onAddShow: () => void;
@@ -27,7 +33,7 @@ interface ScheduleGridProps {
   onSave?: () => void;
   isSaving?: boolean;
   isEditing?: boolean;
-  onAssignmentUpdate?: (assignments: Assignment[]) => void;
+  onAssignmentUpdate?: (assignments: Assignment[], revision?: number) => void;
 }
 
 export function ScheduleGrid({
@@ -35,9 +41,13 @@ export function ScheduleGrid({
   assignments,
   castMembers,
   roles,
+  roleCatalog = [],
   location,
   scheduleId,
+  revision,
+  status,
   onAssignmentChange,
+  onToggleLock,
   onShowStatusChange,
   onShowChange,
   onAddShow,
@@ -51,18 +61,24 @@ export function ScheduleGrid({
   onAssignmentUpdate
 }: ScheduleGridProps) {
   const [editingCell, setEditingCell] = useState<string | null>(null);
+  const [showEmergencyCover, setShowEmergencyCover] = useState(false);
   const { toast } = useToast();
 
   const visibleShows = shows.filter(show => show.status !== 'removed');
 
-  const { assignmentMap, performerRedDays } = useMemo(() => {
+  const { assignmentMap, lockedCells, performerRedDays, coverMap } = useMemo(() => {
     const assignmentMap = new Map<string, string>();
+    const lockedCells = new Set<string>();
     const performerRedDays = new Map<string, string>();
+    const coverMap = new Map<string, string>();
     
     assignments.forEach(assignment => {
       if (assignment.role !== "OFF") {
         const key = `${assignment.showId}-${assignment.role}`;
         assignmentMap.set(key, assignment.performer);
+        if (assignment.isLocked) {
+          lockedCells.add(key);
+        }
       } else if (assignment.isRedDay) {
         const show = shows.find(s => s.id === assignment.showId);
         if (show && !performerRedDays.has(assignment.performer)) {
@@ -70,7 +86,15 @@ export function ScheduleGrid({
         }
       }
     });
-    return { assignmentMap, performerRedDays };
+
+    // Covers only count while the performer is still off for the show
+    assignments.forEach(assignment => {
+      if (assignment.role !== "OFF" || !assignment.covers) return;
+      const isOnStage = assignments.some(a => a.showId === assignment.showId && a.role !== "OFF" && a.performer === assignment.performer);
+      if (isOnStage) return;
+      assignment.covers.forEach(role => coverMap.set(`${assignment.showId}-${role}`, assignment.performer));
+    });
+    return { assignmentMap, lockedCells, performerRedDays, coverMap };
   }, [assignments, shows]);
 
   const getAssignment = (showId: string, role: Role): string => {
@@ -186,15 +210,21 @@ export function ScheduleGrid({
         return;
     }
 
+    const changeReason = status === 'published' ? askChangeReason() : undefined;
+    if (changeReason === null) return;
+
     try {
       const response = await backend.scheduler.toggleRedDay({
         id: scheduleId,
         date,
-        performer
+        performer,
+        performerId: castMembers.find(member => member.name === performer)?.id,
+        revision,
+        changeReason
       });
 
       if (onAssignmentUpdate) {
-        onAssignmentUpdate(response.assignments);
+        onAssignmentUpdate(response.assignments, response.revision);
       }
 
       const isNowRed = response.assignments.some(a => a.performer === performer && a.isRedDay && shows.find(s => s.id === a.showId)?.date === date);
@@ -331,6 +361,17 @@ export function ScheduleGrid({
             <Button variant="outline" size="sm" onClick={onClearAll}>
               Clear All
             </Button>
+            {scheduleId && onAssignmentUpdate && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowEmergencyCover(prev => !prev)}
+                className="text-orange-600 hover:text-orange-700 hover:bg-orange-50"
+              >
+                <Siren className="h-4 w-4 mr-2" />
+                Emergency Cover
+              </Button>
+            )}
             <Button variant="outline" size="sm" onClick={onAddShow}>
               <Plus className="h-4 w-4 mr-2" />
               Add Show
@@ -349,6 +390,18 @@ export function ScheduleGrid({
         </div>
       </CardHeader>
       <CardContent>
+        {showEmergencyCover && scheduleId && onAssignmentUpdate && (
+          <EmergencyCover
+            scheduleId={scheduleId}
+            revision={revision}
+            requiresChangeReason={status === 'published'}
+            shows={visibleShows}
+            assignments={assignments}
+            castMembers={castMembers}
+            onApplied={onAssignmentUpdate}
+            onClose={() => setShowEmergencyCover(false)}
+          />
+        )}
         <div className="w-full overflow-x-auto">
           <div className="min-w-fit">
             <div className="text-center font-bold text-lg mb-4">
@@ -402,33 +455,53 @@ export function ScheduleGrid({
               </thead>
               <tbody>
                 <tr><td colSpan={visibleShows.length + 1} className="border-t-2 border-black h-1 p-0"></td></tr>
-                {roles.map((role) => (
-                  <tr key={role}>
-                    <td className="border border-gray-300 p-2 bg-gray-50 font-medium text-sm">{role}</td>
-                    {visibleShows.map((show) => {
-                      if (show.status !== 'show') {
-                        return <td key={`${role}-${show.id}`} className="border border-gray-300 p-1 text-center">{renderSpecialDayContent(show)}</td>;
-                      }
-                      const currentAssignment = getAssignment(show.id, role);
-                      const hasError = hasConflict(show.id, role, currentAssignment);
-                      const eligibleCast = getEligibleCast(role);
-                      return (
-                        <td key={`${role}-${show.id}`} className="border border-gray-300 p-1">
-                          <Select value={currentAssignment || "none"} onValueChange={(value) => onAssignmentChange(show.id, role, value === "none" ? "" : value)}>
-                            <SelectTrigger className={`text-xs h-8 w-full ${hasError ? 'border-red-500 bg-red-50' : ''}`}>
-                              <SelectValue placeholder="Select..." />
-                              {hasError && <AlertTriangle className="h-3 w-3 text-red-500 ml-1 flex-shrink-0" />}
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="none">None</SelectItem>
-                              {eligibleCast.map((member) => (<SelectItem key={member.name} value={member.name}>{member.name}</SelectItem>))}
-                            </SelectContent>
-                          </Select>
-                        </td>
-                      );
-                    })}
-                  </tr>
-                ))}
+                {roles.map((role) => {
+                  const definition = roleCatalog.find(r => r.name === role);
+                  return (
+                    <tr key={role}>
+                      <td className="border border-gray-300 p-2 bg-gray-50 font-medium text-sm" title={definition?.description || undefined}>
+                        <div className="flex items-center space-x-2">
+                          {definition && <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: definition.color }} />}
+                          <span className={definition && !definition.isRequired ? 'italic text-gray-600' : ''}>{role}</span>
+                        </div>
+                      </td>
+                      {visibleShows.map((show) => {
+                        if (show.status !== 'show') {
+                          return <td key={`${role}-${show.id}`} className="border border-gray-300 p-1 text-center">{renderSpecialDayContent(show)}</td>;
+                        }
+                        const currentAssignment = getAssignment(show.id, role);
+                        const hasError = hasConflict(show.id, role, currentAssignment);
+                        const eligibleCast = getEligibleCast(role);
+                        const isLocked = lockedCells.has(`${show.id}-${role}`);
+                        return (
+                          <td key={`${role}-${show.id}`} className="border border-gray-300 p-1">
+                            <div className="flex items-center space-x-1">
+                              <Select value={currentAssignment || "none"} onValueChange={(value) => onAssignmentChange(show.id, role, value === "none" ? "" : value)} disabled={isLocked}>
+                                <SelectTrigger className={`text-xs h-8 w-full ${hasError ? 'border-red-500 bg-red-50' : isLocked ? 'border-blue-400 bg-blue-50' : ''}`}>
+                                  <SelectValue placeholder="Select..." />
+                                  {hasError && <AlertTriangle className="h-3 w-3 text-red-500 ml-1 flex-shrink-0" />}
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="none">None</SelectItem>
+                                  {eligibleCast.map((member) => (<SelectItem key={member.name} value={member.name}>{member.name}</SelectItem>))}
+                                </SelectContent>
+                              </Select>
+                              {onToggleLock && currentAssignment && (
+                                <button
+                                  onClick={() => onToggleLock(show.id, role)}
+                                  className={`flex-shrink-0 p-1 rounded transition-colors ${isLocked ? 'text-blue-600 hover:bg-blue-100' : 'text-gray-300 hover:text-gray-600 hover:bg-gray-100'}`}
+                                  title={isLocked ? 'Locked - kept when regenerating' : 'Lock this cell so auto-generate keeps it'}
+                                >
+                                  {isLocked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
                 {assignments.length > 0 && (
                   <tr><td colSpan={visibleShows.length + 1} className="border-t-2 border-black h-1 p-0"></td></tr>
                 )}
@@ -473,6 +546,32 @@ export function ScheduleGrid({
                     </tr>
                   ));
                 })()}
+                {coverMap.size > 0 && (
+                  <tr><td colSpan={visibleShows.length + 1} className="border-t-2 border-black h-1 p-0"></td></tr>
+                )}
+                {coverMap.size > 0 && roles.map((role, index) => (
+                  <tr key={`cover-row-${role}`}>
+                    <td className="border border-gray-300 p-2 bg-gray-50 text-sm">
+                      {index === 0 && <div className="font-medium">COVERS</div>}
+                      <div className="text-xs text-gray-600">{role}</div>
+                    </td>
+                    {visibleShows.map((show) => {
+                      if (show.status !== 'show' || !getAssignment(show.id, role)) {
+                        return <td key={`cover-${show.id}-${role}`} className="border border-gray-300 p-1"></td>;
+                      }
+                      const cover = coverMap.get(`${show.id}-${role}`);
+                      return (
+                        <td key={`cover-${show.id}-${role}`} className="border border-gray-300 p-1 text-center">
+                          {cover ? (
+                            <span className="text-xs text-gray-700 italic">{cover}</span>
+                          ) : (
+                            <span className="text-xs text-orange-600" title={`No first cover named for ${role}`}>—</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
               </tbody>
             </table>
             {performerRedDays.size > 0 && (
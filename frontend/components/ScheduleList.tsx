@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
 import { Calendar, MapPin, Edit, Trash2, Plus } from 'lucide-react';
@@ -8,9 +8,17 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/components/ui/use-toast';
 import { formatDate, formatTime } from '../utils/dateUtils';
+import type { ScheduleStatus } from '~backend/scheduler/types';
+import { ScheduleStatusBadge } from './ScheduleStatusBadge';
+import { useAuth } from './AuthProvider';
+import { STATUS_LABELS, isPastWeek } from '../utils/scheduleLifecycle';
+
+const STATUS_FILTERS: Array<ScheduleStatus | 'all'> = ['all', 'draft', 'published', 'locked'];
 
 export default function ScheduleList() {
   const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<ScheduleStatus | 'all'>('all');
+  const { can } = useAuth();
 
   const { data: schedulesData, isLoading, error, refetch } = useQuery({
     queryKey: ['schedules'],
@@ -59,20 +67,25 @@ export default function ScheduleList() {
     );
   }
 
-  const schedules = schedulesData?.schedules || [];
+  const allSchedules = schedulesData?.schedules || [];
+  const schedules = statusFilter === 'all'
+    ? allSchedules
+    : allSchedules.filter(schedule => schedule.status === statusFilter);
 
-  if (schedules.length === 0) {
+  if (allSchedules.length === 0) {
     return (
       <div className="text-center py-12">
         <Calendar className="h-16 w-16 text-gray-400 mx-auto mb-4" />
         <h2 className="text-2xl font-semibold text-gray-900 mb-2">No Schedules Yet</h2>
         <p className="text-gray-600 mb-6">Create your first STOMP performance schedule to get started.</p>
-        <Button asChild size="lg">
-          <Link to="/schedule/new" className="flex items-center space-x-2">
-            <Plus className="h-5 w-5" />
-            <span>Create First Schedule</span>
-          </Link>
-        </Button>
+        {can('schedules.edit') && (
+          <Button asChild size="lg">
+            <Link to="/schedule/new" className="flex items-center space-x-2">
+              <Plus className="h-5 w-5" />
+              <span>Create First Schedule</span>
+            </Link>
+          </Button>
+        )}
       </div>
     );
   }
@@ -84,8 +97,27 @@ export default function ScheduleList() {
           <h1 className="text-3xl font-bold text-gray-900">Performance Schedules</h1>
           <p className="text-gray-600">Manage your STOMP theater performance schedules</p>
         </div>
+        <div className="flex items-center gap-1">
+          {STATUS_FILTERS.map(filter => (
+            <Button
+              key={filter}
+              variant={statusFilter === filter ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setStatusFilter(filter)}
+            >
+              {filter === 'all' ? 'All' : STATUS_LABELS[filter]}
+              <span className="ml-1 text-xs opacity-70">
+                {filter === 'all' ? allSchedules.length : allSchedules.filter(schedule => schedule.status === filter).length}
+              </span>
+            </Button>
+          ))}
+        </div>
       </div>
 
+      {schedules.length === 0 && (
+        <p className="text-center text-gray-600 py-12">No {STATUS_LABELS[statusFilter as ScheduleStatus].toLowerCase()} schedules.</p>
+      )}
+
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
         {schedules.map((schedule) => (
           <Card key={schedule.id} className="hover:shadow-md transition-shadow">
@@ -94,6 +126,9 @@ export default function ScheduleList() {
                 <div>
                   <CardTitle className="text-lg">{schedule.location}</CardTitle>
                   <p className="text-sm text-gray-600">Week {schedule.week}</p>
+                  <div className="mt-1">
+                    <ScheduleStatusBadge status={schedule.status} isPast={isPastWeek(schedule.shows)} />
+                  </div>
                 </div>
                 <Badge variant="secondary">{schedule.shows.length} shows</Badge>
               </div>
@@ -125,18 +160,22 @@ export default function ScheduleList() {
                   <Button asChild size="sm" className="flex-1">
                     <Link to={`/schedule/${schedule.id}`} className="flex items-center justify-center space-x-1">
                       <Edit className="h-3 w-3" />
-                      <span>Edit</span>
+                      <span>{!can('schedules.edit') || schedule.status === 'locked' || isPastWeek(schedule.shows) ? 'View' : 'Edit'}</span>
                     </Link>
                   </Button>
                   
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleDelete(schedule.id)}
-                    className="flex items-center space-x-1 text-red-600 hover:text-red-700 hover:bg-red-50"
-                  >
-                    <Trash2 className="h-3 w-3" />
-                  </Button>
+                  {can('schedules.publish') && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(schedule.id)}
+                      disabled={schedule.status !== 'draft'}
+                      title={schedule.status !== 'draft' ? 'Move the schedule back to draft before deleting it' : undefined}
+                      className="flex items-center space-x-1 text-red-600 hover:text-red-700 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
                 </div>
               </div>
             </CardContent>
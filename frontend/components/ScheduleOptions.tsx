@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/components/ui/use-toast';
+import { Layers, RefreshCw, Check } from 'lucide-react';
+import backend from '~backend/client';
+import type { Show, Assignment } from '~backend/scheduler/types';
+import type { ScheduleOption } from '~backend/scheduler/alternatives';
+import type { ScheduleScore } from '~backend/scheduler/scoring';
+
+interface ScheduleOptionsProps {
+  shows: Show[];
+  location: string;
+  onApply: (assignments: Assignment[], seed: number) => void;
+}
+
+const SCORE_LABELS: Array<{ key: Exclude<keyof ScheduleScore, 'total'>; label: string }> = [
+  { key: 'workloadSpread', label: 'Workload spread' },
+  { key: 'weekendLoad', label: 'Weekend load' },
+  { key: 'roleVariety', label: 'Role variety' },
+  { key: 'redDayPlacement', label: 'RED days' }
+];
+
+export function ScheduleOptions({ shows, location, onApply }: ScheduleOptionsProps) {
+  const { toast } = useToast();
+  const [options, setOptions] = useState<ScheduleOption[]>([]);
+  const [appliedSeed, setAppliedSeed] = useState<number | null>(null);
+
+  const alternativesMutation = useMutation({
+    mutationFn: () => backend.scheduler.generateAlternatives({ shows, location, count: 3 }),
+    onSuccess: (response) => {
+      setOptions(response.options);
+      setAppliedSeed(null);
+    },
+    onError: (error) => {
+      console.error('Failed to generate schedule options:', error);
+      toast({
+        title: "No Options",
+        description: error instanceof Error && error.message ? error.message : "Failed to generate schedule options",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleApply = (option: ScheduleOption) => {
+    onApply(option.assignments, option.seed);
+    setAppliedSeed(option.seed);
+  };
+
+  const hasActiveShows = shows.some(show => show.status === 'show');
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center space-x-2">
+          <Layers className="h-5 w-5" />
+          <span>Schedule Options</span>
+        </CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => alternativesMutation.mutate()}
+          disabled={alternativesMutation.isPending || !hasActiveShows}
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${alternativesMutation.isPending ? 'animate-spin' : ''}`} />
+          Compare Options
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {options.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            Generate a few alternative schedules and pick the one that suits the week best.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {options.map((option, index) => (
+              <div key={option.seed} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">Option {index + 1}</span>
+                  <Badge variant={index === 0 ? 'default' : 'secondary'}>{option.score.total}/100</Badge>
+                </div>
+
+                {SCORE_LABELS.map(({ key, label }) => (
+                  <div key={key} className="space-y-1">
+                    <div className="flex justify-between text-xs text-gray-600">
+                      <span>{label}</span>
+                      <span>{option.score[key]}</span>
+                    </div>
+                    <Progress value={option.score[key]} />
+                  </div>
+                ))}
+
+                <Button
+                  size="sm"
+                  className="w-full"
+                  variant={appliedSeed === option.seed ? 'secondary' : 'default'}
+                  onClick={() => handleApply(option)}
+                >
+                  {appliedSeed === option.seed && <Check className="h-4 w-4 mr-2" />}
+                  {appliedSeed === option.seed ? 'Applied' : 'Apply to Grid'}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
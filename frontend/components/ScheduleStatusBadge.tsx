@@ -0,0 +1,24 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Lock } from 'lucide-react';
+import type { ScheduleStatus } from '~backend/scheduler/types';
+import { STATUS_BADGE_CLASSES, STATUS_LABELS } from '../utils/scheduleLifecycle';
+
+interface ScheduleStatusBadgeProps {
+  status: ScheduleStatus;
+  isPast?: boolean;
+}
+
+export function ScheduleStatusBadge({ status, isPast }: ScheduleStatusBadgeProps) {
+  return (
+    <span className="inline-flex items-center gap-1">
+      <Badge variant="outline" className={STATUS_BADGE_CLASSES[status]}>
+        {status === 'locked' && <Lock />}
+        {STATUS_LABELS[status]}
+      </Badge>
+      {isPast && (
+        <Badge variant="outline" className="text-gray-500">Past</Badge>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,105 @@
+import React from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { Lock, Send, Undo2, Unlock } from 'lucide-react';
+import type { Schedule, ScheduleStatus } from '~backend/scheduler/types';
+import backend, { APIError } from '~backend/client';
+import { ScheduleStatusBadge } from './ScheduleStatusBadge';
+
+interface ScheduleStatusControlsProps {
+  scheduleId: string;
+  status: ScheduleStatus;
+  revision?: number;
+  isPast: boolean;
+  hasUnsavedChanges: boolean;
+  onChanged: (schedule: Schedule) => void;
+}
+
+type Transition = 'publish' | 'unpublish' | 'lock' | 'unlock';
+
+// Status badge plus the moves the schedule can make: draft -> published -> locked, and back
+export function ScheduleStatusControls({ scheduleId, status, revision, isPast, hasUnsavedChanges, onChanged }: ScheduleStatusControlsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const transitionMutation = useMutation({
+    mutationFn: async (transition: Transition) => {
+      const params = { id: scheduleId, revision };
+      switch (transition) {
+        case 'publish': {
+          const response = await backend.scheduler.publishSchedule(params);
+          if (response.warnings.length > 0) {
+            toast({
+              title: "Published with warnings",
+              description: response.warnings.slice(0, 3).join('; ')
+            });
+          }
+          return response.schedule;
+        }
+        case 'unpublish':
+          return (await backend.scheduler.unpublishSchedule(params)).schedule;
+        case 'lock':
+          return (await backend.scheduler.lockSchedule(params)).schedule;
+        case 'unlock':
+          return (await backend.scheduler.unlockSchedule(params)).schedule;
+      }
+    },
+    onSuccess: (schedule) => {
+      onChanged(schedule);
+      queryClient.invalidateQueries({ queryKey: ['schedules'] });
+      queryClient.invalidateQueries({ queryKey: ['schedule', scheduleId] });
+    },
+    onError: (error) => {
+      console.error('Failed to change schedule status:', error);
+      const errors: string[] = error instanceof APIError ? error.details?.errors ?? [] : [];
+      toast({
+        title: errors.length > 0 ? "Cannot publish" : "Error",
+        description: errors.length > 0 ? errors.slice(0, 3).join('; ') : (error instanceof Error && error.message ? error.message : "Failed to change schedule status"),
+        variant: "destructive"
+      });
+    }
+  });
+
+  const run = (transition: Transition, question?: string) => {
+    if (question && !confirm(question)) return;
+    transitionMutation.mutate(transition);
+  };
+
+  const busy = transitionMutation.isPending;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <ScheduleStatusBadge status={status} isPast={isPast} />
+      {status === 'draft' && !isPast && (
+        <Button
+          size="sm"
+          onClick={() => run('publish')}
+          disabled={busy || hasUnsavedChanges}
+          title={hasUnsavedChanges ? 'Save your changes before publishing' : undefined}
+        >
+          <Send className="h-4 w-4 mr-2" />
+          Publish
+        </Button>
+      )}
+      {status === 'published' && !isPast && (
+        <Button variant="outline" size="sm" onClick={() => run('unpublish', 'Take this schedule back to draft? The cast will no longer see it.')} disabled={busy}>
+          <Undo2 className="h-4 w-4 mr-2" />
+          Back to draft
+        </Button>
+      )}
+      {status === 'published' && (
+        <Button variant="outline" size="sm" onClick={() => run('lock', 'Lock this schedule? Nobody can change it until it is unlocked.')} disabled={busy}>
+          <Lock className="h-4 w-4 mr-2" />
+          Lock
+        </Button>
+      )}
+      {status === 'locked' && !isPast && (
+        <Button variant="outline" size="sm" onClick={() => run('unlock')} disabled={busy}>
+          <Unlock className="h-4 w-4 mr-2" />
+          Unlock
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { KeyRound, Mail, Plus, Trash2, UserCheck, UserX } from 'lucide-react';
+import type { UserRole } from '~backend/scheduler/access';
+import type { User } from '~backend/scheduler/auth';
+import type { CompanyMember } from '~backend/scheduler/company';
+import backend from '~backend/client';
+import { ROLE_LABELS, USER_ROLES } from '../utils/access';
+import { useAuth } from './AuthProvider';
+
+// Select items cannot have an empty value, so "no linked member" gets its own
+const NO_MEMBER = 'none';
+
+export default function UserManagement() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [username, setUsername] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<UserRole>('cast_member');
+  const [memberId, setMemberId] = useState(NO_MEMBER);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['users'],
+    queryFn: () => backend.scheduler.listUsers()
+  });
+
+  const { data: companyData } = useQuery({
+    queryKey: ['company'],
+    queryFn: () => backend.scheduler.getCompany()
+  });
+  const members = companyData?.currentCompany ?? [];
+
+  const createMutation = useMutation({
+    mutationFn: () => backend.scheduler.createUser({
+      username: username.trim(),
+      displayName: displayName.trim(),
+      password,
+      role,
+      memberId: memberId === NO_MEMBER ? undefined : memberId,
+      email: email.trim() || undefined
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      setUsername('');
+      setDisplayName('');
+      setEmail('');
+      setPassword('');
+      setMemberId(NO_MEMBER);
+      toast({
+        title: "Success",
+        description: "User created"
+      });
+    },
+    onError: (error) => {
+      console.error('Failed to create user:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to create user",
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-64">
+        <div className="text-center">
+          <div className="animate-spin h-8 w-8 border-2 border-blue-600 border-t-transparent rounded-full mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading users...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 max-w-5xl">
+      <p className="text-sm text-gray-600">
+        Stage managers can build and change schedules. Company managers can also publish them and manage the company.
+        Cast members can only view; link them to their company entry so they see their own calls.
+      </p>
+
+      <div className="space-y-3">
+        {(data?.users ?? []).map(user => (
+          <UserRow key={user.id} user={user} members={members} />
+        ))}
+      </div>
+
+      <Card className="border-dashed border-blue-300 bg-blue-50">
+        <CardContent className="p-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Input placeholder="Username" value={username} onChange={(e) => setUsername(e.target.value)} />
+            <Input placeholder="Display name" value={displayName} onChange={(e) => setDisplayName(e.target.value)} />
+            <Input type="email" placeholder="Email for notifications (optional)" value={email} onChange={(e) => setEmail(e.target.value)} />
+            <Input type="password" placeholder="Password (8+ characters)" value={password} onChange={(e) => setPassword(e.target.value)} />
+            <RoleSelect value={role} onChange={setRole} />
+            <MemberSelect value={memberId} members={members} onChange={setMemberId} />
+            <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending || !username.trim() || !password}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add User
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function UserRow({ user, members }: { user: User; members: CompanyMember[] }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user: currentUser } = useAuth();
+  const isSelf = user.id === currentUser.id;
+
+  const updateMutation = useMutation({
+    mutationFn: (changes: { role?: UserRole; memberId?: string | null; email?: string | null; isActive?: boolean; password?: string }) =>
+      backend.scheduler.updateUser({ id: user.id, ...changes }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+    onError: (error) => {
+      console.error('Failed to update user:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to update user",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => backend.scheduler.deleteUser({ id: user.id }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+    onError: (error) => {
+      console.error('Failed to delete user:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to delete user",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleResetPassword = () => {
+    const password = window.prompt(`New password for ${user.displayName} (8+ characters). They will be signed out.`);
+    if (password) {
+      updateMutation.mutate({ password });
+    }
+  };
+
+  const handleSetEmail = () => {
+    const email = window.prompt(`Email for ${user.displayName}'s schedule change notifications. Leave blank to stop emails.`, user.email ?? '');
+    if (email !== null) {
+      updateMutation.mutate({ email: email.trim() || null });
+    }
+  };
+
+  const handleDelete = () => {
+    if (confirm(`Delete the account for ${user.displayName}?`)) {
+      deleteMutation.mutate();
+    }
+  };
+
+  return (
+    <Card className={user.isActive ? undefined : 'opacity-60'}>
+      <CardContent className="p-4 grid grid-cols-1 md:grid-cols-4 gap-3 items-center">
+        <div>
+          <div className="font-medium flex items-center gap-2">
+            {user.displayName}
+            {isSelf && <Badge variant="secondary">You</Badge>}
+            {!user.isActive && <Badge variant="outline">Disabled</Badge>}
+          </div>
+          <div className="text-xs text-gray-500">
+            {user.username}
+            {user.email && ` · ${user.email}`}
+            {user.lastLoginAt && ` · last signed in ${new Date(user.lastLoginAt).toLocaleDateString()}`}
+          </div>
+        </div>
+        <RoleSelect value={user.role} disabled={isSelf} onChange={(role) => updateMutation.mutate({ role })} />
+        <MemberSelect
+          value={user.memberId ?? NO_MEMBER}
+          members={members}
+          onChange={(memberId) => updateMutation.mutate({ memberId: memberId === NO_MEMBER ? null : memberId })}
+        />
+        <div className="flex items-center justify-end space-x-2">
+          <Button variant="outline" size="icon" title="Set notification email" onClick={handleSetEmail}>
+            <Mail className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" title="Reset password" onClick={handleResetPassword}>
+            <KeyRound className="h-4 w-4" />
+          </Button>
+          {!isSelf && (
+            <>
+              <Button
+                variant="outline"
+                size="icon"
+                title={user.isActive ? 'Disable account' : 'Enable account'}
+                onClick={() => updateMutation.mutate({ isActive: !user.isActive })}
+              >
+                {user.isActive ? <UserX className="h-4 w-4" /> : <UserCheck className="h-4 w-4" />}
+              </Button>
+              <Button variant="destructive" size="icon" title="Delete account" onClick={handleDelete}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function RoleSelect({ value, disabled, onChange }: { value: UserRole; disabled?: boolean; onChange: (role: UserRole) => void }) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as UserRole)} disabled={disabled}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {USER_ROLES.map(role => (
+          <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function MemberSelect({ value, members, onChange }: { value: string; members: CompanyMember[]; onChange: (memberId: string) => void }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder="Linked cast member" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_MEMBER}>No linked cast member</SelectItem>
+        {members.map(member => (
+          <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/components/ui/use-toast';
+import { History, GitCompare, RotateCcw } from 'lucide-react';
+import backend from '~backend/client';
+import type { VersionReason } from '~backend/scheduler/versions';
+import { formatTime, formatDate } from '../utils/dateUtils';
+import { askChangeReason } from '../utils/scheduleLifecycle';
+
+interface VersionHistoryProps {
+  scheduleId: string;
+  revision?: number; // Revision loaded in the editor, so a restore never overwrites a newer save
+  requiresChangeReason?: boolean; // The schedule is published
+  readOnly?: boolean; // Locked or past schedules cannot be restored
+}
+
+const REASON_LABELS: Record<VersionReason, string> = {
+  imported: 'Imported',
+  create: 'Created',
+  update: 'Edited',
+  auto_generate: 'Generated',
+  toggle_red_day: 'RED day',
+  replacement: 'Emergency cover',
+  season: 'Season',
+  restore: 'Restored'
+};
+
+export function VersionHistory({ scheduleId, revision, requiresChangeReason, readOnly }: VersionHistoryProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [comparing, setComparing] = useState<number | null>(null);
+
+  const { data } = useQuery({
+    queryKey: ['schedule-versions', scheduleId],
+    queryFn: () => backend.scheduler.listVersions({ id: scheduleId })
+  });
+
+  const { data: diffData, isLoading: isDiffLoading } = useQuery({
+    queryKey: ['schedule-version-diff', scheduleId, comparing],
+    queryFn: () => backend.scheduler.diffVersions({ id: scheduleId, from: comparing! }),
+    enabled: comparing !== null
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: ({ version, changeReason }: { version: number; changeReason?: string }) =>
+      backend.scheduler.restoreVersion({ id: scheduleId, version, revision, changeReason }),
+    onSuccess: (response, { version }) => {
+      queryClient.invalidateQueries({ queryKey: ['schedule', scheduleId] });
+      queryClient.invalidateQueries({ queryKey: ['schedule-versions', scheduleId] });
+      queryClient.invalidateQueries({ queryKey: ['schedules'] });
+      setComparing(null);
+      toast({
+        title: "Version Restored",
+        description: `Version ${version} restored as version ${response.version}`
+      });
+    },
+    onError: (error) => {
+      console.error('Failed to restore version:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to restore version",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleRestore = (version: number) => {
+    if (!confirm(`Restore version ${version}? Unsaved changes in the editor will be lost.`)) {
+      return;
+    }
+    const changeReason = requiresChangeReason ? askChangeReason() : undefined;
+    if (changeReason === null) return;
+    restoreMutation.mutate({ version, changeReason });
+  };
+
+  const versions = data?.versions || [];
+  const latest = versions[0]?.version;
+  const diff = diffData?.diff;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="h-5 w-5" />
+          <span>Version History</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {versions.length === 0 ? (
+          <p className="text-sm text-gray-600">No saved versions yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {versions.map(version => (
+              <div key={version.version} className="flex items-center justify-between border rounded-lg p-2 text-sm">
+                <div className="flex items-center space-x-3">
+                  <span className="font-medium">v{version.version}</span>
+                  <Badge variant={version.version === latest ? 'default' : 'secondary'}>
+                    {REASON_LABELS[version.reason]}
+                    {version.restoredFrom !== undefined && ` v${version.restoredFrom}`}
+                  </Badge>
+                  <span className="text-gray-600">{new Date(version.createdAt).toLocaleString()}</span>
+                  <span className="text-xs text-gray-500">{version.stageAssignments} cells filled</span>
+                  {version.changeReason && (
+                    <span className="text-xs text-gray-700 italic">"{version.changeReason}"</span>
+                  )}
+                </div>
+                {version.version !== latest && (
+                  <div className="flex items-center space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => setComparing(comparing === version.version ? null : version.version)}>
+                      <GitCompare className="h-4 w-4 mr-2" />
+                      {comparing === version.version ? 'Hide' : 'Compare'}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleRestore(version.version)} disabled={readOnly || restoreMutation.isPending}>
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Restore
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {comparing !== null && (
+          <div className="border rounded-lg p-3 bg-gray-50 space-y-2 text-sm">
+            <div className="font-medium">Changes from v{comparing} to v{latest}</div>
+            {isDiffLoading || !diff ? (
+              <p className="text-gray-600">Loading changes...</p>
+            ) : diff.cells.length + diff.redDays.length + diff.shows.length === 0 ? (
+              <p className="text-gray-600">No differences.</p>
+            ) : (
+              <ul className="space-y-1 text-xs">
+                {diff.shows.map(show => (
+                  <li key={`show-${show.showId}`}>
+                    Show {show.change}: {formatDate((show.after ?? show.before)!.date)} {formatTime((show.after ?? show.before)!.time)}
+                  </li>
+                ))}
+                {diff.cells.map(cell => (
+                  <li key={`cell-${cell.showId}-${cell.role}`}>
+                    {formatDate(cell.date)} {formatTime(cell.time)} · {cell.role}: {cell.from || 'empty'} → {cell.to || 'empty'}
+                  </li>
+                ))}
+                {diff.redDays.map(redDay => (
+                  <li key={`red-${redDay.performer}`}>
+                    {redDay.performer} RED day: {redDay.from ? formatDate(redDay.from) : 'none'} → {redDay.to ? formatDate(redDay.to) : 'none'}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,285 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/components/ui/use-toast';
+import { Eye, EyeOff, History, Plus, Power, RefreshCw, Trash2 } from 'lucide-react';
+import type { Webhook, WebhookDeliveryStatus } from '~backend/scheduler/webhooks';
+import type { WebhookEvent } from '~backend/scheduler/webhook_events';
+import backend from '~backend/client';
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  'schedule.created': 'Schedule created',
+  'schedule.updated': 'Schedule updated',
+  'schedule.published': 'Schedule published',
+  'schedule.unpublished': 'Schedule unpublished',
+  'schedule.locked': 'Schedule locked',
+  'schedule.deleted': 'Schedule deleted',
+  'schedule.red_day_toggled': 'RED day toggled',
+  'member.added': 'Member added',
+  'member.archived': 'Member archived'
+};
+const EVENTS = Object.keys(EVENT_LABELS) as WebhookEvent[];
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+export default function WebhookManagement() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['webhooks'],
+    queryFn: () => backend.scheduler.listWebhooks()
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => backend.scheduler.createWebhook({
+      url: url.trim(),
+      description: description.trim() || undefined,
+      events
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+      setUrl('');
+      setDescription('');
+      setEvents([]);
+      toast({
+        title: "Success",
+        description: "Webhook added - give its secret to the receiving system"
+      });
+    },
+    onError: (error) => {
+      console.error('Failed to add webhook:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to add webhook",
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-64">
+        <div className="text-center">
+          <div className="animate-spin h-8 w-8 border-2 border-blue-600 border-t-transparent rounded-full mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading webhooks...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 max-w-5xl">
+      <p className="text-sm text-gray-600">
+        Each event is POSTed as JSON to the URLs subscribed to it. Receivers should check the X-Webhook-Signature header:
+        an HMAC-SHA256 of the X-Webhook-Timestamp, a dot and the raw body, keyed with the webhook's secret.
+        Failed deliveries are retried with increasing gaps for about an hour.
+      </p>
+
+      <div className="space-y-3">
+        {(data?.webhooks ?? []).map(webhook => (
+          <WebhookRow key={webhook.id} webhook={webhook} />
+        ))}
+      </div>
+
+      <Card className="border-dashed border-blue-300 bg-blue-50">
+        <CardContent className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input type="url" placeholder="https://payroll.example.com/hooks/stomp" value={url} onChange={(e) => setUrl(e.target.value)} />
+            <Input placeholder="Description (optional)" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+          <EventPicker value={events} onChange={setEvents} idPrefix="new" />
+          <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending || !url.trim() || events.length === 0}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Webhook
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function WebhookRow({ webhook }: { webhook: Webhook }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showSecret, setShowSecret] = useState(false);
+  const [showDeliveries, setShowDeliveries] = useState(false);
+
+  const updateMutation = useMutation({
+    mutationFn: (changes: { events?: WebhookEvent[]; isActive?: boolean; rotateSecret?: boolean }) =>
+      backend.scheduler.updateWebhook({ id: webhook.id, ...changes }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+    },
+    onError: (error) => {
+      console.error('Failed to update webhook:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to update webhook",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => backend.scheduler.deleteWebhook({ id: webhook.id }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+    },
+    onError: (error) => {
+      console.error('Failed to delete webhook:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to delete webhook",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleRotateSecret = () => {
+    if (confirm('Issue a new secret? Deliveries will fail signature checks until the receiver has it.')) {
+      updateMutation.mutate({ rotateSecret: true });
+      setShowSecret(true);
+    }
+  };
+
+  const handleDelete = () => {
+    if (confirm(`Delete the webhook for ${webhook.url} and its delivery log?`)) {
+      deleteMutation.mutate();
+    }
+  };
+
+  return (
+    <Card className={webhook.isActive ? undefined : 'opacity-60'}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="min-w-0">
+            <div className="font-medium flex items-center gap-2 break-all">
+              {webhook.url}
+              {!webhook.isActive && <Badge variant="outline">Disabled</Badge>}
+            </div>
+            {webhook.description && <div className="text-xs text-gray-500">{webhook.description}</div>}
+            <div className="text-xs text-gray-500 font-mono mt-1">
+              {showSecret ? webhook.secret : 'whsec_••••••••'}
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="icon" title={showSecret ? 'Hide secret' : 'Show secret'} onClick={() => setShowSecret(!showSecret)}>
+              {showSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+            </Button>
+            <Button variant="outline" size="icon" title="Rotate secret" onClick={handleRotateSecret}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" title="Delivery log" onClick={() => setShowDeliveries(!showDeliveries)}>
+              <History className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              title={webhook.isActive ? 'Disable webhook' : 'Enable webhook'}
+              onClick={() => updateMutation.mutate({ isActive: !webhook.isActive })}
+            >
+              <Power className="h-4 w-4" />
+            </Button>
+            <Button variant="destructive" size="icon" title="Delete webhook" onClick={handleDelete}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <EventPicker
+          value={webhook.events}
+          idPrefix={webhook.id}
+          onChange={(events) => events.length > 0 && updateMutation.mutate({ events })}
+        />
+
+        {showDeliveries && <DeliveryLog webhookId={webhook.id} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+function DeliveryLog({ webhookId }: { webhookId: string }) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['webhook-deliveries', webhookId],
+    queryFn: () => backend.scheduler.listWebhookDeliveries({ id: webhookId })
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading deliveries...</p>;
+  }
+
+  const deliveries = data?.deliveries ?? [];
+  if (deliveries.length === 0) {
+    return <p className="text-sm text-gray-500">Nothing sent yet</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto border-t border-gray-100 pt-2">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-1 pr-3 font-medium">Time</th>
+            <th className="py-1 pr-3 font-medium">Event</th>
+            <th className="py-1 pr-3 font-medium">Status</th>
+            <th className="py-1 pr-3 font-medium">Attempts</th>
+            <th className="py-1 font-medium">Last response</th>
+          </tr>
+        </thead>
+        <tbody>
+          {deliveries.map(delivery => (
+            <tr key={delivery.id} className="border-t border-gray-100 align-top">
+              <td className="py-1 pr-3 whitespace-nowrap">{new Date(delivery.createdAt).toLocaleString()}</td>
+              <td className="py-1 pr-3">{EVENT_LABELS[delivery.event] ?? delivery.event}</td>
+              <td className="py-1 pr-3">
+                <span className={`px-2 py-0.5 rounded ${DELIVERY_STATUS_STYLES[delivery.status]}`}>{delivery.status}</span>
+              </td>
+              <td className="py-1 pr-3">{delivery.attempts}</td>
+              <td className="py-1 text-gray-600">
+                {delivery.lastError ?? (delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : '')}
+                {delivery.status === 'pending' && delivery.nextAttemptAt && (
+                  <div className="text-gray-400">next try {new Date(delivery.nextAttemptAt).toLocaleTimeString()}</div>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function EventPicker({ value, idPrefix, onChange }: { value: WebhookEvent[]; idPrefix: string; onChange: (events: WebhookEvent[]) => void }) {
+  const toggle = (event: WebhookEvent, checked: boolean) => {
+    onChange(checked ? [...value, event] : value.filter(e => e !== event));
+  };
+
+  return (
+    <div className="flex flex-wrap gap-x-4 gap-y-2">
+      {EVENTS.map(event => (
+        <div key={event} className="flex items-center space-x-2">
+          <Checkbox
+            id={`${idPrefix}-${event}`}
+            checked={value.includes(event)}
+            onCheckedChange={(checked) => toggle(event, checked as boolean)}
+          />
+          <label htmlFor={`${idPrefix}-${event}`} className="text-sm cursor-pointer">
+            {EVENT_LABELS[event]}
+          </label>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -128,6 +128,7 @@ export function useScheduleManagement(
     {
       enableRealTimeValidation: true,
       validationLevel: 'comprehensive',
+      location: manager.location,
       ...options.validation
     }
   );
@@ -246,7 +247,8 @@ export function useScheduleEditor(scheduleId?: string) {
       enableConstraintChecking: true,
       enableSuggestions: true,
       validationLevel: 'comprehensive',
-      validationDebounceMs: 300
+      validationDebounceMs: 300,
+      location: manager.location
     }
   );
 
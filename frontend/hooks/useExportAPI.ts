@@ -98,7 +98,7 @@ export const useExportAPI = () => {
         performerName: string; 
       }): Promise<CallSheetResponse> => {
         const response = await fetch(
-          `http://localhost:4000/schedules/${scheduleId}/callsheet/${performerName}`
+          `http://localhost:4000/schedules/${scheduleId}/callsheet/${encodeURIComponent(performerName)}`
         );
         if (!response.ok) {
           throw new Error('Failed to generate call sheet');
@@ -1,6 +1,6 @@
 import React, { useState, useCallback, useMemo, useRef } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { backend } from '../client';
+import backend from '~backend/client';
 // import { PerformanceMonitor } from '../utils/performance';
 import { useToast } from '@/components/ui/use-toast';
 import type { 
@@ -99,7 +99,7 @@ export function useScheduleExport(options: UseScheduleExportOptions = {}) {
     queryFn: async () => {
       // PerformanceMonitor.startMeasurement('export-data-fetch', { scheduleId });
       try {
-        const response = await backend.scheduler.getExportData(scheduleId!);
+        const response = await backend.scheduler.getExportData({ id: scheduleId! });
         // PerformanceMonitor.endMeasurement('export-data-fetch');
         return response;
       } catch (error) {
@@ -117,7 +117,7 @@ export function useScheduleExport(options: UseScheduleExportOptions = {}) {
     mutationFn: async ({ performerName }: { performerName: string }) => {
       // PerformanceMonitor.startMeasurement('callsheet-generation', { performerName });
       try {
-        const response = await backend.scheduler.generateCallSheet(scheduleId!, performerName);
+        const response = await backend.scheduler.generateCallSheet({ id: scheduleId!, performer: performerName });
         // PerformanceMonitor.endMeasurement('callsheet-generation');
         return response;
       } catch (error) {
@@ -133,7 +133,7 @@ export function useScheduleExport(options: UseScheduleExportOptions = {}) {
     mutationFn: async () => {
       // PerformanceMonitor.startMeasurement('utilization-report-generation');
       try {
-        const response = await backend.scheduler.generateUtilizationReport(scheduleId!);
+        const response = await backend.scheduler.generateUtilizationReport({ id: scheduleId! });
         // PerformanceMonitor.endMeasurement('utilization-report-generation');
         return response;
       } catch (error) {
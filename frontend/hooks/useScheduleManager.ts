@@ -31,6 +31,7 @@ export const useScheduleManager = (options?: UseScheduleManagerOptions): Schedul
   const [shows, setShows] = useState<Show[]>([]);
   const [assignments, setAssignments] = useState<Assignment[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generationSeed, setGenerationSeed] = useState<number | undefined>();
 
   const isEditing = Boolean(id);
 
@@ -73,7 +74,7 @@ export const useScheduleManager = (options?: UseScheduleManagerOptions): Schedul
   });
 
   const updateMutation = useMutation({
-    mutationFn: (data: { id: string; location?: string; week?: string; shows?: Show[]; assignments?: Assignment[] }) =>
+    mutationFn: (data: { id: string; location?: string; week?: string; shows?: Show[]; assignments?: Assignment[]; seed?: number }) =>
       backend.scheduler.update(data.id, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['schedules'] });
@@ -94,10 +95,25 @@ export const useScheduleManager = (options?: UseScheduleManagerOptions): Schedul
   });
 
   const autoGenerateMutation = useMutation({
-    mutationFn: (shows: Show[]) => backend.scheduler.autoGenerate({ shows }),
+    mutationFn: (shows: Show[]) => backend.scheduler.autoGenerate({
+      shows,
+      location,
+      assignments: assignments.filter(a => a.isLocked)
+    }),
     onSuccess: (response) => {
       if (response.success) {
         setAssignments(response.assignments);
+        setGenerationSeed(response.seed);
+
+        // The solver could not fill every slot without breaking a hard rule
+        if (response.status && response.status !== 'solved') {
+          toast({
+            title: response.locksInfeasible ? "Locked Cells Conflict" : "Partial Schedule",
+            description: response.errors?.[0] || "Some roles could not be filled",
+            variant: "destructive"
+          });
+          return;
+        }
         
         // Check for critical violations in the response
         const stageAssignments = response.assignments.filter(a => a.role !== "OFF");
@@ -119,12 +135,12 @@ export const useScheduleManager = (options?: UseScheduleManagerOptions): Schedul
         } else {
           toast({
             title: "Success",
-            description: "Schedule generated successfully with improved constraints"
+            description: `Schedule generated successfully with improved constraints (seed ${response.seed})`
           });
         }
       } else {
         toast({
-          title: "Generation Failed",
+          title: response.locksInfeasible ? "Locked Cells Conflict" : "Generation Failed",
           description: response.errors?.[0] || "Could not generate a valid schedule",
           variant: "destructive"
         });
@@ -259,7 +275,8 @@ export const useScheduleManager = (options?: UseScheduleManagerOptions): Schedul
           location,
           week,
           shows,
-          assignments
+          assignments,
+          seed: generationSeed
         });
       } else {
         await createMutation.mutateAsync({
@@ -271,7 +288,7 @@ export const useScheduleManager = (options?: UseScheduleManagerOptions): Schedul
     } catch (error) {
       // Error handling is done in mutation onError
     }
-  }, [location, week, shows, assignments, isEditing, id, updateMutation, createMutation, toast]);
+  }, [location, week, shows, assignments, generationSeed, isEditing, id, updateMutation, createMutation, toast]);
 
   const handleAutoGenerate = useCallback(async () => {
     const activeShows = shows.filter(show => show.status === 'show');
@@ -316,6 +333,12 @@ export const useScheduleManager = (options?: UseScheduleManagerOptions): Schedul
     });
   }, []);
 
+  const handleToggleLock = useCallback((showId: string, role: Role) => {
+    setAssignments(prev => prev.map(a =>
+      a.showId === showId && a.role === role ? { ...a, isLocked: !a.isLocked } : a
+    ));
+  }, []);
+
   const handleAssignmentUpdate = useCallback((updatedAssignments: Assignment[]) => {
     setAssignments(updatedAssignments);
   }, []);
@@ -371,6 +394,7 @@ export const useScheduleManager = (options?: UseScheduleManagerOptions): Schedul
       setWeek(schedule.week);
       setShows(schedule.shows);
       setAssignments(schedule.assignments);
+      setGenerationSeed(schedule.seed);
 
       // Calculate week start date from first show
       if (schedule.shows.length > 0) {
@@ -465,6 +489,7 @@ export const useScheduleManager = (options?: UseScheduleManagerOptions): Schedul
     handleAutoGenerate,
     handleClearAll,
     handleAssignmentChange,
+    handleToggleLock,
     handleAssignmentUpdate,
     handleShowStatusChange,
     handleShowChange,
@@ -478,7 +503,7 @@ export const useScheduleManager = (options?: UseScheduleManagerOptions): Schedul
     location, week, weekStartDate, shows, assignments, castData?.castMembers, castData?.roles,
     isEditing, isGenerating, isLoading, createMutation.isPending, updateMutation.isPending, isDirty, id, error, stats,
     setLocation, setWeek, setWeekStartDate, setShows, setAssignments, setIsGenerating,
-    handleSave, handleAutoGenerate, handleClearAll, handleAssignmentChange, handleAssignmentUpdate,
+    handleSave, handleAutoGenerate, handleClearAll, handleAssignmentChange, handleToggleLock, handleAssignmentUpdate,
     handleShowStatusChange, handleShowChange, handleAddShow, handleRemoveShow,
     handleWeekStartDateChange, navigateToPreviousWeek, navigateToNextWeek, navigateToCurrentWeek
   ]);
@@ -59,6 +59,7 @@ export interface UseScheduleValidationOptions {
   enableConstraintChecking?: boolean;
   enableSuggestions?: boolean;
   validationLevel?: 'basic' | 'comprehensive';
+  location?: string; // Validates against this production's rule set
   onValidationChange?: (state: ValidationState) => void;
   customValidators?: CustomValidator[];
 }
@@ -94,6 +95,7 @@ export function useScheduleValidation(
     enableConstraintChecking = true,
     enableSuggestions = true,
     validationLevel = 'comprehensive',
+    location,
     onValidationChange,
     customValidators = []
   } = options;
@@ -123,7 +125,7 @@ export function useScheduleValidation(
 
   // Comprehensive validation mutation
   const validateMutation = useMutation({
-    mutationFn: async (data: { shows: Show[]; assignments: Assignment[] }) => {
+    mutationFn: async (data: { shows: Show[]; assignments: Assignment[]; location?: string }) => {
       // PerformanceMonitor.startMeasurement('schedule-validation', {
       //   showCount: data.shows.length,
       //   assignmentCount: data.assignments.length,
@@ -290,7 +292,7 @@ export function useScheduleValidation(
       },
       
       role: (value: Role | 'OFF') => {
-        const validRoles = ['Sarge', 'Potato', 'Mozzie', 'Ringo', 'Particle', 'Bin', 'Cornish', 'Who', 'OFF'];
+        const validRoles = [...(castData?.roles || []), 'OFF'];
         
         return {
           isValid: validRoles.includes(value),
@@ -312,7 +314,7 @@ export function useScheduleValidation(
     }
 
     return { isValid: true, errors: [], warnings: [], suggestions: [] };
-  }, [castData?.castMembers]);
+  }, [castData?.castMembers, castData?.roles]);
 
   // Custom constraint validation
   const validateConstraints = useMemo((): ConstraintValidation => {
@@ -449,7 +451,9 @@ export function useScheduleValidation(
     // Completeness validation
     const completenessIssues: ValidationIssue[] = [];
     const activeShows = shows.filter(s => s.status === 'show');
-    const requiredRoles: Role[] = ['Sarge', 'Potato', 'Mozzie', 'Ringo', 'Particle', 'Bin', 'Cornish', 'Who'];
+    const requiredRoles: Role[] = (castData?.roleCatalog || [])
+      .filter(role => role.isRequired)
+      .map(role => role.name);
     
     activeShows.forEach(show => {
       requiredRoles.forEach(role => {
@@ -543,7 +547,7 @@ export function useScheduleValidation(
         details: { conflicts: conflictIssues.length }
       }
     };
-  }, [shows, assignments, castData?.castMembers, enableConstraintChecking]);
+  }, [shows, assignments, castData?.castMembers, castData?.roleCatalog, enableConstraintChecking]);
 
   // Trigger validation with debouncing
   const triggerValidation = useCallback(() => {
@@ -556,9 +560,9 @@ export function useScheduleValidation(
     }
 
     validationTimeoutRef.current = setTimeout(() => {
-      validateMutation.mutate({ shows, assignments });
+      validateMutation.mutate({ shows, assignments, location });
     }, validationDebounceMs);
-  }, [enableRealTimeValidation, shows, assignments, validationDebounceMs, validateMutation]);
+  }, [enableRealTimeValidation, shows, assignments, location, validationDebounceMs, validateMutation]);
 
   // Run custom validators
   const runCustomValidators = useCallback(() => {
@@ -600,8 +604,8 @@ export function useScheduleValidation(
     }
     
     setValidationState(prev => ({ ...prev, isValidating: true }));
-    await validateMutation.mutateAsync({ shows, assignments });
-  }, [shows, assignments, validateMutation]);
+    await validateMutation.mutateAsync({ shows, assignments, location });
+  }, [shows, assignments, location, validateMutation]);
 
   // Get validation status for specific field
   const getFieldValidation = useCallback((fieldName: string) => {
@@ -17,12 +17,22 @@ const mockCastMembers = [
 
 const mockRoles = ["Sarge", "Potato", "Mozzie", "Ringo", "Particle", "Bin", "Cornish", "Who"];
 
+const mockRoleCatalog = mockRoles.map((name, index) => ({
+  name,
+  description: "",
+  color: "#6b7280",
+  isRequired: true,
+  femaleOnly: name === "Bin" || name === "Cornish",
+  order: index
+}));
+
 export const handlers = [
   // Cast members endpoint
   http.get('/cast-members', () => {
     return HttpResponse.json({
       castMembers: mockCastMembers,
-      roles: mockRoles
+      roles: mockRoles,
+      roleCatalog: mockRoleCatalog
     });
   }),
 
@@ -38,10 +48,16 @@ export const handlers = [
         order: index
       })),
       archive: [],
-      roles: mockRoles
+      roles: mockRoles,
+      roleCatalog: mockRoleCatalog
     });
   }),
 
+  // Role catalog endpoint
+  http.get('/roles', () => {
+    return HttpResponse.json({ roles: mockRoleCatalog });
+  }),
+
   // Schedules list endpoint
   http.get('/schedules', () => {
     return HttpResponse.json({ schedules: [] });
@@ -90,7 +106,8 @@ export const handlers = [
 
     return HttpResponse.json({
       success: true,
-      assignments: assignments
+      assignments: assignments,
+      seed: requestData.seed ?? 12345
     });
   }),
 
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import type { Assignment, Show } from '~backend/scheduler/types';
+import { mergeScheduleEdits, ScheduleState } from '../scheduleMerge';
+
+const shows: Show[] = [
+  { id: 'tue', date: '2024-01-02', time: '21:00', callTime: '19:00', status: 'show' },
+  { id: 'wed', date: '2024-01-03', time: '21:00', callTime: '19:00', status: 'show' }
+];
+
+const stage = (showId: string, role: Assignment['role'], performer: string): Assignment => ({ showId, role, performer });
+const off = (showId: string, performer: string, isRedDay = false): Assignment => ({ showId, role: 'OFF', performer, isRedDay });
+
+const base: ScheduleState = {
+  shows,
+  assignments: [
+    stage('tue', 'Sarge', 'PHIL'), stage('tue', 'Potato', 'JAMIE'), off('tue', 'SEAN'),
+    stage('wed', 'Sarge', 'SEAN'), stage('wed', 'Potato', 'JAMIE'), off('wed', 'PHIL')
+  ]
+};
+
+const withChanges = (state: ScheduleState, changes: Assignment[]): ScheduleState => ({
+  shows: state.shows,
+  assignments: [
+    ...state.assignments.filter(a => !changes.some(c =>
+      c.showId === a.showId && (c.role === 'OFF' ? a.performer === c.performer : a.role === c.role || a.performer === c.performer)
+    )),
+    ...changes
+  ]
+});
+
+const rowsFor = (assignments: Assignment[], showId: string) =>
+  assignments
+    .filter(a => a.showId === showId)
+    .map(a => `${a.role}:${a.performer}${a.isRedDay ? ':RED' : ''}`)
+    .sort();
+
+describe('mergeScheduleEdits', () => {
+  it('should give an OFF row to the performer a local edit takes off stage', () => {
+    // Locally SEAN replaces PHIL on Tuesday; the other save only touched Wednesday
+    const mine = withChanges(base, [stage('tue', 'Sarge', 'SEAN'), off('tue', 'PHIL')]);
+    const theirs = withChanges(base, [stage('wed', 'Sarge', 'PHIL'), off('wed', 'SEAN')]);
+
+    const merged = mergeScheduleEdits(base, mine, theirs);
+
+    expect(rowsFor(merged.assignments, 'tue')).toEqual(['OFF:PHIL', 'Potato:JAMIE', 'Sarge:SEAN']);
+    expect(rowsFor(merged.assignments, 'wed')).toEqual(['OFF:SEAN', 'Potato:JAMIE', 'Sarge:PHIL']);
+    expect(merged.overlaps).toEqual([]);
+  });
+
+  it('should keep RED days set on either side', () => {
+    const mine = withChanges(base, [off('tue', 'SEAN', true)]);
+    const theirs = withChanges(base, [off('wed', 'PHIL', true)]);
+
+    const merged = mergeScheduleEdits(base, mine, theirs);
+
+    expect(rowsFor(merged.assignments, 'tue')).toContain('OFF:SEAN:RED');
+    expect(rowsFor(merged.assignments, 'wed')).toContain('OFF:PHIL:RED');
+  });
+
+  it('should keep the local edit and report cells both sides changed', () => {
+    const mine = withChanges(base, [stage('tue', 'Sarge', 'SEAN'), off('tue', 'PHIL')]);
+    const theirs = withChanges(base, [stage('tue', 'Sarge', 'JAMIE'), off('tue', 'SEAN')]);
+
+    const merged = mergeScheduleEdits(base, mine, theirs);
+
+    expect(merged.assignments).toContainEqual(stage('tue', 'Sarge', 'SEAN'));
+    expect(merged.overlaps).toContain('tue|Sarge');
+  });
+
+  it('should report a performer the merge puts in two roles of one show', () => {
+    // Locally SEAN takes Potato on Tuesday; the other save gave SEAN Sarge in the same show
+    const mine = withChanges(base, [stage('tue', 'Potato', 'SEAN'), off('tue', 'JAMIE')]);
+    const theirs = withChanges(base, [stage('tue', 'Sarge', 'SEAN'), off('tue', 'PHIL')]);
+
+    const merged = mergeScheduleEdits(base, mine, theirs);
+
+    expect(rowsFor(merged.assignments, 'tue')).toEqual(['OFF:JAMIE', 'OFF:PHIL', 'Potato:SEAN', 'Sarge:SEAN']);
+    expect(merged.overlaps.sort()).toEqual(['tue|Potato', 'tue|Sarge']);
+  });
+});
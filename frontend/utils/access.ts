@@ -0,0 +1,37 @@
+import type { UserRole, Permission } from '~backend/scheduler/access';
+
+// Mirrors the server's role table so the UI can hide what a role cannot do; the server still enforces it
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ['portal.view', 'schedules.view', 'schedules.edit', 'schedules.publish', 'company.manage', 'users.manage', 'integrations.manage'],
+  company_manager: ['portal.view', 'schedules.view', 'schedules.edit', 'schedules.publish', 'company.manage'],
+  stage_manager: ['portal.view', 'schedules.view', 'schedules.edit'],
+  cast_member: ['portal.view']
+};
+
+export const USER_ROLES: UserRole[] = ['admin', 'company_manager', 'stage_manager', 'cast_member'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  company_manager: 'Company manager',
+  stage_manager: 'Stage manager',
+  cast_member: 'Cast member'
+};
+
+export function hasPermission(role: UserRole | undefined, permission: Permission): boolean {
+  return role ? ROLE_PERMISSIONS[role].includes(permission) : false;
+}
+
+// The default client in client.ts reads the token from the same key
+const SESSION_TOKEN_KEY = 'stomp.sessionToken';
+
+export function getSessionToken(): string | null {
+  return localStorage.getItem(SESSION_TOKEN_KEY);
+}
+
+export function setSessionToken(token: string): void {
+  localStorage.setItem(SESSION_TOKEN_KEY, token);
+}
+
+export function clearSessionToken(): void {
+  localStorage.removeItem(SESSION_TOKEN_KEY);
+}
@@ -0,0 +1,25 @@
+import type { UnavailabilityType, UnavailabilityStatus } from '~backend/scheduler/types';
+
+export const UNAVAILABILITY_TYPE_LABELS: Record<UnavailabilityType, string> = {
+  vacation: 'Vacation',
+  sick: 'Sick',
+  personal: 'Personal',
+  hold: 'Hold'
+};
+
+export const UNAVAILABILITY_STATUS_STYLES: Record<UnavailabilityStatus, string> = {
+  approved: 'bg-green-100 text-green-800',
+  pending: 'bg-yellow-100 text-yellow-800',
+  declined: 'bg-gray-100 text-gray-600'
+};
+
+// RED day preferences are stored as weekday numbers, 0 = Sunday; listed Monday first like the schedule week
+export const WEEKDAYS: Array<{ day: number; label: string }> = [
+  { day: 1, label: 'Mon' },
+  { day: 2, label: 'Tue' },
+  { day: 3, label: 'Wed' },
+  { day: 4, label: 'Thu' },
+  { day: 5, label: 'Fri' },
+  { day: 6, label: 'Sat' },
+  { day: 0, label: 'Sun' }
+];
@@ -0,0 +1,26 @@
+import type { Show, ScheduleStatus } from '~backend/scheduler/types';
+
+export const STATUS_LABELS: Record<ScheduleStatus, string> = {
+  draft: 'Draft',
+  published: 'Published',
+  locked: 'Locked'
+};
+
+export const STATUS_BADGE_CLASSES: Record<ScheduleStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700 border-gray-200',
+  published: 'bg-green-100 text-green-800 border-green-200',
+  locked: 'bg-blue-100 text-blue-800 border-blue-200'
+};
+
+// Matches the server: a week is read-only once its last show date has gone by
+export function isPastWeek(shows: Show[]): boolean {
+  if (shows.length === 0) return false;
+  const today = new Date().toISOString().split('T')[0];
+  return shows.map(show => show.date).sort()[shows.length - 1] < today;
+}
+
+// Asks for the reason the server requires before a published schedule is changed; null when cancelled
+export function askChangeReason(): string | null {
+  const reason = window.prompt('This schedule is published. What changed, and why? The cast will see this reason.');
+  return reason && reason.trim() ? reason.trim() : null;
+}
@@ -0,0 +1,106 @@
+import type { Show, Assignment } from '~backend/scheduler/types';
+
+export interface ScheduleState {
+  shows: Show[];
+  assignments: Assignment[];
+}
+
+export interface MergeResult extends ScheduleState {
+  // "showId|role" cells to review: both sides changed them to different performers (the local edit
+  // is kept), or the merge left their performer in two roles of the same show
+  overlaps: string[];
+}
+
+const cellKey = (assignment: Assignment) => `${assignment.showId}|${assignment.role}`;
+
+function stageCells(assignments: Assignment[]): Map<string, Assignment> {
+  const cells = new Map<string, Assignment>();
+  assignments
+    .filter(a => a.role !== 'OFF' && a.performer)
+    .forEach(a => cells.set(cellKey(a), a));
+  return cells;
+}
+
+function offRows(assignments: Assignment[]): Map<string, Assignment> {
+  const rows = new Map<string, Assignment>();
+  assignments
+    .filter(a => a.role === 'OFF')
+    .forEach(a => rows.set(`${a.showId}|${a.performer}`, a));
+  return rows;
+}
+
+// Three-way merge of stage cells: starts from the saved schedule and replays every cell
+// the editor changed since it loaded `base`. Everyone in the cast who is not on stage in a
+// merged show gets an OFF entry; a RED day the editor changed wins over the saved one.
+export function mergeScheduleEdits(base: ScheduleState, mine: ScheduleState, theirs: ScheduleState): MergeResult {
+  const baseCells = stageCells(base.assignments);
+  const mineCells = stageCells(mine.assignments);
+  const merged = stageCells(theirs.assignments);
+  const overlaps: string[] = [];
+
+  for (const key of new Set([...baseCells.keys(), ...mineCells.keys()])) {
+    const before = baseCells.get(key)?.performer ?? '';
+    const mineCell = mineCells.get(key);
+    if ((mineCell?.performer ?? '') === before) continue;
+
+    const theirsPerformer = merged.get(key)?.performer ?? '';
+    if (theirsPerformer !== before && theirsPerformer !== (mineCell?.performer ?? '')) {
+      overlaps.push(key);
+    }
+    if (mineCell) {
+      merged.set(key, mineCell);
+    } else {
+      merged.delete(key);
+    }
+  }
+
+  // Only keep cells for shows that still exist
+  const showsChanged = JSON.stringify(mine.shows) !== JSON.stringify(base.shows);
+  const shows = showsChanged ? mine.shows : theirs.shows;
+  const showIds = new Set(shows.map(show => show.id));
+  const stage = [...merged.values()].filter(a => showIds.has(a.showId));
+
+  // Cells from each side can put the same performer in two roles of one show
+  const cellsByPerformer = new Map<string, string[]>();
+  for (const cell of stage) {
+    const key = `${cell.showId}|${cell.performer}`;
+    cellsByPerformer.set(key, [...(cellsByPerformer.get(key) ?? []), cellKey(cell)]);
+  }
+  for (const keys of cellsByPerformer.values()) {
+    if (keys.length > 1) overlaps.push(...keys.filter(key => !overlaps.includes(key)));
+  }
+
+  // The cast as both sides know it, so nobody moved off stage by either edit drops out of a show
+  const cast = new Map<string, string | undefined>();
+  [...theirs.assignments, ...mine.assignments].forEach(a => {
+    if (a.performer && !cast.has(a.performer)) cast.set(a.performer, a.performerId);
+  });
+  const baseOff = offRows(base.assignments);
+  const mineOff = offRows(mine.assignments);
+  const theirsOff = offRows(theirs.assignments);
+
+  const offEntries: Assignment[] = [];
+  for (const show of shows.filter(s => s.status === 'show')) {
+    for (const [performer, performerId] of cast) {
+      if (cellsByPerformer.has(`${show.id}|${performer}`)) continue;
+
+      const key = `${show.id}|${performer}`;
+      const mineRedDay = mineOff.get(key)?.isRedDay ?? false;
+      const isRedDay = mineRedDay !== (baseOff.get(key)?.isRedDay ?? false)
+        ? mineRedDay
+        : theirsOff.get(key)?.isRedDay ?? mineRedDay;
+      const covers = theirsOff.get(key)?.covers;
+
+      offEntries.push({
+        showId: show.id,
+        role: 'OFF',
+        performer,
+        ...(performerId ? { performerId } : {}),
+        isRedDay,
+        ...(covers ? { covers } : {})
+      });
+    }
+  }
+
+  return { shows, assignments: [...stage, ...offEntries], overlaps };
+}